@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    // Transpile only: type errors are reported by tsc, not by the test run
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true } }],
+  },
+  // @prisma/client is replaced by src/__mocks__/@prisma/client.ts, so tests never need a database
+  setupFiles: ['<rootDir>/src/test/setup.ts'],
+};
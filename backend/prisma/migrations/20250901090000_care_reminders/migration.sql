@@ -0,0 +1,33 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_users" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "email" TEXT NOT NULL,
+    "password_hash" TEXT NOT NULL,
+    "first_name" TEXT,
+    "last_name" TEXT,
+    "role" TEXT NOT NULL DEFAULT 'USER',
+    "is_email_verified" BOOLEAN NOT NULL DEFAULT false,
+    "email_verified_at" DATETIME,
+    "avatar_url" TEXT,
+    "timezone" TEXT NOT NULL DEFAULT 'Africa/Cairo',
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "reminder_hour" INTEGER NOT NULL DEFAULT 8,
+    "last_login_at" DATETIME,
+    "password_changed_at" DATETIME,
+    "two_factor_enabled" BOOLEAN NOT NULL DEFAULT false,
+    "two_factor_secret" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    "deleted_at" DATETIME
+);
+INSERT INTO "new_users" ("avatar_url", "created_at", "deleted_at", "email", "email_verified_at", "first_name", "id", "is_email_verified", "language", "last_login_at", "last_name", "password_changed_at", "password_hash", "role", "timezone", "two_factor_enabled", "two_factor_secret", "updated_at") SELECT "avatar_url", "created_at", "deleted_at", "email", "email_verified_at", "first_name", "id", "is_email_verified", "language", "last_login_at", "last_name", "password_changed_at", "password_hash", "role", "timezone", "two_factor_enabled", "two_factor_secret", "updated_at" FROM "users";
+DROP TABLE "users";
+ALTER TABLE "new_users" RENAME TO "users";
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "notifications_user_id_scheduled_for_idx" ON "notifications"("user_id", "scheduled_for");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "diagnoses" ADD COLUMN "candidates" TEXT;
+ALTER TABLE "diagnoses" ADD COLUMN "notes" TEXT;
+ALTER TABLE "diagnoses" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'open';
+ALTER TABLE "diagnoses" ADD COLUMN "resolved_at" DATETIME;
+ALTER TABLE "diagnoses" ADD COLUMN "feedback_at" DATETIME;
+ALTER TABLE "diagnoses" ADD COLUMN "feedback_notes" TEXT;
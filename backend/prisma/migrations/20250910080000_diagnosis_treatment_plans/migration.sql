@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "diagnoses" ADD COLUMN "treatment_plan" TEXT;
+ALTER TABLE "diagnoses" ADD COLUMN "treatment_started_at" DATETIME;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "species" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "scientific_name" TEXT NOT NULL,
+    "name_english" TEXT NOT NULL,
+    "name_arabic" TEXT NOT NULL,
+    "watering_interval_min_days" INTEGER NOT NULL,
+    "watering_interval_max_days" INTEGER NOT NULL,
+    "light_min" TEXT NOT NULL,
+    "light_max" TEXT NOT NULL,
+    "direct_sun" BOOLEAN NOT NULL DEFAULT false,
+    "environment" TEXT NOT NULL,
+    "temperature_min_c" REAL NOT NULL,
+    "temperature_max_c" REAL NOT NULL,
+    "humidity_min_percent" INTEGER NOT NULL,
+    "humidity_max_percent" INTEGER NOT NULL,
+    "regions" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "species_key_key" ON "species"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "species_scientific_name_key" ON "species"("scientific_name");
@@ -0,0 +1,36 @@
+-- RedefineTables
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_species" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "scientific_name" TEXT NOT NULL,
+    "name_english" TEXT NOT NULL,
+    "name_arabic" TEXT NOT NULL,
+    "watering_interval_min_days" INTEGER NOT NULL,
+    "watering_interval_max_days" INTEGER NOT NULL,
+    "light_min" TEXT NOT NULL,
+    "light_max" TEXT NOT NULL,
+    "direct_sun" BOOLEAN NOT NULL DEFAULT false,
+    "environment" TEXT NOT NULL,
+    "temperature_min_c" REAL NOT NULL,
+    "temperature_max_c" REAL NOT NULL,
+    "humidity_min_percent" INTEGER NOT NULL,
+    "humidity_max_percent" INTEGER NOT NULL,
+    "regions" TEXT,
+    "aliases" TEXT,
+    "care_guide" TEXT,
+    "reference_photos" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "deprecated_at" DATETIME,
+    "merged_into_id" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "species_merged_into_id_fkey" FOREIGN KEY ("merged_into_id") REFERENCES "species" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_species" ("id", "key", "scientific_name", "name_english", "name_arabic", "watering_interval_min_days", "watering_interval_max_days", "light_min", "light_max", "direct_sun", "environment", "temperature_min_c", "temperature_max_c", "humidity_min_percent", "humidity_max_percent", "regions", "created_at", "updated_at") SELECT "id", "key", "scientific_name", "name_english", "name_arabic", "watering_interval_min_days", "watering_interval_max_days", "light_min", "light_max", "direct_sun", "environment", "temperature_min_c", "temperature_max_c", "humidity_min_percent", "humidity_max_percent", "regions", "created_at", "updated_at" FROM "species";
+DROP TABLE "species";
+ALTER TABLE "new_species" RENAME TO "species";
+CREATE UNIQUE INDEX "species_key_key" ON "species"("key");
+CREATE UNIQUE INDEX "species_scientific_name_key" ON "species"("scientific_name");
+PRAGMA foreign_key_check;
+PRAGMA foreign_keys=ON;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "identifications" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "user_id" TEXT NOT NULL,
+    "description" TEXT,
+    "image_url" TEXT,
+    "context" TEXT,
+    "provider" TEXT,
+    "species_key" TEXT,
+    "scientific_name" TEXT NOT NULL,
+    "confidence" REAL NOT NULL,
+    "candidates" TEXT,
+    "plant_id" TEXT,
+    "adopted_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "identifications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "identifications_plant_id_fkey" FOREIGN KEY ("plant_id") REFERENCES "plants" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "identifications_user_id_created_at_idx" ON "identifications"("user_id", "created_at");
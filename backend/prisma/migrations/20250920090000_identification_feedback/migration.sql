@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "identifications" ADD COLUMN "feedback" TEXT;
+ALTER TABLE "identifications" ADD COLUMN "actual_species_key" TEXT;
+ALTER TABLE "identifications" ADD COLUMN "actual_name" TEXT;
+ALTER TABLE "identifications" ADD COLUMN "feedback_at" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "identifications_species_key_idx" ON "identifications"("species_key");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "image_assets" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "user_id" TEXT,
+    "content_type" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "renditions" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "image_assets_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "image_assets_key_key" ON "image_assets"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "image_assets_url_key" ON "image_assets"("url");
+
+-- CreateIndex
+CREATE INDEX "image_assets_user_id_idx" ON "image_assets"("user_id");
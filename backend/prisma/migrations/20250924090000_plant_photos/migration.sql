@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "plant_photos" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "plant_id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "caption" TEXT,
+    "taken_at" DATETIME NOT NULL,
+    "position" INTEGER NOT NULL,
+    "care_log_id" TEXT,
+    "diagnosis_id" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "plant_photos_plant_id_fkey" FOREIGN KEY ("plant_id") REFERENCES "plants" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "plant_photos_care_log_id_fkey" FOREIGN KEY ("care_log_id") REFERENCES "care_logs" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "plant_photos_diagnosis_id_fkey" FOREIGN KEY ("diagnosis_id") REFERENCES "diagnoses" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "plant_photos_plant_id_taken_at_idx" ON "plant_photos"("plant_id", "taken_at");
+
+-- Move the image_urls JSON arrays into plant_photos, dated when the plant was added
+INSERT INTO "plant_photos" ("id", "plant_id", "url", "taken_at", "position", "created_at")
+SELECT
+    lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' ||
+    substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))),
+    "plants"."id",
+    "urls"."value",
+    "plants"."created_at",
+    "urls"."key",
+    "plants"."created_at"
+FROM "plants", json_each(CASE WHEN json_valid("plants"."image_urls") THEN "plants"."image_urls" ELSE '[]' END) AS "urls"
+WHERE "urls"."type" = 'text';
+
+-- Primary photos that were not in image_urls
+INSERT INTO "plant_photos" ("id", "plant_id", "url", "taken_at", "position", "created_at")
+SELECT
+    lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' ||
+    substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))),
+    "plants"."id",
+    "plants"."primary_image_url",
+    "plants"."created_at",
+    (SELECT COUNT(*) FROM "plant_photos" WHERE "plant_photos"."plant_id" = "plants"."id"),
+    "plants"."created_at"
+FROM "plants"
+WHERE "plants"."primary_image_url" IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "plant_photos"
+    WHERE "plant_photos"."plant_id" = "plants"."id" AND "plant_photos"."url" = "plants"."primary_image_url"
+  );
+
+-- AlterTable
+ALTER TABLE "plants" DROP COLUMN "image_urls";
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "plants" ADD COLUMN "next_care_due_at" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "plants_user_id_next_care_due_at_idx" ON "plants"("user_id", "next_care_due_at");
+
+-- Backfill with the earliest due date of the care schedule (defaults: watering 7, fertilizing 30,
+-- pruning 90, repotting 365 days), counting from the acquisition date when never cared for
+UPDATE "plants" SET "next_care_due_at" = MIN(
+    COALESCE("last_watered_at", "acquisition_date", "created_at") + COALESCE("watering_frequency", 7) * 86400000,
+    COALESCE("last_fertilized_at", "acquisition_date", "created_at") + COALESCE("fertilizing_frequency", 30) * 86400000,
+    COALESCE("last_pruned_at", "acquisition_date", "created_at") + 90 * 86400000,
+    COALESCE("last_repotted_at", "acquisition_date", "created_at") + 365 * 86400000
+);
@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "spaces" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "environment" TEXT NOT NULL DEFAULT 'indoor',
+    "light_exposure" TEXT,
+    "orientation" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "spaces_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_plants" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "scientific_name" TEXT,
+    "common_names" TEXT,
+    "user_id" TEXT NOT NULL,
+    "variety" TEXT,
+    "age" INTEGER,
+    "acquisition_date" DATETIME,
+    "source" TEXT,
+    "primary_image_url" TEXT,
+    "health_status" TEXT NOT NULL DEFAULT 'GOOD',
+    "health_score" REAL,
+    "watering_frequency" INTEGER,
+    "fertilizing_frequency" INTEGER,
+    "sunlight_requirement" TEXT,
+    "temperature_min" REAL,
+    "temperature_max" REAL,
+    "humidity_requirement" TEXT,
+    "last_watered_at" DATETIME,
+    "last_fertilized_at" DATETIME,
+    "last_pruned_at" DATETIME,
+    "last_repotted_at" DATETIME,
+    "next_care_due_at" DATETIME,
+    "location" TEXT,
+    "space_id" TEXT,
+    "identification_confidence" REAL,
+    "identification_source" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    "deleted_at" DATETIME,
+    CONSTRAINT "plants_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "plants_space_id_fkey" FOREIGN KEY ("space_id") REFERENCES "spaces" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_plants" ("id", "name", "scientific_name", "common_names", "user_id", "variety", "age", "acquisition_date", "source", "primary_image_url", "health_status", "health_score", "watering_frequency", "fertilizing_frequency", "sunlight_requirement", "temperature_min", "temperature_max", "humidity_requirement", "last_watered_at", "last_fertilized_at", "last_pruned_at", "last_repotted_at", "next_care_due_at", "location", "identification_confidence", "identification_source", "created_at", "updated_at", "deleted_at") SELECT "id", "name", "scientific_name", "common_names", "user_id", "variety", "age", "acquisition_date", "source", "primary_image_url", "health_status", "health_score", "watering_frequency", "fertilizing_frequency", "sunlight_requirement", "temperature_min", "temperature_max", "humidity_requirement", "last_watered_at", "last_fertilized_at", "last_pruned_at", "last_repotted_at", "next_care_due_at", "location", "identification_confidence", "identification_source", "created_at", "updated_at", "deleted_at" FROM "plants";
+DROP TABLE "plants";
+ALTER TABLE "new_plants" RENAME TO "plants";
+CREATE INDEX "plants_user_id_next_care_due_at_idx" ON "plants"("user_id", "next_care_due_at");
+CREATE INDEX "plants_space_id_idx" ON "plants"("space_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "spaces_user_id_name_key" ON "spaces"("user_id", "name");
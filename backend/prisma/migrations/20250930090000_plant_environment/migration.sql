@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "plants" ADD COLUMN "environment" TEXT NOT NULL DEFAULT 'indoor';
+
+-- CreateIndex
+CREATE INDEX "plants_user_id_environment_idx" ON "plants"("user_id", "environment");
+
+-- Plants in a space take its environment
+UPDATE "plants" SET "environment" = (
+    SELECT "spaces"."environment" FROM "spaces" WHERE "spaces"."id" = "plants"."space_id"
+)
+WHERE "space_id" IS NOT NULL;
+
+-- Others take their species' default when the catalogue has a single one
+UPDATE "plants" SET "environment" = (
+    SELECT "species"."environment" FROM "species" WHERE "species"."scientific_name" = "plants"."scientific_name"
+)
+WHERE "space_id" IS NULL AND EXISTS (
+    SELECT 1 FROM "species"
+    WHERE "species"."scientific_name" = "plants"."scientific_name" AND "species"."environment" IN ('indoor', 'outdoor')
+);
@@ -0,0 +1,43 @@
+-- Load the starting species catalogue (src/data/egyptian-plants.ts), so a deployment that only runs
+-- `prisma migrate deploy` does not start with an empty catalogue. Species already in the table, by
+-- key or scientific name, are left as admins edited or imported them.
+CREATE TEMP TABLE "species_catalogue" (
+    "id" TEXT, "key" TEXT, "scientific_name" TEXT, "name_english" TEXT, "name_arabic" TEXT,
+    "watering_interval_min_days" INTEGER, "watering_interval_max_days" INTEGER,
+    "light_min" TEXT, "light_max" TEXT, "direct_sun" BOOLEAN, "environment" TEXT,
+    "temperature_min_c" REAL, "temperature_max_c" REAL,
+    "humidity_min_percent" INTEGER, "humidity_max_percent" INTEGER, "regions" TEXT
+);
+
+INSERT INTO "species_catalogue" VALUES
+    ('a59458d4-564a-5ab6-a6d8-10c1efd183fb', 'pothos', 'Epipremnum aureum', 'Pothos', 'البوتس', 5, 7, 'medium', 'bright', 0, 'indoor', 18, 30, 40, 70, '["greater-cairo"]'),
+    ('29f691b3-221d-5c32-a2e6-78f8d14440aa', 'snake-plant', 'Sansevieria trifasciata', 'Snake Plant', 'نبات الثعبان', 14, 21, 'low', 'bright', 0, 'indoor', 15, 32, 30, 50, '["greater-cairo"]'),
+    ('085a11ef-3593-5bed-ba79-b7cf15a99507', 'zz-plant', 'Zamioculcas zamiifolia', 'ZZ Plant', 'نبات زي زي', 14, 21, 'low', 'bright', 0, 'indoor', 15, 30, 30, 50, '["greater-cairo"]'),
+    ('0a4d91ff-ce98-5da6-aac3-55086365f7d2', 'aloe-vera', 'Aloe vera', 'Aloe Vera', 'الصبار', 14, 21, 'medium', 'bright', 0, 'both', 13, 32, 20, 50, '["mediterranean-coast","upper-egypt","red-sea-sinai","western-desert"]'),
+    ('8bbc0a93-5b2e-540b-abff-c74963c3db62', 'jasmine', 'Jasminum officinale', 'Jasmine', 'الياسمين', 2, 3, 'medium', 'bright', 1, 'outdoor', 15, 35, 40, 60, '["greater-cairo","delta"]'),
+    ('0c816f16-ea2e-5015-992c-140a73371c67', 'mint', 'Mentha', 'Mint', 'النعناع', 1, 2, 'medium', 'bright', 1, 'both', 15, 30, 50, 70, '["delta"]'),
+    ('54afb4e1-193c-5dfb-a782-48778839ac7b', 'basil', 'Ocimum basilicum', 'Basil', 'الريحان', 1, 2, 'bright', 'bright', 1, 'both', 18, 35, 40, 60, '["delta","upper-egypt"]'),
+    ('bc9071d6-f37d-5804-8fa0-d0c59744452e', 'rose', 'Rosa', 'Rose', 'الورد', 2, 3, 'bright', 'bright', 1, 'outdoor', 15, 30, 40, 60, '["delta","canal"]'),
+    ('75319d0c-990b-5ba4-aeb3-8ee8c78cb15a', 'cactus', 'Cactaceae', 'Cactus', 'الصبار الشوكي', 14, 28, 'bright', 'bright', 1, 'both', 15, 38, 10, 40, '["upper-egypt","red-sea-sinai","western-desert"]'),
+    ('3cac0905-de1d-55fb-aa6d-9746c2be483b', 'ficus', 'Ficus benjamina', 'Ficus', 'فيكس', 5, 7, 'medium', 'bright', 0, 'indoor', 16, 30, 40, 60, '["greater-cairo"]'),
+    ('f16aa6c4-80e5-53f1-927b-88bc2c325948', 'rubber-plant', 'Ficus elastica', 'Rubber Plant', 'نبات المطاط', 5, 7, 'medium', 'bright', 0, 'indoor', 16, 30, 40, 60, '["greater-cairo"]'),
+    ('1eca9d4e-6052-5d85-b7c3-144fe5d3f9b3', 'spider-plant', 'Chlorophytum comosum', 'Spider Plant', 'نبات العنكبوت', 5, 7, 'medium', 'bright', 0, 'indoor', 13, 27, 40, 60, '[]'),
+    ('03c6b702-107a-5d8f-b9a4-e9f1eeb2b830', 'peace-lily', 'Spathiphyllum', 'Peace Lily', 'زنبقة السلام', 5, 7, 'low', 'medium', 0, 'indoor', 18, 30, 50, 70, '[]'),
+    ('204d93fa-e28d-5047-97f9-6b298726cbbf', 'monstera', 'Monstera deliciosa', 'Monstera', 'مونستيرا', 7, 10, 'medium', 'bright', 0, 'indoor', 18, 30, 50, 70, '[]'),
+    ('dca9b8b0-a7bc-5906-ae13-fd3103ecc445', 'fiddle-leaf-fig', 'Ficus lyrata', 'Fiddle Leaf Fig', 'تين الكمان', 7, 10, 'medium', 'bright', 0, 'indoor', 16, 30, 40, 60, '[]'),
+    ('0e331b2b-343b-51fa-be57-dc6f1a20b0c0', 'bougainvillea', 'Bougainvillea', 'Bougainvillea', 'الجهنمية', 3, 4, 'bright', 'bright', 1, 'outdoor', 15, 38, 30, 50, '["greater-cairo","mediterranean-coast","canal","upper-egypt","red-sea-sinai"]'),
+    ('ab737192-13dd-5c78-b4b6-c7757c1a074d', 'hibiscus', 'Hibiscus rosa-sinensis', 'Hibiscus', 'الخطمي', 2, 3, 'bright', 'bright', 1, 'outdoor', 16, 35, 40, 60, '["greater-cairo","canal","upper-egypt"]'),
+    ('411c8d45-6ad6-56ba-b9b0-9d4028bb3bb7', 'oleander', 'Nerium oleander', 'Oleander', 'الدفلة', 3, 4, 'bright', 'bright', 1, 'outdoor', 10, 40, 20, 50, '["mediterranean-coast","canal","red-sea-sinai","western-desert"]'),
+    ('b4727eef-2632-533e-9819-c4918c91169a', 'palm-tree', 'Arecaceae', 'Palm Tree', 'النخيل', 5, 7, 'bright', 'bright', 0, 'both', 15, 38, 30, 60, '["mediterranean-coast","canal","upper-egypt","red-sea-sinai","western-desert"]'),
+    ('ed4e72ae-2e89-57be-8dbd-a69a235af61d', 'lavender', 'Lavandula', 'Lavender', 'الخزامى', 7, 10, 'bright', 'bright', 1, 'outdoor', 10, 30, 20, 40, '["mediterranean-coast"]'),
+    ('77d5a79c-9e35-52b7-9e65-fdebcfaeddba', 'geranium', 'Pelargonium', 'Geranium', 'الغرنوق', 3, 4, 'medium', 'bright', 1, 'both', 10, 28, 40, 60, '["delta","mediterranean-coast"]'),
+    ('ac76db0d-a2f1-567e-94ed-e97d12295e95', 'marigold', 'Tagetes', 'Marigold', 'القطيفة', 2, 3, 'bright', 'bright', 1, 'outdoor', 15, 32, 40, 60, '["delta"]'),
+    ('f52b68db-f2a4-5cf2-8a0d-83e86ba280ba', 'petunias', 'Petunia', 'Petunias', 'البتونيا', 2, 3, 'bright', 'bright', 1, 'outdoor', 15, 30, 40, 60, '["delta"]'),
+    ('34293f5b-ecbe-5a8d-9dda-c4e2b99ed474', 'rosemary', 'Rosmarinus officinalis', 'Rosemary', 'إكليل الجبل', 7, 10, 'bright', 'bright', 1, 'both', 10, 32, 20, 50, '["mediterranean-coast","red-sea-sinai"]'),
+    ('293bb7da-ca58-54c1-92ac-7efb046a46fa', 'thyme', 'Thymus vulgaris', 'Thyme', 'الزعتر', 5, 7, 'bright', 'bright', 1, 'both', 10, 32, 20, 50, '["red-sea-sinai"]');
+
+INSERT OR IGNORE INTO "species" ("id", "key", "scientific_name", "name_english", "name_arabic", "watering_interval_min_days", "watering_interval_max_days", "light_min", "light_max", "direct_sun", "environment", "temperature_min_c", "temperature_max_c", "humidity_min_percent", "humidity_max_percent", "regions", "created_at", "updated_at")
+SELECT *, CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000
+FROM "species_catalogue";
+
+DROP TABLE "species_catalogue";
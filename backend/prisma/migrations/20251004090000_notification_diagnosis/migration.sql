@@ -0,0 +1,34 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_notifications" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "user_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "priority" TEXT NOT NULL DEFAULT 'normal',
+    "metadata" TEXT,
+    "diagnosis_id" TEXT,
+    "is_read" BOOLEAN NOT NULL DEFAULT false,
+    "read_at" DATETIME,
+    "scheduled_for" DATETIME,
+    "sent_at" DATETIME,
+    "completed_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "notifications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "notifications_diagnosis_id_fkey" FOREIGN KEY ("diagnosis_id") REFERENCES "diagnoses" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+-- Treatment reminders and follow-up checks kept their diagnosis only in the metadata JSON
+INSERT INTO "new_notifications" ("id", "user_id", "title", "message", "type", "priority", "metadata", "diagnosis_id", "is_read", "read_at", "scheduled_for", "sent_at", "completed_at", "created_at")
+SELECT "n"."id", "n"."user_id", "n"."title", "n"."message", "n"."type", "n"."priority", "n"."metadata", "d"."id", "n"."is_read", "n"."read_at", "n"."scheduled_for", "n"."sent_at", "n"."completed_at", "n"."created_at"
+FROM "notifications" AS "n"
+LEFT JOIN "diagnoses" AS "d"
+    ON "n"."type" IN ('treatment_reminder', 'diagnosis_follow_up')
+    AND "d"."id" = CASE WHEN json_valid("n"."metadata") THEN json_extract("n"."metadata", '$.diagnosisId') END;
+DROP TABLE "notifications";
+ALTER TABLE "new_notifications" RENAME TO "notifications";
+CREATE INDEX "notifications_user_id_scheduled_for_idx" ON "notifications"("user_id", "scheduled_for");
+CREATE INDEX "notifications_diagnosis_id_idx" ON "notifications"("diagnosis_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
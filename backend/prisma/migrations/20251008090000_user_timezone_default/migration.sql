@@ -0,0 +1,3 @@
+-- Users created before care reminders were copied over with the old 'UTC' default, which put their
+-- reminders and "today" on UTC time. Move them to the new default, like users registered since.
+UPDATE "users" SET "timezone" = 'Africa/Cairo' WHERE "timezone" = 'UTC';
@@ -0,0 +1,30 @@
+// backend/prisma/seed.ts
+import { PrismaClient } from '@prisma/client';
+import { EGYPTIAN_PLANTS } from '../src/data/egyptian-plants';
+
+const prisma = new PrismaClient();
+
+// Add the starting species catalogue; species already in the table are left as admins edited or imported them
+async function main(): Promise<void> {
+  const entries = Object.entries(EGYPTIAN_PLANTS);
+
+  await prisma.$transaction(
+    entries.map(([key, { regions, ...species }]) => {
+      const data = { ...species, regions: JSON.stringify(regions) };
+      return prisma.species.upsert({
+        where: { key },
+        create: { key, ...data },
+        update: {},
+      });
+    })
+  );
+
+  console.log(`Seeded ${entries.length} species`);
+}
+
+main()
+  .catch(error => {
+    console.error('Seeding failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
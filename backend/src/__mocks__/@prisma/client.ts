@@ -0,0 +1,13 @@
+// backend/src/__mocks__/@prisma/client.ts
+import { prismaMock } from '../../test/prisma';
+
+// The Prisma namespace (errors, enums) is plain code and stays real
+const actual = jest.requireActual<typeof import('@prisma/client')>('@prisma/client');
+
+export const Prisma = actual.Prisma;
+
+export class PrismaClient {
+  constructor() {
+    return prismaMock as unknown as PrismaClient;
+  }
+}
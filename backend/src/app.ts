@@ -0,0 +1,131 @@
+// backend/src/app.ts
+import express, { Application, Request, Response } from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import compression from 'compression';
+import morgan from 'morgan';
+import dotenv from 'dotenv';
+import rateLimit from 'express-rate-limit';
+
+import { authRoutes } from './routes/auth';
+import plantRoutes from './routes/plants';
+import careRoutes from './routes/care';
+import identificationRoutes from './routes/identification';
+import notificationRoutes from './routes/notifications';
+import adminRoutes from './routes/admin';
+import uploadRoutes from './routes/uploads';
+import spaceRoutes from './routes/spaces';
+import { errorHandler } from './middleware/error';
+import { logger } from './utils/logger';
+import { LocalStorageAdapter, getStorage } from './providers/storage';
+
+// Load environment variables
+dotenv.config();
+
+const app: Application = express();
+
+// Security middleware
+app.use(helmet({
+  contentSecurityPolicy: {
+    directives: {
+      defaultSrc: ["'self'"],
+      styleSrc: ["'self'", "'unsafe-inline'"],
+      scriptSrc: ["'self'"],
+      imgSrc: ["'self'", "data:", "https:"],
+    },
+  },
+  hsts: {
+    maxAge: 31536000,
+    includeSubDomains: true,
+    preload: true,
+  },
+}));
+
+// CORS configuration
+app.use(cors({
+  origin: process.env.NODE_ENV === 'production' 
+    ? ['https://lotus-app.com', 'https://www.lotus-app.com']
+    : ['http://localhost:3000', 'http://localhost:8081'],
+  credentials: true,
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization'],
+}));
+
+// General rate limiting
+const generalLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 100, // 100 requests per minute per IP
+  message: {
+    error: {
+      code: 'RATE_LIMIT_EXCEEDED',
+      message: 'Too many requests, please try again later',
+    },
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+app.use(generalLimiter);
+
+// Body parsing middleware
+app.use(express.json({ limit: '10mb' }));
+app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+
+// Compression middleware
+app.use(compression());
+
+// Logging middleware
+if (process.env.NODE_ENV !== 'test') {
+  app.use(morgan('combined', {
+    stream: {
+      write: (message: string) => {
+        logger.info(message.trim());
+      },
+    },
+  }));
+}
+
+// Health check endpoint
+app.get('/health', (_req: Request, res: Response) => {
+  res.status(200).json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+    environment: process.env.NODE_ENV,
+  });
+});
+
+// Uploaded photos kept on the local disk, loaded by the apps from other origins
+const storage = getStorage();
+if (storage instanceof LocalStorageAdapter) {
+  app.use(storage.urlPath, (_req: Request, res: Response, next) => {
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    next();
+  }, express.static(storage.rootDir));
+}
+
+// API routes
+app.use('/api/auth', authRoutes);
+app.use('/api/plants', plantRoutes);
+app.use('/api/care', careRoutes);
+app.use('/api/identify', identificationRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/uploads', uploadRoutes);
+app.use('/api/spaces', spaceRoutes);
+
+// 404 handler
+app.use('*', (_req: Request, res: Response) => {
+  res.status(404).json({
+    error: {
+      code: 'ENDPOINT_NOT_FOUND',
+      message: 'The requested endpoint does not exist',
+      path: _req.originalUrl,
+    },
+  });
+});
+
+// Global error handler
+app.use(errorHandler);
+
+export default app;
@@ -0,0 +1,435 @@
+// backend/src/data/egyptian-plants.ts
+import { EgyptRegion } from '../utils/egypt-geo';
+
+export const LIGHT_LEVELS = ['low', 'medium', 'bright'] as const;
+
+export type LightLevel = typeof LIGHT_LEVELS[number];
+
+export const SPECIES_ENVIRONMENTS = ['indoor', 'outdoor', 'both'] as const;
+
+export type SpeciesEnvironment = typeof SPECIES_ENVIRONMENTS[number];
+
+export interface SpeciesSeed {
+  scientificName: string;
+  nameEnglish: string;
+  nameArabic: string;
+  wateringIntervalMinDays: number;
+  wateringIntervalMaxDays: number;
+  lightMin: LightLevel; // Least light the species tolerates
+  lightMax: LightLevel;
+  directSun: boolean; // Grows in (or tolerates) direct sun
+  environment: SpeciesEnvironment;
+  temperatureMinC: number;
+  temperatureMaxC: number;
+  humidityMinPercent: number;
+  humidityMaxPercent: number;
+  regions: EgyptRegion[]; // Where the species is commonly grown
+}
+
+// Starting catalogue of plants common in Egyptian homes and gardens (25+ plants from PRD).
+// Loaded into the species table by the species_catalogue_data migration and prisma/seed.ts; the table
+// is the source of truth at runtime. Species added here later need a new data migration.
+export const EGYPTIAN_PLANTS = {
+  'pothos': {
+    scientificName: 'Epipremnum aureum',
+    nameEnglish: 'Pothos',
+    nameArabic: 'البوتس',
+    wateringIntervalMinDays: 5,
+    wateringIntervalMaxDays: 7,
+    lightMin: 'medium',
+    lightMax: 'bright',
+    directSun: false,
+    environment: 'indoor',
+    temperatureMinC: 18,
+    temperatureMaxC: 30,
+    humidityMinPercent: 40,
+    humidityMaxPercent: 70,
+    regions: ['greater-cairo'],
+  },
+  'snake-plant': {
+    scientificName: 'Sansevieria trifasciata',
+    nameEnglish: 'Snake Plant',
+    nameArabic: 'نبات الثعبان',
+    wateringIntervalMinDays: 14,
+    wateringIntervalMaxDays: 21,
+    lightMin: 'low',
+    lightMax: 'bright',
+    directSun: false,
+    environment: 'indoor',
+    temperatureMinC: 15,
+    temperatureMaxC: 32,
+    humidityMinPercent: 30,
+    humidityMaxPercent: 50,
+    regions: ['greater-cairo'],
+  },
+  'zz-plant': {
+    scientificName: 'Zamioculcas zamiifolia',
+    nameEnglish: 'ZZ Plant',
+    nameArabic: 'نبات زي زي',
+    wateringIntervalMinDays: 14,
+    wateringIntervalMaxDays: 21,
+    lightMin: 'low',
+    lightMax: 'bright',
+    directSun: false,
+    environment: 'indoor',
+    temperatureMinC: 15,
+    temperatureMaxC: 30,
+    humidityMinPercent: 30,
+    humidityMaxPercent: 50,
+    regions: ['greater-cairo'],
+  },
+  'aloe-vera': {
+    scientificName: 'Aloe vera',
+    nameEnglish: 'Aloe Vera',
+    nameArabic: 'الصبار',
+    wateringIntervalMinDays: 14,
+    wateringIntervalMaxDays: 21,
+    lightMin: 'medium',
+    lightMax: 'bright',
+    directSun: false,
+    environment: 'both',
+    temperatureMinC: 13,
+    temperatureMaxC: 32,
+    humidityMinPercent: 20,
+    humidityMaxPercent: 50,
+    regions: ['mediterranean-coast', 'upper-egypt', 'red-sea-sinai', 'western-desert'],
+  },
+  'jasmine': {
+    scientificName: 'Jasminum officinale',
+    nameEnglish: 'Jasmine',
+    nameArabic: 'الياسمين',
+    wateringIntervalMinDays: 2,
+    wateringIntervalMaxDays: 3,
+    lightMin: 'medium',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'outdoor',
+    temperatureMinC: 15,
+    temperatureMaxC: 35,
+    humidityMinPercent: 40,
+    humidityMaxPercent: 60,
+    regions: ['greater-cairo', 'delta'],
+  },
+  'mint': {
+    scientificName: 'Mentha',
+    nameEnglish: 'Mint',
+    nameArabic: 'النعناع',
+    wateringIntervalMinDays: 1,
+    wateringIntervalMaxDays: 2,
+    lightMin: 'medium',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'both',
+    temperatureMinC: 15,
+    temperatureMaxC: 30,
+    humidityMinPercent: 50,
+    humidityMaxPercent: 70,
+    regions: ['delta'],
+  },
+  'basil': {
+    scientificName: 'Ocimum basilicum',
+    nameEnglish: 'Basil',
+    nameArabic: 'الريحان',
+    wateringIntervalMinDays: 1,
+    wateringIntervalMaxDays: 2,
+    lightMin: 'bright',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'both',
+    temperatureMinC: 18,
+    temperatureMaxC: 35,
+    humidityMinPercent: 40,
+    humidityMaxPercent: 60,
+    regions: ['delta', 'upper-egypt'],
+  },
+  'rose': {
+    scientificName: 'Rosa',
+    nameEnglish: 'Rose',
+    nameArabic: 'الورد',
+    wateringIntervalMinDays: 2,
+    wateringIntervalMaxDays: 3,
+    lightMin: 'bright',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'outdoor',
+    temperatureMinC: 15,
+    temperatureMaxC: 30,
+    humidityMinPercent: 40,
+    humidityMaxPercent: 60,
+    regions: ['delta', 'canal'],
+  },
+  'cactus': {
+    scientificName: 'Cactaceae',
+    nameEnglish: 'Cactus',
+    nameArabic: 'الصبار الشوكي',
+    wateringIntervalMinDays: 14,
+    wateringIntervalMaxDays: 28,
+    lightMin: 'bright',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'both',
+    temperatureMinC: 15,
+    temperatureMaxC: 38,
+    humidityMinPercent: 10,
+    humidityMaxPercent: 40,
+    regions: ['upper-egypt', 'red-sea-sinai', 'western-desert'],
+  },
+  'ficus': {
+    scientificName: 'Ficus benjamina',
+    nameEnglish: 'Ficus',
+    nameArabic: 'فيكس',
+    wateringIntervalMinDays: 5,
+    wateringIntervalMaxDays: 7,
+    lightMin: 'medium',
+    lightMax: 'bright',
+    directSun: false,
+    environment: 'indoor',
+    temperatureMinC: 16,
+    temperatureMaxC: 30,
+    humidityMinPercent: 40,
+    humidityMaxPercent: 60,
+    regions: ['greater-cairo'],
+  },
+  'rubber-plant': {
+    scientificName: 'Ficus elastica',
+    nameEnglish: 'Rubber Plant',
+    nameArabic: 'نبات المطاط',
+    wateringIntervalMinDays: 5,
+    wateringIntervalMaxDays: 7,
+    lightMin: 'medium',
+    lightMax: 'bright',
+    directSun: false,
+    environment: 'indoor',
+    temperatureMinC: 16,
+    temperatureMaxC: 30,
+    humidityMinPercent: 40,
+    humidityMaxPercent: 60,
+    regions: ['greater-cairo'],
+  },
+  'spider-plant': {
+    scientificName: 'Chlorophytum comosum',
+    nameEnglish: 'Spider Plant',
+    nameArabic: 'نبات العنكبوت',
+    wateringIntervalMinDays: 5,
+    wateringIntervalMaxDays: 7,
+    lightMin: 'medium',
+    lightMax: 'bright',
+    directSun: false,
+    environment: 'indoor',
+    temperatureMinC: 13,
+    temperatureMaxC: 27,
+    humidityMinPercent: 40,
+    humidityMaxPercent: 60,
+    regions: [],
+  },
+  'peace-lily': {
+    scientificName: 'Spathiphyllum',
+    nameEnglish: 'Peace Lily',
+    nameArabic: 'زنبقة السلام',
+    wateringIntervalMinDays: 5,
+    wateringIntervalMaxDays: 7,
+    lightMin: 'low',
+    lightMax: 'medium',
+    directSun: false,
+    environment: 'indoor',
+    temperatureMinC: 18,
+    temperatureMaxC: 30,
+    humidityMinPercent: 50,
+    humidityMaxPercent: 70,
+    regions: [],
+  },
+  'monstera': {
+    scientificName: 'Monstera deliciosa',
+    nameEnglish: 'Monstera',
+    nameArabic: 'مونستيرا',
+    wateringIntervalMinDays: 7,
+    wateringIntervalMaxDays: 10,
+    lightMin: 'medium',
+    lightMax: 'bright',
+    directSun: false,
+    environment: 'indoor',
+    temperatureMinC: 18,
+    temperatureMaxC: 30,
+    humidityMinPercent: 50,
+    humidityMaxPercent: 70,
+    regions: [],
+  },
+  'fiddle-leaf-fig': {
+    scientificName: 'Ficus lyrata',
+    nameEnglish: 'Fiddle Leaf Fig',
+    nameArabic: 'تين الكمان',
+    wateringIntervalMinDays: 7,
+    wateringIntervalMaxDays: 10,
+    lightMin: 'medium',
+    lightMax: 'bright',
+    directSun: false,
+    environment: 'indoor',
+    temperatureMinC: 16,
+    temperatureMaxC: 30,
+    humidityMinPercent: 40,
+    humidityMaxPercent: 60,
+    regions: [],
+  },
+  'bougainvillea': {
+    scientificName: 'Bougainvillea',
+    nameEnglish: 'Bougainvillea',
+    nameArabic: 'الجهنمية',
+    wateringIntervalMinDays: 3,
+    wateringIntervalMaxDays: 4,
+    lightMin: 'bright',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'outdoor',
+    temperatureMinC: 15,
+    temperatureMaxC: 38,
+    humidityMinPercent: 30,
+    humidityMaxPercent: 50,
+    regions: ['greater-cairo', 'mediterranean-coast', 'canal', 'upper-egypt', 'red-sea-sinai'],
+  },
+  'hibiscus': {
+    scientificName: 'Hibiscus rosa-sinensis',
+    nameEnglish: 'Hibiscus',
+    nameArabic: 'الخطمي',
+    wateringIntervalMinDays: 2,
+    wateringIntervalMaxDays: 3,
+    lightMin: 'bright',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'outdoor',
+    temperatureMinC: 16,
+    temperatureMaxC: 35,
+    humidityMinPercent: 40,
+    humidityMaxPercent: 60,
+    regions: ['greater-cairo', 'canal', 'upper-egypt'],
+  },
+  'oleander': {
+    scientificName: 'Nerium oleander',
+    nameEnglish: 'Oleander',
+    nameArabic: 'الدفلة',
+    wateringIntervalMinDays: 3,
+    wateringIntervalMaxDays: 4,
+    lightMin: 'bright',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'outdoor',
+    temperatureMinC: 10,
+    temperatureMaxC: 40,
+    humidityMinPercent: 20,
+    humidityMaxPercent: 50,
+    regions: ['mediterranean-coast', 'canal', 'red-sea-sinai', 'western-desert'],
+  },
+  'palm-tree': {
+    scientificName: 'Arecaceae',
+    nameEnglish: 'Palm Tree',
+    nameArabic: 'النخيل',
+    wateringIntervalMinDays: 5,
+    wateringIntervalMaxDays: 7,
+    lightMin: 'bright',
+    lightMax: 'bright',
+    directSun: false,
+    environment: 'both',
+    temperatureMinC: 15,
+    temperatureMaxC: 38,
+    humidityMinPercent: 30,
+    humidityMaxPercent: 60,
+    regions: ['mediterranean-coast', 'canal', 'upper-egypt', 'red-sea-sinai', 'western-desert'],
+  },
+  'lavender': {
+    scientificName: 'Lavandula',
+    nameEnglish: 'Lavender',
+    nameArabic: 'الخزامى',
+    wateringIntervalMinDays: 7,
+    wateringIntervalMaxDays: 10,
+    lightMin: 'bright',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'outdoor',
+    temperatureMinC: 10,
+    temperatureMaxC: 30,
+    humidityMinPercent: 20,
+    humidityMaxPercent: 40,
+    regions: ['mediterranean-coast'],
+  },
+  'geranium': {
+    scientificName: 'Pelargonium',
+    nameEnglish: 'Geranium',
+    nameArabic: 'الغرنوق',
+    wateringIntervalMinDays: 3,
+    wateringIntervalMaxDays: 4,
+    lightMin: 'medium',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'both',
+    temperatureMinC: 10,
+    temperatureMaxC: 28,
+    humidityMinPercent: 40,
+    humidityMaxPercent: 60,
+    regions: ['delta', 'mediterranean-coast'],
+  },
+  'marigold': {
+    scientificName: 'Tagetes',
+    nameEnglish: 'Marigold',
+    nameArabic: 'القطيفة',
+    wateringIntervalMinDays: 2,
+    wateringIntervalMaxDays: 3,
+    lightMin: 'bright',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'outdoor',
+    temperatureMinC: 15,
+    temperatureMaxC: 32,
+    humidityMinPercent: 40,
+    humidityMaxPercent: 60,
+    regions: ['delta'],
+  },
+  'petunias': {
+    scientificName: 'Petunia',
+    nameEnglish: 'Petunias',
+    nameArabic: 'البتونيا',
+    wateringIntervalMinDays: 2,
+    wateringIntervalMaxDays: 3,
+    lightMin: 'bright',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'outdoor',
+    temperatureMinC: 15,
+    temperatureMaxC: 30,
+    humidityMinPercent: 40,
+    humidityMaxPercent: 60,
+    regions: ['delta'],
+  },
+  'rosemary': {
+    scientificName: 'Rosmarinus officinalis',
+    nameEnglish: 'Rosemary',
+    nameArabic: 'إكليل الجبل',
+    wateringIntervalMinDays: 7,
+    wateringIntervalMaxDays: 10,
+    lightMin: 'bright',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'both',
+    temperatureMinC: 10,
+    temperatureMaxC: 32,
+    humidityMinPercent: 20,
+    humidityMaxPercent: 50,
+    regions: ['mediterranean-coast', 'red-sea-sinai'],
+  },
+  'thyme': {
+    scientificName: 'Thymus vulgaris',
+    nameEnglish: 'Thyme',
+    nameArabic: 'الزعتر',
+    wateringIntervalMinDays: 5,
+    wateringIntervalMaxDays: 7,
+    lightMin: 'bright',
+    lightMax: 'bright',
+    directSun: true,
+    environment: 'both',
+    temperatureMinC: 10,
+    temperatureMaxC: 32,
+    humidityMinPercent: 20,
+    humidityMaxPercent: 50,
+    regions: ['red-sea-sinai'],
+  },
+} satisfies Record<string, SpeciesSeed>;
+
+export type EgyptianPlantKey = keyof typeof EGYPTIAN_PLANTS;
@@ -1,124 +1,27 @@
-import express, { Application, Request, Response } from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
-import compression from 'compression';
-import morgan from 'morgan';
-import dotenv from 'dotenv';
-import rateLimit from 'express-rate-limit';
-
-import { authRoutes } from './routes/auth';
-import plantRoutes from './routes/plants';
-import careRoutes from './routes/care';
-import identificationRoutes from './routes/identification';
-import { errorHandler } from './middleware/error';
+import app from './app';
+import { startJobs, stopJobs } from './jobs';
 import { logger } from './utils/logger';
 
-// Load environment variables
-dotenv.config();
-
-const app: Application = express();
+// The app loads the environment variables when it is imported
 const PORT = process.env.PORT || 3000;
 
-// Security middleware
-app.use(helmet({
-  contentSecurityPolicy: {
-    directives: {
-      defaultSrc: ["'self'"],
-      styleSrc: ["'self'", "'unsafe-inline'"],
-      scriptSrc: ["'self'"],
-      imgSrc: ["'self'", "data:", "https:"],
-    },
-  },
-  hsts: {
-    maxAge: 31536000,
-    includeSubDomains: true,
-    preload: true,
-  },
-}));
-
-// CORS configuration
-app.use(cors({
-  origin: process.env.NODE_ENV === 'production' 
-    ? ['https://lotus-app.com', 'https://www.lotus-app.com']
-    : ['http://localhost:3000', 'http://localhost:8081'],
-  credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
-}));
-
-// General rate limiting
-const generalLimiter = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 100, // 100 requests per minute per IP
-  message: {
-    error: {
-      code: 'RATE_LIMIT_EXCEEDED',
-      message: 'Too many requests, please try again later',
-    },
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-});
-
-app.use(generalLimiter);
-
-// Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
-
-// Compression middleware
-app.use(compression());
-
-// Logging middleware
-if (process.env.NODE_ENV !== 'test') {
-  app.use(morgan('combined', {
-    stream: {
-      write: (message: string) => {
-        logger.info(message.trim());
-      },
-    },
-  }));
-}
-
-// Health check endpoint
-app.get('/health', (_req: Request, res: Response) => {
-  res.status(200).json({
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-    environment: process.env.NODE_ENV,
-  });
-});
-
-// API routes
-app.use('/api/auth', authRoutes);
-app.use('/api/plants', plantRoutes);
-app.use('/api/care', careRoutes);
-app.use('/api/identify', identificationRoutes);
-
-// 404 handler
-app.use('*', (_req: Request, res: Response) => {
-  res.status(404).json({
-    error: {
-      code: 'ENDPOINT_NOT_FOUND',
-      message: 'The requested endpoint does not exist',
-      path: _req.originalUrl,
-    },
-  });
-});
-
-// Global error handler
-app.use(errorHandler);
-
 // Graceful shutdown
 const server = app.listen(PORT, () => {
   logger.info(`🌿 Lotus API server is running on port ${PORT}`);
   logger.info(`Environment: ${process.env.NODE_ENV}`);
+
+  // Background jobs (care reminders, image renditions, plant health) need Redis; tests and local runs can opt out
+  if (process.env.NODE_ENV !== 'test' && process.env.ENABLE_JOBS !== 'false') {
+    startJobs().catch(error => {
+      logger.error('Failed to start background jobs:', error);
+    });
+  }
 });
 
 // Handle graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing HTTP server');
+  void stopJobs();
   server.close(() => {
     logger.info('HTTP server closed');
     process.exit(0);
@@ -127,6 +30,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT signal received: closing HTTP server');
+  void stopJobs();
   server.close(() => {
     logger.info('HTTP server closed');
     process.exit(0);
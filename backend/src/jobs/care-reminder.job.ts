@@ -0,0 +1,15 @@
+// backend/src/jobs/care-reminder.job.ts
+import Queue from 'bull';
+import { notificationService } from '../services/notification.service';
+import { scheduleRepeatable } from './index';
+
+// Every 15 minutes, so each user's local reminder hour is picked up promptly
+const CARE_REMINDER_CRON = process.env.CARE_REMINDER_CRON || '*/15 * * * *';
+
+export const startCareReminderJob = (redisUrl: string): Promise<Queue.Queue> =>
+  scheduleRepeatable(redisUrl, {
+    queueName: 'care-reminders',
+    label: 'Care reminder',
+    cron: CARE_REMINDER_CRON,
+    run: () => notificationService.runCareReminderCycle(new Date()),
+  });
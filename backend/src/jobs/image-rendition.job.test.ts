@@ -0,0 +1,75 @@
+// backend/src/jobs/image-rendition.job.test.ts
+import Queue from 'bull';
+import { imageRenditionService } from '../services/image-rendition.service';
+import { enqueueImageRenditions, startImageRenditionJob } from './image-rendition.job';
+
+jest.mock('bull');
+
+const ASSET_ID = '6e5d4c3b-2a19-4f8e-9d7c-6b5a4f3e0001';
+
+const nextTick = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+describe('image rendition job', () => {
+  let generate: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    generate = jest.spyOn(imageRenditionService, 'generate').mockResolvedValue(undefined);
+  });
+
+  // The queue only exists once the job has started, so these run first
+  describe('without the job queue', () => {
+    it('makes the renditions in-process once the upload has returned', async () => {
+      await enqueueImageRenditions(ASSET_ID);
+      expect(generate).not.toHaveBeenCalled();
+
+      await nextTick();
+      expect(generate).toHaveBeenCalledWith(ASSET_ID);
+    });
+
+    it('swallows a failure, which generate has already recorded on the image', async () => {
+      generate.mockRejectedValue(new Error('Input buffer contains unsupported image format'));
+
+      await expect(enqueueImageRenditions(ASSET_ID)).resolves.toBeUndefined();
+      await nextTick();
+      expect(generate).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('with the job queue', () => {
+    let queue: Queue.Queue;
+
+    beforeAll(async () => {
+      queue = await startImageRenditionJob('redis://localhost:6379');
+    });
+
+    beforeEach(() => {
+      jest.mocked(queue.add).mockReset();
+    });
+
+    it('queues the image with retries instead of resizing it in-process', async () => {
+      await enqueueImageRenditions(ASSET_ID);
+      await nextTick();
+
+      expect(jest.mocked(queue.add)).toHaveBeenCalledWith({ assetId: ASSET_ID }, expect.objectContaining({ attempts: 3 }));
+      expect(generate).not.toHaveBeenCalled();
+    });
+
+    it('resizes the image when the queue runs the job', async () => {
+      const [processor] = jest.mocked(queue.process).mock.calls[0] as unknown as [(job: { data: { assetId: string } }) => Promise<void>];
+
+      await processor({ data: { assetId: ASSET_ID } });
+
+      expect(generate).toHaveBeenCalledWith(ASSET_ID);
+    });
+
+    it('falls back to in-process when Redis refuses the job', async () => {
+      jest.mocked(queue.add).mockRejectedValue(new Error('connect ECONNREFUSED 127.0.0.1:6379'));
+
+      await enqueueImageRenditions(ASSET_ID);
+      await nextTick();
+
+      expect(generate).toHaveBeenCalledWith(ASSET_ID);
+    });
+  });
+});
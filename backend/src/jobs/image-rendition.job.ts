@@ -0,0 +1,48 @@
+// backend/src/jobs/image-rendition.job.ts
+import Queue from 'bull';
+import { logger } from '../utils/logger';
+import { imageRenditionService } from '../services/image-rendition.service';
+
+interface ImageRenditionJobData {
+  assetId: string;
+}
+
+let queue: Queue.Queue<ImageRenditionJobData> | null = null;
+
+export const startImageRenditionJob = async (redisUrl: string): Promise<Queue.Queue> => {
+  queue = new Queue<ImageRenditionJobData>('image-renditions', redisUrl);
+
+  // One image at a time: resizing is CPU-bound and shares the machine with the API
+  void queue.process(async job => imageRenditionService.generate(job.data.assetId));
+
+  queue.on('failed', (job, error) => {
+    logger.error(`Image rendition job failed for ${job.data.assetId}:`, error);
+  });
+
+  await queue.isReady();
+
+  logger.info('Image rendition job ready');
+  return queue;
+};
+
+// Queue the renditions of a stored image; without the job queue (ENABLE_JOBS=false or Redis down)
+// they are made in-process once the upload has returned
+export const enqueueImageRenditions = async (assetId: string): Promise<void> => {
+  if (queue) {
+    try {
+      await queue.add({ assetId }, {
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 5000 },
+        removeOnComplete: true,
+        removeOnFail: 50,
+      });
+      return;
+    } catch (error) {
+      logger.warn('Failed to queue image renditions, making them in-process:', error);
+    }
+  }
+
+  setImmediate(() => {
+    imageRenditionService.generate(assetId).catch(() => undefined);
+  });
+};
@@ -0,0 +1,41 @@
+// backend/src/jobs/index.test.ts
+import Queue from 'bull';
+import { notificationService } from '../services/notification.service';
+import { startCareReminderJob } from './care-reminder.job';
+import { stopJobs } from './index';
+
+jest.mock('bull');
+
+const QueueMock = jest.mocked(Queue);
+
+describe('repeatable jobs', () => {
+  beforeEach(() => {
+    QueueMock.mockClear();
+  });
+
+  it('schedules the job once per cron expression and runs it on each repeat', async () => {
+    const runCycle = jest.spyOn(notificationService, 'runCareReminderCycle')
+      .mockResolvedValue({ created: 0, dispatched: 0 });
+
+    const queue = await startCareReminderJob('redis://localhost:6379');
+
+    expect(QueueMock).toHaveBeenCalledWith('care-reminders', 'redis://localhost:6379');
+    expect(jest.mocked(queue.add)).toHaveBeenCalledWith({}, {
+      repeat: { cron: '*/15 * * * *' },
+      removeOnComplete: true,
+      removeOnFail: 50,
+    });
+
+    const [processor] = jest.mocked(queue.process).mock.calls[0] as unknown as [() => Promise<unknown>];
+    await processor();
+    expect(runCycle).toHaveBeenCalledTimes(1);
+  });
+
+  it('closes the queues of scheduled jobs', async () => {
+    const queue = await startCareReminderJob('redis://localhost:6379');
+
+    await stopJobs();
+
+    expect(jest.mocked(queue.close)).toHaveBeenCalledTimes(1);
+  });
+});
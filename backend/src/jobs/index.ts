@@ -0,0 +1,55 @@
+// backend/src/jobs/index.ts
+import Queue from 'bull';
+import { logger } from '../utils/logger';
+import { startCareReminderJob } from './care-reminder.job';
+import { startImageRenditionJob } from './image-rendition.job';
+import { startPlantHealthJob } from './plant-health.job';
+import { startPlantPurgeJob } from './plant-purge.job';
+
+export interface RepeatableJob {
+  queueName: string;
+  label: string; // Names the job in logs, e.g. "Care reminder"
+  cron: string;
+  run: () => Promise<unknown>;
+}
+
+const queues: Queue.Queue[] = [];
+
+// Run a job on a cron schedule in its own queue, which stopJobs closes.
+// Repeatable jobs are keyed by their options, so restarts don't stack duplicates.
+export const scheduleRepeatable = async (redisUrl: string, job: RepeatableJob): Promise<Queue.Queue> => {
+  const queue = new Queue(job.queueName, redisUrl);
+  queues.push(queue);
+
+  void queue.process(async () => job.run());
+
+  queue.on('failed', (_job, error) => {
+    logger.error(`${job.label} job failed:`, error);
+  });
+
+  await queue.add({}, {
+    repeat: { cron: job.cron },
+    removeOnComplete: true,
+    removeOnFail: 50,
+  });
+
+  logger.info(`${job.label} job scheduled (${job.cron})`);
+  return queue;
+};
+
+// Start all background jobs; they share the Redis instance used by the API
+export const startJobs = async (): Promise<void> => {
+  const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+
+  await startCareReminderJob(redisUrl);
+  queues.push(await startImageRenditionJob(redisUrl));
+  await startPlantHealthJob(redisUrl);
+  await startPlantPurgeJob(redisUrl);
+
+  logger.info(`${queues.length} background job queue(s) started`);
+};
+
+export const stopJobs = async (): Promise<void> => {
+  await Promise.all(queues.map(queue => queue.close()));
+  queues.length = 0;
+};
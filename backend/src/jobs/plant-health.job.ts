@@ -0,0 +1,15 @@
+// backend/src/jobs/plant-health.job.ts
+import Queue from 'bull';
+import { plantHealthService } from '../services/plant-health.service';
+import { scheduleRepeatable } from './index';
+
+// Hourly, so a score drops on the day care becomes overdue even if nothing is logged
+const PLANT_HEALTH_CRON = process.env.PLANT_HEALTH_CRON || '0 * * * *';
+
+export const startPlantHealthJob = (redisUrl: string): Promise<Queue.Queue> =>
+  scheduleRepeatable(redisUrl, {
+    queueName: 'plant-health',
+    label: 'Plant health',
+    cron: PLANT_HEALTH_CRON,
+    run: () => plantHealthService.recalculateAll(new Date()),
+  });
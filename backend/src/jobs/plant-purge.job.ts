@@ -0,0 +1,15 @@
+// backend/src/jobs/plant-purge.job.ts
+import Queue from 'bull';
+import { plantService } from '../services/plant.service';
+import { scheduleRepeatable } from './index';
+
+// Nightly; plants are purged once they have been in the trash for PLANT_TRASH_DAYS
+const PLANT_PURGE_CRON = process.env.PLANT_PURGE_CRON || '30 3 * * *';
+
+export const startPlantPurgeJob = (redisUrl: string): Promise<Queue.Queue> =>
+  scheduleRepeatable(redisUrl, {
+    queueName: 'plant-purge',
+    label: 'Plant purge',
+    cron: PLANT_PURGE_CRON,
+    run: () => plantService.purgeDeletedPlants(new Date()),
+  });
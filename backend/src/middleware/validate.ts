@@ -0,0 +1,45 @@
+// backend/src/middleware/validate.ts
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { z } from 'zod';
+
+type RequestPart = 'body' | 'params' | 'query';
+
+const ERROR_MESSAGES: Record<RequestPart, string> = {
+  body: 'Invalid input data',
+  params: 'Invalid parameters',
+  query: 'Invalid query parameters',
+};
+
+// Parse one part of the request, answering 400 VALIDATION_ERROR when it does not match the schema.
+// A parsed body or query replaces the raw one, so handlers get coerced numbers and defaults; params
+// are left as they are, since a schema that checks some of them would drop the others.
+const validatePart = (part: RequestPart, schema: z.ZodSchema): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    try {
+      const result: unknown = schema.parse(req[part]);
+      if (part !== 'params') {
+        (req as Record<RequestPart, unknown>)[part] = result;
+      }
+      next();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: ERROR_MESSAGES[part],
+            details: error.errors,
+          },
+        });
+        return;
+      }
+      next(error);
+    }
+  };
+};
+
+export const validateBody = (schema: z.ZodSchema): RequestHandler => validatePart('body', schema);
+
+export const validateParams = (schema: z.ZodSchema): RequestHandler => validatePart('params', schema);
+
+export const validateQuery = (schema: z.ZodSchema): RequestHandler => validatePart('query', schema);
@@ -0,0 +1,55 @@
+// backend/src/providers/identification/http-vision.provider.ts
+import axios from 'axios';
+import { z } from 'zod';
+import { IdentificationInput, IdentificationProvider, ProviderSuggestion } from './types';
+
+export interface HttpVisionConfig {
+  url: string;
+  apiKey?: string;
+  timeoutMs: number;
+  minConfidence: number;
+}
+
+// Expected reply of the vision model endpoint
+const visionResponseSchema = z.object({
+  suggestions: z.array(z.object({
+    scientificName: z.string().min(1),
+    commonName: z.string().optional(),
+    confidence: z.number().min(0).max(1),
+  })),
+});
+
+// Adapter for a hosted vision model that accepts a base64 photo over HTTP
+export class HttpVisionIdentificationProvider implements IdentificationProvider {
+  readonly name = 'vision' as const;
+
+  constructor(private readonly config: HttpVisionConfig) {}
+
+  canHandle(input: IdentificationInput): boolean {
+    return !!input.image;
+  }
+
+  async identify(input: IdentificationInput): Promise<ProviderSuggestion[]> {
+    const response = await axios.post(
+      this.config.url,
+      {
+        image: input.image!.buffer.toString('base64'),
+        mimeType: input.image!.mimeType,
+        hint: input.description,
+      },
+      {
+        timeout: this.config.timeoutMs,
+        headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {},
+      }
+    );
+
+    const parsed = visionResponseSchema.safeParse(response.data);
+    if (!parsed.success) {
+      throw new Error('Invalid vision API response');
+    }
+
+    return parsed.data.suggestions
+      .filter(suggestion => suggestion.confidence >= this.config.minConfidence)
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+}
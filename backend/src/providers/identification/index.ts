@@ -0,0 +1,53 @@
+// backend/src/providers/identification/index.ts
+import { HttpVisionIdentificationProvider } from './http-vision.provider';
+import { KeywordIdentificationProvider, KeywordMatch } from './keyword.provider';
+import { MockIdentificationProvider } from './mock.provider';
+import { CatalogueEntry, IDENTIFICATION_PROVIDER_NAMES, IdentificationProvider, IdentificationProviderName } from './types';
+import { logger } from '../../utils/logger';
+
+export * from './types';
+export { HttpVisionIdentificationProvider, KeywordIdentificationProvider, MockIdentificationProvider };
+export type { KeywordMatch };
+
+export interface ProviderDependencies {
+  rankDescription: (description: string) => Promise<KeywordMatch[]>;
+  loadCatalogue: () => Promise<CatalogueEntry[]>;
+}
+
+// Providers in fallback order, from IDENTIFICATION_PROVIDERS (e.g. "vision,keyword")
+export const createIdentificationProviders = (deps: ProviderDependencies): IdentificationProvider[] => {
+  const defaultChain = process.env.NODE_ENV === 'test' ? 'mock,keyword' : 'vision,keyword';
+  const names = (process.env.IDENTIFICATION_PROVIDERS || defaultChain)
+    .split(',')
+    .map(name => name.trim())
+    .filter((name): name is IdentificationProviderName =>
+      (IDENTIFICATION_PROVIDER_NAMES as readonly string[]).includes(name)
+    );
+
+  const providers: IdentificationProvider[] = [];
+
+  for (const name of names) {
+    switch (name) {
+      case 'vision':
+        if (!process.env.VISION_API_URL) {
+          logger.warn('VISION_API_URL is not set, skipping the vision identification provider');
+          break;
+        }
+        providers.push(new HttpVisionIdentificationProvider({
+          url: process.env.VISION_API_URL,
+          apiKey: process.env.VISION_API_KEY,
+          timeoutMs: Number(process.env.VISION_API_TIMEOUT_MS) || 10000,
+          minConfidence: Number(process.env.VISION_MIN_CONFIDENCE) || 0.2,
+        }));
+        break;
+      case 'keyword':
+        providers.push(new KeywordIdentificationProvider(deps.rankDescription));
+        break;
+      case 'mock':
+        providers.push(new MockIdentificationProvider(deps.loadCatalogue));
+        break;
+    }
+  }
+
+  return providers;
+};
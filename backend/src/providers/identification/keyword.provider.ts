@@ -0,0 +1,23 @@
+// backend/src/providers/identification/keyword.provider.ts
+import { CatalogueEntry, IdentificationInput, IdentificationProvider, ProviderSuggestion } from './types';
+
+export interface KeywordMatch extends CatalogueEntry {
+  matchScore: number; // 0-1
+}
+
+// Text matcher: scores catalogue names against the user's description
+export class KeywordIdentificationProvider implements IdentificationProvider {
+  readonly name = 'keyword' as const;
+
+  constructor(private readonly rankDescription: (description: string) => Promise<KeywordMatch[]>) {}
+
+  canHandle(input: IdentificationInput): boolean {
+    return !!input.description?.trim();
+  }
+
+  async identify(input: IdentificationInput): Promise<ProviderSuggestion[]> {
+    const matches = await this.rankDescription(input.description || '');
+
+    return matches.map(({ matchScore, ...entry }) => ({ ...entry, confidence: matchScore }));
+  }
+}
@@ -0,0 +1,30 @@
+// backend/src/providers/identification/mock.provider.ts
+import crypto from 'crypto';
+import { CatalogueEntry, IdentificationInput, IdentificationProvider, ProviderSuggestion } from './types';
+
+// Deterministic stand-in for the vision model: the same photo always gets the
+// same catalogue plant, so tests and local development need no network.
+export class MockIdentificationProvider implements IdentificationProvider {
+  readonly name = 'mock' as const;
+
+  constructor(private readonly loadCatalogue: () => Promise<CatalogueEntry[]>) {}
+
+  canHandle(input: IdentificationInput): boolean {
+    return !!input.image;
+  }
+
+  async identify(input: IdentificationInput): Promise<ProviderSuggestion[]> {
+    const catalogue = await this.loadCatalogue();
+    if (catalogue.length === 0) {
+      return [];
+    }
+
+    const digest = crypto.createHash('sha256').update(input.image!.buffer).digest();
+    const entry = catalogue[digest.readUInt32BE(0) % catalogue.length];
+
+    return [{
+      ...entry,
+      confidence: 0.6 + (digest[4] % 35) / 100,
+    }];
+  }
+}
@@ -0,0 +1,51 @@
+// backend/src/providers/identification/types.ts
+
+export const IDENTIFICATION_PROVIDER_NAMES = ['vision', 'keyword', 'mock'] as const;
+
+export type IdentificationProviderName = typeof IDENTIFICATION_PROVIDER_NAMES[number];
+
+export interface IdentificationImage {
+  buffer: Buffer;
+  mimeType: string;
+  filename?: string;
+}
+
+export type LightCondition = 'low' | 'medium' | 'bright';
+
+// What the user told us about where the plant grows
+export interface IdentificationContext {
+  environment?: 'indoor' | 'outdoor';
+  lightCondition?: LightCondition;
+  location?: {
+    latitude?: number;
+    longitude?: number;
+  };
+}
+
+// A request may carry a photo, a free-text description, or both
+export interface IdentificationInput {
+  image?: IdentificationImage;
+  description?: string;
+  context?: IdentificationContext;
+}
+
+// Catalogue plant as providers see it
+export interface CatalogueEntry {
+  plantKey: string;
+  scientificName: string;
+  commonName: string;
+}
+
+export interface ProviderSuggestion {
+  scientificName: string;
+  commonName?: string;
+  confidence: number; // 0-1
+  plantKey?: string; // Set when the provider already knows our catalogue key
+}
+
+export interface IdentificationProvider {
+  readonly name: IdentificationProviderName;
+  canHandle(input: IdentificationInput): boolean;
+  // Resolves suggestions best first (empty when the provider has no answer), rejects when it failed
+  identify(input: IdentificationInput): Promise<ProviderSuggestion[]>;
+}
@@ -0,0 +1,47 @@
+// backend/src/providers/storage/index.ts
+import { LocalStorageAdapter } from './local.adapter';
+import { S3StorageAdapter } from './s3.adapter';
+import { STORAGE_DRIVERS, StorageAdapter, StorageDriver } from './types';
+import { logger } from '../../utils/logger';
+
+export * from './types';
+export { LocalStorageAdapter, S3StorageAdapter };
+
+// Adapter for STORAGE_DRIVER: "local" (default) or "s3"
+const createStorageAdapter = (): StorageAdapter => {
+  const requested = process.env.STORAGE_DRIVER || 'local';
+  const driver: StorageDriver = (STORAGE_DRIVERS as readonly string[]).includes(requested)
+    ? requested as StorageDriver
+    : 'local';
+  if (driver !== requested) {
+    logger.warn(`Unknown STORAGE_DRIVER "${requested}", storing uploads on the local disk`);
+  }
+
+  if (driver === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('S3_BUCKET is required when STORAGE_DRIVER is s3');
+    }
+    return new S3StorageAdapter({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.AWS_REGION || 'me-south-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      publicUrl: process.env.S3_PUBLIC_URL || undefined,
+    });
+  }
+
+  return new LocalStorageAdapter({
+    rootDir: process.env.UPLOAD_DIR || 'uploads',
+    urlPath: '/uploads',
+    baseUrl: (process.env.API_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/+$/, ''),
+  });
+};
+
+let storage: StorageAdapter | null = null;
+
+// Shared adapter, created on first use so the environment is loaded by then
+export const getStorage = (): StorageAdapter => {
+  if (!storage) {
+    storage = createStorageAdapter();
+  }
+  return storage;
+};
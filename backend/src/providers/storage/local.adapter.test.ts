@@ -0,0 +1,60 @@
+// backend/src/providers/storage/local.adapter.test.ts
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalStorageAdapter } from './local.adapter';
+
+describe('LocalStorageAdapter', () => {
+  let tmpDir: string;
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'plant-storage-'));
+    storage = new LocalStorageAdapter({
+      rootDir: path.join(tmpDir, 'uploads'),
+      urlPath: '/uploads',
+      baseUrl: 'https://api.example.com',
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('stores, reads and deletes a file under its key', async () => {
+    const url = await storage.put('uploads/user-1/photo.jpg', Buffer.from('image'));
+
+    expect(url).toBe('https://api.example.com/uploads/uploads/user-1/photo.jpg');
+    await expect(fs.readFile(path.join(tmpDir, 'uploads', 'uploads', 'user-1', 'photo.jpg'), 'utf8')).resolves.toBe('image');
+    await expect(storage.get('uploads/user-1/photo.jpg')).resolves.toEqual(Buffer.from('image'));
+
+    await storage.delete('uploads/user-1/photo.jpg');
+    await expect(storage.get('uploads/user-1/photo.jpg')).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('treats deleting a missing file as done', async () => {
+    await expect(storage.delete('uploads/user-1/missing.jpg')).resolves.toBeUndefined();
+  });
+
+  it.each([
+    ['a parent directory', '../escape.jpg'],
+    ['a path that climbs back out', 'uploads/../../escape.jpg'],
+    ['a sibling that shares the root\'s name', '../uploads-evil/escape.jpg'],
+    ['an absolute path', '/etc/passwd'],
+    ['the root itself', '.'],
+  ])('refuses a key that points at %s', async (_case, key) => {
+    await expect(storage.put(key, Buffer.from('x'))).rejects.toThrow('Invalid storage key');
+    await expect(storage.get(key)).rejects.toThrow('Invalid storage key');
+    await expect(storage.delete(key)).rejects.toThrow('Invalid storage key');
+    await expect(fs.readdir(tmpDir)).resolves.toEqual([]);
+  });
+
+  it.each([
+    ['https://api.example.com/uploads/uploads/user-1/photo.jpg', 'uploads/user-1/photo.jpg'],
+    ['/uploads/plants/cover.jpg', 'plants/cover.jpg'],
+    ['https://cdn.example.com/uploads/plants/cover.jpg', null],
+    ['https://api.example.com/static/cover.jpg', null],
+  ])('reads the key of %s as %s', (url, key) => {
+    expect(storage.keyFromUrl(url)).toBe(key);
+  });
+});
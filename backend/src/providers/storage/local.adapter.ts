@@ -0,0 +1,62 @@
+// backend/src/providers/storage/local.adapter.ts
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StorageAdapter } from './types';
+
+export interface LocalStorageConfig {
+  rootDir: string;
+  urlPath: string; // Path the API serves rootDir under, e.g. "/uploads"
+  baseUrl: string; // Public origin of the API
+}
+
+// Files on the API server's disk, for development and tests
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly driver = 'local' as const;
+  readonly rootDir: string;
+
+  constructor(private readonly config: LocalStorageConfig) {
+    this.rootDir = path.resolve(config.rootDir);
+  }
+
+  get urlPath(): string {
+    return this.config.urlPath;
+  }
+
+  async put(key: string, body: Buffer): Promise<string> {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+
+    return `${this.config.baseUrl}${this.config.urlPath}/${key}`;
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolveKey(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  keyFromUrl(url: string): string | null {
+    // Older records hold URLs relative to the API origin
+    const prefixes = [`${this.config.baseUrl}${this.config.urlPath}/`, `${this.config.urlPath}/`];
+    const prefix = prefixes.find(candidate => url.startsWith(candidate));
+    return prefix ? url.slice(prefix.length) : null;
+  }
+
+  // Path of a key inside rootDir, refusing anything that escapes it
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,64 @@
+// backend/src/providers/storage/s3.adapter.ts
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { StorageAdapter } from './types';
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string; // S3-compatible services (MinIO, Cloudflare R2, ...)
+  publicUrl?: string; // CDN in front of the bucket
+}
+
+// Files in an S3 bucket; credentials come from the standard AWS environment variables
+export class S3StorageAdapter implements StorageAdapter {
+  readonly driver = 's3' as const;
+  private readonly client: S3Client;
+  private readonly publicUrl: string;
+
+  constructor(private readonly config: S3StorageConfig) {
+    this.client = new S3Client({
+      region: config.region,
+      ...(config.endpoint && { endpoint: config.endpoint, forcePathStyle: true }),
+    });
+
+    const defaultUrl = config.endpoint
+      ? `${config.endpoint}/${config.bucket}`
+      : `https://${config.bucket}.s3.${config.region}.amazonaws.com`;
+    this.publicUrl = (config.publicUrl || defaultUrl).replace(/\/+$/, '');
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<string> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      CacheControl: 'public, max-age=31536000, immutable', // Keys are never reused
+    }));
+
+    return `${this.publicUrl}/${key}`;
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+    }));
+    if (!response.Body) {
+      throw new Error(`Empty S3 object: ${key}`);
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+    }));
+  }
+
+  keyFromUrl(url: string): string | null {
+    return url.startsWith(`${this.publicUrl}/`) ? url.slice(this.publicUrl.length + 1) : null;
+  }
+}
@@ -0,0 +1,17 @@
+// backend/src/providers/storage/types.ts
+
+export const STORAGE_DRIVERS = ['local', 's3'] as const;
+
+export type StorageDriver = typeof STORAGE_DRIVERS[number];
+
+// Where uploaded files live; keys are relative paths such as "uploads/<user>/<id>.jpg"
+export interface StorageAdapter {
+  readonly driver: StorageDriver;
+  // Store a file and resolve its public URL
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  get(key: string): Promise<Buffer>;
+  // Deleting a missing file is not an error
+  delete(key: string): Promise<void>;
+  // Key of a URL this adapter handed out, null for any other URL
+  keyFromUrl(url: string): string | null;
+}
@@ -0,0 +1,466 @@
+// backend/src/routes/admin.ts
+import express from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { authMiddleware, AuthenticatedRequest, requireRole } from '../middleware/auth';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate';
+import { auditService } from '../services/audit.service';
+import { speciesService } from '../services/species.service';
+import { identificationHistoryService } from '../services/identification-history.service';
+import { SpeciesFileFormat, SpeciesImportFileError, speciesImportService } from '../services/species-import.service';
+import {
+  careGuideSchema,
+  createSpeciesSchema,
+  deprecateSpeciesSchema,
+  mergeSpeciesSchema,
+  speciesExportQuerySchema,
+  speciesImportQuerySchema,
+  speciesParamsSchema,
+  speciesPhotoParamsSchema,
+  updateSpeciesSchema,
+} from '../schemas/species.schemas';
+import { logger } from '../utils/logger';
+
+// Mounted at /api/admin; every route needs an ADMIN account
+const router = express.Router();
+
+router.use(authMiddleware, requireRole('ADMIN'));
+
+const MAX_PHOTO_SIZE = 10 * 1024 * 1024; // 10MB
+const ALLOWED_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const MAX_IMPORT_FILE_SIZE = 2 * 1024 * 1024; // 2MB
+
+const EXPORT_CONTENT_TYPES: Record<SpeciesFileFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_PHOTO_SIZE, files: 1 },
+  fileFilter: (_req, file, callback) => {
+    callback(null, ALLOWED_PHOTO_TYPES.includes(file.mimetype));
+  },
+});
+
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_FILE_SIZE, files: 1 },
+});
+
+const accuracyReportQuerySchema = z.object({
+  since: z.string().datetime('Invalid date format').optional(),
+});
+
+// Parse a single "photo" field and turn multer errors into API errors
+const uploadPhoto = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  upload.single('photo')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+      return res.status(tooLarge ? 413 : 400).json({
+        success: false,
+        error: {
+          code: tooLarge ? 'IMAGE_TOO_LARGE' : 'INVALID_UPLOAD',
+          message: tooLarge ? 'Photo must be 10MB or smaller' : error.message,
+        },
+      });
+    }
+    if (error) {
+      return next(error);
+    }
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'IMAGE_REQUIRED',
+          message: 'A JPEG, PNG or WebP image is required in the "photo" field',
+        },
+      });
+    }
+    next();
+  });
+};
+
+// Parse a single "file" field holding a catalogue spreadsheet
+const uploadCatalogueFile = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  importUpload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+      return res.status(tooLarge ? 413 : 400).json({
+        success: false,
+        error: {
+          code: tooLarge ? 'FILE_TOO_LARGE' : 'INVALID_UPLOAD',
+          message: tooLarge ? 'Import file must be 2MB or smaller' : error.message,
+        },
+      });
+    }
+    if (error) {
+      return next(error);
+    }
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'FILE_REQUIRED',
+          message: 'A CSV or JSON file is required in the "file" field',
+        },
+      });
+    }
+    next();
+  });
+};
+
+// Format from the query, else from the file name or content type
+const detectFileFormat = (file: Express.Multer.File, requested?: SpeciesFileFormat): SpeciesFileFormat | null => {
+  if (requested) {
+    return requested;
+  }
+
+  const name = file.originalname.toLowerCase();
+  if (name.endsWith('.csv') || file.mimetype === 'text/csv') {
+    return 'csv';
+  }
+  if (name.endsWith('.json') || file.mimetype === 'application/json') {
+    return 'json';
+  }
+  return null;
+};
+
+// Service errors that are the client's fault
+const SPECIES_ERRORS: Record<string, { status: number; code: string; message: string }> = {
+  'Species not found': { status: 404, code: 'SPECIES_NOT_FOUND', message: 'Species not found' },
+  'Photo not found': { status: 404, code: 'PHOTO_NOT_FOUND', message: 'Reference photo not found' },
+  'Species already exists': {
+    status: 409,
+    code: 'SPECIES_EXISTS',
+    message: 'A species with this key or scientific name already exists',
+  },
+  'Species is not active': {
+    status: 409,
+    code: 'SPECIES_NOT_ACTIVE',
+    message: 'Deprecated or merged species cannot take part in this change',
+  },
+  'Species key required': {
+    status: 422,
+    code: 'SPECIES_KEY_REQUIRED',
+    message: 'A key is required when the English name has no Latin letters',
+  },
+  'Invalid care ranges': {
+    status: 422,
+    code: 'INVALID_CARE_RANGES',
+    message: 'Each minimum must not exceed its maximum',
+  },
+  'Cannot merge a species into itself': {
+    status: 422,
+    code: 'INVALID_MERGE_TARGET',
+    message: 'A species cannot be merged into itself',
+  },
+  'Unsupported image type': {
+    status: 415,
+    code: 'UNSUPPORTED_MEDIA_TYPE',
+    message: 'Only JPEG, PNG and WebP images are accepted',
+  },
+  'Invalid image': {
+    status: 422,
+    code: 'INVALID_IMAGE',
+    message: 'The image could not be read',
+  },
+  'Too many reference photos': {
+    status: 422,
+    code: 'TOO_MANY_PHOTOS',
+    message: 'A species can have up to 10 reference photos',
+  },
+};
+
+const sendSpeciesError = (error: unknown, res: express.Response): boolean => {
+  const mapped = error instanceof Error ? SPECIES_ERRORS[error.message] : undefined;
+  if (!mapped) {
+    return false;
+  }
+
+  res.status(mapped.status).json({
+    success: false,
+    error: {
+      code: mapped.code,
+      message: mapped.message,
+    },
+  });
+  return true;
+};
+
+// GET /api/admin/species - List the whole catalogue, including deprecated and merged species
+router.get('/species', async (_req: AuthenticatedRequest, res, next) => {
+  try {
+    const species = await speciesService.listAllSpecies();
+
+    res.json({
+      success: true,
+      data: {
+        species,
+        count: species.length,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to list species for admin:', error);
+    next(error);
+  }
+});
+
+// GET /api/admin/species/export - Download the active catalogue as CSV (default) or JSON
+router.get('/species/export',
+  validateQuery(speciesExportQuerySchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { format } = req.query as unknown as z.infer<typeof speciesExportQuerySchema>;
+      const contents = await speciesImportService.exportCatalogue(format);
+      const date = new Date().toISOString().slice(0, 10);
+
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="species-catalogue-${date}.${format}"`);
+      res.send(contents);
+    } catch (error) {
+      logger.error('Failed to export species catalogue:', error);
+      next(error);
+    }
+  }
+);
+
+// POST /api/admin/species/import - Create or update species from a CSV or JSON file (multipart/form-data)
+router.post('/species/import',
+  validateQuery(speciesImportQuerySchema),
+  uploadCatalogueFile,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { format: requestedFormat, dryRun = false } = req.query as unknown as z.infer<typeof speciesImportQuerySchema>;
+      const format = detectFileFormat(req.file!, requestedFormat);
+      if (!format) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'UNSUPPORTED_FORMAT',
+            message: 'Upload a .csv or .json file, or set the format query parameter',
+          },
+        });
+      }
+
+      const report = await speciesImportService.importCatalogue(
+        req.file!.buffer.toString('utf8'),
+        format,
+        { dryRun },
+        auditService.actorFromRequest(req)
+      );
+
+      if (!dryRun && !report.applied) {
+        return res.status(422).json({
+          success: false,
+          error: {
+            code: 'INVALID_IMPORT_ROWS',
+            message: `${report.summary.invalid} of ${report.summary.total} rows have errors; nothing was imported`,
+            details: report,
+          },
+        });
+      }
+
+      res.json({
+        success: true,
+        message: dryRun ? 'Import preview, nothing was saved' : 'Species catalogue imported',
+        data: { report },
+      });
+    } catch (error) {
+      if (error instanceof SpeciesImportFileError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/admin/species - Add a species
+router.post('/species',
+  validateBody(createSpeciesSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const species = await speciesService.createSpecies(req.body, auditService.actorFromRequest(req));
+
+      res.status(201).json({
+        success: true,
+        message: 'Species created successfully',
+        data: { species },
+      });
+    } catch (error) {
+      if (sendSpeciesError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/admin/species/:key - Edit names, care requirements, regions or aliases
+router.patch('/species/:key',
+  validateParams(speciesParamsSchema),
+  validateBody(updateSpeciesSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const species = await speciesService.updateSpecies(req.params.key, req.body, auditService.actorFromRequest(req));
+
+      res.json({
+        success: true,
+        message: 'Species updated successfully',
+        data: { species },
+      });
+    } catch (error) {
+      if (sendSpeciesError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// PUT /api/admin/species/:key/care-guide - Replace the bilingual care guide
+router.put('/species/:key/care-guide',
+  validateParams(speciesParamsSchema),
+  validateBody(careGuideSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const species = await speciesService.updateCareGuide(req.params.key, req.body, auditService.actorFromRequest(req));
+
+      res.json({
+        success: true,
+        message: 'Care guide updated successfully',
+        data: { species },
+      });
+    } catch (error) {
+      if (sendSpeciesError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/admin/species/:key/deprecate - Hide a species from identification and search
+router.post('/species/:key/deprecate',
+  validateParams(speciesParamsSchema),
+  validateBody(deprecateSpeciesSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { reason } = req.body as z.infer<typeof deprecateSpeciesSchema>;
+      const species = await speciesService.deprecateSpecies(req.params.key, reason, auditService.actorFromRequest(req));
+
+      res.json({
+        success: true,
+        message: 'Species deprecated',
+        data: { species },
+      });
+    } catch (error) {
+      if (sendSpeciesError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/admin/species/:key/merge - Merge a duplicate species into another
+router.post('/species/:key/merge',
+  validateParams(speciesParamsSchema),
+  validateBody(mergeSpeciesSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { targetKey } = req.body as z.infer<typeof mergeSpeciesSchema>;
+      const species = await speciesService.mergeSpecies(req.params.key, targetKey, auditService.actorFromRequest(req));
+
+      res.json({
+        success: true,
+        message: `Species merged into ${targetKey}`,
+        data: { species },
+      });
+    } catch (error) {
+      if (sendSpeciesError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/admin/species/:key/photos - Upload a reference photo (multipart/form-data)
+router.post('/species/:key/photos',
+  validateParams(speciesParamsSchema),
+  uploadPhoto,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const species = await speciesService.addReferencePhoto(
+        req.params.key,
+        req.file!.buffer,
+        auditService.actorFromRequest(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Reference photo uploaded',
+        data: { species },
+      });
+    } catch (error) {
+      if (sendSpeciesError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/admin/species/:key/photos/:photoId - Remove a reference photo
+router.delete('/species/:key/photos/:photoId',
+  validateParams(speciesPhotoParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const species = await speciesService.removeReferencePhoto(
+        req.params.key,
+        req.params.photoId,
+        auditService.actorFromRequest(req)
+      );
+
+      res.json({
+        success: true,
+        message: 'Reference photo removed',
+        data: { species },
+      });
+    } catch (error) {
+      if (sendSpeciesError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/admin/identifications/accuracy - Per-species identification accuracy from user feedback
+router.get('/identifications/accuracy',
+  validateQuery(accuracyReportQuerySchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { since } = req.query as z.infer<typeof accuracyReportQuerySchema>;
+
+      const report = await identificationHistoryService.getAccuracyReport(since ? new Date(since) : undefined);
+
+      res.json({
+        success: true,
+        data: { report },
+      });
+    } catch (error) {
+      logger.error('Failed to build identification accuracy report:', error);
+      next(error);
+    }
+  }
+);
+
+export default router;
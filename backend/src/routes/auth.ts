@@ -4,6 +4,7 @@ import rateLimit from 'express-rate-limit';
 import { AuthService } from '../services/auth.service';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
+import { isValidTimezone } from '../utils/timezone';
 
 const router = Router();
 const authService = new AuthService();
@@ -37,6 +38,10 @@ const registerSchema = z.object({
   firstName: z.string().min(1, 'First name required').max(50).optional(),
   lastName: z.string().min(1, 'Last name required').max(50).optional(),
   deviceId: z.string().uuid('Invalid device ID'),
+  // The device's zone; reminders and "today" use Africa/Cairo until it is set
+  timezone: z.string()
+    .refine(isValidTimezone, 'Invalid IANA time zone, e.g. Africa/Cairo')
+    .optional(),
 });
 
 const loginSchema = z.object({
@@ -92,7 +97,7 @@ router.post('/register',
   validate(registerSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { email, password, firstName, lastName, deviceId } = req.body;
+      const { email, password, firstName, lastName, deviceId, timezone } = req.body;
 
       const result = await authService.register({
         email,
@@ -100,6 +105,7 @@ router.post('/register',
         firstName,
         lastName,
         deviceId,
+        timezone,
       });
 
       logger.info({
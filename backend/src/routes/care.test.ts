@@ -0,0 +1,37 @@
+// backend/src/routes/care.test.ts
+import request from 'supertest';
+import app from '../app';
+import { signIn } from '../test/auth';
+import { resetPrismaMock } from '../test/prisma';
+
+const USER_ID = '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0001';
+
+describe('GET /api/care/due', () => {
+  let auth: string;
+
+  beforeEach(() => {
+    resetPrismaMock();
+    auth = signIn(USER_ID);
+  });
+
+  it('looks a week ahead by default', async () => {
+    const res = await request(app).get('/api/care/due').set('Authorization', auth);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.upcomingDays).toBe(7);
+  });
+
+  it('accepts up to 30 days', async () => {
+    const res = await request(app).get('/api/care/due?days=30').set('Authorization', auth);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.upcomingDays).toBe(30);
+  });
+
+  it.each(['-3', '0', '31', '2.5', 'soon'])('rejects days=%s', async (days) => {
+    const res = await request(app).get(`/api/care/due?days=${days}`).set('Authorization', auth);
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('VALIDATION_ERROR');
+  });
+});
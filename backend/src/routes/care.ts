@@ -2,83 +2,24 @@
 import express from 'express';
 import { z } from 'zod';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate';
 import { careService } from '../services/care.service';
+import { careScheduleService } from '../services/care-schedule.service';
+import {
+  bulkCareLogSchema,
+  careLogParamsSchema,
+  createCareLogSchema,
+  DueCareQuery,
+  dueCareQuerySchema,
+  FertilizerStatsQuery,
+  fertilizerStatsQuerySchema,
+  plantIdParamsSchema,
+  updateCareLogSchema,
+} from '../schemas/care.schemas';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
 
-// Validation schemas matching our database schema and care service
-const createCareLogSchema = z.object({
-  plantId: z.string().uuid('Invalid plant ID'),
-  type: z.enum(['WATERING', 'FERTILIZING', 'PRUNING', 'REPOTTING', 'OBSERVATION'], {
-    errorMap: () => ({ message: 'Invalid care type' })
-  }),
-  notes: z.string().max(500, 'Notes too long').optional(),
-  metadata: z.string().max(1000, 'Metadata too long').optional(),
-  imageUrl: z.string().url('Invalid image URL').optional(),
-  performedAt: z.string().datetime('Invalid date format').optional(),
-});
-
-const updateCareLogSchema = z.object({
-  type: z.enum(['WATERING', 'FERTILIZING', 'PRUNING', 'REPOTTING', 'OBSERVATION']).optional(),
-  notes: z.string().max(500, 'Notes too long').optional(),
-  metadata: z.string().max(1000, 'Metadata too long').optional(),
-  imageUrl: z.string().url('Invalid image URL').optional(),
-  performedAt: z.string().datetime('Invalid date format').optional(),
-}).partial();
-
-const careLogParamsSchema = z.object({
-  id: z.string().uuid('Invalid care log ID format'),
-});
-
-const plantIdParamsSchema = z.object({
-  plantId: z.string().uuid('Invalid plant ID format'),
-});
-
-// Validation middleware
-const validateBody = (schema: z.ZodSchema) => {
-  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    try {
-      const result = schema.parse(req.body);
-      req.body = result;
-      next();
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          success: false,
-          error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Invalid input data',
-            details: error.errors,
-          },
-        });
-      }
-      next(error);
-    }
-  };
-};
-
-const validateParams = (schema: z.ZodSchema) => {
-  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    try {
-      schema.parse(req.params);
-      next();
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          success: false,
-          error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Invalid parameters',
-            details: error.errors,
-          },
-        });
-      }
-      next(error);
-    }
-  };
-};
-
 // POST /api/care - Log care action
 router.post('/', 
   authMiddleware, 
@@ -117,6 +58,63 @@ router.post('/',
   }
 );
 
+// POST /api/care/bulk - Log one care action for many plants, or for every plant in a space
+router.post('/bulk',
+  authMiddleware,
+  validateBody(bulkCareLogSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const { performedAt, ...careData } = req.body as z.infer<typeof bulkCareLogSchema>;
+
+      const summary = await careService.logBulkCareAction(userId, {
+        ...careData,
+        performedAt: performedAt ? new Date(performedAt) : undefined,
+      });
+
+      if (summary.results.length === 0) {
+        return res.status(422).json({
+          success: false,
+          error: {
+            code: 'SPACE_EMPTY',
+            message: 'There are no plants in this space',
+          },
+        });
+      }
+      if (summary.logged === 0) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'PLANTS_NOT_FOUND',
+            message: 'None of the plants were found',
+          },
+          data: summary,
+        });
+      }
+
+      // Partial success is still a 201; failed results say which plants were skipped
+      res.status(201).json({
+        success: true,
+        message: `Care action logged for ${summary.logged} of ${summary.results.length} plants`,
+        data: summary,
+      });
+
+      logger.info(`Bulk care action logged: ${careData.type} for ${summary.logged} plants`);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Space not found') {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'SPACE_NOT_FOUND',
+            message: 'Space not found',
+          },
+        });
+      }
+      next(error);
+    }
+  }
+);
+
 // GET /api/care/plant/:plantId - Get care history for specific plant
 router.get('/plant/:plantId', 
   authMiddleware,
@@ -194,6 +192,59 @@ router.get('/stats', authMiddleware, async (req: AuthenticatedRequest, res, next
   }
 });
 
+// GET /api/care/stats/fertilizer - Fertilizer used per month, from FERTILIZING metadata
+router.get('/stats/fertilizer',
+  authMiddleware,
+  validateQuery(fertilizerStatsQuerySchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const query = req.query as unknown as FertilizerStatsQuery;
+
+      const stats = await careService.getFertilizerStats(userId, query);
+
+      res.json({
+        success: true,
+        data: { stats },
+      });
+
+      logger.info(`Fertilizer stats retrieved for user ${userId}: ${stats.totalApplications} applications in ${query.months} months`);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/care/due - Get overdue, due today and upcoming care tasks
+router.get('/due',
+  authMiddleware,
+  validateQuery(dueCareQuerySchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const { days } = req.query as unknown as DueCareQuery;
+
+      const due = await careScheduleService.getDueCare(userId, days);
+
+      res.json({
+        success: true,
+        data: {
+          ...due,
+          counts: {
+            today: due.today.length,
+            overdue: due.overdue.length,
+            upcoming: due.upcoming.length,
+          },
+        },
+      });
+
+      logger.info(`Due care retrieved for user ${userId}: ${due.overdue.length} overdue, ${due.today.length} today`);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // GET /api/care/:id - Get specific care log
 router.get('/:id',
   authMiddleware,
@@ -260,6 +311,17 @@ router.put('/:id',
           },
         });
       }
+      // Metadata that does not fit the care log's type
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid input data',
+            details: error.errors,
+          },
+        });
+      }
       next(error);
     }
   }
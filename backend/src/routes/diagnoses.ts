@@ -0,0 +1,193 @@
+// backend/src/routes/diagnoses.ts
+import express from 'express';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { validateBody, validateParams } from '../middleware/validate';
+import { diagnosisService } from '../services/diagnosis.service';
+import {
+  acceptTreatmentSchema,
+  createDiagnosisSchema,
+  diagnosisFeedbackSchema,
+  diagnosisParamsSchema,
+  plantDiagnosesParamsSchema,
+} from '../schemas/diagnosis.schemas';
+import { logger } from '../utils/logger';
+
+// Mounted at /api/plants/:id/diagnoses
+const router = express.Router({ mergeParams: true });
+
+const sendNotFound = (res: express.Response, code: 'PLANT_NOT_FOUND' | 'DIAGNOSIS_NOT_FOUND') => {
+  return res.status(404).json({
+    success: false,
+    error: {
+      code,
+      message: code === 'PLANT_NOT_FOUND' ? 'Plant not found' : 'Diagnosis not found',
+    },
+  });
+};
+
+// POST /api/plants/:id/diagnoses - Diagnose a plant from its symptoms
+router.post('/',
+  authMiddleware,
+  validateParams(plantDiagnosesParamsSchema),
+  validateBody(createDiagnosisSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const plantId = req.params.id;
+
+      const diagnosis = await diagnosisService.createDiagnosis(plantId, userId, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: diagnosis.candidates.length > 0
+          ? 'Diagnosis completed'
+          : 'No matching problem found, consider asking an expert',
+        data: {
+          diagnosis,
+          possibleProblems: diagnosis.candidates,
+        },
+      });
+
+      logger.info(`User ${userId} diagnosed plant ${plantId}: ${diagnosis.diagnosis || 'no match'}`);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Plant not found') {
+        return sendNotFound(res, 'PLANT_NOT_FOUND');
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/plants/:id/diagnoses - List diagnoses of a plant
+router.get('/',
+  authMiddleware,
+  validateParams(plantDiagnosesParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const diagnoses = await diagnosisService.getPlantDiagnoses(req.params.id, userId);
+
+      res.json({
+        success: true,
+        data: {
+          diagnoses,
+          count: diagnoses.length,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Plant not found') {
+        return sendNotFound(res, 'PLANT_NOT_FOUND');
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/plants/:id/diagnoses/:diagnosisId - Get a specific diagnosis
+router.get('/:diagnosisId',
+  authMiddleware,
+  validateParams(diagnosisParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const { id: plantId, diagnosisId } = req.params;
+
+      const diagnosis = await diagnosisService.getDiagnosisById(diagnosisId, plantId, userId);
+
+      if (!diagnosis) {
+        return sendNotFound(res, 'DIAGNOSIS_NOT_FOUND');
+      }
+
+      res.json({
+        success: true,
+        data: { diagnosis },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Plant not found') {
+        return sendNotFound(res, 'PLANT_NOT_FOUND');
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/plants/:id/diagnoses/:diagnosisId/accept - Start the treatment plan of a problem
+router.post('/:diagnosisId/accept',
+  authMiddleware,
+  validateParams(diagnosisParamsSchema),
+  validateBody(acceptTreatmentSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const { id: plantId, diagnosisId } = req.params;
+
+      const diagnosis = await diagnosisService.acceptTreatment(diagnosisId, plantId, userId, req.body);
+
+      res.json({
+        success: true,
+        message: 'Treatment plan scheduled',
+        data: {
+          diagnosis,
+          treatmentPlan: diagnosis.treatmentPlan,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Plant not found') {
+        return sendNotFound(res, 'PLANT_NOT_FOUND');
+      }
+      if (error instanceof Error && error.message === 'Diagnosis not found') {
+        return sendNotFound(res, 'DIAGNOSIS_NOT_FOUND');
+      }
+      if (error instanceof Error && error.message === 'Diagnosis already resolved') {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'DIAGNOSIS_ALREADY_RESOLVED',
+            message: 'Resolved diagnoses cannot start a new treatment',
+          },
+        });
+      }
+      if (error instanceof Error && error.message === 'Treatment not available') {
+        return res.status(422).json({
+          success: false,
+          error: {
+            code: 'TREATMENT_NOT_AVAILABLE',
+            message: 'The problem is not one of the diagnosis candidates',
+          },
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/plants/:id/diagnoses/:diagnosisId/feedback - Report whether the problem was solved
+router.post('/:diagnosisId/feedback',
+  authMiddleware,
+  validateParams(diagnosisParamsSchema),
+  validateBody(diagnosisFeedbackSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const { id: plantId, diagnosisId } = req.params;
+
+      const diagnosis = await diagnosisService.recordFeedback(diagnosisId, plantId, userId, req.body);
+
+      res.json({
+        success: true,
+        message: 'Thank you for your feedback',
+        data: { diagnosis },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Plant not found') {
+        return sendNotFound(res, 'PLANT_NOT_FOUND');
+      }
+      if (error instanceof Error && error.message === 'Diagnosis not found') {
+        return sendNotFound(res, 'DIAGNOSIS_NOT_FOUND');
+      }
+      next(error);
+    }
+  }
+);
+
+export default router;
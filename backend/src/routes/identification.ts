@@ -1,19 +1,34 @@
 // backend/src/routes/identification.ts
 import express from 'express';
+import multer from 'multer';
 import { z } from 'zod';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate';
 import { identificationService } from '../services/identification.service';
+import { identificationHistoryService } from '../services/identification-history.service';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
 
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
+const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Photos are only forwarded to the providers, so they stay in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_SIZE, files: 1 },
+  fileFilter: (_req, file, callback) => {
+    callback(null, ALLOWED_IMAGE_TYPES.includes(file.mimetype));
+  },
+});
+
 // Validation schemas
 const identifyPlantSchema = z.object({
   description: z.string()
     .min(2, 'Description too short')
     .max(200, 'Description too long'),
   
-  // Optional metadata for future AI integration
+  // Where the plant grows; used to re-rank the candidates
   metadata: z.object({
     location: z.object({
       latitude: z.number().min(-90).max(90).optional(),
@@ -24,6 +39,17 @@ const identifyPlantSchema = z.object({
   }).optional(),
 });
 
+// Multipart fields arrive as strings, so the context is flat and coerced
+const identifyImageSchema = z.object({
+  description: z.string()
+    .max(200, 'Description too long')
+    .optional(),
+  environment: z.enum(['indoor', 'outdoor']).optional(),
+  lightCondition: z.enum(['low', 'medium', 'bright']).optional(),
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
+});
+
 const searchPlantSchema = z.object({
   query: z.string()
     .min(1, 'Search query required')
@@ -37,70 +63,75 @@ const plantIdSchema = z.object({
     .max(50, 'Plant ID too long'),
 });
 
-// Validation middleware
-const validateBody = (schema: z.ZodSchema) => {
-  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    try {
-      const result = schema.parse(req.body);
-      req.body = result;
-      next();
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          success: false,
-          error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Invalid input data',
-            details: error.errors,
-          },
-        });
-      }
-      next(error);
-    }
-  };
-};
+const identificationParamsSchema = z.object({
+  resultId: z.string()
+    .uuid('Invalid identification ID format'),
+});
 
-const validateParams = (schema: z.ZodSchema) => {
-  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    try {
-      schema.parse(req.params);
-      next();
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          success: false,
-          error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Invalid parameters',
-            details: error.errors,
-          },
-        });
-      }
-      next(error);
-    }
-  };
-};
+// Everything is optional; the plant is prefilled from the identified species
+const adoptIdentificationSchema = z.object({
+  scientificName: z.string()
+    .max(100, 'Scientific name too long')
+    .optional(),
+  name: z.string()
+    .min(1, 'Plant name is required')
+    .max(100, 'Plant name too long')
+    .optional(),
+  location: z.string()
+    .max(500, 'Location data too long')
+    .optional(),
+  acquisitionDate: z.string()
+    .datetime('Invalid date format')
+    .optional(),
+});
 
-const validateQuery = (schema: z.ZodSchema) => {
-  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    try {
-      const result = schema.parse(req.query);
-      req.query = result as any;
-      next();
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          success: false,
-          error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Invalid query parameters',
-            details: error.errors,
-          },
-        });
-      }
-      next(error);
+const identificationFeedbackSchema = z.discriminatedUnion('verdict', [
+  z.object({
+    verdict: z.literal('correct'),
+  }),
+  z.object({
+    verdict: z.literal('wrong'),
+    // What the plant really was: a catalogue key or a name in any language
+    actual: z.string()
+      .trim()
+      .min(1, 'Plant name too short')
+      .max(100, 'Plant name too long')
+      .optional(),
+  }),
+]);
+
+const historyQuerySchema = z.object({
+  limit: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().int().min(1).max(100)).optional(),
+  offset: z.string().regex(/^\d+$/).transform(Number).optional(),
+});
+
+// Parse a single "image" field and turn multer errors into API errors
+const uploadImage = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  upload.single('image')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+      return res.status(tooLarge ? 413 : 400).json({
+        success: false,
+        error: {
+          code: tooLarge ? 'IMAGE_TOO_LARGE' : 'INVALID_UPLOAD',
+          message: tooLarge ? 'Image must be 10MB or smaller' : error.message,
+        },
+      });
+    }
+    if (error) {
+      return next(error);
     }
-  };
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'IMAGE_REQUIRED',
+          message: 'A JPEG, PNG or WebP image is required in the "image" field',
+        },
+      });
+    }
+    next();
+  });
 };
 
 // POST /api/identify - Identify plant by description
@@ -112,7 +143,7 @@ router.post('/',
       const { description, metadata } = req.body;
       const userId = req.user!.id;
       
-      const result = identificationService.identifyPlant(description);
+      const result = await identificationService.identify({ description, context: metadata });
       
       if (!result.success) {
         return res.status(500).json({
@@ -124,16 +155,22 @@ router.post('/',
         });
       }
       
+      const saved = await identificationHistoryService.saveResult(userId, { description, result });
+
       res.json({
         success: true,
         message: 'Plant identification completed',
         data: {
+          identificationId: saved?.id || null,
           identification: result.data,
+          provider: result.data?.source || null,
+          candidates: result.candidates,
           metadata: {
             searchTerm: description,
             timestamp: new Date().toISOString(),
             userId,
             ...metadata,
+            governorate: result.context?.governorate || null,
           },
         },
       });
@@ -147,11 +184,193 @@ router.post('/',
   }
 );
 
+// POST /api/identify/image - Identify plant from a photo (multipart/form-data)
+router.post('/image',
+  authMiddleware,
+  uploadImage,
+  validateBody(identifyImageSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const file = req.file!;
+      const { description, environment, lightCondition, latitude, longitude } =
+        req.body as z.infer<typeof identifyImageSchema>;
+
+      const result = await identificationService.identify({
+        image: { buffer: file.buffer, mimeType: file.mimetype, filename: file.originalname },
+        description,
+        context: { environment, lightCondition, location: { latitude, longitude } },
+      });
+      const saved = await identificationHistoryService.saveResult(userId, {
+        description,
+        image: file.buffer,
+        result,
+      });
+
+      res.json({
+        success: true,
+        message: 'Plant identification completed',
+        data: {
+          identificationId: saved?.id || null,
+          identification: result.data,
+          provider: result.data?.source || null,
+          candidates: result.candidates,
+          attempts: result.attempts,
+          metadata: {
+            filename: file.originalname,
+            size: file.size,
+            timestamp: new Date().toISOString(),
+            userId,
+            environment,
+            lightCondition,
+            governorate: result.context?.governorate || null,
+          },
+        },
+      });
+
+      logger.info(`Image identification completed for user ${userId} by ${result.data?.source || 'no provider'} -> ${result.data?.names.english}`);
+    } catch (error) {
+      logger.error('Image identification failed:', error);
+      next(error);
+    }
+  }
+);
+
+// POST /api/identify/:resultId/adopt - "Add to Garden": create a plant from an identification result
+router.post('/:resultId/adopt',
+  authMiddleware,
+  validateParams(identificationParamsSchema),
+  validateBody(adoptIdentificationSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+
+      const { plant, identification, alreadyAdopted } = await identificationHistoryService.adopt(
+        req.params.resultId,
+        userId,
+        req.body as z.infer<typeof adoptIdentificationSchema>
+      );
+
+      // A repeated request gets the plant the first one created
+      res.status(alreadyAdopted ? 200 : 201).json({
+        success: true,
+        message: alreadyAdopted ? 'Plant is already in your garden' : 'Plant added to your garden',
+        data: {
+          plant,
+          identificationId: identification.id,
+          alreadyAdopted,
+        },
+      });
+
+      logger.info(`User ${userId} adopted identification ${identification.id} as plant ${plant.id}`);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Identification not found') {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'IDENTIFICATION_NOT_FOUND',
+            message: 'Identification not found',
+          },
+        });
+      }
+      if (error instanceof Error && error.message === 'Identification already adopted') {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'IDENTIFICATION_ALREADY_ADOPTED',
+            message: 'The plant created from this identification has been deleted',
+          },
+        });
+      }
+      if (error instanceof Error && error.message === 'Candidate not found') {
+        return res.status(422).json({
+          success: false,
+          error: {
+            code: 'CANDIDATE_NOT_FOUND',
+            message: 'The scientific name is not one of the identification candidates',
+          },
+        });
+      }
+      if (error instanceof Error && error.message === 'Nothing to adopt') {
+        return res.status(422).json({
+          success: false,
+          error: {
+            code: 'NOTHING_TO_ADOPT',
+            message: 'The plant was not identified, so it cannot be prefilled',
+          },
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/identify/:resultId/feedback - Tell us whether the identification was right
+router.post('/:resultId/feedback',
+  authMiddleware,
+  validateParams(identificationParamsSchema),
+  validateBody(identificationFeedbackSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+
+      const identification = await identificationHistoryService.recordFeedback(
+        req.params.resultId,
+        userId,
+        req.body as z.infer<typeof identificationFeedbackSchema>
+      );
+
+      res.json({
+        success: true,
+        message: 'Thanks for the feedback',
+        data: { identification },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Identification not found') {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'IDENTIFICATION_NOT_FOUND',
+            message: 'Identification not found',
+          },
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/identify/history - The user's past identifications, newest first
+router.get('/history',
+  authMiddleware,
+  validateQuery(historyQuerySchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const { limit, offset } = req.query as z.infer<typeof historyQuerySchema>;
+
+      const { identifications, total } = await identificationHistoryService.getUserHistory(userId, { limit, offset });
+
+      res.json({
+        success: true,
+        data: {
+          identifications,
+          count: identifications.length,
+          total,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to fetch identification history:', error);
+      next(error);
+    }
+  }
+);
+
 // GET /api/identify/database - Get available plants
 router.get('/database', authMiddleware, async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.user!.id;
-    const plants = identificationService.getAvailablePlants();
+    const plants = await identificationService.getAvailablePlants();
     
     res.json({
       success: true,
@@ -179,7 +398,7 @@ router.get('/search',
       const { query, limit } = req.query as any;
       const userId = req.user!.id;
       
-      const results = identificationService.searchPlants(query, limit || 10);
+      const results = await identificationService.searchPlants(query, limit || 10);
       
       res.json({
         success: true,
@@ -204,7 +423,7 @@ router.get('/search',
 router.get('/stats', authMiddleware, async (req: AuthenticatedRequest, res, next) => {
   try {
     const userId = req.user!.id;
-    const stats = identificationService.getDatabaseStats();
+    const stats = await identificationService.getDatabaseStats();
     
     res.json({
       success: true,
@@ -229,7 +448,7 @@ router.get('/care/:plantId',
       const { plantId } = req.params;
       const userId = req.user!.id;
       
-      const plantInfo = identificationService.getPlantCare(plantId);
+      const plantInfo = await identificationService.getPlantCare(plantId);
       
       res.json({
         success: true,
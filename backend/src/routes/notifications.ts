@@ -0,0 +1,214 @@
+// backend/src/routes/notifications.ts
+import express from 'express';
+import { z } from 'zod';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate';
+import { notificationService } from '../services/notification.service';
+import { isValidTimezone } from '../utils/timezone';
+import { logger } from '../utils/logger';
+
+const router = express.Router();
+
+// Validation schemas
+const notificationQuerySchema = z.object({
+  unreadOnly: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  limit: z.string().regex(/^\d+$/).transform(Number).pipe(z.number().int().min(1).max(100)).optional(),
+  offset: z.string().regex(/^\d+$/).transform(Number).optional(),
+});
+
+const notificationParamsSchema = z.object({
+  id: z.string().uuid('Invalid notification ID format'),
+});
+
+const snoozeSchema = z.object({
+  minutes: z.number()
+    .int()
+    .min(5, 'Snooze must be at least 5 minutes')
+    .max(7 * 24 * 60, 'Snooze cannot exceed 7 days')
+    .default(60),
+});
+
+const preferencesSchema = z.object({
+  timezone: z.string()
+    .refine(isValidTimezone, 'Invalid IANA time zone, e.g. Africa/Cairo')
+    .optional(),
+  reminderHour: z.number()
+    .int()
+    .min(0, 'Reminder hour must be between 0 and 23')
+    .max(23, 'Reminder hour must be between 0 and 23')
+    .optional(),
+});
+
+// GET /api/notifications - List delivered notifications
+router.get('/',
+  authMiddleware,
+  validateQuery(notificationQuerySchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const { unreadOnly, limit, offset } = req.query as z.infer<typeof notificationQuerySchema>;
+
+      const result = await notificationService.getUserNotifications(userId, { unreadOnly, limit, offset });
+
+      res.json({
+        success: true,
+        data: {
+          notifications: result.notifications,
+          count: result.notifications.length,
+          total: result.total,
+          unreadCount: result.unreadCount,
+        },
+      });
+
+      logger.info(`Notifications retrieved for user ${userId}: ${result.notifications.length} entries`);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/notifications/read-all - Mark all notifications as read
+router.patch('/read-all', authMiddleware, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const updated = await notificationService.markAllAsRead(userId);
+
+    res.json({
+      success: true,
+      message: 'All notifications marked as read',
+      data: { updated },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PUT /api/notifications/preferences - Update reminder time and time zone
+router.put('/preferences',
+  authMiddleware,
+  validateBody(preferencesSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const preferences = await notificationService.updatePreferences(userId, req.body);
+
+      res.json({
+        success: true,
+        message: 'Notification preferences updated successfully',
+        data: { preferences },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/notifications/:id/read - Mark a notification as read
+router.patch('/:id/read',
+  authMiddleware,
+  validateParams(notificationParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const notification = await notificationService.markAsRead(req.params.id, userId);
+
+      res.json({
+        success: true,
+        message: 'Notification marked as read',
+        data: { notification },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Notification not found') {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOTIFICATION_NOT_FOUND',
+            message: 'Notification not found',
+          },
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/notifications/:id/complete - Log the reminded care for every plant (idempotent)
+router.post('/:id/complete',
+  authMiddleware,
+  validateParams(notificationParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const result = await notificationService.completeCareReminder(req.params.id, userId);
+
+      res.json({
+        success: true,
+        message: result.alreadyCompleted ? 'Notification was already completed' : 'Care logged for all plants',
+        data: result,
+      });
+
+      logger.info(`Notification ${req.params.id} completed by user ${userId}: ${result.careLogs.length} care logs`);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Notification not found') {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOTIFICATION_NOT_FOUND',
+            message: 'Notification not found',
+          },
+        });
+      }
+      if (error instanceof Error && error.message === 'Notification cannot be completed') {
+        return res.status(422).json({
+          success: false,
+          error: {
+            code: 'NOTIFICATION_NOT_ACTIONABLE',
+            message: 'Only care and treatment reminders can be completed',
+          },
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/notifications/:id/snooze - Deliver the notification again later (idempotent)
+router.post('/:id/snooze',
+  authMiddleware,
+  validateParams(notificationParamsSchema),
+  validateBody(snoozeSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const notification = await notificationService.snoozeNotification(req.params.id, userId, req.body.minutes);
+
+      res.json({
+        success: true,
+        message: 'Notification snoozed',
+        data: { notification },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Notification not found') {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'NOTIFICATION_NOT_FOUND',
+            message: 'Notification not found',
+          },
+        });
+      }
+      if (error instanceof Error && error.message === 'Notification already completed') {
+        return res.status(409).json({
+          success: false,
+          error: {
+            code: 'NOTIFICATION_ALREADY_COMPLETED',
+            message: 'Completed notifications cannot be snoozed',
+          },
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,216 @@
+// backend/src/routes/plant-photos.ts
+import express from 'express';
+import { z } from 'zod';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { validateBody, validateParams } from '../middleware/validate';
+import { plantPhotoService } from '../services/plant-photo.service';
+import {
+  addPlantPhotoSchema,
+  plantPhotoParamsSchema,
+  plantPhotosParamsSchema,
+  reorderPlantPhotosSchema,
+  updatePlantPhotoSchema,
+} from '../schemas/plant-photo.schemas';
+import { logger } from '../utils/logger';
+
+// Mounted at /api/plants/:id/photos
+const router = express.Router({ mergeParams: true });
+
+// Service errors that are the client's fault
+const PHOTO_ERRORS: Record<string, { status: number; code: string; message: string }> = {
+  'Plant not found': { status: 404, code: 'PLANT_NOT_FOUND', message: 'Plant not found' },
+  'Photo not found': { status: 404, code: 'PHOTO_NOT_FOUND', message: 'Photo not found' },
+  'Care log not found': { status: 404, code: 'CARE_LOG_NOT_FOUND', message: 'Care log not found for this plant' },
+  'Diagnosis not found': { status: 404, code: 'DIAGNOSIS_NOT_FOUND', message: 'Diagnosis not found for this plant' },
+  'Too many photos': { status: 422, code: 'TOO_MANY_PHOTOS', message: 'A plant can have up to 200 photos' },
+  'Invalid photo order': {
+    status: 422,
+    code: 'INVALID_PHOTO_ORDER',
+    message: 'The order must list every photo of the plant exactly once',
+  },
+};
+
+const sendPhotoError = (error: unknown, res: express.Response): boolean => {
+  const mapped = error instanceof Error ? PHOTO_ERRORS[error.message] : undefined;
+  if (!mapped) {
+    return false;
+  }
+
+  res.status(mapped.status).json({
+    success: false,
+    error: {
+      code: mapped.code,
+      message: mapped.message,
+    },
+  });
+  return true;
+};
+
+// GET /api/plants/:id/photos - List a plant's photos in gallery order
+router.get('/',
+  authMiddleware,
+  validateParams(plantPhotosParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const photos = await plantPhotoService.getPlantPhotos(req.params.id, req.user!.id);
+
+      res.json({
+        success: true,
+        data: {
+          photos,
+          count: photos.length,
+        },
+      });
+    } catch (error) {
+      if (sendPhotoError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/plants/:id/photos/timeline - Growth journal, oldest photo first
+router.get('/timeline',
+  authMiddleware,
+  validateParams(plantPhotosParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const timeline = await plantPhotoService.getTimeline(req.params.id, req.user!.id);
+
+      res.json({
+        success: true,
+        data: {
+          timeline,
+          count: timeline.length,
+        },
+      });
+    } catch (error) {
+      if (sendPhotoError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/plants/:id/photos - Add a photo to the plant's journal
+router.post('/',
+  authMiddleware,
+  validateParams(plantPhotosParamsSchema),
+  validateBody(addPlantPhotoSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const photo = await plantPhotoService.addPhoto(req.params.id, userId, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Photo added',
+        data: { photo },
+      });
+
+      logger.info(`User ${userId} added photo ${photo.id} to plant ${req.params.id}`);
+    } catch (error) {
+      if (sendPhotoError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// PUT /api/plants/:id/photos/order - Reorder the gallery
+router.put('/order',
+  authMiddleware,
+  validateParams(plantPhotosParamsSchema),
+  validateBody(reorderPlantPhotosSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { photoIds } = req.body as z.infer<typeof reorderPlantPhotosSchema>;
+      const photos = await plantPhotoService.reorderPhotos(req.params.id, req.user!.id, photoIds);
+
+      res.json({
+        success: true,
+        message: 'Photos reordered',
+        data: { photos },
+      });
+    } catch (error) {
+      if (sendPhotoError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/plants/:id/photos/:photoId - Update a photo's caption, date or links
+router.patch('/:photoId',
+  authMiddleware,
+  validateParams(plantPhotoParamsSchema),
+  validateBody(updatePlantPhotoSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id: plantId, photoId } = req.params;
+      const photo = await plantPhotoService.updatePhoto(plantId, photoId, req.user!.id, req.body);
+
+      res.json({
+        success: true,
+        message: 'Photo updated',
+        data: { photo },
+      });
+    } catch (error) {
+      if (sendPhotoError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/plants/:id/photos/:photoId/primary - Make a photo the plant's cover
+router.post('/:photoId/primary',
+  authMiddleware,
+  validateParams(plantPhotoParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id: plantId, photoId } = req.params;
+      const photo = await plantPhotoService.setPrimary(plantId, photoId, req.user!.id);
+
+      res.json({
+        success: true,
+        message: 'Primary photo updated',
+        data: { photo },
+      });
+    } catch (error) {
+      if (sendPhotoError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/plants/:id/photos/:photoId - Remove a photo from the journal
+router.delete('/:photoId',
+  authMiddleware,
+  validateParams(plantPhotoParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id: plantId, photoId } = req.params;
+      await plantPhotoService.deletePhoto(plantId, photoId, req.user!.id);
+
+      res.json({
+        success: true,
+        message: 'Photo deleted',
+      });
+    } catch (error) {
+      if (sendPhotoError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,107 @@
+// backend/src/routes/plants.test.ts
+import request from 'supertest';
+import app from '../app';
+import { signIn } from '../test/auth';
+import { prismaMock, resetPrismaMock } from '../test/prisma';
+
+const USER_ID = '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0001';
+const PLANT_IDS = [
+  '5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001',
+  '5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0002',
+  '5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0003',
+];
+
+const plantRow = (id: string): Record<string, unknown> => ({
+  id,
+  userId: USER_ID,
+  name: `Plant ${id.slice(-1)}`,
+  primaryImageUrl: null,
+  deletedAt: null,
+});
+
+describe('plant routes', () => {
+  let auth: string;
+
+  beforeEach(() => {
+    resetPrismaMock();
+    auth = signIn(USER_ID);
+  });
+
+  it('boots the app', async () => {
+    const res = await request(app).get('/health');
+
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe('ok');
+  });
+
+  it('requires a signed-in user', async () => {
+    const res = await request(app).get('/api/plants');
+
+    expect(res.status).toBe(401);
+  });
+
+  describe('GET /api/plants', () => {
+    it('returns the first page and a cursor for the next one', async () => {
+      prismaMock.plant.findMany.mockResolvedValue(PLANT_IDS.map(plantRow));
+      prismaMock.plant.count.mockResolvedValue(5);
+
+      const res = await request(app).get('/api/plants?limit=2').set('Authorization', auth);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.plants.map((plant: { id: string }) => plant.id)).toEqual(PLANT_IDS.slice(0, 2));
+      expect(res.body.data.pagination).toEqual({
+        total: 5,
+        limit: 2,
+        offset: 0,
+        page: 1,
+        totalPages: 3,
+        hasNextPage: true,
+        hasPrevPage: false,
+        nextCursor: PLANT_IDS[1],
+      });
+      expect(prismaMock.plant.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ userId: USER_ID, deletedAt: null }),
+        take: 3,
+        skip: 0,
+      }));
+    });
+
+    it('rejects a page size over 100', async () => {
+      const res = await request(app).get('/api/plants?limit=500').set('Authorization', auth);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('rejects a cursor that is not one of the user\'s plants', async () => {
+      const res = await request(app).get(`/api/plants?cursor=${PLANT_IDS[0]}`).set('Authorization', auth);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('INVALID_CURSOR');
+    });
+  });
+
+  it('serves /stats instead of treating it as a plant ID', async () => {
+    const res = await request(app).get('/api/plants/stats').set('Authorization', auth);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.stats).toEqual(expect.objectContaining({ total: 0 }));
+  });
+
+  it('validates partial updates', async () => {
+    const res = await request(app)
+      .put(`/api/plants/${PLANT_IDS[0]}`)
+      .set('Authorization', auth)
+      .send({ temperatureMin: 30, temperatureMax: 10 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.details[0].path).toEqual(['temperatureMin']);
+  });
+
+  it('only restores plants that are in the trash', async () => {
+    const res = await request(app).post(`/api/plants/${PLANT_IDS[0]}/restore`).set('Authorization', auth);
+
+    expect(res.status).toBe(404);
+    expect(res.body.error.code).toBe('PLANT_NOT_FOUND');
+  });
+});
@@ -2,74 +2,59 @@
 import express from 'express';
 import { z } from 'zod';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate';
 import { plantService } from '../services/plant.service';
-import { createPlantSchema, updatePlantSchema, plantParamsSchema } from '../schemas/plant.schemas';
+import { plantHealthService } from '../services/plant-health.service';
+import diagnosisRoutes from './diagnoses';
+import plantPhotoRoutes from './plant-photos';
+import { createPlantSchema, updatePlantSchema, plantParamsSchema, plantQuerySchema } from '../schemas/plant.schemas';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
 
-// Validation middleware
-const validateBody = (schema: z.ZodSchema) => {
-  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+// GET /api/plants - Get all user plants
+router.get('/',
+  authMiddleware,
+  validateQuery(plantQuerySchema),
+  async (req: AuthenticatedRequest, res, next) => {
     try {
-      schema.parse(req.body);
-      next();
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({
-          success: false,
-          error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Invalid input data',
-            details: error.errors,
+      const userId = req.user!.id;
+      const query = req.query as z.infer<typeof plantQuerySchema>;
+      const { plants, total, limit, offset, nextCursor } = await plantService.getUserPlants(userId, query);
+
+      res.json({
+        success: true,
+        data: {
+          plants,
+          count: plants.length,
+          pagination: {
+            total,
+            limit,
+            offset,
+            page: Math.floor(offset / limit) + 1, // Offset paging only
+            totalPages: Math.ceil(total / limit),
+            hasNextPage: nextCursor !== null,
+            hasPrevPage: offset > 0 || query.cursor !== undefined,
+            nextCursor,
           },
-        });
-      }
-      next(error);
-    }
-  };
-};
+        },
+      });
 
-const validateParams = (schema: z.ZodSchema) => {
-  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
-    try {
-      schema.parse(req.params);
-      next();
+      logger.info(`User ${userId} fetched ${plants.length} of ${total} plants`);
     } catch (error) {
-      if (error instanceof z.ZodError) {
+      if (error instanceof Error && error.message === 'Invalid cursor') {
         return res.status(400).json({
           success: false,
           error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Invalid parameters',
-            details: error.errors,
+            code: 'INVALID_CURSOR',
+            message: 'The cursor does not match any of your plants',
           },
         });
       }
       next(error);
     }
-  };
-};
-
-// GET /api/plants - Get all user plants
-router.get('/', authMiddleware, async (req: AuthenticatedRequest, res, next) => {
-  try {
-    const userId = req.user!.id;
-    const plants = await plantService.getUserPlants(userId);
-    
-    res.json({
-      success: true,
-      data: {
-        plants,
-        count: plants.length,
-      },
-    });
-
-    logger.info(`User ${userId} fetched ${plants.length} plants`);
-  } catch (error) {
-    next(error);
   }
-});
+);
 
 // POST /api/plants - Create new plant
 router.post('/', 
@@ -90,11 +75,52 @@ router.post('/',
 
       logger.info(`User ${userId} created plant: ${plant.id}`);
     } catch (error) {
+      if (error instanceof Error && error.message === 'Space not found') {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'SPACE_NOT_FOUND',
+            message: 'Space not found',
+          },
+        });
+      }
       next(error);
     }
   }
 );
 
+// GET /api/plants/stats - Get plant statistics (before /:id, which would take "stats" as an ID)
+router.get('/stats', authMiddleware, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const userId = req.user!.id;
+    const stats = await plantService.getPlantStats(userId);
+    
+    res.json({
+      success: true,
+      data: { stats },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/plants/trash - List deleted plants with when each will be purged
+router.get('/trash', authMiddleware, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const plants = await plantService.getTrash(req.user!.id);
+
+    res.json({
+      success: true,
+      data: {
+        plants,
+        count: plants.length,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/plants/:id - Get specific plant
 router.get('/:id',
   authMiddleware,
@@ -157,6 +183,15 @@ router.put('/:id',
           },
         });
       }
+      if (error instanceof Error && error.message === 'Space not found') {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'SPACE_NOT_FOUND',
+            message: 'Space not found',
+          },
+        });
+      }
       next(error);
     }
   }
@@ -194,19 +229,68 @@ router.delete('/:id',
   }
 );
 
-// GET /api/plants/stats - Get plant statistics
-router.get('/stats', authMiddleware, async (req: AuthenticatedRequest, res, next) => {
-  try {
-    const userId = req.user!.id;
-    const stats = await plantService.getPlantStats(userId);
-    
-    res.json({
-      success: true,
-      data: { stats },
-    });
-  } catch (error) {
-    next(error);
+// POST /api/plants/:id/restore - Take a deleted plant out of the trash
+router.post('/:id/restore',
+  authMiddleware,
+  validateParams(plantParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const plant = await plantService.restorePlant(req.params.id, userId);
+
+      res.json({
+        success: true,
+        message: 'Plant restored successfully',
+        data: { plant },
+      });
+
+      logger.info(`User ${userId} restored plant: ${plant.id}`);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Plant not found') {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'PLANT_NOT_FOUND',
+            message: 'No deleted plant with this ID',
+          },
+        });
+      }
+      next(error);
+    }
   }
-});
+);
+
+// GET /api/plants/:id/health - Recompute the plant's health score and explain it
+router.get('/:id/health',
+  authMiddleware,
+  validateParams(plantParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const health = await plantHealthService.getPlantHealth(req.params.id, req.user!.id);
+
+      res.json({
+        success: true,
+        data: { health },
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Plant not found') {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'PLANT_NOT_FOUND',
+            message: 'Plant not found',
+          },
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+// Plant Doctor - /api/plants/:id/diagnoses
+router.use('/:id/diagnoses', diagnosisRoutes);
+
+// Photo journal - /api/plants/:id/photos
+router.use('/:id/photos', plantPhotoRoutes);
 
 export default router;
\ No newline at end of file
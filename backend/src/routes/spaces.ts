@@ -0,0 +1,175 @@
+// backend/src/routes/spaces.ts
+import express from 'express';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { validateBody, validateParams } from '../middleware/validate';
+import { spaceService } from '../services/space.service';
+import {
+  createSpaceSchema,
+  spaceCareSchema,
+  spaceParamsSchema,
+  updateSpaceSchema,
+} from '../schemas/space.schemas';
+import { logger } from '../utils/logger';
+
+const router = express.Router();
+
+// Service errors that are the client's fault
+const SPACE_ERRORS: Record<string, { status: number; code: string; message: string }> = {
+  'Space not found': { status: 404, code: 'SPACE_NOT_FOUND', message: 'Space not found' },
+  'Space already exists': { status: 409, code: 'SPACE_EXISTS', message: 'You already have a space with this name' },
+  'Too many spaces': { status: 422, code: 'TOO_MANY_SPACES', message: 'You can have up to 50 spaces' },
+};
+
+const sendSpaceError = (error: unknown, res: express.Response): boolean => {
+  const mapped = error instanceof Error ? SPACE_ERRORS[error.message] : undefined;
+  if (!mapped) {
+    return false;
+  }
+
+  res.status(mapped.status).json({
+    success: false,
+    error: {
+      code: mapped.code,
+      message: mapped.message,
+    },
+  });
+  return true;
+};
+
+// GET /api/spaces - List the user's spaces with their plant counts
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const spaces = await spaceService.getUserSpaces(req.user!.id);
+
+    res.json({
+      success: true,
+      data: {
+        spaces,
+        count: spaces.length,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/spaces - Create a space
+router.post('/',
+  authMiddleware,
+  validateBody(createSpaceSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const space = await spaceService.createSpace(userId, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Space created',
+        data: { space },
+      });
+
+      logger.info(`User ${userId} created space ${space.id}`);
+    } catch (error) {
+      if (sendSpaceError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/spaces/:id - Get a space; its plants come from GET /api/plants?spaceId=
+router.get('/:id',
+  authMiddleware,
+  validateParams(spaceParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const space = await spaceService.getSpace(req.params.id, req.user!.id);
+
+      res.json({
+        success: true,
+        data: { space },
+      });
+    } catch (error) {
+      if (sendSpaceError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// PATCH /api/spaces/:id - Rename a space or change its conditions
+router.patch('/:id',
+  authMiddleware,
+  validateParams(spaceParamsSchema),
+  validateBody(updateSpaceSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const space = await spaceService.updateSpace(req.params.id, req.user!.id, req.body);
+
+      res.json({
+        success: true,
+        message: 'Space updated',
+        data: { space },
+      });
+    } catch (error) {
+      if (sendSpaceError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/spaces/:id - Delete a space; its plants are kept without a space
+router.delete('/:id',
+  authMiddleware,
+  validateParams(spaceParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      await spaceService.deleteSpace(req.params.id, userId);
+
+      res.json({
+        success: true,
+        message: 'Space deleted',
+      });
+
+      logger.info(`User ${userId} deleted space ${req.params.id}`);
+    } catch (error) {
+      if (sendSpaceError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// POST /api/spaces/:id/care - Log the same care for every plant in the space
+router.post('/:id/care',
+  authMiddleware,
+  validateParams(spaceParamsSchema),
+  validateBody(spaceCareSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const careLogs = await spaceService.logSpaceCare(req.params.id, req.user!.id, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: `Care logged for ${careLogs.length} plants`,
+        data: {
+          careLogs,
+          count: careLogs.length,
+        },
+      });
+    } catch (error) {
+      if (sendSpaceError(error, res)) {
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+export default router;
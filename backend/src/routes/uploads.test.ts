@@ -0,0 +1,70 @@
+// backend/src/routes/uploads.test.ts
+import request from 'supertest';
+import app from '../app';
+import { uploadService } from '../services/upload.service';
+import { signIn } from '../test/auth';
+import { resetPrismaMock } from '../test/prisma';
+
+const USER_ID = '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0001';
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+const jpeg = (size: number): Buffer => {
+  const buffer = Buffer.alloc(size);
+  buffer.set([0xff, 0xd8, 0xff, 0xe0]);
+  return buffer;
+};
+
+describe('upload routes', () => {
+  let auth: string;
+
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.restoreAllMocks();
+    auth = signIn(USER_ID);
+  });
+
+  it('accepts a file of exactly 10MB', async () => {
+    const saveImage = jest.spyOn(uploadService, 'saveImage').mockResolvedValue({ key: 'uploads/x.jpg' } as Awaited<ReturnType<typeof uploadService.saveImage>>);
+
+    const res = await request(app)
+      .post('/api/uploads')
+      .set('Authorization', auth)
+      .attach('file', jpeg(MAX_UPLOAD_SIZE), { filename: 'photo.jpg', contentType: 'image/jpeg' });
+
+    expect(res.status).toBe(201);
+    expect(saveImage).toHaveBeenCalledWith(`uploads/${USER_ID}`, expect.any(Buffer), { userId: USER_ID });
+  });
+
+  it('refuses a file over 10MB before it reaches the service', async () => {
+    const saveImage = jest.spyOn(uploadService, 'saveImage');
+
+    const res = await request(app)
+      .post('/api/uploads')
+      .set('Authorization', auth)
+      .attach('file', jpeg(MAX_UPLOAD_SIZE + 1), { filename: 'photo.jpg', contentType: 'image/jpeg' });
+
+    expect(res.status).toBe(413);
+    expect(res.body.error.code).toBe('FILE_TOO_LARGE');
+    expect(saveImage).not.toHaveBeenCalled();
+  });
+
+  it('answers 415 for content that is not an image, whatever its declared type', async () => {
+    const res = await request(app)
+      .post('/api/uploads')
+      .set('Authorization', auth)
+      .attach('file', Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'), { filename: 'photo.jpg', contentType: 'image/jpeg' });
+
+    expect(res.status).toBe(415);
+    expect(res.body.error.code).toBe('UNSUPPORTED_MEDIA_TYPE');
+  });
+
+  it('requires a file', async () => {
+    const res = await request(app)
+      .post('/api/uploads')
+      .set('Authorization', auth)
+      .field('caption', 'no file');
+
+    expect(res.status).toBe(400);
+    expect(res.body.error.code).toBe('FILE_REQUIRED');
+  });
+});
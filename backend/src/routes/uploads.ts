@@ -0,0 +1,123 @@
+// backend/src/routes/uploads.ts
+import express from 'express';
+import multer from 'multer';
+import { z } from 'zod';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth';
+import { validateParams } from '../middleware/validate';
+import { uploadService } from '../services/upload.service';
+import { logger } from '../utils/logger';
+
+const router = express.Router();
+
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024; // 10MB
+
+// No mimetype filter: clients often send the wrong one, so the service sniffs the content instead
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_SIZE, files: 1 },
+});
+
+const uploadParamsSchema = z.object({
+  id: z.string().uuid('Invalid upload ID format'),
+});
+
+const UPLOAD_ERRORS: Record<string, { status: number; code: string; message: string }> = {
+  'Unsupported image type': {
+    status: 415,
+    code: 'UNSUPPORTED_MEDIA_TYPE',
+    message: 'Only JPEG, PNG and WebP images are accepted',
+  },
+  'Invalid image': {
+    status: 422,
+    code: 'INVALID_IMAGE',
+    message: 'The image could not be read',
+  },
+};
+
+// Parse a single "file" field and turn multer errors into API errors
+const uploadFile = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  upload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+      return res.status(tooLarge ? 413 : 400).json({
+        success: false,
+        error: {
+          code: tooLarge ? 'FILE_TOO_LARGE' : 'INVALID_UPLOAD',
+          message: tooLarge ? 'File must be 10MB or smaller' : error.message,
+        },
+      });
+    }
+    if (error) {
+      return next(error);
+    }
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'FILE_REQUIRED',
+          message: 'An image is required in the "file" field',
+        },
+      });
+    }
+    next();
+  });
+};
+
+// POST /api/uploads - Upload a photo (multipart/form-data) and get back its URL;
+// the renditions follow once the background job has resized it
+router.post('/',
+  authMiddleware,
+  uploadFile,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const userId = req.user!.id;
+      const file = await uploadService.saveImage(`uploads/${userId}`, req.file!.buffer, { userId });
+
+      logger.info(`File uploaded by user ${userId}: ${file.key}`);
+
+      res.status(201).json({
+        success: true,
+        message: 'File uploaded',
+        data: { file },
+      });
+    } catch (error) {
+      const mapped = error instanceof Error ? UPLOAD_ERRORS[error.message] : undefined;
+      if (mapped) {
+        return res.status(mapped.status).json({
+          success: false,
+          error: { code: mapped.code, message: mapped.message },
+        });
+      }
+      next(error);
+    }
+  }
+);
+
+// GET /api/uploads/:id - Get an uploaded photo with its renditions
+router.get('/:id',
+  authMiddleware,
+  validateParams(uploadParamsSchema),
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const file = await uploadService.getUpload(req.params.id, req.user!.id);
+      if (!file) {
+        return res.status(404).json({
+          success: false,
+          error: {
+            code: 'UPLOAD_NOT_FOUND',
+            message: 'Upload not found',
+          },
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { file },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,46 @@
+// backend/src/schemas/care.schemas.test.ts
+import { z } from 'zod';
+import { createCareLogSchema, parseCareMetadata } from './care.schemas';
+
+const PLANT_ID = '5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001';
+
+describe('createCareLogSchema', () => {
+  it('checks the metadata against the schema of the care type', () => {
+    const result = createCareLogSchema.safeParse({
+      plantId: PLANT_ID,
+      type: 'FERTILIZING',
+      metadata: { product: 'Liquid feed', npk: '7-4-5', amountMl: 2 },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects metadata that belongs to another care type', () => {
+    const result = createCareLogSchema.safeParse({
+      plantId: PLANT_ID,
+      type: 'WATERING',
+      metadata: { npk: '7-4-5' },
+    });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.issues[0].code).toBe('unrecognized_keys');
+  });
+
+  it('rejects an unknown care type', () => {
+    const result = createCareLogSchema.safeParse({ plantId: PLANT_ID, type: 'SINGING' });
+
+    expect(!result.success && result.error.issues[0].message).toBe('Invalid care type');
+  });
+});
+
+describe('parseCareMetadata', () => {
+  it('points issues at the metadata field', () => {
+    expect.assertions(2);
+    try {
+      parseCareMetadata('PRUNING', { amountRemoved: 'all' });
+    } catch (error) {
+      expect(error).toBeInstanceOf(z.ZodError);
+      expect((error as z.ZodError).issues[0].path).toEqual(['metadata', 'amountRemoved']);
+    }
+  });
+});
@@ -0,0 +1,206 @@
+// backend/src/schemas/care.schemas.ts
+import { z } from 'zod';
+import { FOLLOW_UP_OUTCOMES } from './diagnosis.schemas';
+
+export const CARE_TYPES = ['WATERING', 'FERTILIZING', 'PRUNING', 'REPOTTING', 'OBSERVATION', 'TREATMENT'] as const;
+
+export const WATERING_METHODS = ['top', 'bottom', 'soak'] as const;
+
+export const PRUNING_AMOUNTS = ['light', 'moderate', 'heavy'] as const;
+
+export const MAX_BULK_CARE_PLANTS = 100;
+
+// Any care action can be part of a diagnosis' treatment plan
+const diagnosisLink = {
+  diagnosisId: z.string()
+    .uuid('Invalid diagnosis ID format')
+    .optional(),
+};
+
+// Metadata is strict so a misspelt field is rejected instead of silently dropped
+export const wateringMetadataSchema = z.object({
+  ...diagnosisLink,
+  volumeMl: z.number()
+    .int('Volume must be whole millilitres')
+    .positive('Volume must be positive')
+    .max(50000, 'Volume too large')
+    .optional(),
+  method: z.enum(WATERING_METHODS, {
+    errorMap: () => ({ message: 'Method must be top, bottom or soak' })
+  }).optional(),
+}).strict();
+
+export const fertilizingMetadataSchema = z.object({
+  ...diagnosisLink,
+  product: z.string()
+    .trim()
+    .min(1, 'Product is required')
+    .max(100, 'Product name too long')
+    .optional(),
+  npk: z.string()
+    .regex(/^\d{1,2}(\.\d)?-\d{1,2}(\.\d)?-\d{1,2}(\.\d)?$/, 'NPK ratio must look like 10-10-10')
+    .optional(),
+  dilutionMlPerLiter: z.number()
+    .positive('Dilution must be positive')
+    .max(1000, 'Dilution too large')
+    .optional(),
+  // Fertilizer product used, before dilution; summed by the monthly fertilizer stats
+  amountMl: z.number()
+    .positive('Amount must be positive')
+    .max(10000, 'Amount too large')
+    .optional(),
+}).strict();
+
+export const pruningMetadataSchema = z.object({
+  ...diagnosisLink,
+  amountRemoved: z.enum(PRUNING_AMOUNTS, {
+    errorMap: () => ({ message: 'Amount removed must be light, moderate or heavy' })
+  }).optional(),
+}).strict();
+
+export const repottingMetadataSchema = z.object({
+  ...diagnosisLink,
+  potSizeCm: z.number()
+    .positive('Pot size must be positive')
+    .max(200, 'Pot size too large')
+    .optional(),
+  soilMix: z.string()
+    .trim()
+    .min(1, 'Soil mix is required')
+    .max(200, 'Soil mix too long')
+    .optional(),
+}).strict();
+
+// With both fields set, an observation answers a diagnosis follow-up check
+export const observationMetadataSchema = z.object({
+  ...diagnosisLink,
+  outcome: z.enum(FOLLOW_UP_OUTCOMES, {
+    errorMap: () => ({ message: 'Outcome must be improved, same or worse' })
+  }).optional(),
+}).strict();
+
+export const treatmentMetadataSchema = z.object({
+  ...diagnosisLink,
+  product: z.string()
+    .trim()
+    .min(1, 'Product is required')
+    .max(100, 'Product name too long')
+    .optional(),
+}).strict();
+
+export const CARE_METADATA_SCHEMAS = {
+  WATERING: wateringMetadataSchema,
+  FERTILIZING: fertilizingMetadataSchema,
+  PRUNING: pruningMetadataSchema,
+  REPOTTING: repottingMetadataSchema,
+  OBSERVATION: observationMetadataSchema,
+  TREATMENT: treatmentMetadataSchema,
+} satisfies Record<typeof CARE_TYPES[number], z.ZodTypeAny>;
+
+const careLogFields = z.object({
+  plantId: z.string().uuid('Invalid plant ID'),
+  notes: z.string().max(500, 'Notes too long').optional(),
+  imageUrl: z.string().url('Invalid image URL').optional(),
+  performedAt: z.string().datetime('Invalid date format').optional(),
+});
+
+type CareLogOfType<T extends CareType, M extends z.ZodTypeAny> = z.ZodObject<
+  typeof careLogFields.shape & { type: z.ZodLiteral<T>; metadata: z.ZodOptional<M> }
+>;
+
+const careLogOfType = <T extends CareType, M extends z.ZodTypeAny>(type: T, metadata: M): CareLogOfType<T, M> =>
+  careLogFields.extend({
+    type: z.literal(type),
+    metadata: metadata.optional(),
+  });
+
+// The care type picks the metadata schema
+export const createCareLogSchema = z.discriminatedUnion('type', [
+  careLogOfType('WATERING', wateringMetadataSchema),
+  careLogOfType('FERTILIZING', fertilizingMetadataSchema),
+  careLogOfType('PRUNING', pruningMetadataSchema),
+  careLogOfType('REPOTTING', repottingMetadataSchema),
+  careLogOfType('OBSERVATION', observationMetadataSchema),
+  careLogOfType('TREATMENT', treatmentMetadataSchema),
+], {
+  errorMap: (issue, ctx) => ({
+    message: issue.code === 'invalid_union_discriminator' ? 'Invalid care type' : ctx.defaultError,
+  }),
+});
+
+// Metadata is checked against the log's type by the service, which knows the stored type
+export const updateCareLogSchema = z.object({
+  type: z.enum(CARE_TYPES, {
+    errorMap: () => ({ message: 'Invalid care type' })
+  }).optional(),
+  notes: z.string().max(500, 'Notes too long').optional(),
+  metadata: z.record(z.unknown()).nullable().optional(),
+  imageUrl: z.string().url('Invalid image URL').optional(),
+  performedAt: z.string().datetime('Invalid date format').optional(),
+});
+
+export const bulkCareLogSchema = z.object({
+  plantIds: z.array(z.string().uuid('Invalid plant ID'))
+    .min(1, 'At least one plant is required')
+    .max(MAX_BULK_CARE_PLANTS, 'Up to 100 plants at a time')
+    .optional(),
+  spaceId: z.string().uuid('Invalid space ID').optional(),
+  type: z.enum(CARE_TYPES, {
+    errorMap: () => ({ message: 'Invalid care type' })
+  }),
+  notes: z.string().max(500, 'Notes too long').optional(),
+  performedAt: z.string().datetime('Invalid date format').optional(),
+}).refine(
+  (data) => (data.plantIds === undefined) !== (data.spaceId === undefined),
+  { message: 'Send either plantIds or spaceId', path: ['plantIds'] }
+);
+
+export const fertilizerStatsQuerySchema = z.object({
+  months: z.coerce.number()
+    .int('Months must be a whole number')
+    .min(1, 'Months must be at least 1')
+    .max(24, 'Up to 24 months')
+    .default(6),
+  plantId: z.string().uuid('Invalid plant ID').optional(),
+});
+
+export const dueCareQuerySchema = z.object({
+  days: z.coerce.number()
+    .int('Days must be a whole number')
+    .min(1, 'Days must be at least 1')
+    .max(30, 'Up to 30 days')
+    .default(7),
+});
+
+export const careLogParamsSchema = z.object({
+  id: z.string().uuid('Invalid care log ID format'),
+});
+
+export const plantIdParamsSchema = z.object({
+  plantId: z.string().uuid('Invalid plant ID format'),
+});
+
+// Check metadata against the schema of its care type; issues point at the metadata field
+// like the ones from the request validation
+export const parseCareMetadata = (type: CareType, metadata: unknown): CareMetadata => {
+  const result = CARE_METADATA_SCHEMAS[type].safeParse(metadata);
+  if (!result.success) {
+    throw new z.ZodError(result.error.issues.map(issue => ({ ...issue, path: ['metadata', ...issue.path] })));
+  }
+  return result.data;
+};
+
+// Export types for TypeScript
+export type CareType = typeof CARE_TYPES[number];
+export type WateringMetadata = z.infer<typeof wateringMetadataSchema>;
+export type FertilizingMetadata = z.infer<typeof fertilizingMetadataSchema>;
+export type PruningMetadata = z.infer<typeof pruningMetadataSchema>;
+export type RepottingMetadata = z.infer<typeof repottingMetadataSchema>;
+export type ObservationMetadata = z.infer<typeof observationMetadataSchema>;
+export type TreatmentMetadata = z.infer<typeof treatmentMetadataSchema>;
+export type CareMetadata = z.infer<typeof CARE_METADATA_SCHEMAS[CareType]>;
+export type CreateCareLogData = z.infer<typeof createCareLogSchema>;
+export type UpdateCareLogData = z.infer<typeof updateCareLogSchema>;
+export type BulkCareLogData = z.infer<typeof bulkCareLogSchema>;
+export type FertilizerStatsQuery = z.infer<typeof fertilizerStatsQuerySchema>;
+export type DueCareQuery = z.infer<typeof dueCareQuerySchema>;
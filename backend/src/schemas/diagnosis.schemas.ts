@@ -0,0 +1,99 @@
+// backend/src/schemas/diagnosis.schemas.ts
+import { z } from 'zod';
+
+// Symptoms the Plant Doctor understands; the app shows them as a checklist
+export const SYMPTOM_CODES = [
+  'yellow_leaves',
+  'brown_leaf_tips',
+  'brown_spots',
+  'scorched_leaves',
+  'pale_leaves',
+  'curling_leaves',
+  'dry_crispy_leaves',
+  'speckled_leaves',
+  'white_powder',
+  'webbing',
+  'tiny_insects',
+  'sticky_residue',
+  'white_cotton_masses',
+  'wilting',
+  'leaf_drop',
+  'mushy_stem',
+  'black_roots',
+  'root_rot_smell',
+  'mold_on_soil',
+  'white_crust_on_soil',
+  'stunted_growth',
+  'leggy_growth',
+  'no_flowers',
+] as const;
+
+export const SEVERITIES = ['mild', 'moderate', 'severe'] as const;
+
+export const FOLLOW_UP_OUTCOMES = ['improved', 'same', 'worse'] as const;
+
+export const symptomSchema = z.object({
+  code: z.enum(SYMPTOM_CODES, {
+    errorMap: () => ({ message: 'Unknown symptom code' })
+  }),
+  location: z.enum(['leaves', 'stem', 'roots', 'flowers', 'soil', 'whole_plant']).optional(),
+  severity: z.enum(SEVERITIES).optional(),
+});
+
+export const createDiagnosisSchema = z.object({
+  symptoms: z.array(symptomSchema)
+    .min(1, 'At least one symptom is required')
+    .max(10, 'Too many symptoms'),
+
+  notes: z.string()
+    .max(500, 'Notes too long')
+    .optional(),
+
+  imageUrls: z.array(z.string().url('Invalid image URL'))
+    .max(5, 'Up to 5 images are allowed')
+    .optional(),
+});
+
+export const diagnosisFeedbackSchema = z.object({
+  solved: z.boolean(),
+
+  notes: z.string()
+    .max(500, 'Notes too long')
+    .optional(),
+});
+
+export const acceptTreatmentSchema = z.object({
+  // Defaults to the top ranked problem
+  problem: z.string()
+    .min(1, 'Problem is required')
+    .optional(),
+});
+
+// Metadata of the OBSERVATION care log that answers a follow-up check
+export const followUpObservationSchema = z.object({
+  diagnosisId: z.string()
+    .uuid('Invalid diagnosis ID format'),
+
+  outcome: z.enum(FOLLOW_UP_OUTCOMES, {
+    errorMap: () => ({ message: 'Outcome must be improved, same or worse' })
+  }),
+});
+
+export const plantDiagnosesParamsSchema = z.object({
+  id: z.string()
+    .uuid('Invalid plant ID format'),
+});
+
+export const diagnosisParamsSchema = plantDiagnosesParamsSchema.extend({
+  diagnosisId: z.string()
+    .uuid('Invalid diagnosis ID format'),
+});
+
+// Export types for TypeScript
+export type SymptomCode = typeof SYMPTOM_CODES[number];
+export type Severity = typeof SEVERITIES[number];
+export type SymptomInput = z.infer<typeof symptomSchema>;
+export type CreateDiagnosisData = z.infer<typeof createDiagnosisSchema>;
+export type DiagnosisFeedbackData = z.infer<typeof diagnosisFeedbackSchema>;
+export type AcceptTreatmentData = z.infer<typeof acceptTreatmentSchema>;
+export type FollowUpObservation = z.infer<typeof followUpObservationSchema>;
@@ -0,0 +1,75 @@
+// backend/src/schemas/plant-photo.schemas.ts
+import { z } from 'zod';
+
+export const MAX_PLANT_PHOTOS = 200;
+
+export const addPlantPhotoSchema = z.object({
+  // Usually a URL returned by POST /api/uploads
+  url: z.string()
+    .url('Invalid image URL'),
+
+  caption: z.string()
+    .max(500, 'Caption too long')
+    .optional(),
+
+  // Defaults to now
+  takenAt: z.string()
+    .datetime('Invalid date format')
+    .optional(),
+
+  careLogId: z.string()
+    .uuid('Invalid care log ID format')
+    .optional(),
+
+  diagnosisId: z.string()
+    .uuid('Invalid diagnosis ID format')
+    .optional(),
+
+  setAsPrimary: z.boolean()
+    .optional(),
+});
+
+export const updatePlantPhotoSchema = z.object({
+  caption: z.string()
+    .max(500, 'Caption too long')
+    .nullable()
+    .optional(),
+
+  takenAt: z.string()
+    .datetime('Invalid date format')
+    .optional(),
+
+  careLogId: z.string()
+    .uuid('Invalid care log ID format')
+    .nullable()
+    .optional(),
+
+  diagnosisId: z.string()
+    .uuid('Invalid diagnosis ID format')
+    .nullable()
+    .optional(),
+}).refine(
+  (data) => Object.values(data).some(value => value !== undefined),
+  { message: 'Nothing to update' }
+);
+
+export const reorderPlantPhotosSchema = z.object({
+  // Every photo of the plant, in the new order
+  photoIds: z.array(z.string().uuid('Invalid photo ID format'))
+    .min(1, 'At least one photo is required')
+    .max(MAX_PLANT_PHOTOS, 'Too many photos'),
+});
+
+export const plantPhotosParamsSchema = z.object({
+  id: z.string()
+    .uuid('Invalid plant ID format'),
+});
+
+export const plantPhotoParamsSchema = plantPhotosParamsSchema.extend({
+  photoId: z.string()
+    .uuid('Invalid photo ID format'),
+});
+
+// Export types for TypeScript
+export type AddPlantPhotoData = z.infer<typeof addPlantPhotoSchema>;
+export type UpdatePlantPhotoData = z.infer<typeof updatePlantPhotoSchema>;
@@ -1,8 +1,11 @@
 // backend/src/schemas/plant.schemas.ts
 import { z } from 'zod';
+import { IDENTIFICATION_PROVIDER_NAMES } from '../providers/identification/types';
+import { SPACE_ENVIRONMENTS } from './space.schemas';
 
-// Base plant data validation matching database schema
-export const createPlantSchema = z.object({
+// Base plant data validation matching database schema; kept as a plain object so the update
+// schema can make it partial before the cross-field checks are added
+const basePlantSchema = z.object({
   name: z.string()
     .min(1, 'Plant name is required')
     .max(100, 'Plant name too long'),
@@ -56,41 +59,62 @@ export const createPlantSchema = z.object({
   location: z.string()
     .max(500, 'Location data too long')
     .optional(),
-}).refine(
-  (data) => {
-    if (data.temperatureMin !== undefined && data.temperatureMax !== undefined) {
-      return data.temperatureMin <= data.temperatureMax;
-    }
-    return true;
-  },
-  {
-    message: 'Minimum temperature must be less than or equal to maximum temperature',
-    path: ['temperatureMin'],
-  }
-);
+  
+  // One of the user's spaces; null takes the plant out of its space
+  spaceId: z.string()
+    .uuid('Invalid space ID format')
+    .nullable()
+    .optional(),
+  
+  // Defaults to the space's environment, then to the species'
+  environment: z.enum(SPACE_ENVIRONMENTS, {
+    errorMap: () => ({ message: 'Environment must be indoor or outdoor' })
+  }).optional(),
+  
+  // Usually a URL returned by POST /api/uploads
+  primaryImageUrl: z.string()
+    .url('Invalid image URL')
+    .optional(),
+  
+  // Copied from the identification result the plant was created from
+  identificationSource: z.enum([...IDENTIFICATION_PROVIDER_NAMES, 'manual'], {
+    errorMap: () => ({ message: 'Unknown identification source' })
+  }).optional(),
+  
+  identificationConfidence: z.number()
+    .min(0, 'Confidence must be between 0 and 1')
+    .max(1, 'Confidence must be between 0 and 1')
+    .optional(),
+});
 
-export const updatePlantSchema = createPlantSchema.partial().refine(
-  (data) => {
-    if (data.temperatureMin !== undefined && data.temperatureMax !== undefined) {
-      return data.temperatureMin <= data.temperatureMax;
-    }
-    return true;
-  },
-  {
-    message: 'Minimum temperature must be less than or equal to maximum temperature',
-    path: ['temperatureMin'],
+const temperatureRange = <T extends { temperatureMin?: number; temperatureMax?: number }>(data: T): boolean => {
+  if (data.temperatureMin !== undefined && data.temperatureMax !== undefined) {
+    return data.temperatureMin <= data.temperatureMax;
   }
-);
+  return true;
+};
+
+const temperatureRangeError = {
+  message: 'Minimum temperature must be less than or equal to maximum temperature',
+  path: ['temperatureMin'],
+};
+
+export const createPlantSchema = basePlantSchema.refine(temperatureRange, temperatureRangeError);
+
+export const updatePlantSchema = basePlantSchema.partial().refine(temperatureRange, temperatureRangeError);
 
 export const plantParamsSchema = z.object({
   id: z.string()
     .uuid('Invalid plant ID format'),
 });
 
+export const PLANT_SORT_FIELDS = ['name', 'createdAt', 'nextCareDueAt'] as const;
+
 export const plantQuerySchema = z.object({
   limit: z.string()
     .regex(/^\d+$/)
     .transform(Number)
+    .pipe(z.number().int().min(1).max(100))
     .optional(),
   
   offset: z.string()
@@ -98,13 +122,54 @@ export const plantQuerySchema = z.object({
     .transform(Number)
     .optional(),
   
+  // ID of the last plant of the previous page
+  cursor: z.string()
+    .uuid('Invalid cursor')
+    .optional(),
+  
+  // Matches name, scientific name or variety
   search: z.string()
+    .trim()
+    .min(1)
     .max(100)
     .optional(),
   
   healthStatus: z.enum(['GOOD', 'NEEDS_ATTENTION', 'POOR', 'CRITICAL'])
     .optional(),
-});
+  
+  sunlight: z.enum(['full', 'partial', 'shade'])
+    .optional(),
+  
+  // Matches any part of the location, e.g. a room or a city
+  location: z.string()
+    .trim()
+    .min(1)
+    .max(100)
+    .optional(),
+  
+  spaceId: z.string()
+    .uuid('Invalid space ID format')
+    .optional(),
+  
+  environment: z.enum(SPACE_ENVIRONMENTS)
+    .optional(),
+  
+  // overdue: due before today; today: due by the end of today; week: due within 7 days
+  careDue: z.enum(['overdue', 'today', 'week'])
+    .optional(),
+  
+  sort: z.enum(PLANT_SORT_FIELDS)
+    .optional(),
+  
+  order: z.enum(['asc', 'desc'])
+    .optional(),
+}).refine(
+  (data) => data.cursor === undefined || data.offset === undefined,
+  {
+    message: 'Use either cursor or offset, not both',
+    path: ['cursor'],
+  }
+);
 
 // Export types for TypeScript
 export type CreatePlantData = z.infer<typeof createPlantSchema>;
@@ -0,0 +1,78 @@
+// backend/src/schemas/space.schemas.ts
+import { z } from 'zod';
+import { LIGHT_LEVELS } from '../data/egyptian-plants';
+
+export const SPACE_ENVIRONMENTS = ['indoor', 'outdoor'] as const;
+
+export const SPACE_ORIENTATIONS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'] as const;
+
+// Care that makes sense for a whole room at once
+export const SPACE_CARE_TYPES = ['WATERING', 'FERTILIZING', 'PRUNING', 'REPOTTING'] as const;
+
+export const MAX_SPACES = 50;
+
+export const createSpaceSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Space name is required')
+    .max(50, 'Space name too long'),
+
+  environment: z.enum(SPACE_ENVIRONMENTS, {
+    errorMap: () => ({ message: 'Environment must be indoor or outdoor' })
+  }).optional(),
+
+  lightExposure: z.enum(LIGHT_LEVELS, {
+    errorMap: () => ({ message: 'Light exposure must be low, medium or bright' })
+  }).optional(),
+
+  orientation: z.enum(SPACE_ORIENTATIONS, {
+    errorMap: () => ({ message: 'Orientation must be a compass direction such as N or SW' })
+  }).optional(),
+});
+
+export const updateSpaceSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Space name is required')
+    .max(50, 'Space name too long')
+    .optional(),
+
+  environment: z.enum(SPACE_ENVIRONMENTS, {
+    errorMap: () => ({ message: 'Environment must be indoor or outdoor' })
+  }).optional(),
+
+  lightExposure: z.enum(LIGHT_LEVELS, {
+    errorMap: () => ({ message: 'Light exposure must be low, medium or bright' })
+  }).nullable().optional(),
+
+  orientation: z.enum(SPACE_ORIENTATIONS, {
+    errorMap: () => ({ message: 'Orientation must be a compass direction such as N or SW' })
+  }).nullable().optional(),
+}).refine(
+  (data) => Object.values(data).some(value => value !== undefined),
+  { message: 'Nothing to update' }
+);
+
+export const spaceCareSchema = z.object({
+  type: z.enum(SPACE_CARE_TYPES, {
+    errorMap: () => ({ message: 'Care type must be WATERING, FERTILIZING, PRUNING or REPOTTING' })
+  }),
+
+  notes: z.string()
+    .max(500, 'Notes too long')
+    .optional(),
+
+  performedAt: z.string()
+    .datetime('Invalid date format')
+    .optional(),
+});
+
+export const spaceParamsSchema = z.object({
+  id: z.string()
+    .uuid('Invalid space ID format'),
+});
+
+// Export types for TypeScript
+export type CreateSpaceData = z.infer<typeof createSpaceSchema>;
+export type UpdateSpaceData = z.infer<typeof updateSpaceSchema>;
+export type SpaceCareData = z.infer<typeof spaceCareSchema>;
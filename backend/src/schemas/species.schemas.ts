@@ -0,0 +1,141 @@
+// backend/src/schemas/species.schemas.ts
+import { z } from 'zod';
+import { LIGHT_LEVELS, SPECIES_ENVIRONMENTS } from '../data/egyptian-plants';
+import { EGYPT_REGIONS } from '../utils/egypt-geo';
+
+const SPECIES_KEY_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export const speciesKeySchema = z.string()
+  .min(2, 'Species key too short')
+  .max(50, 'Species key too long')
+  .regex(SPECIES_KEY_PATTERN, 'Species key must be lowercase words separated by hyphens');
+
+// Editable catalogue fields
+export const speciesFieldsSchema = z.object({
+  scientificName: z.string()
+    .trim()
+    .min(2, 'Scientific name too short')
+    .max(100, 'Scientific name too long'),
+
+  nameEnglish: z.string()
+    .trim()
+    .min(1, 'English name is required')
+    .max(100, 'English name too long'),
+
+  nameArabic: z.string()
+    .trim()
+    .min(1, 'Arabic name is required')
+    .max(100, 'Arabic name too long'),
+
+  wateringIntervalMinDays: z.number().int().min(1).max(90),
+  wateringIntervalMaxDays: z.number().int().min(1).max(90),
+
+  lightMin: z.enum(LIGHT_LEVELS),
+  lightMax: z.enum(LIGHT_LEVELS),
+  directSun: z.boolean(),
+
+  environment: z.enum(SPECIES_ENVIRONMENTS),
+
+  temperatureMinC: z.number().min(-10).max(50),
+  temperatureMaxC: z.number().min(-10).max(50),
+
+  humidityMinPercent: z.number().int().min(0).max(100),
+  humidityMaxPercent: z.number().int().min(0).max(100),
+
+  regions: z.array(z.enum(EGYPT_REGIONS))
+    .max(EGYPT_REGIONS.length),
+
+  aliases: z.array(z.string().trim().min(1).max(100))
+    .max(20, 'Up to 20 aliases are allowed'),
+});
+
+type SpeciesRangeFields = Partial<z.infer<typeof speciesFieldsSchema>>;
+
+// Each min must not exceed its max (checked when both are present)
+export const findSpeciesRangeErrors = (data: SpeciesRangeFields): Array<{ field: string; message: string }> => {
+  const errors: Array<{ field: string; message: string }> = [];
+  const pairs: Array<[keyof SpeciesRangeFields, keyof SpeciesRangeFields]> = [
+    ['wateringIntervalMinDays', 'wateringIntervalMaxDays'],
+    ['temperatureMinC', 'temperatureMaxC'],
+    ['humidityMinPercent', 'humidityMaxPercent'],
+  ];
+
+  for (const [minField, maxField] of pairs) {
+    const min = data[minField] as number | undefined;
+    const max = data[maxField] as number | undefined;
+    if (min !== undefined && max !== undefined && min > max) {
+      errors.push({ field: maxField, message: `${maxField} must be at least ${minField}` });
+    }
+  }
+
+  if (data.lightMin && data.lightMax && LIGHT_LEVELS.indexOf(data.lightMin) > LIGHT_LEVELS.indexOf(data.lightMax)) {
+    errors.push({ field: 'lightMax', message: 'lightMax must be at least lightMin' });
+  }
+
+  return errors;
+};
+
+const checkSpeciesRanges = (data: SpeciesRangeFields, ctx: z.RefinementCtx): void => {
+  for (const { field, message } of findSpeciesRangeErrors(data)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+  }
+};
+
+export const createSpeciesSchema = speciesFieldsSchema
+  .extend({
+    key: speciesKeySchema.optional(), // Derived from the English name when omitted
+    directSun: z.boolean().default(false),
+    regions: speciesFieldsSchema.shape.regions.default([]),
+    aliases: speciesFieldsSchema.shape.aliases.default([]),
+  })
+  .superRefine(checkSpeciesRanges);
+
+export const updateSpeciesSchema = speciesFieldsSchema
+  .partial()
+  .superRefine(checkSpeciesRanges)
+  .refine(data => Object.keys(data).length > 0, 'At least one field is required');
+
+export const deprecateSpeciesSchema = z.object({
+  reason: z.string()
+    .max(500, 'Reason too long')
+    .optional(),
+});
+
+export const mergeSpeciesSchema = z.object({
+  targetKey: speciesKeySchema,
+});
+
+export const careGuideSchema = z.object({
+  en: z.string()
+    .trim()
+    .min(1, 'English care text is required')
+    .max(5000, 'English care text too long'),
+
+  ar: z.string()
+    .trim()
+    .min(1, 'Arabic care text is required')
+    .max(5000, 'Arabic care text too long'),
+});
+
+export const speciesExportQuerySchema = z.object({
+  format: z.enum(['csv', 'json']).default('csv'),
+});
+
+export const speciesImportQuerySchema = z.object({
+  format: z.enum(['csv', 'json']).optional(), // Taken from the file name when omitted
+  dryRun: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+export const speciesParamsSchema = z.object({
+  key: speciesKeySchema,
+});
+
+export const speciesPhotoParamsSchema = speciesParamsSchema.extend({
+  photoId: z.string()
+    .uuid('Invalid photo ID format'),
+});
+
+export type SpeciesFields = z.infer<typeof speciesFieldsSchema>;
+export type CreateSpeciesData = z.infer<typeof createSpeciesSchema>;
+export type UpdateSpeciesData = z.infer<typeof updateSpeciesSchema>;
+export type CareGuideData = z.infer<typeof careGuideSchema>;
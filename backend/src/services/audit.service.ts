@@ -0,0 +1,87 @@
+// backend/src/services/audit.service.ts
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Request } from 'express';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// Who made a change and from where
+export interface AuditActor {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+  method?: string;
+  path?: string;
+}
+
+export interface AuditEntry {
+  action: string; // CREATE, UPDATE, DELETE, MERGE, etc.
+  resource: string; // Table name, e.g. "species"
+  resourceId?: string;
+  oldValues?: Record<string, unknown> | null;
+  newValues?: Record<string, unknown> | null;
+}
+
+// Fields that change on every write and say nothing about the change itself
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+const serialize = (value: unknown): unknown => (value instanceof Date ? value.toISOString() : value);
+
+export class AuditService {
+  // Build the actor of an authenticated request
+  actorFromRequest(req: Request & { user?: { id: string } }): AuditActor {
+    return {
+      userId: req.user!.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+      method: req.method,
+      path: req.originalUrl,
+    };
+  }
+
+  // Write an audit log entry; pass a transaction client to commit it with the change
+  async record(actor: AuditActor, entry: AuditEntry, client: Prisma.TransactionClient = prisma): Promise<void> {
+    await client.auditLog.create({
+      data: {
+        userId: actor.userId,
+        action: entry.action,
+        resource: entry.resource,
+        resourceId: entry.resourceId,
+        ipAddress: actor.ipAddress,
+        userAgent: actor.userAgent,
+        method: actor.method,
+        path: actor.path,
+        oldValues: entry.oldValues ? JSON.stringify(entry.oldValues) : null,
+        newValues: entry.newValues ? JSON.stringify(entry.newValues) : null,
+      },
+    });
+
+    logger.info(`Audit: ${entry.action} ${entry.resource}${entry.resourceId ? ` ${entry.resourceId}` : ''} by ${actor.userId}`);
+  }
+
+  // Old and new values of the fields that differ between two versions of a record
+  diff(
+    before: Record<string, unknown>,
+    after: Record<string, unknown>
+  ): { oldValues: Record<string, unknown>; newValues: Record<string, unknown> } {
+    const oldValues: Record<string, unknown> = {};
+    const newValues: Record<string, unknown> = {};
+
+    for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (IGNORED_FIELDS.has(field)) {
+        continue;
+      }
+
+      const oldValue = serialize(before[field]);
+      const newValue = serialize(after[field]);
+      if (oldValue !== newValue) {
+        oldValues[field] = oldValue ?? null;
+        newValues[field] = newValue ?? null;
+      }
+    }
+
+    return { oldValues, newValues };
+  }
+}
+
+export const auditService = new AuditService();
@@ -19,6 +19,7 @@ export class AuthService {
     firstName?: string;
     lastName?: string;
     deviceId: string;
+    timezone?: string;
   }): Promise<{
     user: {
       id: string;
@@ -33,7 +34,7 @@ export class AuthService {
       expiresIn: number;
     };
   }> {
-    const { email, password, firstName, lastName, deviceId } = userData;
+    const { email, password, firstName, lastName, deviceId, timezone } = userData;
 
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
@@ -54,6 +55,7 @@ export class AuthService {
         passwordHash,
         firstName,
         lastName,
+        timezone,
         lastLoginAt: new Date(),
       },
       select: {
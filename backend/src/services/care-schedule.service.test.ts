@@ -0,0 +1,58 @@
+// backend/src/services/care-schedule.service.test.ts
+import { prismaMock, resetPrismaMock } from '../test/prisma';
+import { careScheduleService } from './care-schedule.service';
+
+const USER_ID = '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0001';
+
+// Watered a week before 21:00 UTC on 15 January, which is 23:00 that day in Cairo and 06:00
+// on 16 January in Tokyo
+const plant = {
+  id: '5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001',
+  name: 'Pothos',
+  wateringFrequency: 7,
+  fertilizingFrequency: null,
+  lastWateredAt: new Date('2024-01-08T21:00:00Z'),
+  lastFertilizedAt: new Date('2024-01-10T21:00:00Z'),
+  lastPrunedAt: new Date('2024-01-10T21:00:00Z'),
+  lastRepottedAt: new Date('2024-01-10T21:00:00Z'),
+  acquisitionDate: null,
+  createdAt: new Date('2023-06-01T00:00:00Z'),
+};
+
+describe('careScheduleService.getDueCare', () => {
+  // 00:30 on 16 January in Cairo, while the date is still 15 January in UTC
+  const now = new Date('2024-01-15T22:30:00Z');
+
+  beforeEach(() => {
+    resetPrismaMock();
+    prismaMock.plant.findMany.mockResolvedValue([plant]);
+  });
+
+  it('counts days from the user\'s local date', async () => {
+    prismaMock.user.findUnique.mockResolvedValue({ timezone: 'Africa/Cairo' });
+
+    const due = await careScheduleService.getDueCare(USER_ID, 7, now);
+
+    expect(due.today).toHaveLength(0);
+    expect(due.overdue).toEqual([
+      expect.objectContaining({ type: 'WATERING', daysUntilDue: -1, isOverdue: true }),
+    ]);
+  });
+
+  it('puts care due later on the user\'s local date under today', async () => {
+    prismaMock.user.findUnique.mockResolvedValue({ timezone: 'Asia/Tokyo' });
+
+    const due = await careScheduleService.getDueCare(USER_ID, 7, now);
+
+    expect(due.overdue).toHaveLength(0);
+    expect(due.today).toEqual([expect.objectContaining({ type: 'WATERING', daysUntilDue: 0 })]);
+  });
+
+  it('falls back to Cairo for an unknown time zone', async () => {
+    prismaMock.user.findUnique.mockResolvedValue({ timezone: 'Mars/Olympus_Mons' });
+
+    const due = await careScheduleService.getDueCare(USER_ID, 7, now);
+
+    expect(due.overdue.map(task => task.type)).toEqual(['WATERING']);
+  });
+});
@@ -0,0 +1,184 @@
+// backend/src/services/care-schedule.service.ts
+import { Plant, PrismaClient } from '@prisma/client';
+import { addDays } from 'date-fns';
+import { logger } from '../utils/logger';
+import { DEFAULT_TIMEZONE, differenceInLocalDays, resolveTimezone } from '../utils/timezone';
+
+const prisma = new PrismaClient();
+
+export type ScheduledCareType = 'WATERING' | 'FERTILIZING' | 'PRUNING' | 'REPOTTING';
+
+// Fallback intervals (in days) when the plant has no frequency configured.
+// Pruning and repotting have no per-plant column yet, so these always apply.
+export const DEFAULT_CARE_INTERVALS: Record<ScheduledCareType, number> = {
+  WATERING: 7,
+  FERTILIZING: 30,
+  PRUNING: 90,
+  REPOTTING: 365,
+};
+
+export interface CareTask {
+  plantId: string;
+  plantName: string;
+  type: ScheduledCareType;
+  intervalDays: number;
+  lastPerformedAt: Date | null;
+  nextDueAt: Date;
+  daysUntilDue: number; // Negative when overdue
+  isOverdue: boolean;
+}
+
+export interface DueCareSummary {
+  today: CareTask[];
+  overdue: CareTask[];
+  upcoming: CareTask[];
+  upcomingDays: number;
+  generatedAt: string;
+}
+
+type SchedulablePlant = Pick<
+  Plant,
+  | 'id'
+  | 'name'
+  | 'wateringFrequency'
+  | 'fertilizingFrequency'
+  | 'lastWateredAt'
+  | 'lastFertilizedAt'
+  | 'lastPrunedAt'
+  | 'lastRepottedAt'
+  | 'acquisitionDate'
+  | 'createdAt'
+>;
+
+const schedulablePlantSelect = {
+  id: true,
+  name: true,
+  wateringFrequency: true,
+  fertilizingFrequency: true,
+  lastWateredAt: true,
+  lastFertilizedAt: true,
+  lastPrunedAt: true,
+  lastRepottedAt: true,
+  acquisitionDate: true,
+  createdAt: true,
+} as const;
+
+export class CareScheduleService {
+  // Compute the next due date of every care type for a single plant; days are counted in the user's time zone
+  getTasksForPlant(plant: SchedulablePlant, now: Date = new Date(), timeZone: string = DEFAULT_TIMEZONE): CareTask[] {
+    const entries: Array<[ScheduledCareType, number | null, Date | null]> = [
+      ['WATERING', plant.wateringFrequency, plant.lastWateredAt],
+      ['FERTILIZING', plant.fertilizingFrequency, plant.lastFertilizedAt],
+      ['PRUNING', null, plant.lastPrunedAt],
+      ['REPOTTING', null, plant.lastRepottedAt],
+    ];
+
+    // A plant that was never cared for counts from when the user got it
+    const anchor = plant.acquisitionDate || plant.createdAt;
+
+    return entries.map(([type, frequency, lastPerformedAt]) => {
+      const intervalDays = frequency || DEFAULT_CARE_INTERVALS[type];
+      const nextDueAt = addDays(lastPerformedAt || anchor, intervalDays);
+      const daysUntilDue = differenceInLocalDays(nextDueAt, now, timeZone);
+
+      return {
+        plantId: plant.id,
+        plantName: plant.name,
+        type,
+        intervalDays,
+        lastPerformedAt,
+        nextDueAt,
+        daysUntilDue,
+        isOverdue: daysUntilDue < 0,
+      };
+    });
+  }
+
+  // Earliest due date across the plant's care types
+  getNextDueAt(plant: SchedulablePlant): Date {
+    const dueDates = this.getTasksForPlant(plant).map(task => task.nextDueAt.getTime());
+    return new Date(Math.min(...dueDates));
+  }
+
+  // Store the plant's next due date so plant lists can sort and filter on it; never throws
+  async refreshNextCareDue(plantId: string): Promise<Date | null> {
+    try {
+      const plant = await prisma.plant.findUnique({
+        where: { id: plantId },
+        select: schedulablePlantSelect,
+      });
+      if (!plant) {
+        return null;
+      }
+
+      const nextCareDueAt = this.getNextDueAt(plant);
+      await prisma.plant.update({
+        where: { id: plantId },
+        data: { nextCareDueAt },
+      });
+      return nextCareDueAt;
+    } catch (error) {
+      logger.error(`Failed to refresh next care date of plant ${plantId}:`, error);
+      return null;
+    }
+  }
+
+  // Get the care schedule for one of the user's plants
+  async getPlantSchedule(plantId: string, userId: string, now: Date = new Date()): Promise<CareTask[]> {
+    try {
+      const plant = await prisma.plant.findFirst({
+        where: { id: plantId, userId, deletedAt: null },
+        select: schedulablePlantSelect,
+      });
+
+      if (!plant) {
+        throw new Error('Plant not found');
+      }
+
+      const timeZone = await this.getUserTimezone(userId);
+      return this.getTasksForPlant(plant, now, timeZone);
+    } catch (error) {
+      logger.error('Failed to compute plant care schedule:', error);
+      throw error;
+    }
+  }
+
+  // Group all of the user's care tasks into overdue, due today and upcoming
+  async getDueCare(userId: string, upcomingDays: number = 7, now: Date = new Date()): Promise<DueCareSummary> {
+    try {
+      const [plants, timeZone] = await Promise.all([
+        prisma.plant.findMany({
+          where: { userId, deletedAt: null },
+          select: schedulablePlantSelect,
+        }),
+        this.getUserTimezone(userId),
+      ]);
+
+      const tasks = plants
+        .flatMap(plant => this.getTasksForPlant(plant, now, timeZone))
+        .sort((a, b) => a.nextDueAt.getTime() - b.nextDueAt.getTime());
+
+      return {
+        today: tasks.filter(task => task.daysUntilDue === 0),
+        overdue: tasks.filter(task => task.isOverdue),
+        upcoming: tasks.filter(task => task.daysUntilDue > 0 && task.daysUntilDue <= upcomingDays),
+        upcomingDays,
+        generatedAt: now.toISOString(),
+      };
+    } catch (error) {
+      logger.error('Failed to compute due care:', error);
+      throw new Error('Failed to compute due care');
+    }
+  }
+
+  // Time zone that care days are counted in: "today" is the user's local date, not the server's
+  async getUserTimezone(userId: string): Promise<string> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+    return resolveTimezone(user?.timezone);
+  }
+}
+
+export const careScheduleService = new CareScheduleService();
@@ -0,0 +1,121 @@
+// backend/src/services/care.service.test.ts
+import { prismaMock, resetPrismaMock } from '../test/prisma';
+import { careService } from './care.service';
+import { plantHealthService } from './plant-health.service';
+
+const USER_ID = '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0001';
+const SPACE_ID = '9e8d7c6b-5a49-4382-9170-6f5e4d3c0001';
+const PLANT_IDS = ['5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001', '5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0002'];
+
+const fertilizing = (performedAt: string, metadata: Record<string, unknown> | null): Record<string, unknown> => ({
+  performedAt: new Date(performedAt),
+  metadata: metadata && JSON.stringify(metadata),
+});
+
+describe('careService.getFertilizerStats', () => {
+  const now = new Date('2024-02-10T10:00:00Z');
+
+  beforeEach(() => {
+    resetPrismaMock();
+    prismaMock.user.findUnique.mockResolvedValue({ timezone: 'Africa/Cairo' });
+  });
+
+  it('buckets logs by month in the user\'s time zone', async () => {
+    prismaMock.careLog.findMany.mockResolvedValue([
+      // 23:00 on 31 January in Cairo
+      fertilizing('2024-01-31T21:00:00Z', { product: 'Liquid feed', amountMl: 2 }),
+      // 01:00 on 1 February in Cairo
+      fertilizing('2024-01-31T23:00:00Z', { product: 'Liquid feed', amountMl: 3 }),
+    ]);
+
+    const stats = await careService.getFertilizerStats(USER_ID, { months: 2 }, now);
+
+    // Midnight on 1 January in Cairo
+    expect(stats.startDate).toBe('2023-12-31T22:00:00.000Z');
+    expect(prismaMock.careLog.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({ performedAt: { gte: new Date('2023-12-31T22:00:00Z') } }) as object,
+    }));
+    expect(stats.months.map(month => [month.month, month.amountMl])).toEqual([['2024-01', 2], ['2024-02', 3]]);
+  });
+
+  it('counts applications without an amount but adds nothing for them', async () => {
+    prismaMock.careLog.findMany.mockResolvedValue([
+      fertilizing('2024-02-03T08:00:00Z', null),
+      fertilizing('2024-02-05T08:00:00Z', { amountMl: 4 }),
+    ]);
+
+    const stats = await careService.getFertilizerStats(USER_ID, { months: 1 }, now);
+
+    expect(stats.totalApplications).toBe(2);
+    expect(stats.totalAmountMl).toBe(4);
+    expect(stats.months[0].byProduct).toEqual({ Unknown: 4 });
+  });
+});
+
+describe('careService.logBulkCareAction', () => {
+  const performedAt = new Date('2024-01-15T08:00:00Z');
+
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.restoreAllMocks();
+    jest.spyOn(plantHealthService, 'recalculate').mockResolvedValue(undefined as never);
+    prismaMock.careLog.create.mockImplementation(({ data }: { data: Record<string, unknown> }) =>
+      Promise.resolve({ id: `care-${String(data.plantId).slice(-4)}`, metadata: null, imageUrl: null, ...data })
+    );
+  });
+
+  it('logs the plants the user owns and reports the others', async () => {
+    prismaMock.plant.findMany.mockResolvedValue([{ id: PLANT_IDS[0] }]);
+
+    const summary = await careService.logBulkCareAction(USER_ID, {
+      plantIds: [PLANT_IDS[1], PLANT_IDS[0], PLANT_IDS[0]],
+      type: 'WATERING',
+      performedAt,
+    });
+
+    expect(summary.logged).toBe(1);
+    expect(summary.failed).toBe(1);
+    expect(summary.results).toEqual([
+      { plantId: PLANT_IDS[1], success: false, error: { code: 'PLANT_NOT_FOUND', message: 'Plant not found' } },
+      expect.objectContaining({ plantId: PLANT_IDS[0], success: true }),
+    ]);
+    expect(prismaMock.careLog.create).toHaveBeenCalledTimes(1);
+    expect(prismaMock.plant.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: [PLANT_IDS[0]] } },
+      data: { lastWateredAt: performedAt },
+    });
+  });
+
+  it('writes every care log in one transaction', async () => {
+    prismaMock.plant.findMany.mockResolvedValue(PLANT_IDS.map(id => ({ id })));
+    prismaMock.careLog.create
+      .mockResolvedValueOnce({ id: 'care-0001', plantId: PLANT_IDS[0], metadata: null })
+      .mockRejectedValueOnce(new Error('disk I/O error'));
+
+    await expect(careService.logBulkCareAction(USER_ID, { plantIds: PLANT_IDS, type: 'WATERING', performedAt }))
+      .rejects.toThrow('disk I/O error');
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(1);
+    expect(prismaMock.plant.updateMany).not.toHaveBeenCalled();
+    expect(plantHealthService.recalculate).not.toHaveBeenCalled();
+  });
+
+  it('logs every plant in a space', async () => {
+    prismaMock.space.findFirst.mockResolvedValue({ id: SPACE_ID });
+    prismaMock.plant.findMany.mockResolvedValue(PLANT_IDS.map(id => ({ id })));
+
+    const summary = await careService.logBulkCareAction(USER_ID, { spaceId: SPACE_ID, type: 'OBSERVATION', performedAt });
+
+    expect(summary.logged).toBe(2);
+    expect(prismaMock.plant.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { spaceId: SPACE_ID, userId: USER_ID, deletedAt: null },
+    }));
+    // Observations have no last care date to update
+    expect(prismaMock.plant.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses a space of another user', async () => {
+    await expect(careService.logBulkCareAction(USER_ID, { spaceId: SPACE_ID, type: 'WATERING' }))
+      .rejects.toThrow('Space not found');
+    expect(prismaMock.careLog.create).not.toHaveBeenCalled();
+  });
+});
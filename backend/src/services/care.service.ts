@@ -1,21 +1,84 @@
 // backend/src/services/care.service.ts
 import { PrismaClient, CareLog, Prisma } from '@prisma/client';
+import {
+  CARE_METADATA_SCHEMAS,
+  CareMetadata,
+  CareType,
+  FertilizerStatsQuery,
+  fertilizingMetadataSchema,
+  parseCareMetadata,
+} from '../schemas/care.schemas';
+import { careScheduleService } from './care-schedule.service';
+import { diagnosisService } from './diagnosis.service';
+import { plantHealthService } from './plant-health.service';
 import { logger } from '../utils/logger';
+import { formatLocalDate, getZonedParts, startOfLocalMonth, ZonedDateParts, zonedTimeToUtc } from '../utils/timezone';
 
 const prisma = new PrismaClient();
 
 export interface CreateCareLogDto {
   plantId: string;
-  type: 'WATERING' | 'FERTILIZING' | 'PRUNING' | 'REPOTTING' | 'OBSERVATION';
+  type: CareType;
   notes?: string;
-  metadata?: string; // JSON string for additional data
+  metadata?: CareMetadata; // Shape depends on the care type, see care.schemas
   imageUrl?: string;
   performedAt?: Date;
 }
 
+export interface UpdateCareLogDto extends Partial<Omit<CreateCareLogDto, 'plantId' | 'metadata'>> {
+  metadata?: Record<string, unknown> | null; // Checked against the new or stored type; null clears it
+}
+
+// Care log with its metadata parsed; older logs may hold metadata from before it was typed
+export interface CareLogView extends Omit<CareLog, 'metadata'> {
+  metadata: CareMetadata | null;
+}
+
+export interface FertilizerMonth {
+  month: string; // yyyy-MM
+  applications: number;
+  amountMl: number; // Only applications that recorded an amount count towards the total
+  byProduct: Record<string, number>; // ml per product
+}
+
+export interface FertilizerStats {
+  months: FertilizerMonth[]; // Oldest first, months without fertilizing included
+  totalApplications: number;
+  totalAmountMl: number;
+  startDate: string;
+}
+
+export interface BulkCareLogDto {
+  plantIds?: string[];
+  spaceId?: string; // Every plant in the space, instead of plantIds
+  type: CreateCareLogDto['type'];
+  notes?: string;
+  performedAt?: Date;
+}
+
+export type BulkCareResult =
+  | { plantId: string; success: true; careLog: CareLogView }
+  | { plantId: string; success: false; error: { code: string; message: string } };
+
+export interface BulkCareSummary {
+  results: BulkCareResult[]; // In the order the plants were requested
+  logged: number;
+  failed: number;
+}
+
+type LastCareField = 'lastWateredAt' | 'lastFertilizedAt' | 'lastPrunedAt' | 'lastRepottedAt';
+
+// Plant column that records when each scheduled care type was last done
+const LAST_CARE_FIELDS: Partial<Record<CreateCareLogDto['type'], LastCareField>> = {
+  WATERING: 'lastWateredAt',
+  FERTILIZING: 'lastFertilizedAt',
+  PRUNING: 'lastPrunedAt',
+  REPOTTING: 'lastRepottedAt',
+};
+
 export class CareService {
   // Log care action
-  async logCareAction(userId: string, careData: CreateCareLogDto): Promise<CareLog> {
+  async logCareAction(userId: string, careData: CreateCareLogDto): Promise<CareLogView> {
     try {
       // Verify plant belongs to user
       const plant = await prisma.plant.findFirst({
@@ -34,7 +97,7 @@ export class CareService {
         data: {
           type: careData.type,
           notes: careData.notes,
-          metadata: careData.metadata,
+          metadata: careData.metadata ? JSON.stringify(careData.metadata) : undefined,
           imageUrl: careData.imageUrl,
           performedAt: careData.performedAt || new Date(),
           userId,
@@ -43,39 +106,108 @@ export class CareService {
       });
 
       // Update plant's last care dates based on care type
-      const updateData: any = {};
-      switch (careData.type) {
-        case 'WATERING':
-          updateData.lastWateredAt = careLog.performedAt;
-          break;
-        case 'FERTILIZING':
-          updateData.lastFertilizedAt = careLog.performedAt;
-          break;
-        case 'PRUNING':
-          updateData.lastPrunedAt = careLog.performedAt;
-          break;
-        case 'REPOTTING':
-          updateData.lastRepottedAt = careLog.performedAt;
-          break;
-      }
-
-      if (Object.keys(updateData).length > 0) {
+      const lastCareField = LAST_CARE_FIELDS[careData.type];
+      if (lastCareField) {
         await prisma.plant.update({
           where: { id: careData.plantId },
-          data: updateData,
+          data: { [lastCareField]: careLog.performedAt },
         });
+        await careScheduleService.refreshNextCareDue(careData.plantId);
+      }
+
+      // An observation may answer a diagnosis follow-up check
+      if (careData.type === 'OBSERVATION' && careData.metadata) {
+        try {
+          await diagnosisService.recordFollowUpObservation(careLog);
+        } catch (error) {
+          logger.error(`Failed to apply follow-up observation ${careLog.id}:`, error);
+        }
       }
 
+      await plantHealthService.recalculate(careData.plantId);
+
       logger.info(`Care action logged successfully: ${careLog.id}`);
-      return careLog;
+      return this.toView(careLog);
     } catch (error) {
       logger.error('Failed to log care action:', error);
       throw error;
     }
   }
 
+  // Log one care action for many plants at once, or for every plant in a space. Plants that are
+  // not found are reported per plant while the others are logged, all in one transaction
+  async logBulkCareAction(userId: string, data: BulkCareLogDto): Promise<BulkCareSummary> {
+    try {
+      let plantIds = [...new Set(data.plantIds || [])];
+      if (data.spaceId) {
+        const space = await prisma.space.findFirst({
+          where: { id: data.spaceId, userId },
+          select: { id: true },
+        });
+        if (!space) {
+          throw new Error('Space not found');
+        }
+
+        const plants = await prisma.plant.findMany({
+          where: { spaceId: data.spaceId, userId, deletedAt: null },
+          select: { id: true },
+          orderBy: { name: 'asc' },
+        });
+        plantIds = plants.map(plant => plant.id);
+      }
+
+      const performedAt = data.performedAt || new Date();
+      const lastCareField = LAST_CARE_FIELDS[data.type];
+
+      const careLogs = await prisma.$transaction(async tx => {
+        // Ownership of every plant is checked with a single query
+        const owned = await tx.plant.findMany({
+          where: { id: { in: plantIds }, userId, deletedAt: null },
+          select: { id: true },
+        });
+        const ownedIds = new Set(owned.map(plant => plant.id));
+
+        const created = new Map<string, CareLog>();
+        for (const plantId of plantIds.filter(id => ownedIds.has(id))) {
+          created.set(plantId, await tx.careLog.create({
+            data: { type: data.type, notes: data.notes, performedAt, userId, plantId },
+          }));
+        }
+
+        if (lastCareField && ownedIds.size > 0) {
+          await tx.plant.updateMany({
+            where: { id: { in: [...ownedIds] } },
+            data: { [lastCareField]: performedAt },
+          });
+        }
+        return created;
+      });
+
+      // Neither throws; a failure leaves the stored value for the next care action or job to fix
+      for (const plantId of careLogs.keys()) {
+        if (lastCareField) {
+          await careScheduleService.refreshNextCareDue(plantId);
+        }
+        await plantHealthService.recalculate(plantId);
+      }
+
+      const results: BulkCareResult[] = plantIds.map(plantId => {
+        const careLog = careLogs.get(plantId);
+        return careLog
+          ? { plantId, success: true, careLog: this.toView(careLog) }
+          : { plantId, success: false, error: { code: 'PLANT_NOT_FOUND', message: 'Plant not found' } };
+      });
+
+      logger.info(`Bulk ${data.type} logged for ${careLogs.size} of ${plantIds.length} plants`);
+      return { results, logged: careLogs.size, failed: plantIds.length - careLogs.size };
+    } catch (error) {
+      logger.error('Failed to log bulk care action:', error);
+      throw error;
+    }
+  }
+
   // Get care history for a plant
-  async getPlantCareHistory(plantId: string, userId: string, limit: number = 20): Promise<CareLog[]> {
+  async getPlantCareHistory(plantId: string, userId: string, limit: number = 20): Promise<CareLogView[]> {
     try {
       // Verify plant belongs to user
       const plant = await prisma.plant.findFirst({
@@ -96,7 +228,7 @@ export class CareService {
         take: limit,
       });
 
-      return careHistory;
+      return careHistory.map(careLog => this.toView(careLog));
     } catch (error) {
       logger.error('Failed to fetch care history:', error);
       throw error;
@@ -104,7 +236,7 @@ export class CareService {
   }
 
   // Get recent care actions for all user plants
-  async getRecentCareActions(userId: string, limit: number = 10): Promise<(CareLog & { plant: { name: string } })[]> {
+  async getRecentCareActions(userId: string, limit: number = 10): Promise<(CareLogView & { plant: { name: string } })[]> {
     try {
       const recentActions = await prisma.careLog.findMany({
         where: { userId },
@@ -117,7 +249,7 @@ export class CareService {
         take: limit,
       });
 
-      return recentActions;
+      return recentActions.map(careLog => this.toView(careLog));
     } catch (error) {
       logger.error('Failed to fetch recent care actions:', error);
       throw new Error('Failed to fetch recent care actions');
@@ -155,8 +287,65 @@ export class CareService {
     }
   }
 
+  // Fertilizer used per month, read from the metadata of FERTILIZING logs
+  async getFertilizerStats(userId: string, query: FertilizerStatsQuery, now: Date = new Date()): Promise<FertilizerStats> {
+    try {
+      // Months follow the user's calendar, so a log late on the last day of a month counts in that month
+      const timeZone = await careScheduleService.getUserTimezone(userId);
+      const thisMonth = getZonedParts(now, timeZone);
+      const monthOf = (parts: Pick<ZonedDateParts, 'year' | 'month' | 'day'>): string => formatLocalDate(parts).slice(0, 7);
+      const startDate = zonedTimeToUtc(startOfLocalMonth(thisMonth, query.months - 1), 0, 0, timeZone);
+
+      const fertilizings = await prisma.careLog.findMany({
+        where: {
+          userId,
+          type: 'FERTILIZING',
+          performedAt: { gte: startDate },
+          ...(query.plantId && { plantId: query.plantId }),
+        },
+        select: { metadata: true, performedAt: true },
+      });
+
+      const months = new Map<string, FertilizerMonth>();
+      for (let offset = query.months - 1; offset >= 0; offset--) {
+        const month = monthOf(startOfLocalMonth(thisMonth, offset));
+        months.set(month, { month, applications: 0, amountMl: 0, byProduct: {} });
+      }
+
+      for (const log of fertilizings) {
+        // Logs dated in the future fall outside every month
+        const entry = months.get(monthOf(getZonedParts(log.performedAt, timeZone)));
+        if (!entry) {
+          continue;
+        }
+        entry.applications += 1;
+
+        const metadata = fertilizingMetadataSchema.safeParse(this.parseMetadata(log.metadata));
+        const amountMl = metadata.success ? metadata.data.amountMl : undefined;
+        if (amountMl === undefined) {
+          continue;
+        }
+        entry.amountMl += amountMl;
+
+        const product = metadata.success && metadata.data.product ? metadata.data.product : 'Unknown';
+        entry.byProduct[product] = (entry.byProduct[product] || 0) + amountMl;
+      }
+
+      const perMonth = [...months.values()];
+      return {
+        months: perMonth,
+        totalApplications: perMonth.reduce((sum, month) => sum + month.applications, 0),
+        totalAmountMl: perMonth.reduce((sum, month) => sum + month.amountMl, 0),
+        startDate: startDate.toISOString(),
+      };
+    } catch (error) {
+      logger.error('Failed to fetch fertilizer stats:', error);
+      throw new Error('Failed to fetch fertilizer statistics');
+    }
+  }
+
   // Get care log by ID (for specific user)
-  async getCareLogById(careLogId: string, userId: string): Promise<CareLog | null> {
+  async getCareLogById(careLogId: string, userId: string): Promise<(CareLogView & { plant: { name: string } }) | null> {
     try {
       const careLog = await prisma.careLog.findFirst({
         where: { 
@@ -170,7 +359,7 @@ export class CareService {
         }
       });
 
-      return careLog;
+      return careLog ? this.toView(careLog) : null;
     } catch (error) {
       logger.error('Failed to fetch care log:', error);
       throw new Error('Failed to fetch care log');
@@ -178,7 +367,7 @@ export class CareService {
   }
 
   // Update care log
-  async updateCareLog(careLogId: string, userId: string, updates: Partial<CreateCareLogDto>): Promise<CareLog> {
+  async updateCareLog(careLogId: string, userId: string, updates: UpdateCareLogDto): Promise<CareLogView> {
     try {
       // Verify care log belongs to user
       const existingCareLog = await prisma.careLog.findFirst({
@@ -194,14 +383,16 @@ export class CareService {
         data: {
           type: updates.type,
           notes: updates.notes,
-          metadata: updates.metadata,
+          metadata: this.updatedMetadata(existingCareLog, updates),
           imageUrl: updates.imageUrl,
           performedAt: updates.performedAt,
         },
       });
 
+      await plantHealthService.recalculate(updatedCareLog.plantId);
+
       logger.info(`Care log updated successfully: ${careLogId}`);
-      return updatedCareLog;
+      return this.toView(updatedCareLog);
     } catch (error) {
       logger.error('Failed to update care log:', error);
       throw error;
@@ -224,12 +415,53 @@ export class CareService {
         where: { id: careLogId },
       });
 
+      await plantHealthService.recalculate(existingCareLog.plantId);
+
       logger.info(`Care log deleted successfully: ${careLogId}`);
     } catch (error) {
       logger.error('Failed to delete care log:', error);
       throw error;
     }
   }
+
+  // Care logs are returned with their metadata parsed
+  toView<T extends CareLog>(careLog: T): Omit<T, 'metadata'> & Pick<CareLogView, 'metadata'> {
+    return { ...careLog, metadata: this.parseMetadata(careLog.metadata) };
+  }
+
+  // New metadata must fit the log's type, new or stored. When only the type changes, stored
+  // metadata that does not fit the new type is dropped
+  private updatedMetadata(existing: CareLog, updates: UpdateCareLogDto): string | null | undefined {
+    const type = (updates.type || existing.type) as CareType;
+
+    if (updates.metadata === null) {
+      return null;
+    }
+    if (updates.metadata !== undefined) {
+      return JSON.stringify(parseCareMetadata(type, updates.metadata));
+    }
+    if (type === existing.type || !existing.metadata) {
+      return undefined;
+    }
+
+    const stillFits = CARE_METADATA_SCHEMAS[type].safeParse(this.parseMetadata(existing.metadata)).success;
+    return stillFits ? undefined : null;
+  }
+
+  private parseMetadata(value: string | null): CareMetadata | null {
+    if (!value) {
+      return null;
+    }
+
+    try {
+      const metadata: unknown = JSON.parse(value);
+      return metadata !== null && typeof metadata === 'object' && !Array.isArray(metadata)
+        ? metadata as CareMetadata
+        : null;
+    } catch {
+      return null;
+    }
+  }
 }
 
 export const careService = new CareService();
\ No newline at end of file
@@ -0,0 +1,410 @@
+// backend/src/services/diagnosis.service.test.ts
+import type { CareLog } from '@prisma/client';
+import { subDays } from 'date-fns';
+import { diagnosisService } from './diagnosis.service';
+import { identificationService } from './identification.service';
+import { plantHealthService } from './plant-health.service';
+import { symptomScoringEngine } from './symptom-knowledge-base';
+import { prismaMock, resetPrismaMock } from '../test/prisma';
+
+const USER_ID = '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0001';
+const PLANT_ID = '5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001';
+const DIAGNOSIS_ID = '2d4c6b8a-1e3f-4a5b-9c7d-8e6f4a2b0001';
+
+const storedDiagnosis = (data: Record<string, unknown> = {}): Record<string, unknown> => ({
+  id: DIAGNOSIS_ID,
+  plantId: PLANT_ID,
+  symptoms: null,
+  diagnosis: null,
+  confidence: null,
+  severity: null,
+  candidates: null,
+  notes: null,
+  treatment: null,
+  followUp: null,
+  treatmentPlan: null,
+  treatmentStartedAt: null,
+  status: 'open',
+  resolvedAt: null,
+  feedbackAt: null,
+  feedbackNotes: null,
+  imageUrls: null,
+  modelVersion: null,
+  processedBy: null,
+  createdAt: new Date('2024-05-01T08:00:00Z'),
+  updatedAt: new Date('2024-05-01T08:00:00Z'),
+  ...data,
+});
+
+beforeEach(() => {
+  resetPrismaMock();
+  jest.restoreAllMocks();
+  jest.spyOn(plantHealthService, 'recalculate').mockResolvedValue(null);
+  jest.spyOn(identificationService, 'findPlantKey').mockResolvedValue(null);
+  prismaMock.diagnosis.create.mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve(storedDiagnosis(data)));
+  prismaMock.diagnosis.update.mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve(storedDiagnosis(data)));
+});
+
+describe('diagnosisService.createDiagnosis', () => {
+  beforeEach(() => {
+    prismaMock.plant.findFirst.mockResolvedValue({
+      name: 'Balcony mint',
+      scientificName: 'Mentha spicata',
+      wateringFrequency: 2,
+      careLogs: [],
+    });
+  });
+
+  it('stores the top ranked problem with up to three candidates and three steps each', async () => {
+    const view = await diagnosisService.createDiagnosis(PLANT_ID, USER_ID, {
+      symptoms: [{ code: 'yellow_leaves' }, { code: 'mold_on_soil' }, { code: 'wilting' }],
+      notes: 'Leaves turned yellow this week',
+      imageUrls: ['https://example.com/mint.jpg'],
+    });
+
+    expect(view.candidates.length).toBeGreaterThan(0);
+    expect(view.candidates.length).toBeLessThanOrEqual(3);
+    view.candidates.forEach(candidate => expect(candidate.solutions.length).toBeLessThanOrEqual(3));
+    expect(view.diagnosis).toBe(view.candidates[0].problem);
+    expect(view.confidence).toBe(view.candidates[0].confidence);
+    expect(view.treatment).toEqual(view.candidates[0].solutions);
+    expect(view).toMatchObject({
+      status: 'open',
+      severity: 'moderate',
+      notes: 'Leaves turned yellow this week',
+      imageUrls: ['https://example.com/mint.jpg'],
+      symptoms: [{ code: 'yellow_leaves' }, { code: 'mold_on_soil' }, { code: 'wilting' }],
+      processedBy: 'rules',
+    });
+    expect(plantHealthService.recalculate).toHaveBeenCalledWith(PLANT_ID);
+  });
+
+  it('ranks with the plant\'s species and recent care', async () => {
+    jest.spyOn(identificationService, 'findPlantKey').mockResolvedValue('mint');
+    const rank = jest.spyOn(symptomScoringEngine, 'rank');
+    prismaMock.plant.findFirst.mockResolvedValue({
+      name: 'Balcony mint',
+      scientificName: 'Mentha spicata',
+      wateringFrequency: 2,
+      careLogs: [
+        { type: 'WATERING', performedAt: subDays(new Date(), 1) },
+        { type: 'WATERING', performedAt: subDays(new Date(), 3) },
+      ],
+    });
+
+    await diagnosisService.createDiagnosis(PLANT_ID, USER_ID, { symptoms: [{ code: 'wilting' }] });
+
+    expect(identificationService.findPlantKey).toHaveBeenCalledWith(expect.objectContaining({ scientificName: 'Mentha spicata' }));
+    expect(rank).toHaveBeenCalledWith(
+      {
+        symptoms: [{ code: 'wilting' }],
+        speciesKey: 'mint',
+        history: expect.objectContaining({ wateringIntervalDays: 2, wateringsLast14Days: 2, daysSinceLastWatering: 1 }) as object,
+      },
+      3,
+      3
+    );
+  });
+
+  it.each([
+    ['the worst reported severity', [{ code: 'wilting', severity: 'mild' }, { code: 'leaf_drop', severity: 'severe' }], 'severe'],
+    ['mild for a single symptom', [{ code: 'wilting' }], 'mild'],
+    ['moderate for two or three symptoms', [{ code: 'wilting' }, { code: 'leaf_drop' }], 'moderate'],
+    ['severe for four or more symptoms', [{ code: 'wilting' }, { code: 'leaf_drop' }, { code: 'yellow_leaves' }, { code: 'mushy_stem' }], 'severe'],
+  ] as const)('estimates %s', async (_case, symptoms, severity) => {
+    const view = await diagnosisService.createDiagnosis(PLANT_ID, USER_ID, { symptoms: [...symptoms] });
+
+    expect(view.severity).toBe(severity);
+  });
+
+  it('stores a diagnosis without a problem when nothing matches', async () => {
+    jest.spyOn(symptomScoringEngine, 'rank').mockReturnValue([]);
+
+    const view = await diagnosisService.createDiagnosis(PLANT_ID, USER_ID, { symptoms: [{ code: 'no_flowers' }] });
+
+    expect(view).toMatchObject({ diagnosis: undefined, confidence: undefined, candidates: [], treatment: [] });
+  });
+
+  it('rejects another user\'s plant', async () => {
+    prismaMock.plant.findFirst.mockResolvedValue(null);
+
+    await expect(diagnosisService.createDiagnosis(PLANT_ID, USER_ID, { symptoms: [{ code: 'wilting' }] }))
+      .rejects.toThrow('Plant not found');
+    expect(prismaMock.diagnosis.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('diagnosisService.getPlantDiagnoses / getDiagnosisById', () => {
+  beforeEach(() => {
+    prismaMock.plant.findFirst.mockResolvedValue({ id: PLANT_ID });
+  });
+
+  it('lists the plant\'s diagnoses newest first with their JSON fields parsed', async () => {
+    prismaMock.diagnosis.findMany.mockResolvedValue([
+      storedDiagnosis({ symptoms: JSON.stringify([{ code: 'wilting' }]), imageUrls: 'not json' }),
+    ]);
+
+    const views = await diagnosisService.getPlantDiagnoses(PLANT_ID, USER_ID);
+
+    expect(prismaMock.diagnosis.findMany).toHaveBeenCalledWith({ where: { plantId: PLANT_ID }, orderBy: { createdAt: 'desc' } });
+    expect(views).toEqual([expect.objectContaining({
+      symptoms: [{ code: 'wilting' }],
+      candidates: [],
+      treatment: [],
+      treatmentPlan: null,
+      imageUrls: [],
+    })]);
+  });
+
+  it('returns null for a diagnosis of another plant', async () => {
+    await expect(diagnosisService.getDiagnosisById(DIAGNOSIS_ID, PLANT_ID, USER_ID)).resolves.toBeNull();
+    expect(prismaMock.diagnosis.findFirst).toHaveBeenCalledWith({ where: { id: DIAGNOSIS_ID, plantId: PLANT_ID } });
+  });
+
+  it('rejects another user\'s plant', async () => {
+    prismaMock.plant.findFirst.mockResolvedValue(null);
+
+    await expect(diagnosisService.getPlantDiagnoses(PLANT_ID, USER_ID)).rejects.toThrow('Plant not found');
+    await expect(diagnosisService.getDiagnosisById(DIAGNOSIS_ID, PLANT_ID, USER_ID)).rejects.toThrow('Plant not found');
+  });
+});
+
+describe('diagnosisService.recordFeedback', () => {
+  beforeEach(() => {
+    prismaMock.plant.findFirst.mockResolvedValue({ id: PLANT_ID });
+    prismaMock.diagnosis.findFirst.mockResolvedValue(storedDiagnosis({ status: 'treating' }));
+  });
+
+  it('resolves a solved problem and drops its pending treatment notifications', async () => {
+    const view = await diagnosisService.recordFeedback(DIAGNOSIS_ID, PLANT_ID, USER_ID, { solved: true, notes: 'Green again' });
+
+    expect(view).toMatchObject({ status: 'resolved', feedbackNotes: 'Green again' });
+    expect(view.resolvedAt).toBeInstanceOf(Date);
+    expect(prismaMock.notification.deleteMany).toHaveBeenCalledWith({
+      where: { type: { in: ['treatment_reminder', 'diagnosis_follow_up'] }, sentAt: null, diagnosisId: DIAGNOSIS_ID },
+    });
+    expect(plantHealthService.recalculate).toHaveBeenCalledWith(PLANT_ID);
+  });
+
+  it('marks an unsolved problem and keeps the treatment running', async () => {
+    const view = await diagnosisService.recordFeedback(DIAGNOSIS_ID, PLANT_ID, USER_ID, { solved: false });
+
+    expect(view).toMatchObject({ status: 'unresolved', resolvedAt: null });
+    expect(prismaMock.notification.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown diagnosis', async () => {
+    prismaMock.diagnosis.findFirst.mockResolvedValue(null);
+
+    await expect(diagnosisService.recordFeedback(DIAGNOSIS_ID, PLANT_ID, USER_ID, { solved: true }))
+      .rejects.toThrow('Diagnosis not found');
+    expect(prismaMock.diagnosis.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('diagnosisService.acceptTreatment', () => {
+  // 08:00 in Cairo (UTC+3 in May), an hour before the user's reminder hour
+  const now = new Date('2024-05-01T05:00:00Z');
+  const candidates = symptomScoringEngine.rank({ symptoms: [{ code: 'mushy_stem' }], speciesKey: null, history: null });
+
+  const notificationsOfType = (type: string): Array<Record<string, unknown>> =>
+    prismaMock.notification.create.mock.calls
+      .map(([args]) => (args as { data: Record<string, unknown> }).data)
+      .filter(data => data.type === type);
+
+  beforeEach(() => {
+    prismaMock.plant.findFirst.mockResolvedValue({
+      name: 'Balcony mint',
+      user: { timezone: 'Africa/Cairo', reminderHour: 9, language: 'en' },
+    });
+    prismaMock.diagnosis.findFirst.mockResolvedValue(storedDiagnosis({ candidates: JSON.stringify(candidates) }));
+    prismaMock.notification.create.mockImplementation(({ data }: { data: object }) => Promise.resolve(data));
+  });
+
+  it('schedules a reminder for each application and a follow-up check, linked to the diagnosis', async () => {
+    // Overwatering: check the soil every 4 days for 14 days
+    const view = await diagnosisService.acceptTreatment(DIAGNOSIS_ID, PLANT_ID, USER_ID, { problem: 'overwatering' }, now);
+
+    const reminders = notificationsOfType('treatment_reminder');
+    expect(reminders.map(reminder => reminder.scheduledFor)).toEqual([
+      new Date('2024-05-01T06:00:00Z'),
+      new Date('2024-05-05T06:00:00Z'),
+      new Date('2024-05-09T06:00:00Z'),
+      new Date('2024-05-13T06:00:00Z'),
+    ]);
+    reminders.forEach(reminder => {
+      expect(reminder).toMatchObject({ userId: USER_ID, diagnosisId: DIAGNOSIS_ID, title: 'Treatment time for Balcony mint' });
+    });
+    expect(JSON.parse(reminders[1].metadata as string)).toEqual({
+      careType: 'TREATMENT',
+      plantIds: [PLANT_ID],
+      overduePlantIds: [],
+      localDate: '2024-05-05',
+      diagnosisId: DIAGNOSIS_ID,
+    });
+
+    expect(notificationsOfType('diagnosis_follow_up')).toEqual([expect.objectContaining({
+      diagnosisId: DIAGNOSIS_ID,
+      priority: 'high',
+      scheduledFor: new Date('2024-05-15T06:00:00Z'),
+      metadata: JSON.stringify({ diagnosisId: DIAGNOSIS_ID, plantId: PLANT_ID }),
+    })]);
+
+    expect(view).toMatchObject({
+      status: 'treating',
+      diagnosis: 'overwatering',
+      followUp: new Date('2024-05-15T06:00:00Z'),
+      treatmentStartedAt: now,
+      treatmentPlan: {
+        problem: 'overwatering',
+        intervalDays: 4,
+        durationDays: 14,
+        startedAt: now.toISOString(),
+        followUpAt: '2024-05-15T06:00:00.000Z',
+      },
+    });
+    expect(view.treatmentPlan?.schedule).toHaveLength(4);
+    expect(plantHealthService.recalculate).toHaveBeenCalledWith(PLANT_ID);
+  });
+
+  it('defaults to the top ranked problem and never schedules in the past', async () => {
+    const afterReminderHour = new Date('2024-05-01T10:00:00Z');
+
+    const view = await diagnosisService.acceptTreatment(DIAGNOSIS_ID, PLANT_ID, USER_ID, {}, afterReminderHour);
+
+    expect(view.diagnosis).toBe(candidates[0].problem);
+    expect(notificationsOfType('treatment_reminder')[0].scheduledFor).toEqual(afterReminderHour);
+  });
+
+  it('writes the notifications in the user\'s language', async () => {
+    prismaMock.plant.findFirst.mockResolvedValue({
+      name: 'نعناع البلكونة',
+      user: { timezone: 'Africa/Cairo', reminderHour: 9, language: 'ar' },
+    });
+
+    await diagnosisService.acceptTreatment(DIAGNOSIS_ID, PLANT_ID, USER_ID, { problem: 'overwatering' }, now);
+
+    expect(notificationsOfType('treatment_reminder')[0]).toMatchObject({
+      title: 'حان وقت علاج نعناع البلكونة',
+      message: 'تأكد أن التربة جافة على عمق ٣-٥ سم قبل الري',
+    });
+    expect(notificationsOfType('diagnosis_follow_up')[0].message).toContain('الإفراط في الري');
+  });
+
+  it('returns the running plan unchanged when it is accepted again', async () => {
+    const first = await diagnosisService.acceptTreatment(DIAGNOSIS_ID, PLANT_ID, USER_ID, { problem: 'overwatering' }, now);
+    const running = prismaMock.diagnosis.update.mock.calls[0][0] as { data: Record<string, unknown> };
+    prismaMock.diagnosis.findFirst.mockResolvedValue(storedDiagnosis({ ...running.data, candidates: JSON.stringify(candidates) }));
+    prismaMock.notification.create.mockClear();
+    prismaMock.notification.deleteMany.mockClear();
+
+    const again = await diagnosisService.acceptTreatment(DIAGNOSIS_ID, PLANT_ID, USER_ID, { problem: 'overwatering' }, now);
+
+    expect(again.treatmentPlan).toEqual(first.treatmentPlan);
+    expect(prismaMock.notification.create).not.toHaveBeenCalled();
+    expect(prismaMock.notification.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('replaces the pending notifications when a different plan is accepted', async () => {
+    await diagnosisService.acceptTreatment(DIAGNOSIS_ID, PLANT_ID, USER_ID, { problem: 'overwatering' }, now);
+    const running = prismaMock.diagnosis.update.mock.calls[0][0] as { data: Record<string, unknown> };
+    prismaMock.diagnosis.findFirst.mockResolvedValue(storedDiagnosis({ ...running.data, candidates: JSON.stringify(candidates) }));
+    prismaMock.notification.create.mockClear();
+
+    const view = await diagnosisService.acceptTreatment(DIAGNOSIS_ID, PLANT_ID, USER_ID, { problem: 'root-rot' }, now);
+
+    expect(view.treatmentPlan?.problem).toBe('root-rot');
+    expect(prismaMock.notification.deleteMany).toHaveBeenLastCalledWith({
+      where: { type: { in: ['treatment_reminder', 'diagnosis_follow_up'] }, sentAt: null, diagnosisId: DIAGNOSIS_ID },
+    });
+    // Root rot: repot once, check back after 21 days
+    expect(notificationsOfType('treatment_reminder')).toHaveLength(1);
+    expect(notificationsOfType('diagnosis_follow_up')[0].scheduledFor).toEqual(new Date('2024-05-22T06:00:00Z'));
+  });
+
+  it.each([
+    ['a problem that was not a candidate', storedDiagnosis({ candidates: JSON.stringify(candidates) }), 'spider-mites', 'Treatment not available'],
+    ['a resolved diagnosis', storedDiagnosis({ status: 'resolved', candidates: JSON.stringify(candidates) }), 'overwatering', 'Diagnosis already resolved'],
+    ['an unknown diagnosis', null, 'overwatering', 'Diagnosis not found'],
+  ])('rejects %s', async (_case, diagnosis, problem, message) => {
+    prismaMock.diagnosis.findFirst.mockResolvedValue(diagnosis);
+
+    await expect(diagnosisService.acceptTreatment(DIAGNOSIS_ID, PLANT_ID, USER_ID, { problem }, now)).rejects.toThrow(message);
+    expect(prismaMock.notification.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('diagnosisService.recordFollowUpObservation', () => {
+  const performedAt = new Date('2024-05-15T07:00:00Z');
+
+  const observation = (metadata: unknown, type: string = 'OBSERVATION'): CareLog => ({
+    id: 'care-log-1',
+    plantId: PLANT_ID,
+    userId: USER_ID,
+    type,
+    notes: 'Leaves look firmer',
+    imageUrl: null,
+    metadata: metadata === null ? null : JSON.stringify(metadata),
+    performedAt,
+    createdAt: performedAt,
+  });
+
+  beforeEach(() => {
+    prismaMock.diagnosis.findFirst.mockResolvedValue(storedDiagnosis({ status: 'treating', severity: 'mild' }));
+  });
+
+  it('resolves the diagnosis when the plant improved and closes its notifications', async () => {
+    const view = await diagnosisService.recordFollowUpObservation(observation({ diagnosisId: DIAGNOSIS_ID, outcome: 'improved' }));
+
+    expect(view).toMatchObject({
+      status: 'resolved',
+      resolvedAt: performedAt,
+      followUp: null,
+      feedbackAt: performedAt,
+      feedbackNotes: 'Leaves look firmer',
+    });
+    expect(prismaMock.diagnosis.findFirst).toHaveBeenCalledWith({ where: { id: DIAGNOSIS_ID, plantId: PLANT_ID } });
+    expect(prismaMock.notification.deleteMany).toHaveBeenCalledWith({
+      where: { type: { in: ['treatment_reminder', 'diagnosis_follow_up'] }, sentAt: null, diagnosisId: DIAGNOSIS_ID },
+    });
+    expect(prismaMock.notification.updateMany).toHaveBeenCalledWith({
+      where: { type: 'diagnosis_follow_up', completedAt: null, diagnosisId: DIAGNOSIS_ID },
+      data: { completedAt: performedAt },
+    });
+    expect(plantHealthService.recalculate).toHaveBeenCalledWith(PLANT_ID);
+  });
+
+  it.each([
+    ['same', 'mild', 'moderate'],
+    ['worse', 'mild', 'severe'],
+    ['same', 'severe', 'severe'],
+    ['worse', null, 'severe'],
+  ])('escalates when the plant is %s (%s becomes %s)', async (outcome, severity, escalated) => {
+    prismaMock.diagnosis.findFirst.mockResolvedValue(storedDiagnosis({ status: 'treating', severity }));
+
+    const view = await diagnosisService.recordFollowUpObservation(observation({ diagnosisId: DIAGNOSIS_ID, outcome }));
+
+    expect(view).toMatchObject({ status: 'unresolved', severity: escalated });
+    expect(prismaMock.diagnosis.update).toHaveBeenCalledWith({
+      where: { id: DIAGNOSIS_ID },
+      data: expect.not.objectContaining({ resolvedAt: expect.anything() as unknown }) as object,
+    });
+  });
+
+  it.each([
+    ['a care log of another type', observation({ diagnosisId: DIAGNOSIS_ID, outcome: 'improved' }, 'WATERING')],
+    ['an observation without metadata', observation(null)],
+    ['an observation that answers no follow-up', observation({ note: 'new leaf' })],
+  ])('ignores %s', async (_case, careLog) => {
+    await expect(diagnosisService.recordFollowUpObservation(careLog)).resolves.toBeNull();
+    expect(prismaMock.diagnosis.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('ignores a follow-up for a diagnosis that is already resolved', async () => {
+    prismaMock.diagnosis.findFirst.mockResolvedValue(storedDiagnosis({ status: 'resolved' }));
+
+    await expect(diagnosisService.recordFollowUpObservation(observation({ diagnosisId: DIAGNOSIS_ID, outcome: 'worse' })))
+      .resolves.toBeNull();
+    expect(prismaMock.diagnosis.update).not.toHaveBeenCalled();
+  });
+});
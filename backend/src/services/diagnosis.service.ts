@@ -0,0 +1,459 @@
+// backend/src/services/diagnosis.service.ts
+import { CareLog, Diagnosis, Prisma, PrismaClient } from '@prisma/client';
+import { subDays } from 'date-fns';
+import { DEFAULT_CARE_INTERVALS } from './care-schedule.service';
+import { identificationService } from './identification.service';
+import { plantHealthService } from './plant-health.service';
+import type { CareReminderMetadata } from './notification.service';
+import {
+  BilingualText,
+  PLANT_PROBLEMS,
+  RankedProblem,
+  TreatmentPlanTemplate,
+  symptomScoringEngine,
+} from './symptom-knowledge-base';
+import {
+  AcceptTreatmentData,
+  CreateDiagnosisData,
+  DiagnosisFeedbackData,
+  FollowUpObservation,
+  Severity,
+  SymptomInput,
+  followUpObservationSchema,
+} from '../schemas/diagnosis.schemas';
+import { addLocalDays, formatLocalDate, getZonedParts, resolveTimezone, zonedTimeToUtc } from '../utils/timezone';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+const MODEL_VERSION = 'rules-v2';
+const MAX_CANDIDATES = 3;
+const MAX_SOLUTION_STEPS = 3;
+const CARE_HISTORY_DAYS = 90;
+
+// Notifications created for a treatment plan; pending ones are dropped when the plan ends
+const TREATMENT_NOTIFICATION_TYPES = ['treatment_reminder', 'diagnosis_follow_up'];
+
+const SEVERITY_ORDER: Severity[] = ['mild', 'moderate', 'severe'];
+
+export type DiagnosisCandidate = RankedProblem;
+
+export interface TreatmentPlan extends TreatmentPlanTemplate {
+  problem: string;
+  startedAt: string;
+  schedule: string[]; // When each application is due
+  followUpAt: string;
+}
+
+export interface DiagnosisView extends Omit<Diagnosis, 'symptoms' | 'candidates' | 'treatment' | 'treatmentPlan' | 'imageUrls'> {
+  symptoms: SymptomInput[];
+  candidates: DiagnosisCandidate[];
+  treatment: BilingualText[];
+  treatmentPlan: TreatmentPlan | null;
+  imageUrls: string[];
+}
+
+export class DiagnosisService {
+  // Diagnose a plant from reported symptoms and store the result
+  async createDiagnosis(plantId: string, userId: string, input: CreateDiagnosisData): Promise<DiagnosisView> {
+    try {
+      const plant = await prisma.plant.findFirst({
+        where: { id: plantId, userId, deletedAt: null },
+        select: {
+          name: true,
+          scientificName: true,
+          wateringFrequency: true,
+          careLogs: {
+            where: { performedAt: { gte: subDays(new Date(), CARE_HISTORY_DAYS) } },
+            select: { type: true, performedAt: true },
+          },
+        },
+      });
+
+      if (!plant) {
+        throw new Error('Plant not found');
+      }
+
+      const candidates = symptomScoringEngine.rank(
+        {
+          symptoms: input.symptoms,
+          speciesKey: await identificationService.findPlantKey(plant),
+          history: symptomScoringEngine.summarizeCareHistory(
+            plant.careLogs,
+            plant.wateringFrequency || DEFAULT_CARE_INTERVALS.WATERING
+          ),
+        },
+        MAX_CANDIDATES,
+        MAX_SOLUTION_STEPS
+      );
+      const top = candidates[0];
+
+      const diagnosis = await prisma.diagnosis.create({
+        data: {
+          plantId,
+          symptoms: JSON.stringify(input.symptoms),
+          diagnosis: top?.problem,
+          confidence: top?.confidence,
+          severity: this.estimateSeverity(input.symptoms),
+          candidates: JSON.stringify(candidates),
+          treatment: top ? JSON.stringify(top.solutions) : null,
+          notes: input.notes,
+          imageUrls: input.imageUrls ? JSON.stringify(input.imageUrls) : null,
+          modelVersion: MODEL_VERSION,
+          processedBy: 'rules',
+        },
+      });
+
+      await plantHealthService.recalculate(plantId);
+
+      logger.info(`Diagnosis created for plant ${plantId}: ${top?.problem || 'no match'}`);
+      return this.toView(diagnosis);
+    } catch (error) {
+      logger.error('Failed to create diagnosis:', error);
+      throw error;
+    }
+  }
+
+  // Get all diagnoses of a plant, newest first
+  async getPlantDiagnoses(plantId: string, userId: string): Promise<DiagnosisView[]> {
+    try {
+      await this.assertPlantOwnership(plantId, userId);
+
+      const diagnoses = await prisma.diagnosis.findMany({
+        where: { plantId },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return diagnoses.map(diagnosis => this.toView(diagnosis));
+    } catch (error) {
+      logger.error('Failed to fetch diagnoses:', error);
+      throw error;
+    }
+  }
+
+  // Get a single diagnosis of a plant
+  async getDiagnosisById(diagnosisId: string, plantId: string, userId: string): Promise<DiagnosisView | null> {
+    try {
+      await this.assertPlantOwnership(plantId, userId);
+
+      const diagnosis = await prisma.diagnosis.findFirst({
+        where: { id: diagnosisId, plantId },
+      });
+
+      return diagnosis ? this.toView(diagnosis) : null;
+    } catch (error) {
+      logger.error('Failed to fetch diagnosis:', error);
+      throw error;
+    }
+  }
+
+  // Record whether the suggested treatment solved the problem
+  async recordFeedback(
+    diagnosisId: string,
+    plantId: string,
+    userId: string,
+    feedback: DiagnosisFeedbackData
+  ): Promise<DiagnosisView> {
+    try {
+      const existing = await this.getDiagnosisById(diagnosisId, plantId, userId);
+      if (!existing) {
+        throw new Error('Diagnosis not found');
+      }
+
+      const now = new Date();
+      const diagnosis = await prisma.diagnosis.update({
+        where: { id: diagnosisId },
+        data: {
+          status: feedback.solved ? 'resolved' : 'unresolved',
+          resolvedAt: feedback.solved ? now : null,
+          feedbackAt: now,
+          feedbackNotes: feedback.notes,
+        },
+      });
+
+      if (feedback.solved) {
+        await this.deletePendingTreatmentNotifications(diagnosisId);
+      }
+
+      await plantHealthService.recalculate(plantId);
+
+      logger.info(`Diagnosis feedback recorded: ${diagnosisId} (solved: ${feedback.solved})`);
+      return this.toView(diagnosis);
+    } catch (error) {
+      logger.error('Failed to record diagnosis feedback:', error);
+      throw error;
+    }
+  }
+
+  // Turn the chosen problem's treatment into scheduled reminders and a follow-up check.
+  // Accepting the plan that is already running returns it unchanged.
+  async acceptTreatment(
+    diagnosisId: string,
+    plantId: string,
+    userId: string,
+    data: AcceptTreatmentData,
+    now: Date = new Date()
+  ): Promise<DiagnosisView> {
+    try {
+      const plant = await prisma.plant.findFirst({
+        where: { id: plantId, userId, deletedAt: null },
+        select: {
+          name: true,
+          user: { select: { timezone: true, reminderHour: true, language: true } },
+        },
+      });
+
+      if (!plant) {
+        throw new Error('Plant not found');
+      }
+
+      const diagnosis = await prisma.diagnosis.findFirst({
+        where: { id: diagnosisId, plantId },
+      });
+
+      if (!diagnosis) {
+        throw new Error('Diagnosis not found');
+      }
+
+      if (diagnosis.status === 'resolved') {
+        throw new Error('Diagnosis already resolved');
+      }
+
+      const view = this.toView(diagnosis);
+      const problem = data.problem || view.candidates[0]?.problem;
+      const candidate = view.candidates.find(c => c.problem === problem);
+      const template = candidate ? PLANT_PROBLEMS[candidate.problem]?.plan : undefined;
+
+      if (!candidate || !template) {
+        throw new Error('Treatment not available');
+      }
+
+      if (diagnosis.status === 'treating' && view.treatmentPlan?.problem === candidate.problem) {
+        return view;
+      }
+
+      // Applications and the follow-up land on the user's usual reminder hour
+      const timeZone = resolveTimezone(plant.user.timezone);
+      const localStart = getZonedParts(now, timeZone);
+      const localReminderAt = (days: number): Date =>
+        zonedTimeToUtc(addLocalDays(localStart, days), plant.user.reminderHour, 0, timeZone);
+
+      const schedule: Date[] = [];
+      for (let day = 0; day < template.durationDays; day += template.intervalDays) {
+        const dueAt = localReminderAt(day);
+        schedule.push(dueAt < now ? now : dueAt);
+      }
+      const followUpAt = localReminderAt(template.durationDays);
+
+      const plan: TreatmentPlan = {
+        ...template,
+        problem: candidate.problem,
+        startedAt: now.toISOString(),
+        schedule: schedule.map(dueAt => dueAt.toISOString()),
+        followUpAt: followUpAt.toISOString(),
+      };
+
+      const isArabic = plant.user.language === 'ar';
+      const problemName = candidate.names[isArabic ? 'ar' : 'en'];
+
+      const reminders = schedule.map(dueAt => {
+        const metadata: CareReminderMetadata = {
+          careType: template.careType,
+          plantIds: [plantId],
+          overduePlantIds: [],
+          localDate: formatLocalDate(getZonedParts(dueAt, timeZone)),
+          diagnosisId,
+        };
+
+        return prisma.notification.create({
+          data: {
+            userId,
+            type: 'treatment_reminder',
+            title: isArabic ? `حان وقت علاج ${plant.name}` : `Treatment time for ${plant.name}`,
+            message: template.action[isArabic ? 'ar' : 'en'],
+            metadata: JSON.stringify(metadata),
+            diagnosisId,
+            scheduledFor: dueAt,
+          },
+        });
+      });
+
+      const followUpCheck = prisma.notification.create({
+        data: {
+          userId,
+          type: 'diagnosis_follow_up',
+          priority: 'high',
+          title: isArabic ? `كيف حال ${plant.name}؟` : `How is ${plant.name} doing?`,
+          message: isArabic
+            ? `سجّل ملاحظة لتخبرنا إن كان علاج ${problemName} قد نجح`
+            : `Log an observation to tell us if the ${problemName} treatment worked`,
+          metadata: JSON.stringify({ diagnosisId, plantId }),
+          diagnosisId,
+          scheduledFor: followUpAt,
+        },
+      });
+
+      const [updated] = await prisma.$transaction([
+        prisma.diagnosis.update({
+          where: { id: diagnosisId },
+          data: {
+            status: 'treating',
+            diagnosis: candidate.problem,
+            confidence: candidate.confidence,
+            treatment: JSON.stringify(candidate.solutions),
+            treatmentPlan: JSON.stringify(plan),
+            treatmentStartedAt: now,
+            followUp: followUpAt,
+          },
+        }),
+        this.deletePendingTreatmentNotifications(diagnosisId),
+        ...reminders,
+        followUpCheck,
+      ]);
+
+      await plantHealthService.recalculate(plantId);
+
+      logger.info(`Treatment accepted for diagnosis ${diagnosisId}: ${candidate.problem}, ${schedule.length} applications`);
+      return this.toView(updated);
+    } catch (error) {
+      logger.error('Failed to accept treatment:', error);
+      throw error;
+    }
+  }
+
+  // Close or escalate a diagnosis from the OBSERVATION care log that answers its follow-up.
+  // Care logs without follow-up metadata are ignored.
+  async recordFollowUpObservation(careLog: CareLog): Promise<DiagnosisView | null> {
+    try {
+      const observation = this.parseFollowUpObservation(careLog);
+      if (!observation) {
+        return null;
+      }
+
+      const diagnosis = await prisma.diagnosis.findFirst({
+        where: { id: observation.diagnosisId, plantId: careLog.plantId },
+      });
+
+      if (!diagnosis || diagnosis.status === 'resolved') {
+        logger.warn(`Follow-up observation ${careLog.id} ignored: diagnosis ${observation.diagnosisId} is not open`);
+        return null;
+      }
+
+      const improved = observation.outcome === 'improved';
+      const data: Prisma.DiagnosisUpdateInput = improved
+        ? { status: 'resolved', resolvedAt: careLog.performedAt }
+        : {
+          status: 'unresolved',
+          severity: this.escalateSeverity(diagnosis.severity, observation.outcome === 'worse' ? 2 : 1),
+        };
+
+      const [, , updated] = await prisma.$transaction([
+        this.deletePendingTreatmentNotifications(diagnosis.id),
+        prisma.notification.updateMany({
+          where: {
+            type: 'diagnosis_follow_up',
+            completedAt: null,
+            diagnosisId: diagnosis.id,
+          },
+          data: { completedAt: careLog.performedAt },
+        }),
+        prisma.diagnosis.update({
+          where: { id: diagnosis.id },
+          data: {
+            ...data,
+            followUp: null,
+            feedbackAt: careLog.performedAt,
+            feedbackNotes: careLog.notes,
+          },
+        }),
+      ]);
+
+      await plantHealthService.recalculate(diagnosis.plantId);
+
+      logger.info(`Follow-up recorded for diagnosis ${diagnosis.id}: ${observation.outcome}`);
+      return this.toView(updated);
+    } catch (error) {
+      logger.error('Failed to record follow-up observation:', error);
+      throw error;
+    }
+  }
+
+  // Undelivered reminders and follow-ups of the diagnosis' treatment plan
+  private deletePendingTreatmentNotifications(diagnosisId: string): Prisma.PrismaPromise<Prisma.BatchPayload> {
+    return prisma.notification.deleteMany({
+      where: {
+        type: { in: TREATMENT_NOTIFICATION_TYPES },
+        sentAt: null,
+        diagnosisId,
+      },
+    });
+  }
+
+  private parseFollowUpObservation(careLog: CareLog): FollowUpObservation | null {
+    if (careLog.type !== 'OBSERVATION' || !careLog.metadata) {
+      return null;
+    }
+
+    const result = followUpObservationSchema.safeParse(this.parseJson<unknown>(careLog.metadata, null));
+    return result.success ? result.data : null;
+  }
+
+  private escalateSeverity(severity: string | null, steps: number): Severity {
+    const current = Math.max(SEVERITY_ORDER.indexOf(severity as Severity), 0);
+    return SEVERITY_ORDER[Math.min(current + steps, SEVERITY_ORDER.length - 1)];
+  }
+
+  // Worst reported severity, or a guess from how many symptoms were reported
+  private estimateSeverity(symptoms: SymptomInput[]): Severity {
+    const reported = symptoms
+      .map(symptom => symptom.severity)
+      .filter((severity): severity is Severity => !!severity);
+
+    if (reported.length > 0) {
+      return reported.reduce((worst, severity) =>
+        SEVERITY_ORDER.indexOf(severity) > SEVERITY_ORDER.indexOf(worst) ? severity : worst
+      );
+    }
+
+    if (symptoms.length >= 4) {
+      return 'severe';
+    }
+    return symptoms.length >= 2 ? 'moderate' : 'mild';
+  }
+
+  private async assertPlantOwnership(plantId: string, userId: string): Promise<void> {
+    const plant = await prisma.plant.findFirst({
+      where: { id: plantId, userId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!plant) {
+      throw new Error('Plant not found');
+    }
+  }
+
+  private toView(diagnosis: Diagnosis): DiagnosisView {
+    return {
+      ...diagnosis,
+      symptoms: this.parseJson<SymptomInput[]>(diagnosis.symptoms, []),
+      candidates: this.parseJson<DiagnosisCandidate[]>(diagnosis.candidates, []),
+      treatment: this.parseJson<BilingualText[]>(diagnosis.treatment, []),
+      treatmentPlan: this.parseJson<TreatmentPlan | null>(diagnosis.treatmentPlan, null),
+      imageUrls: this.parseJson<string[]>(diagnosis.imageUrls, []),
+    };
+  }
+
+  private parseJson<T>(value: string | null, fallback: T): T {
+    if (!value) {
+      return fallback;
+    }
+
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+}
+
+export const diagnosisService = new DiagnosisService();
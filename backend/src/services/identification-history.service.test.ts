@@ -0,0 +1,89 @@
+// backend/src/services/identification-history.service.test.ts
+import { prismaMock, resetPrismaMock } from '../test/prisma';
+import { identificationHistoryService } from './identification-history.service';
+
+const USER_ID = '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0001';
+const IDENTIFICATION_ID = '7c3e2a10-9b8d-4f6e-a5c4-3b2a1f0e0001';
+
+const identificationRow = (plantId: string | null = null): Record<string, unknown> => ({
+  id: IDENTIFICATION_ID,
+  userId: USER_ID,
+  provider: 'keyword',
+  imageUrl: null,
+  context: null,
+  candidates: JSON.stringify([{
+    id: null,
+    scientific: 'Epipremnum aureum',
+    names: { arabic: 'بوتس', english: 'Golden Pothos' },
+    care: { water: 'Weekly', light: 'Bright indirect', environment: 'Indoor', temperature: '18-30°C', humidity: '40-60%' },
+    matchScore: 0.9,
+    matchedOn: [],
+  }]),
+  plantId,
+  adoptedAt: plantId ? new Date() : null,
+});
+
+describe('identificationHistoryService.adopt', () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    prismaMock.plant.create.mockImplementation(({ data }: { data: Record<string, unknown> }) =>
+      Promise.resolve({ ...data, createdAt: new Date(), deletedAt: null, primaryImageUrl: null })
+    );
+  });
+
+  it('creates one plant and links it in the same transaction', async () => {
+    prismaMock.identification.findFirst.mockResolvedValue(identificationRow());
+    prismaMock.identification.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await identificationHistoryService.adopt(IDENTIFICATION_ID, USER_ID, {});
+
+    expect(result.alreadyAdopted).toBe(false);
+    expect(result.plant.name).toBe('Golden Pothos');
+    expect(prismaMock.identification.updateMany).toHaveBeenCalledWith({
+      where: { id: IDENTIFICATION_ID, userId: USER_ID, plantId: null },
+      data: { plantId: result.plant.id, adoptedAt: expect.any(Date) },
+    });
+    expect(prismaMock.plant.create).toHaveBeenCalledTimes(1);
+    expect(result.identification.plantId).toBe(result.plant.id);
+  });
+
+  it('returns the first plant to a request that loses the race', async () => {
+    // Both requests read the identification before either claims it
+    prismaMock.identification.findFirst.mockResolvedValue(identificationRow());
+    prismaMock.identification.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    const first = await identificationHistoryService.adopt(IDENTIFICATION_ID, USER_ID, {});
+    prismaMock.identification.findFirstOrThrow.mockResolvedValue(identificationRow(first.plant.id));
+    prismaMock.plant.findFirst.mockResolvedValue(first.plant);
+
+    const second = await identificationHistoryService.adopt(IDENTIFICATION_ID, USER_ID, {});
+
+    expect(prismaMock.plant.create).toHaveBeenCalledTimes(1);
+    expect(second.alreadyAdopted).toBe(true);
+    expect(second.plant.id).toBe(first.plant.id);
+  });
+
+  it('returns the linked plant when the identification was adopted before', async () => {
+    const plantId = '5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001';
+    prismaMock.identification.findFirst.mockResolvedValue(identificationRow(plantId));
+    prismaMock.identification.findFirstOrThrow.mockResolvedValue(identificationRow(plantId));
+    prismaMock.plant.findFirst.mockResolvedValue({ id: plantId, userId: USER_ID, primaryImageUrl: null });
+
+    const result = await identificationHistoryService.adopt(IDENTIFICATION_ID, USER_ID, {});
+
+    expect(result).toEqual(expect.objectContaining({ alreadyAdopted: true }));
+    expect(result.plant.id).toBe(plantId);
+    expect(prismaMock.plant.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses once the linked plant has been deleted', async () => {
+    const plantId = '5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001';
+    prismaMock.identification.findFirst.mockResolvedValue(identificationRow(plantId));
+    prismaMock.identification.findFirstOrThrow.mockResolvedValue(identificationRow(plantId));
+
+    await expect(identificationHistoryService.adopt(IDENTIFICATION_ID, USER_ID, {}))
+      .rejects.toThrow('Identification already adopted');
+  });
+});
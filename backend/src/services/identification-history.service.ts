@@ -0,0 +1,460 @@
+// backend/src/services/identification-history.service.ts
+import crypto from 'crypto';
+import { Identification, Plant, Prisma, PrismaClient } from '@prisma/client';
+import { IdentificationProviderName } from '../providers/identification';
+import { PlantCandidate, PlantIdentificationResult, ResolvedContext, identificationService } from './identification.service';
+import { CreatePlantDto, plantService } from './plant.service';
+import { SpeciesCare, SpeciesRequirements, speciesService } from './species.service';
+import { uploadService } from './upload.service';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export interface SaveIdentificationInput {
+  description?: string;
+  image?: Buffer;
+  result: PlantIdentificationResult;
+}
+
+export interface AdoptIdentificationOptions {
+  scientificName?: string; // One of the result's candidates; defaults to the best match
+  name?: string; // Defaults to the species name in the user's language
+  location?: string;
+  acquisitionDate?: string;
+}
+
+export interface IdentificationFeedbackData {
+  verdict: 'correct' | 'wrong';
+  actual?: string; // Species key or name of what the plant really was
+}
+
+export interface IdentificationView extends Omit<Identification, 'context' | 'candidates'> {
+  context: ResolvedContext | null;
+  candidates: PlantCandidate[];
+}
+
+export interface SpeciesAccuracy {
+  speciesKey: string;
+  names: { arabic: string; english: string } | null; // Null when the species is no longer in the catalogue
+  identifications: number;
+  feedback: number;
+  correct: number;
+  wrong: number;
+  accuracy: number | null; // correct / feedback, null without feedback
+  missed: number; // Wrong identifications of other species that were really this one
+  confusedWith: Array<{ speciesKey: string | null; name: string; count: number }>; // What it really was, most common first
+}
+
+export interface AccuracyReport {
+  since: Date | null;
+  totals: {
+    identifications: number;
+    feedback: number;
+    correct: number;
+    wrong: number;
+  };
+  species: SpeciesAccuracy[]; // Least accurate first
+}
+
+const MAX_CONFUSIONS = 3;
+
+// Lowest match score for a "wrong, it was X" answer to count as catalogue species X
+const FEEDBACK_MATCH_THRESHOLD = 0.8;
+
+type PlantCareSettings = Pick<
+  CreatePlantDto,
+  'wateringFrequency' | 'sunlightRequirement' | 'temperatureMin' | 'temperatureMax' | 'humidityRequirement'
+>;
+
+// "18-30°C" -> { min: 18, max: 30 }
+const parseRange = (text: string): { min: number; max: number } | null => {
+  const match = /(-?\d+(?:\.\d+)?)\s*-\s*(-?\d+(?:\.\d+)?)/.exec(text);
+  return match ? { min: Number(match[1]), max: Number(match[2]) } : null;
+};
+
+// "Every 5-7 days" -> 6, "Every 2 weeks" -> 14
+const parseWateringFrequency = (text: string): number | undefined => {
+  const match = /(\d+)(?:\s*-\s*(\d+))?\s*(day|week)/i.exec(text);
+  if (!match) {
+    return undefined;
+  }
+
+  const min = Number(match[1]);
+  const max = match[2] ? Number(match[2]) : min;
+  const unitDays = match[3].toLowerCase() === 'week' ? 7 : 1;
+  return Math.max(1, Math.round(((min + max) / 2) * unitDays));
+};
+
+const toSunlightRequirement = (light: SpeciesRequirements['light']): CreatePlantDto['sunlightRequirement'] => {
+  if (light.directSun) {
+    return light.min === 'bright' ? 'full' : 'partial';
+  }
+  return light.min === 'low' ? 'shade' : 'partial';
+};
+
+// Light text of species outside the catalogue, e.g. "Full sun to partial shade"
+const parseSunlightRequirement = (text: string): CreatePlantDto['sunlightRequirement'] => {
+  if (/full sun/i.test(text)) {
+    return /shade/i.test(text) ? 'partial' : 'full';
+  }
+  return /^low/i.test(text) ? 'shade' : 'partial';
+};
+
+const toHumidityRequirement = (range: { min: number; max: number }): CreatePlantDto['humidityRequirement'] => {
+  const middle = (range.min + range.max) / 2;
+  if (middle < 40) {
+    return 'low';
+  }
+  return middle <= 60 ? 'moderate' : 'high';
+};
+
+export class IdentificationHistoryService {
+  // Keep an identification result so it can be adopted later; failures only cost the history entry
+  async saveResult(userId: string, input: SaveIdentificationInput): Promise<IdentificationView | null> {
+    const id = crypto.randomUUID();
+    let imageUrl: string | null = null;
+
+    try {
+      if (input.image) {
+        // Without the photo the result can still be adopted, just without a picture
+        imageUrl = await uploadService.saveImage(`identifications/${userId}`, input.image, { id, userId })
+          .then(image => image.url, () => null);
+      }
+
+      const { data, candidates = [], context } = input.result;
+      const identification = await prisma.identification.create({
+        data: {
+          id,
+          userId,
+          description: input.description,
+          imageUrl,
+          context: context ? JSON.stringify(context) : null,
+          provider: data?.source || null,
+          speciesKey: data?.plantKey || null,
+          scientificName: data?.scientific || 'Unknown species',
+          confidence: data?.confidence || 0,
+          candidates: JSON.stringify(candidates),
+        },
+      });
+
+      return this.toView(identification);
+    } catch (error) {
+      logger.error('Failed to save identification:', error);
+      if (imageUrl) {
+        await uploadService.deleteByUrl(imageUrl).catch(() => undefined);
+      }
+      return null;
+    }
+  }
+
+  // "Add to Garden": create a plant from one of the result's candidates. The identification is
+  // claimed in the same transaction that creates the plant, so a double tap or a retried request
+  // gets the plant that was already created instead of a second one
+  async adopt(
+    identificationId: string,
+    userId: string,
+    options: AdoptIdentificationOptions
+  ): Promise<{ plant: Plant; identification: IdentificationView; alreadyAdopted: boolean }> {
+    try {
+      const identification = await prisma.identification.findFirst({
+        where: { id: identificationId, userId },
+      });
+      if (!identification) {
+        throw new Error('Identification not found');
+      }
+      if (identification.plantId) {
+        return await this.getAdopted(identification.id, userId);
+      }
+
+      const { candidates } = this.toView(identification);
+      const candidate = options.scientificName
+        ? candidates.find(entry => entry.scientific.toLowerCase() === options.scientificName!.toLowerCase())
+        : candidates[0];
+      if (!candidate) {
+        throw new Error(options.scientificName ? 'Candidate not found' : 'Nothing to adopt');
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { language: true },
+      });
+      const species = candidate.id ? await speciesService.getSpecies(candidate.id) : null;
+
+      const plantData: CreatePlantDto = {
+        name: options.name || (user?.language === 'ar' ? candidate.names.arabic : candidate.names.english),
+        scientificName: candidate.scientific,
+        acquisitionDate: options.acquisitionDate,
+        location: options.location,
+        ...(species ? this.fromRequirements(species.requirements) : this.fromCareText(candidate.care)),
+        identificationSource: (identification.provider || 'manual') as IdentificationProviderName | 'manual',
+        identificationConfidence: candidate.matchScore,
+        primaryImageUrl: identification.imageUrl || undefined,
+      };
+
+      const adoptedAt = new Date();
+      const plant = await plantService.createIfClaimed(userId, plantData, async (tx, plantId) => {
+        const claimed = await tx.identification.updateMany({
+          where: { id: identification.id, userId, plantId: null },
+          data: { plantId, adoptedAt },
+        });
+        return claimed.count > 0;
+      });
+      if (!plant) {
+        return await this.getAdopted(identification.id, userId);
+      }
+
+      logger.info(`Identification ${identification.id} adopted as plant ${plant.id}`);
+      return {
+        plant,
+        identification: this.toView({ ...identification, plantId: plant.id, adoptedAt }),
+        alreadyAdopted: false,
+      };
+    } catch (error) {
+      logger.error('Failed to adopt identification:', error);
+      throw error;
+    }
+  }
+
+  // A user's identifications, newest first
+  async getUserHistory(userId: string, query: { limit?: number; offset?: number } = {}): Promise<{
+    identifications: IdentificationView[];
+    total: number;
+  }> {
+    try {
+      const [identifications, total] = await Promise.all([
+        prisma.identification.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'desc' },
+          take: query.limit || 20,
+          skip: query.offset || 0,
+        }),
+        prisma.identification.count({ where: { userId } }),
+      ]);
+
+      return { identifications: identifications.map(identification => this.toView(identification)), total };
+    } catch (error) {
+      logger.error('Failed to fetch identification history:', error);
+      throw new Error('Failed to fetch identification history');
+    }
+  }
+
+  // Record whether the identification was right; sending feedback again replaces it
+  async recordFeedback(identificationId: string, userId: string, data: IdentificationFeedbackData): Promise<IdentificationView> {
+    try {
+      const identification = await prisma.identification.findFirst({
+        where: { id: identificationId, userId },
+      });
+      if (!identification) {
+        throw new Error('Identification not found');
+      }
+
+      const wrong = data.verdict === 'wrong';
+      const actualSpeciesKey = wrong && data.actual ? await this.resolveSpeciesKey(data.actual) : null;
+
+      const updated = await prisma.identification.update({
+        where: { id: identification.id },
+        data: {
+          feedback: data.verdict,
+          actualSpeciesKey: wrong ? actualSpeciesKey : identification.speciesKey,
+          actualName: wrong ? data.actual || null : null,
+          feedbackAt: new Date(),
+        },
+      });
+
+      logger.info(`Identification ${identification.id} marked ${data.verdict}${actualSpeciesKey ? ` (was ${actualSpeciesKey})` : ''}`);
+      return this.toView(updated);
+    } catch (error) {
+      logger.error('Failed to record identification feedback:', error);
+      throw error;
+    }
+  }
+
+  // Per-species accuracy from user feedback, to find catalogue entries that get confused
+  async getAccuracyReport(since?: Date): Promise<AccuracyReport> {
+    try {
+      const period: Prisma.IdentificationWhereInput = since ? { createdAt: { gte: since } } : {};
+
+      const [byVerdict, confusions, catalogue] = await Promise.all([
+        prisma.identification.groupBy({
+          by: ['speciesKey', 'feedback'],
+          where: { ...period, speciesKey: { not: null } },
+          _count: { _all: true },
+        }),
+        prisma.identification.groupBy({
+          by: ['speciesKey', 'actualSpeciesKey', 'actualName'],
+          where: { ...period, feedback: 'wrong' },
+          _count: { _all: true },
+        }),
+        prisma.species.findMany({ select: { key: true, nameArabic: true, nameEnglish: true } }),
+      ]);
+
+      const names = new Map(catalogue.map(species => [species.key, { arabic: species.nameArabic, english: species.nameEnglish }]));
+      const rows = new Map<string, SpeciesAccuracy>();
+      const rowFor = (speciesKey: string): SpeciesAccuracy => {
+        let row = rows.get(speciesKey);
+        if (!row) {
+          row = {
+            speciesKey,
+            names: names.get(speciesKey) || null,
+            identifications: 0,
+            feedback: 0,
+            correct: 0,
+            wrong: 0,
+            accuracy: null,
+            missed: 0,
+            confusedWith: [],
+          };
+          rows.set(speciesKey, row);
+        }
+        return row;
+      };
+
+      for (const group of byVerdict) {
+        const row = rowFor(group.speciesKey!);
+        row.identifications += group._count._all;
+        if (group.feedback === 'correct') {
+          row.correct += group._count._all;
+        } else if (group.feedback === 'wrong') {
+          row.wrong += group._count._all;
+        }
+      }
+
+      for (const group of confusions) {
+        if (group.speciesKey) {
+          rowFor(group.speciesKey).confusedWith.push({
+            speciesKey: group.actualSpeciesKey,
+            name: group.actualSpeciesKey ? names.get(group.actualSpeciesKey)?.english || group.actualSpeciesKey : group.actualName || 'Unknown',
+            count: group._count._all,
+          });
+        }
+        if (group.actualSpeciesKey) {
+          rowFor(group.actualSpeciesKey).missed += group._count._all;
+        }
+      }
+
+      const species = Array.from(rows.values()).map(row => {
+        const feedback = row.correct + row.wrong;
+        return {
+          ...row,
+          feedback,
+          accuracy: feedback > 0 ? Math.round((row.correct / feedback) * 1000) / 1000 : null,
+          confusedWith: this.mergeConfusions(row.confusedWith),
+        };
+      });
+
+      // Least accurate first; species without feedback last
+      species.sort((a, b) => (a.accuracy ?? 2) - (b.accuracy ?? 2) || b.identifications - a.identifications);
+
+      return {
+        since: since || null,
+        totals: {
+          identifications: species.reduce((sum, row) => sum + row.identifications, 0),
+          feedback: species.reduce((sum, row) => sum + row.feedback, 0),
+          correct: species.reduce((sum, row) => sum + row.correct, 0),
+          wrong: species.reduce((sum, row) => sum + row.wrong, 0),
+        },
+        species,
+      };
+    } catch (error) {
+      logger.error('Failed to build identification accuracy report:', error);
+      throw new Error('Failed to build identification accuracy report');
+    }
+  }
+
+  // Catalogue key for a species key or name; close spellings count, vague descriptions do not
+  private async resolveSpeciesKey(actual: string): Promise<string | null> {
+    const species = await speciesService.getSpecies(actual.trim().toLowerCase());
+    if (species) {
+      return species.id;
+    }
+
+    const exact = await identificationService.findPlantKey({ name: actual, scientificName: actual });
+    if (exact) {
+      return exact;
+    }
+
+    const [best] = await identificationService.rankPlants(actual, 1);
+    return best && best.matchScore >= FEEDBACK_MATCH_THRESHOLD ? best.id : null;
+  }
+
+  // The same free-text answer can be grouped under several spellings; keep the most common answers
+  private mergeConfusions(confusions: SpeciesAccuracy['confusedWith']): SpeciesAccuracy['confusedWith'] {
+    const merged = new Map<string, SpeciesAccuracy['confusedWith'][number]>();
+    for (const confusion of confusions) {
+      const id = confusion.speciesKey || confusion.name.toLowerCase();
+      const existing = merged.get(id);
+      if (existing) {
+        existing.count += confusion.count;
+      } else {
+        merged.set(id, { ...confusion });
+      }
+    }
+
+    return Array.from(merged.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_CONFUSIONS);
+  }
+
+  private fromRequirements(requirements: SpeciesRequirements): PlantCareSettings {
+    const { wateringIntervalDays, light, temperatureC, humidityPercent } = requirements;
+    return {
+      wateringFrequency: Math.round((wateringIntervalDays.min + wateringIntervalDays.max) / 2),
+      sunlightRequirement: toSunlightRequirement(light),
+      temperatureMin: temperatureC.min,
+      temperatureMax: temperatureC.max,
+      humidityRequirement: toHumidityRequirement(humidityPercent),
+    };
+  }
+
+  // Species outside the catalogue only come with display text
+  private fromCareText(care: SpeciesCare): PlantCareSettings {
+    const temperature = parseRange(care.temperature);
+    const humidity = parseRange(care.humidity);
+    return {
+      wateringFrequency: parseWateringFrequency(care.water),
+      sunlightRequirement: parseSunlightRequirement(care.light),
+      ...(temperature && { temperatureMin: temperature.min, temperatureMax: temperature.max }),
+      ...(humidity && { humidityRequirement: toHumidityRequirement(humidity) }),
+    };
+  }
+
+  // The plant an earlier adoption created; once it has been deleted the identification cannot be adopted again
+  private async getAdopted(
+    identificationId: string,
+    userId: string
+  ): Promise<{ plant: Plant; identification: IdentificationView; alreadyAdopted: true }> {
+    const identification = await prisma.identification.findFirstOrThrow({
+      where: { id: identificationId, userId },
+    });
+    const plant = identification.plantId
+      ? await plantService.getPlantById(identification.plantId, userId)
+      : null;
+    if (!plant) {
+      throw new Error('Identification already adopted');
+    }
+
+    return { plant, identification: this.toView(identification), alreadyAdopted: true };
+  }
+
+  private toView(identification: Identification): IdentificationView {
+    return {
+      ...identification,
+      context: this.parseJson<ResolvedContext | null>(identification.context, null),
+      candidates: this.parseJson<PlantCandidate[]>(identification.candidates, []),
+    };
+  }
+
+  private parseJson<T>(value: string | null, fallback: T): T {
+    if (!value) {
+      return fallback;
+    }
+
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+}
+
+export const identificationHistoryService = new IdentificationHistoryService();
@@ -1,260 +1,56 @@
 // backend/src/services/identification.service.ts
+import {
+  IdentificationContext,
+  IdentificationInput,
+  IdentificationProvider,
+  IdentificationProviderName,
+  LightCondition,
+  ProviderSuggestion,
+  createIdentificationProviders,
+} from '../providers/identification';
+import { MatchSignal, PlantSearchIndex } from './plant-search-index';
+import { CatalogueSpecies, SpeciesCare, SpeciesRequirements, speciesService } from './species.service';
+import { LIGHT_LEVELS, SpeciesEnvironment } from '../data/egyptian-plants';
+import { containsArabic } from '../utils/arabic';
+import { Governorate, findGovernorate } from '../utils/egypt-geo';
 import { logger } from '../utils/logger';
 
-// Free Egyptian plant database (25+ plants from PRD)
-const EGYPTIAN_PLANTS = {
-  'pothos': {
-    scientific: 'Epipremnum aureum',
-    arabic: 'البوتس',
-    english: 'Pothos',
-    care: {
-      water: 'Every 5-7 days',
-      light: 'Indirect sunlight',
-      environment: 'indoor'
-    }
-  },
-  'snake-plant': {
-    scientific: 'Sansevieria trifasciata',
-    arabic: 'نبات الثعبان',
-    english: 'Snake Plant',
-    care: {
-      water: 'Every 2-3 weeks',
-      light: 'Low to bright indirect light',
-      environment: 'indoor'
-    }
-  },
-  'zz-plant': {
-    scientific: 'Zamioculcas zamiifolia',
-    arabic: 'نبات زي زي',
-    english: 'ZZ Plant',
-    care: {
-      water: 'Every 2-3 weeks',
-      light: 'Low to bright indirect light',
-      environment: 'indoor'
-    }
-  },
-  'aloe-vera': {
-    scientific: 'Aloe vera',
-    arabic: 'الصبار',
-    english: 'Aloe Vera',
-    care: {
-      water: 'Every 2-3 weeks',
-      light: 'Bright, indirect light',
-      environment: 'both'
-    }
-  },
-  'jasmine': {
-    scientific: 'Jasminum officinale',
-    arabic: 'الياسمين',
-    english: 'Jasmine',
-    care: {
-      water: 'Every 2-3 days',
-      light: 'Full sun to partial shade',
-      environment: 'outdoor'
-    }
-  },
-  'mint': {
-    scientific: 'Mentha',
-    arabic: 'النعناع',
-    english: 'Mint',
-    care: {
-      water: 'Keep soil moist',
-      light: 'Partial shade',
-      environment: 'both'
-    }
-  },
-  'basil': {
-    scientific: 'Ocimum basilicum',
-    arabic: 'الريحان',
-    english: 'Basil',
-    care: {
-      water: 'Keep soil moist',
-      light: 'Full sun',
-      environment: 'both'
-    }
-  },
-  'rose': {
-    scientific: 'Rosa',
-    arabic: 'الورد',
-    english: 'Rose',
-    care: {
-      water: 'Every 2-3 days',
-      light: 'Full sun',
-      environment: 'outdoor'
-    }
-  },
-  'cactus': {
-    scientific: 'Cactaceae',
-    arabic: 'الصبار الشوكي',
-    english: 'Cactus',
-    care: {
-      water: 'Every 2-4 weeks',
-      light: 'Full sun',
-      environment: 'both'
-    }
-  },
-  'ficus': {
-    scientific: 'Ficus benjamina',
-    arabic: 'فيكس',
-    english: 'Ficus',
-    care: {
-      water: 'Every 5-7 days',
-      light: 'Bright, indirect light',
-      environment: 'indoor'
-    }
-  },
-  'rubber-plant': {
-    scientific: 'Ficus elastica',
-    arabic: 'نبات المطاط',
-    english: 'Rubber Plant',
-    care: {
-      water: 'Every 5-7 days',
-      light: 'Bright, indirect light',
-      environment: 'indoor'
-    }
-  },
-  'spider-plant': {
-    scientific: 'Chlorophytum comosum',
-    arabic: 'نبات العنكبوت',
-    english: 'Spider Plant',
-    care: {
-      water: 'Every 5-7 days',
-      light: 'Bright, indirect light',
-      environment: 'indoor'
-    }
-  },
-  'peace-lily': {
-    scientific: 'Spathiphyllum',
-    arabic: 'زنبقة السلام',
-    english: 'Peace Lily',
-    care: {
-      water: 'Every 5-7 days',
-      light: 'Low to medium light',
-      environment: 'indoor'
-    }
-  },
-  'monstera': {
-    scientific: 'Monstera deliciosa',
-    arabic: 'مونستيرا',
-    english: 'Monstera',
-    care: {
-      water: 'Every 7-10 days',
-      light: 'Bright, indirect light',
-      environment: 'indoor'
-    }
-  },
-  'fiddle-leaf-fig': {
-    scientific: 'Ficus lyrata',
-    arabic: 'تين الكمان',
-    english: 'Fiddle Leaf Fig',
-    care: {
-      water: 'Every 7-10 days',
-      light: 'Bright, indirect light',
-      environment: 'indoor'
-    }
-  },
-  'bougainvillea': {
-    scientific: 'Bougainvillea',
-    arabic: 'الجهنمية',
-    english: 'Bougainvillea',
-    care: {
-      water: 'Every 3-4 days',
-      light: 'Full sun',
-      environment: 'outdoor'
-    }
-  },
-  'hibiscus': {
-    scientific: 'Hibiscus rosa-sinensis',
-    arabic: 'الخطمي',
-    english: 'Hibiscus',
-    care: {
-      water: 'Every 2-3 days',
-      light: 'Full sun',
-      environment: 'outdoor'
-    }
-  },
-  'oleander': {
-    scientific: 'Nerium oleander',
-    arabic: 'الدفلة',
-    english: 'Oleander',
-    care: {
-      water: 'Every 3-4 days',
-      light: 'Full sun',
-      environment: 'outdoor'
-    }
-  },
-  'palm-tree': {
-    scientific: 'Arecaceae',
-    arabic: 'النخيل',
-    english: 'Palm Tree',
-    care: {
-      water: 'Every 5-7 days',
-      light: 'Bright light',
-      environment: 'both'
-    }
-  },
-  'lavender': {
-    scientific: 'Lavandula',
-    arabic: 'الخزامى',
-    english: 'Lavender',
-    care: {
-      water: 'Every 7-10 days',
-      light: 'Full sun',
-      environment: 'outdoor'
-    }
-  },
-  'geranium': {
-    scientific: 'Pelargonium',
-    arabic: 'الغرنوق',
-    english: 'Geranium',
-    care: {
-      water: 'Every 3-4 days',
-      light: 'Full sun to partial shade',
-      environment: 'both'
-    }
-  },
-  'marigold': {
-    scientific: 'Tagetes',
-    arabic: 'القطيفة',
-    english: 'Marigold',
-    care: {
-      water: 'Every 2-3 days',
-      light: 'Full sun',
-      environment: 'outdoor'
-    }
-  },
-  'petunias': {
-    scientific: 'Petunia',
-    arabic: 'البتونيا',
-    english: 'Petunias',
-    care: {
-      water: 'Every 2-3 days',
-      light: 'Full sun',
-      environment: 'outdoor'
-    }
-  },
-  'rosemary': {
-    scientific: 'Rosmarinus officinalis',
-    arabic: 'إكليل الجبل',
-    english: 'Rosemary',
-    care: {
-      water: 'Every 7-10 days',
-      light: 'Full sun',
-      environment: 'both'
-    }
-  },
-  'thyme': {
-    scientific: 'Thymus vulgaris',
-    arabic: 'الزعتر',
-    english: 'Thyme',
-    care: {
-      water: 'Every 5-7 days',
-      light: 'Full sun',
-      environment: 'both'
-    }
-  }
+const MAX_CANDIDATES = 5;
+
+// Score multipliers applied from the user's identification context
+const CONTEXT_WEIGHTS = {
+  indoorOnly: 0.6, // Indoor-only species reported growing outdoors
+  outdoorOnly: 0.75, // Outdoor-only species reported growing indoors
+  lightStep: 0.75, // Per light level below what the species needs
+  commonInRegion: 1.15,
 };
 
+export type ContextAdjustment = 'indoor_only' | 'outdoor_only' | 'needs_more_light' | 'common_in_region';
+
+export interface PlantCandidate {
+  id: string | null; // Catalogue key, null when the plant is outside our catalogue
+  scientific: string;
+  names: {
+    arabic: string;
+    english: string;
+  };
+  care: SpeciesCare;
+  matchScore: number; // 0-1
+  matchedOn: MatchSignal[];
+  adjustments?: ContextAdjustment[]; // Set when the identification context changed the score
+}
+
+export interface ResolvedContext {
+  environment: IdentificationContext['environment'] | null;
+  lightCondition: LightCondition | null;
+  governorate: Pick<Governorate, 'name' | 'nameAr' | 'region'> | null;
+}
+
+export interface ProviderAttempt {
+  provider: IdentificationProviderName;
+  status: 'matched' | 'no_match' | 'failed';
+}
+
 export interface PlantIdentificationResult {
   success: boolean;
   data?: {
@@ -264,97 +60,123 @@ export interface PlantIdentificationResult {
       english: string;
     };
     confidence: number;
-    care: {
-      water: string;
-      light: string;
-      environment: string;
-    };
+    care: SpeciesCare;
     plantKey?: string;
+    source?: IdentificationProviderName; // Provider that answered
   };
+  candidates?: PlantCandidate[]; // Best first, up to 5
+  attempts?: ProviderAttempt[];
+  context?: ResolvedContext;
   error?: string;
 }
 
+export interface PlantCareInfo {
+  scientific: string;
+  names: {
+    arabic: string;
+    english: string;
+  };
+  care: SpeciesCare;
+  requirements: SpeciesRequirements;
+}
+
+// Species catalogue with its search index, rebuilt whenever the catalogue is reloaded
+interface IndexedCatalogue {
+  species: CatalogueSpecies[];
+  byKey: Map<string, CatalogueSpecies>;
+  searchIndex: PlantSearchIndex;
+}
+
+const UNKNOWN_PLANT: NonNullable<PlantIdentificationResult['data']> = {
+  scientific: 'Unknown species',
+  names: {
+    arabic: 'نبات غير محدد',
+    english: 'Unknown Plant',
+  },
+  confidence: 0,
+  care: {
+    water: 'Every 5-7 days',
+    light: 'Medium to bright indirect light',
+    environment: 'indoor',
+    temperature: '18-30°C',
+    humidity: '40-60%',
+  },
+};
+
 export class IdentificationService {
-  // Simple plant identification based on keywords
-  // In Phase 2, we'll replace this with AI
-  identifyPlant(description: string): PlantIdentificationResult {
-    try {
-      const searchTerm = description.toLowerCase().trim();
-      
-      logger.info(`Attempting to identify plant with description: "${description}"`);
-      
-      // Search through our plant database
-      for (const [key, plant] of Object.entries(EGYPTIAN_PLANTS)) {
-        const keyWords = key.replace('-', ' ');
-        const englishName = plant.english.toLowerCase();
-        const scientificName = plant.scientific.toLowerCase();
-        
-        if (
-          searchTerm.includes(keyWords) ||
-          searchTerm.includes(englishName) ||
-          searchTerm.includes(plant.arabic) ||
-          searchTerm.includes(scientificName) ||
-          englishName.includes(searchTerm) ||
-          scientificName.includes(searchTerm)
-        ) {
-          logger.info(`Plant identified: ${plant.english} (${plant.scientific})`);
+  private readonly providers: IdentificationProvider[];
+  private catalogue: IndexedCatalogue | null = null;
+
+  constructor(providers?: IdentificationProvider[]) {
+    this.providers = providers || createIdentificationProviders({
+      rankDescription: async description => (await this.rankPlants(description)).map(candidate => ({
+        plantKey: candidate.id!,
+        scientificName: candidate.scientific,
+        commonName: candidate.names.english,
+        matchScore: candidate.matchScore,
+      })),
+      loadCatalogue: async () => (await speciesService.listSpecies()).map(species => ({
+        plantKey: species.id,
+        scientificName: species.scientific,
+        commonName: species.names.english,
+      })),
+    });
+  }
+
+  // Identify a plant from a photo and/or description, falling back through the providers
+  async identify(input: IdentificationInput): Promise<PlantIdentificationResult> {
+    const attempts: ProviderAttempt[] = [];
+    const context = this.resolveContext(input.context);
+    const catalogue = await this.getCatalogue();
+
+    for (const provider of this.providers) {
+      if (!provider.canHandle(input)) {
+        continue;
+      }
+
+      try {
+        const suggestions = await provider.identify(input);
+
+        if (suggestions.length > 0) {
+          const candidates = this.applyContext(
+            suggestions.map(suggestion => this.toCandidate(suggestion, catalogue)),
+            context,
+            catalogue
+          );
+          const [best] = candidates;
+          attempts.push({ provider: provider.name, status: 'matched' });
+          logger.info(`Plant identified by ${provider.name}: ${best.scientific} (${best.matchScore})`);
+
           return {
             success: true,
-            data: {
-              scientific: plant.scientific,
-              names: {
-                arabic: plant.arabic,
-                english: plant.english,
-              },
-              confidence: 0.85, // Mock confidence for phase 1
-              care: plant.care,
-              plantKey: key,
-            },
+            data: { ...this.fromCandidate(best), source: provider.name },
+            candidates: candidates.slice(0, MAX_CANDIDATES),
+            attempts,
+            context,
           };
         }
+
+        attempts.push({ provider: provider.name, status: 'no_match' });
+      } catch (error) {
+        // A failing provider (timeout, bad response) must not fail the request
+        logger.warn(`Identification provider ${provider.name} failed:`, error);
+        attempts.push({ provider: provider.name, status: 'failed' });
       }
+    }
 
-      logger.info('No exact match found, returning unknown plant');
-      
-      // Default response if no match found
-      return {
-        success: true,
-        data: {
-          scientific: 'Unknown species',
-          names: {
-            arabic: 'نبات غير محدد',
-            english: 'Unknown Plant',
-          },
-          confidence: 0.3,
-          care: {
-            water: 'Every 5-7 days',
-            light: 'Bright, indirect light',
-            environment: 'indoor',
-          },
-        },
-      };
+    logger.info('No identification provider matched, returning unknown plant');
+    return { success: true, data: UNKNOWN_PLANT, candidates: [], attempts, context };
+  }
 
-    } catch (error) {
-      logger.error('Failed to identify plant:', error);
-      return {
-        success: false,
-        error: 'Failed to identify plant',
-      };
-    }
+  // Score every catalogue plant against a name or description, best first
+  async rankPlants(query: string, limit: number = MAX_CANDIDATES): Promise<PlantCandidate[]> {
+    return this.rankCatalogue(await this.getCatalogue(), query, limit);
   }
 
   // Get all available plants in database
-  getAvailablePlants() {
+  async getAvailablePlants(): Promise<CatalogueSpecies[]> {
     try {
-      const plants = Object.entries(EGYPTIAN_PLANTS).map(([key, plant]) => ({
-        id: key,
-        scientific: plant.scientific,
-        names: {
-          arabic: plant.arabic,
-          english: plant.english,
-        },
-        care: plant.care,
-      }));
+      const plants = await speciesService.listSpecies();
 
       logger.info(`Retrieved ${plants.length} plants from database`);
       return plants;
@@ -365,21 +187,19 @@ export class IdentificationService {
   }
 
   // Get plant care tips by key
-  getPlantCare(plantKey: string) {
+  async getPlantCare(plantKey: string): Promise<PlantCareInfo> {
     try {
-      const plant = EGYPTIAN_PLANTS[plantKey as keyof typeof EGYPTIAN_PLANTS];
+      const plant = await speciesService.getSpecies(plantKey);
       if (!plant) {
         throw new Error('Plant not found in database');
       }
 
-      logger.info(`Retrieved care tips for plant: ${plant.english}`);
+      logger.info(`Retrieved care tips for plant: ${plant.names.english}`);
       return {
         scientific: plant.scientific,
-        names: {
-          arabic: plant.arabic,
-          english: plant.english,
-        },
+        names: plant.names,
         care: plant.care,
+        requirements: plant.requirements,
       };
     } catch (error) {
       logger.error(`Failed to get care tips for plant key: ${plantKey}`, error);
@@ -387,36 +207,10 @@ export class IdentificationService {
     }
   }
 
-  // Search plants by partial name match
-  searchPlants(query: string, limit: number = 10) {
+  // Search plants by name, best matches first
+  async searchPlants(query: string, limit: number = 10): Promise<PlantCandidate[]> {
     try {
-      const searchTerm = query.toLowerCase().trim();
-      const results = [];
-
-      for (const [key, plant] of Object.entries(EGYPTIAN_PLANTS)) {
-        const keyWords = key.replace('-', ' ');
-        const englishName = plant.english.toLowerCase();
-        const scientificName = plant.scientific.toLowerCase();
-
-        if (
-          keyWords.includes(searchTerm) ||
-          englishName.includes(searchTerm) ||
-          plant.arabic.includes(searchTerm) ||
-          scientificName.includes(searchTerm)
-        ) {
-          results.push({
-            id: key,
-            scientific: plant.scientific,
-            names: {
-              arabic: plant.arabic,
-              english: plant.english,
-            },
-            care: plant.care,
-          });
-        }
-
-        if (results.length >= limit) break;
-      }
+      const results = await this.rankPlants(query, limit);
 
       logger.info(`Search for "${query}" returned ${results.length} results`);
       return results;
@@ -426,33 +220,187 @@ export class IdentificationService {
     }
   }
 
+  // Find the catalogue key of a user's plant by scientific, English or Arabic name
+  async findPlantKey(plant: { name: string; scientificName: string | null }): Promise<string | null> {
+    const scientificName = plant.scientificName?.toLowerCase().trim();
+    const name = plant.name.toLowerCase().trim();
+    const { species } = await this.getCatalogue();
+
+    const match = species.find(entry =>
+      (scientificName && entry.scientific.toLowerCase() === scientificName) ||
+      entry.names.english.toLowerCase() === name ||
+      entry.names.arabic === plant.name.trim()
+    );
+
+    return match?.id || null;
+  }
+
   // Get plant database statistics
-  getDatabaseStats() {
+  async getDatabaseStats(): Promise<{ total: number; byEnvironment: Record<SpeciesEnvironment, number> }> {
     try {
-      const totalPlants = Object.keys(EGYPTIAN_PLANTS).length;
-      const indoorPlants = Object.values(EGYPTIAN_PLANTS).filter(
-        plant => plant.care.environment === 'indoor'
-      ).length;
-      const outdoorPlants = Object.values(EGYPTIAN_PLANTS).filter(
-        plant => plant.care.environment === 'outdoor'
-      ).length;
-      const bothEnvironments = Object.values(EGYPTIAN_PLANTS).filter(
-        plant => plant.care.environment === 'both'
-      ).length;
+      const byEnvironment = await speciesService.countByEnvironment();
 
       return {
-        total: totalPlants,
-        byEnvironment: {
-          indoor: indoorPlants,
-          outdoor: outdoorPlants,
-          both: bothEnvironments,
-        },
+        total: Object.values(byEnvironment).reduce((sum, count) => sum + count, 0),
+        byEnvironment,
       };
     } catch (error) {
       logger.error('Failed to get database stats:', error);
       throw new Error('Failed to get database statistics');
     }
   }
+
+  private async getCatalogue(): Promise<IndexedCatalogue> {
+    const species = await speciesService.listSpecies();
+
+    // The species service hands out the same array until it reloads the catalogue
+    if (this.catalogue?.species !== species) {
+      this.catalogue = {
+        species,
+        byKey: new Map(species.map(entry => [entry.id, entry])),
+        searchIndex: new PlantSearchIndex(species.map(entry => ({
+          id: entry.id,
+          names: [entry.id.replace(/-/g, ' '), entry.names.english, ...entry.aliases.filter(alias => !containsArabic(alias))],
+          arabicNames: [entry.names.arabic, ...entry.aliases.filter(containsArabic)],
+          scientificName: entry.scientific,
+        }))),
+      };
+    }
+
+    return this.catalogue;
+  }
+
+  private rankCatalogue(catalogue: IndexedCatalogue, query: string, limit: number): PlantCandidate[] {
+    return catalogue.searchIndex.search(query, limit).map(hit => {
+      const plant = catalogue.byKey.get(hit.id)!;
+      return {
+        id: hit.id,
+        scientific: plant.scientific,
+        names: plant.names,
+        care: plant.care,
+        matchScore: hit.score,
+        matchedOn: hit.matchedOn,
+      };
+    });
+  }
+
+  // Attach catalogue names and care to a provider suggestion
+  private toIdentification(
+    suggestion: ProviderSuggestion,
+    catalogue: IndexedCatalogue
+  ): NonNullable<PlantIdentificationResult['data']> {
+    const scientificName = suggestion.scientificName.toLowerCase();
+    const plant = (suggestion.plantKey && catalogue.byKey.get(suggestion.plantKey)) ||
+      catalogue.species.find(entry => entry.scientific.toLowerCase() === scientificName);
+
+    if (!plant) {
+      // Outside our catalogue: keep the provider's names with generic care tips
+      return {
+        ...UNKNOWN_PLANT,
+        scientific: suggestion.scientificName,
+        names: {
+          arabic: UNKNOWN_PLANT.names.arabic,
+          english: suggestion.commonName || suggestion.scientificName,
+        },
+        confidence: suggestion.confidence,
+      };
+    }
+
+    return {
+      scientific: plant.scientific,
+      names: plant.names,
+      confidence: suggestion.confidence,
+      care: plant.care,
+      plantKey: plant.id,
+    };
+  }
+
+  private fromCandidate(candidate: PlantCandidate): NonNullable<PlantIdentificationResult['data']> {
+    return {
+      scientific: candidate.scientific,
+      names: candidate.names,
+      confidence: candidate.matchScore,
+      care: candidate.care,
+      ...(candidate.id && { plantKey: candidate.id }),
+    };
+  }
+
+  private toCandidate(suggestion: ProviderSuggestion, catalogue: IndexedCatalogue): PlantCandidate {
+    const identification = this.toIdentification(suggestion, catalogue);
+    return {
+      id: identification.plantKey || null,
+      scientific: identification.scientific,
+      names: identification.names,
+      care: identification.care,
+      matchScore: Math.round(suggestion.confidence * 100) / 100,
+      matchedOn: [],
+    };
+  }
+
+  // Turn the user's coordinates into a governorate; everything else is passed through
+  private resolveContext(context: IdentificationContext = {}): ResolvedContext {
+    const { latitude, longitude } = context.location || {};
+    const governorate = latitude !== undefined && longitude !== undefined
+      ? findGovernorate(latitude, longitude)
+      : null;
+
+    return {
+      environment: context.environment || null,
+      lightCondition: context.lightCondition || null,
+      governorate: governorate && { name: governorate.name, nameAr: governorate.nameAr, region: governorate.region },
+    };
+  }
+
+  // Re-rank candidates by how well each species fits where the user grows it
+  private applyContext(
+    candidates: PlantCandidate[],
+    context: ResolvedContext,
+    catalogue: IndexedCatalogue
+  ): PlantCandidate[] {
+    return candidates
+      .map(candidate => {
+        // Plants outside the catalogue have no care data to compare against
+        const species = candidate.id ? catalogue.byKey.get(candidate.id) : undefined;
+        if (!species) {
+          return candidate;
+        }
+
+        const { environment, light } = species.requirements;
+        const adjustments: ContextAdjustment[] = [];
+        let multiplier = 1;
+
+        if (context.environment === 'outdoor' && environment === 'indoor') {
+          adjustments.push('indoor_only');
+          multiplier *= CONTEXT_WEIGHTS.indoorOnly;
+        } else if (context.environment === 'indoor' && environment === 'outdoor') {
+          adjustments.push('outdoor_only');
+          multiplier *= CONTEXT_WEIGHTS.outdoorOnly;
+        }
+
+        if (context.lightCondition) {
+          const shortfall = LIGHT_LEVELS.indexOf(light.min) - LIGHT_LEVELS.indexOf(context.lightCondition);
+          if (shortfall > 0) {
+            adjustments.push('needs_more_light');
+            multiplier *= Math.pow(CONTEXT_WEIGHTS.lightStep, shortfall);
+          }
+        }
+
+        if (context.governorate && species.regions.includes(context.governorate.region)) {
+          adjustments.push('common_in_region');
+          multiplier *= CONTEXT_WEIGHTS.commonInRegion;
+        }
+
+        if (adjustments.length === 0) {
+          return candidate;
+        }
+
+        // A regional boost never turns a partial match into a certain one
+        const ceiling = Math.max(candidate.matchScore, 0.97);
+        const matchScore = Math.min(candidate.matchScore * multiplier, ceiling);
+        return { ...candidate, matchScore: Math.round(matchScore * 100) / 100, adjustments };
+      })
+      .sort((a, b) => b.matchScore - a.matchScore);
+  }
 }
 
-export const identificationService = new IdentificationService();
\ No newline at end of file
+export const identificationService = new IdentificationService();
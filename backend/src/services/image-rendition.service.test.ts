@@ -0,0 +1,201 @@
+// backend/src/services/image-rendition.service.test.ts
+import sharp from 'sharp';
+import { imageRenditionService } from './image-rendition.service';
+import * as storageProvider from '../providers/storage';
+import { prismaMock, resetPrismaMock } from '../test/prisma';
+
+jest.mock('sharp');
+
+const ASSET_ID = '6e5d4c3b-2a19-4f8e-9d7c-6b5a4f3e0001';
+const KEY = `plants/${ASSET_ID}.jpg`;
+const URL_PREFIX = 'https://api.example.com/uploads/';
+
+interface FakeSize {
+  width: number;
+  height: number;
+  fit: string;
+}
+
+// Stand-in for a sharp pipeline over a 2000x1000 photo: records the options it is given and
+// encodes each output as "<format> <width>x<height>" so the stored files can be told apart
+const fakePipeline = (original: Buffer, size?: FakeSize, steps: string[] = []): object => ({
+  resize: (options: FakeSize) => fakePipeline(original, options, steps),
+  clone: () => fakePipeline(original, size, [...steps]),
+  flatten: (options: { background: string }) => {
+    steps.push(`flatten ${options.background}`);
+    return fakePipeline(original, size, steps);
+  },
+  webp: () => fakeOutput(original, size!, 'webp', steps),
+  jpeg: () => fakeOutput(original, size!, 'jpeg', steps),
+});
+
+const fakeOutput = (original: Buffer, size: FakeSize, format: string, steps: string[]): object => ({
+  toBuffer: () => {
+    if (original.toString() === 'corrupt') {
+      return Promise.reject(new Error('Input buffer contains unsupported image format'));
+    }
+
+    // "cover" fills the box; "inside" keeps the 2:1 aspect ratio
+    const width = Math.min(size.width, 2000);
+    const height = size.fit === 'cover' ? Math.min(size.height, 1000) : Math.round(width / 2);
+    return Promise.resolve({
+      data: Buffer.from([format, `${width}x${height}`, ...steps].join(' ')),
+      info: { format, width, height },
+    });
+  },
+});
+
+// In-memory stand-in for the storage adapter
+const files = new Map<string, Buffer>();
+const putFile = (key: string, body: Buffer): Promise<string> => {
+  files.set(key, body);
+  return Promise.resolve(`${URL_PREFIX}${key}`);
+};
+const storage = {
+  driver: 'local' as const,
+  put: jest.fn(putFile),
+  get: jest.fn((key: string) => (files.has(key) ? Promise.resolve(files.get(key)!) : Promise.reject(new Error('ENOENT')))),
+  delete: jest.fn((key: string) => {
+    files.delete(key);
+    return Promise.resolve();
+  }),
+  keyFromUrl: jest.fn((url: string) => (url.startsWith(URL_PREFIX) ? url.slice(URL_PREFIX.length) : null)),
+};
+
+const storedAsset = () => ({ id: ASSET_ID, key: KEY, url: `${URL_PREFIX}${KEY}`, status: 'PENDING', renditions: null });
+
+const renditionKeys = (): string[] => [...files.keys()].filter(key => key !== KEY).sort();
+
+beforeEach(() => {
+  resetPrismaMock();
+  jest.restoreAllMocks();
+  files.clear();
+  files.set(KEY, Buffer.from('original'));
+  [storage.put, storage.get, storage.delete, storage.keyFromUrl].forEach(mock => mock.mockClear());
+  storage.put.mockImplementation(putFile);
+  jest.spyOn(storageProvider, 'getStorage').mockReturnValue(storage);
+  jest.mocked(sharp).mockReset().mockImplementation(((input: Buffer) => fakePipeline(input)) as unknown as typeof sharp);
+  prismaMock.imageAsset.findUnique.mockResolvedValue(storedAsset());
+  prismaMock.imageAsset.updateMany.mockResolvedValue({ count: 1 });
+});
+
+describe('imageRenditionService.generate', () => {
+  it('stores every size as WebP and JPEG next to the original', async () => {
+    await imageRenditionService.generate(ASSET_ID);
+
+    expect(storage.get).toHaveBeenCalledWith(KEY);
+    expect(renditionKeys()).toEqual([
+      `plants/${ASSET_ID}_card.jpg`,
+      `plants/${ASSET_ID}_card.webp`,
+      `plants/${ASSET_ID}_full.jpg`,
+      `plants/${ASSET_ID}_full.webp`,
+      `plants/${ASSET_ID}_thumb.jpg`,
+      `plants/${ASSET_ID}_thumb.webp`,
+    ]);
+    expect(storage.put).toHaveBeenCalledWith(`plants/${ASSET_ID}_thumb.webp`, expect.any(Buffer), 'image/webp');
+    expect(storage.put).toHaveBeenCalledWith(`plants/${ASSET_ID}_thumb.jpg`, expect.any(Buffer), 'image/jpeg');
+  });
+
+  it.each([
+    ['thumb', 'webp 160x160', 'jpeg 160x160 flatten #ffffff'],
+    ['card', 'webp 480x240', 'jpeg 480x240 flatten #ffffff'],
+    ['full', 'webp 1600x800', 'jpeg 1600x800 flatten #ffffff'],
+  ])('resizes the %s rendition to fit its box', async (name, webp, jpeg) => {
+    await imageRenditionService.generate(ASSET_ID);
+
+    expect(files.get(`plants/${ASSET_ID}_${name}.webp`)?.toString()).toBe(webp);
+    expect(files.get(`plants/${ASSET_ID}_${name}.jpg`)?.toString()).toBe(jpeg);
+    expect(sharp).toHaveBeenCalledWith(Buffer.from('original'), { limitInputPixels: 100 * 1000 * 1000 });
+  });
+
+  it('marks the image ready with the rendition URLs and sizes', async () => {
+    await imageRenditionService.generate(ASSET_ID);
+
+    const rendition = (name: string, width: number, height: number) => ({
+      width,
+      height,
+      webp: `${URL_PREFIX}plants/${ASSET_ID}_${name}.webp`,
+      jpeg: `${URL_PREFIX}plants/${ASSET_ID}_${name}.jpg`,
+    });
+    expect(prismaMock.imageAsset.updateMany).toHaveBeenCalledTimes(1);
+    const [{ where, data }] = prismaMock.imageAsset.updateMany.mock.calls[0];
+    expect(where).toEqual({ id: ASSET_ID });
+    expect(data.status).toBe('READY');
+    expect(JSON.parse(data.renditions)).toEqual({
+      thumb: rendition('thumb', 160, 160),
+      card: rendition('card', 480, 240),
+      full: rendition('full', 1600, 800),
+    });
+  });
+
+  it('removes the renditions when the photo was deleted while they were made', async () => {
+    prismaMock.imageAsset.updateMany.mockResolvedValue({ count: 0 });
+
+    await imageRenditionService.generate(ASSET_ID);
+
+    expect(storage.put).toHaveBeenCalledTimes(6);
+    expect(renditionKeys()).toEqual([]);
+  });
+
+  it('marks the image failed, removes what it stored and rethrows when resizing fails', async () => {
+    files.set(KEY, Buffer.from('corrupt'));
+
+    await expect(imageRenditionService.generate(ASSET_ID)).rejects.toThrow('unsupported image format');
+
+    expect(prismaMock.imageAsset.updateMany).toHaveBeenCalledWith({ where: { id: ASSET_ID }, data: { status: 'FAILED' } });
+    expect(renditionKeys()).toEqual([]);
+    expect(files.has(KEY)).toBe(true);
+  });
+
+  it('cleans up the sizes already stored when a later one fails', async () => {
+    storage.put.mockImplementation((key: string, body: Buffer) =>
+      (key.includes('_full') ? Promise.reject(new Error('disk full')) : putFile(key, body)));
+
+    await expect(imageRenditionService.generate(ASSET_ID)).rejects.toThrow('disk full');
+
+    expect(renditionKeys()).toEqual([]);
+    expect(prismaMock.imageAsset.updateMany).toHaveBeenCalledWith({ where: { id: ASSET_ID }, data: { status: 'FAILED' } });
+  });
+
+  it('marks the image failed when the original is missing', async () => {
+    files.delete(KEY);
+
+    await expect(imageRenditionService.generate(ASSET_ID)).rejects.toThrow('ENOENT');
+
+    expect(sharp).not.toHaveBeenCalled();
+    expect(prismaMock.imageAsset.updateMany).toHaveBeenCalledWith({ where: { id: ASSET_ID }, data: { status: 'FAILED' } });
+  });
+
+  it('does nothing for an image that no longer exists', async () => {
+    prismaMock.imageAsset.findUnique.mockResolvedValue(null);
+
+    await expect(imageRenditionService.generate(ASSET_ID)).resolves.toBeUndefined();
+
+    expect(storage.get).not.toHaveBeenCalled();
+    expect(prismaMock.imageAsset.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('imageRenditionService.getRenditionsByUrls', () => {
+  it('returns the ready renditions by URL and skips unreadable ones', async () => {
+    const renditions = { thumb: { width: 160, height: 160, webp: 'a.webp', jpeg: 'a.jpg' } };
+    prismaMock.imageAsset.findMany.mockResolvedValue([
+      { url: 'a.jpg', renditions: JSON.stringify(renditions) },
+      { url: 'b.jpg', renditions: '{not json' },
+    ]);
+
+    const found = await imageRenditionService.getRenditionsByUrls(['a.jpg', 'b.jpg', 'a.jpg']);
+
+    expect(prismaMock.imageAsset.findMany).toHaveBeenCalledWith({
+      where: { url: { in: ['a.jpg', 'b.jpg'] }, status: 'READY' },
+      select: { url: true, renditions: true },
+    });
+    expect([...found.entries()]).toEqual([['a.jpg', renditions]]);
+  });
+
+  it('falls back to the originals when the lookup fails', async () => {
+    prismaMock.imageAsset.findMany.mockRejectedValue(new Error('database is locked'));
+
+    await expect(imageRenditionService.getRenditionsByUrls(['a.jpg'])).resolves.toEqual(new Map());
+  });
+});
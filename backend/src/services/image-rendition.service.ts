@@ -0,0 +1,170 @@
+// backend/src/services/image-rendition.service.ts
+import { ImageAsset, PrismaClient } from '@prisma/client';
+import sharp from 'sharp';
+import { getStorage } from '../providers/storage';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export const RENDITION_NAMES = ['thumb', 'card', 'full'] as const;
+export type RenditionName = typeof RENDITION_NAMES[number];
+
+export type ImageAssetStatus = 'PENDING' | 'READY' | 'FAILED';
+
+export interface ImageRendition {
+  width: number;
+  height: number;
+  webp: string; // URL
+  jpeg: string; // URL, for clients without WebP support
+}
+
+export type ImageRenditions = Record<RenditionName, ImageRendition>;
+
+export interface ImageAssetView extends Omit<ImageAsset, 'status' | 'renditions'> {
+  status: ImageAssetStatus;
+  renditions: ImageRenditions | null; // Null until the job has run
+}
+
+// thumb for lists and avatars, card for the 128px-high plant card tiles on 2x-3x screens,
+// full for the detail view; the PRD keeps images under 500KB on Egyptian mobile networks
+const RENDITION_SIZES: Record<RenditionName, { width: number; height: number; fit: 'cover' | 'inside' }> = {
+  thumb: { width: 160, height: 160, fit: 'cover' },
+  card: { width: 480, height: 480, fit: 'inside' },
+  full: { width: 1600, height: 1600, fit: 'inside' },
+};
+
+const WEBP_QUALITY = 75;
+const JPEG_QUALITY = 80;
+
+// Same guard as for uploads
+const MAX_INPUT_PIXELS = 100 * 1000 * 1000;
+
+export class ImageRenditionService {
+  // Resize a stored original into every rendition; run by the image-renditions job
+  async generate(assetId: string): Promise<void> {
+    const asset = await prisma.imageAsset.findUnique({ where: { id: assetId } });
+    if (!asset) {
+      logger.warn(`Image ${assetId} was deleted before its renditions were made`);
+      return;
+    }
+
+    const storage = getStorage();
+    const renditions = {} as ImageRenditions;
+
+    try {
+      const original = await storage.get(asset.key);
+      const baseKey = asset.key.replace(/\.[^./]+$/, '');
+
+      for (const name of RENDITION_NAMES) {
+        renditions[name] = await this.render(original, `${baseKey}_${name}`, RENDITION_SIZES[name]);
+      }
+
+      const { count } = await prisma.imageAsset.updateMany({
+        where: { id: assetId },
+        data: { status: 'READY', renditions: JSON.stringify(renditions) },
+      });
+
+      // The photo was deleted while it was being resized
+      if (count === 0) {
+        await this.deleteFiles(renditions);
+        return;
+      }
+
+      logger.info(`Image renditions ready: ${asset.key}`);
+    } catch (error) {
+      logger.error('Failed to generate image renditions:', error);
+      await this.deleteFiles(renditions).catch(() => undefined);
+      await prisma.imageAsset.updateMany({
+        where: { id: assetId },
+        data: { status: 'FAILED' },
+      }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  // Ready renditions for each of the given image URLs; URLs without any are left out
+  async getRenditionsByUrls(urls: string[]): Promise<Map<string, ImageRenditions>> {
+    const unique = [...new Set(urls)];
+    const found = new Map<string, ImageRenditions>();
+    if (unique.length === 0) {
+      return found;
+    }
+
+    try {
+      const assets = await prisma.imageAsset.findMany({
+        where: { url: { in: unique }, status: 'READY' },
+        select: { url: true, renditions: true },
+      });
+
+      for (const asset of assets) {
+        const renditions = this.parseJson<ImageRenditions | null>(asset.renditions, null);
+        if (renditions) {
+          found.set(asset.url, renditions);
+        }
+      }
+      return found;
+    } catch (error) {
+      // Photos still load from the original URL, so this is not worth failing the request
+      logger.error('Failed to fetch image renditions:', error);
+      return found;
+    }
+  }
+
+  // Delete the rendition files of an image
+  async deleteFiles(renditions: Partial<ImageRenditions> | null): Promise<void> {
+    const storage = getStorage();
+    const keys = Object.values(renditions || {})
+      .flatMap(rendition => [rendition.webp, rendition.jpeg])
+      .map(url => storage.keyFromUrl(url))
+      .filter((key): key is string => key !== null);
+
+    await Promise.all(keys.map(key => storage.delete(key)));
+  }
+
+  toView(asset: ImageAsset): ImageAssetView {
+    return {
+      ...asset,
+      status: asset.status as ImageAssetStatus,
+      renditions: this.parseJson<ImageRenditions | null>(asset.renditions, null),
+    };
+  }
+
+  // Store one size as "<baseKey>.webp" and "<baseKey>.jpg"
+  private async render(
+    original: Buffer,
+    baseKey: string,
+    size: { width: number; height: number; fit: 'cover' | 'inside' }
+  ): Promise<ImageRendition> {
+    const resized = sharp(original, { limitInputPixels: MAX_INPUT_PIXELS })
+      .resize({ ...size, withoutEnlargement: true });
+
+    const [webp, jpeg] = await Promise.all([
+      resized.clone().webp({ quality: WEBP_QUALITY }).toBuffer({ resolveWithObject: true }),
+      // JPEG has no transparency; PNG cut-outs get a white background instead of black
+      resized.clone().flatten({ background: '#ffffff' }).jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+        .toBuffer({ resolveWithObject: true }),
+    ]);
+
+    const storage = getStorage();
+    const [webpUrl, jpegUrl] = await Promise.all([
+      storage.put(`${baseKey}.webp`, webp.data, 'image/webp'),
+      storage.put(`${baseKey}.jpg`, jpeg.data, 'image/jpeg'),
+    ]);
+
+    return { width: webp.info.width, height: webp.info.height, webp: webpUrl, jpeg: jpegUrl };
+  }
+
+  private parseJson<T>(value: string | null, fallback: T): T {
+    if (!value) {
+      return fallback;
+    }
+
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return fallback;
+    }
+  }
+}
+
+export const imageRenditionService = new ImageRenditionService();
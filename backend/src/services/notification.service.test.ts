@@ -0,0 +1,246 @@
+// backend/src/services/notification.service.test.ts
+import { prismaMock, resetPrismaMock } from '../test/prisma';
+import { careScheduleService, CareTask } from './care-schedule.service';
+import { careService } from './care.service';
+import { notificationService } from './notification.service';
+
+const USER_ID = '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0001';
+const NOTIFICATION_ID = '3f2e1d0c-4b5a-4987-8c6d-5e4f3a2b0001';
+const PLANT_IDS = ['5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001', '5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0002'];
+
+const reminder = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  id: NOTIFICATION_ID,
+  userId: USER_ID,
+  type: 'care_reminder',
+  metadata: JSON.stringify({
+    careType: 'WATERING',
+    plantIds: PLANT_IDS,
+    overduePlantIds: [],
+    localDate: '2024-01-15',
+  }),
+  isRead: false,
+  readAt: null,
+  sentAt: new Date('2024-01-15T06:00:00Z'),
+  scheduledFor: new Date('2024-01-15T06:00:00Z'),
+  snoozedUntil: null,
+  completedAt: null,
+  ...overrides,
+});
+
+const careLog = (plantId: string): Record<string, unknown> => ({
+  id: `care-${plantId.slice(-4)}`,
+  plantId,
+  type: 'WATERING',
+  metadata: null,
+});
+
+describe('notificationService', () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.restoreAllMocks();
+  });
+
+  describe('completeCareReminder', () => {
+    const now = new Date('2024-01-15T07:00:00Z');
+
+    it('logs the care for every plant of the reminder once', async () => {
+      prismaMock.notification.findFirst.mockResolvedValue(reminder());
+      prismaMock.notification.updateMany.mockResolvedValue({ count: 1 });
+      prismaMock.notification.update.mockImplementation(({ data }: { data: object }) =>
+        Promise.resolve({ ...reminder(), ...data })
+      );
+      const logCareAction = jest.spyOn(careService, 'logCareAction')
+        .mockImplementation((_userId, data) => Promise.resolve(careLog(data.plantId) as never));
+
+      const result = await notificationService.completeCareReminder(NOTIFICATION_ID, USER_ID, now);
+
+      expect(prismaMock.notification.updateMany).toHaveBeenCalledWith({
+        where: { id: NOTIFICATION_ID, userId: USER_ID, completedAt: null },
+        data: { completedAt: now, isRead: true, readAt: now },
+      });
+      expect(logCareAction).toHaveBeenCalledTimes(2);
+      expect(result.alreadyCompleted).toBe(false);
+      expect(result.careLogs.map(log => log.plantId)).toEqual(PLANT_IDS);
+      expect(JSON.parse(result.notification.metadata!)).toEqual(expect.objectContaining({
+        careLogIds: ['care-0001', 'care-0002'],
+        skippedPlantIds: [],
+      }));
+    });
+
+    it('returns the first result to a repeated request without logging again', async () => {
+      const completed = reminder({
+        completedAt: now,
+        metadata: JSON.stringify({
+          careType: 'WATERING',
+          plantIds: PLANT_IDS,
+          overduePlantIds: [],
+          localDate: '2024-01-15',
+          careLogIds: ['care-0001'],
+          skippedPlantIds: [PLANT_IDS[1]],
+        }),
+      });
+      prismaMock.notification.findFirst.mockResolvedValue(completed);
+      prismaMock.notification.updateMany.mockResolvedValue({ count: 0 });
+      prismaMock.notification.findUniqueOrThrow.mockResolvedValue(completed);
+      prismaMock.careLog.findMany.mockResolvedValue([careLog(PLANT_IDS[0])]);
+      const logCareAction = jest.spyOn(careService, 'logCareAction');
+
+      const result = await notificationService.completeCareReminder(NOTIFICATION_ID, USER_ID, now);
+
+      expect(logCareAction).not.toHaveBeenCalled();
+      expect(result.alreadyCompleted).toBe(true);
+      expect(result.careLogs.map(log => log.id)).toEqual(['care-0001']);
+      expect(result.skippedPlantIds).toEqual([PLANT_IDS[1]]);
+    });
+
+    it('skips plants deleted since the reminder went out', async () => {
+      prismaMock.notification.findFirst.mockResolvedValue(reminder());
+      prismaMock.notification.updateMany.mockResolvedValue({ count: 1 });
+      prismaMock.notification.update.mockImplementation(({ data }: { data: object }) =>
+        Promise.resolve({ ...reminder(), ...data })
+      );
+      jest.spyOn(careService, 'logCareAction').mockImplementation((_userId, data) =>
+        data.plantId === PLANT_IDS[1]
+          ? Promise.reject(new Error('Plant not found'))
+          : Promise.resolve(careLog(data.plantId) as never)
+      );
+
+      const result = await notificationService.completeCareReminder(NOTIFICATION_ID, USER_ID, now);
+
+      expect(result.careLogs).toHaveLength(1);
+      expect(result.skippedPlantIds).toEqual([PLANT_IDS[1]]);
+    });
+
+    it('only completes care and treatment reminders', async () => {
+      prismaMock.notification.findFirst.mockResolvedValue(reminder({ type: 'diagnosis_follow_up' }));
+
+      await expect(notificationService.completeCareReminder(NOTIFICATION_ID, USER_ID, now))
+        .rejects.toThrow('Notification cannot be completed');
+      expect(prismaMock.notification.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('snoozeNotification', () => {
+    const now = new Date('2024-01-15T07:00:00Z');
+
+    it('hides the notification until the snooze ends', async () => {
+      prismaMock.notification.findFirst.mockResolvedValue(reminder());
+      prismaMock.notification.update.mockImplementation(({ data }: { data: object }) =>
+        Promise.resolve({ ...reminder(), ...data })
+      );
+
+      const snoozed = await notificationService.snoozeNotification(NOTIFICATION_ID, USER_ID, 60, now);
+
+      expect(snoozed.sentAt).toBeNull();
+      expect(snoozed.snoozedUntil).toEqual(new Date('2024-01-15T08:00:00Z'));
+      // The reminder keeps the time it was first due
+      expect(snoozed.scheduledFor).toEqual(new Date('2024-01-15T06:00:00Z'));
+    });
+
+    it('does not push back a notification that is already snoozed', async () => {
+      const snoozed = reminder({ sentAt: null, snoozedUntil: new Date('2024-01-15T07:30:00Z') });
+      prismaMock.notification.findFirst.mockResolvedValue(snoozed);
+
+      const result = await notificationService.snoozeNotification(NOTIFICATION_ID, USER_ID, 60, now);
+
+      expect(result).toBe(snoozed);
+      expect(prismaMock.notification.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses completed notifications', async () => {
+      prismaMock.notification.findFirst.mockResolvedValue(reminder({ completedAt: now }));
+
+      await expect(notificationService.snoozeNotification(NOTIFICATION_ID, USER_ID, 60, now))
+        .rejects.toThrow('Notification already completed');
+    });
+  });
+
+  describe('scheduleCareReminders', () => {
+    // Cairo is UTC+2 in January, so an 08:00 reminder is due at 06:00 UTC
+    const task: CareTask = {
+      plantId: PLANT_IDS[0],
+      plantName: 'Pothos',
+      type: 'WATERING',
+      intervalDays: 7,
+      lastPerformedAt: new Date('2024-01-08T06:00:00Z'),
+      nextDueAt: new Date('2024-01-15T06:00:00Z'),
+      daysUntilDue: 0,
+      isOverdue: false,
+    };
+
+    beforeEach(() => {
+      prismaMock.user.findMany.mockResolvedValue([
+        { id: USER_ID, timezone: 'Africa/Cairo', reminderHour: 8, language: 'en' },
+      ]);
+      prismaMock.notification.create.mockImplementation(({ data }: { data: object }) => Promise.resolve(data));
+      jest.spyOn(careScheduleService, 'getDueCare').mockResolvedValue({
+        today: [task],
+        overdue: [],
+        upcoming: [],
+        upcomingDays: 0,
+        generatedAt: '2024-01-15T06:30:00.000Z',
+      });
+    });
+
+    it('creates the reminder once the user\'s local reminder time has passed', async () => {
+      const created = await notificationService.scheduleCareReminders(new Date('2024-01-15T06:30:00Z'));
+
+      expect(created).toBe(1);
+      expect(prismaMock.notification.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: USER_ID,
+          type: 'care_reminder',
+          scheduledFor: new Date('2024-01-15T06:00:00Z'),
+          message: 'Pothos need watering',
+        }) as object,
+      });
+    });
+
+    it('waits for the local reminder time', async () => {
+      // 07:30 in Cairo
+      const created = await notificationService.scheduleCareReminders(new Date('2024-01-15T05:30:00Z'));
+
+      expect(created).toBe(0);
+      expect(prismaMock.notification.create).not.toHaveBeenCalled();
+    });
+
+    it('gives up after the catch-up window', async () => {
+      const created = await notificationService.scheduleCareReminders(new Date('2024-01-15T09:00:00Z'));
+
+      expect(created).toBe(0);
+    });
+
+    it('does not create a second reminder for the same day', async () => {
+      prismaMock.notification.findFirst.mockResolvedValue({ id: NOTIFICATION_ID });
+
+      const created = await notificationService.scheduleCareReminders(new Date('2024-01-15T06:30:00Z'));
+
+      expect(created).toBe(0);
+      expect(prismaMock.notification.create).not.toHaveBeenCalled();
+    });
+
+    it('does not create a second reminder after the first one is snoozed', async () => {
+      // A single stored notification, looked up the way the service queries it
+      let stored: Record<string, unknown> | null = null;
+      prismaMock.notification.create.mockImplementation(({ data }: { data: Record<string, unknown> }) => {
+        stored = { ...data, id: NOTIFICATION_ID, completedAt: null };
+        return Promise.resolve(stored);
+      });
+      prismaMock.notification.findFirst.mockImplementation(({ where }: { where: Record<string, unknown> }) =>
+        Promise.resolve(stored && (!where.scheduledFor ||
+          (where.scheduledFor as Date).getTime() === (stored.scheduledFor as Date).getTime()) ? stored : null)
+      );
+      prismaMock.notification.update.mockImplementation(({ data }: { data: Record<string, unknown> }) => {
+        stored = { ...stored, ...data };
+        return Promise.resolve(stored);
+      });
+
+      await notificationService.scheduleCareReminders(new Date('2024-01-15T06:30:00Z'));
+      await notificationService.snoozeNotification(NOTIFICATION_ID, USER_ID, 30, new Date('2024-01-15T06:35:00Z'));
+      const created = await notificationService.scheduleCareReminders(new Date('2024-01-15T06:45:00Z'));
+
+      expect(created).toBe(0);
+      expect(prismaMock.notification.create).toHaveBeenCalledTimes(1);
+    });
+  });
+});
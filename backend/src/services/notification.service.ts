@@ -0,0 +1,421 @@
+// backend/src/services/notification.service.ts
+import { Notification, Prisma, PrismaClient } from '@prisma/client';
+import { CareLogView, careService } from './care.service';
+import { CareTask, ScheduledCareType, careScheduleService } from './care-schedule.service';
+import { formatLocalDate, getZonedParts, resolveTimezone, zonedTimeToUtc } from '../utils/timezone';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// Reminders missed by a server restart are still sent within this window
+const REMINDER_CATCH_UP_HOURS = 3;
+
+type Language = 'en' | 'ar';
+
+const CARE_REMINDER_COPY: Record<ScheduledCareType, Record<Language, { title: string; action: string }>> = {
+  WATERING: {
+    en: { title: 'Time to water your plants', action: 'watering' },
+    ar: { title: 'حان وقت ري نباتاتك', action: 'الري' },
+  },
+  FERTILIZING: {
+    en: { title: 'Time to fertilize your plants', action: 'fertilizing' },
+    ar: { title: 'حان وقت تسميد نباتاتك', action: 'التسميد' },
+  },
+  PRUNING: {
+    en: { title: 'Time to prune your plants', action: 'pruning' },
+    ar: { title: 'حان وقت تقليم نباتاتك', action: 'التقليم' },
+  },
+  REPOTTING: {
+    en: { title: 'Time to repot your plants', action: 'repotting' },
+    ar: { title: 'حان وقت إعادة زراعة نباتاتك', action: 'إعادة الزراعة' },
+  },
+};
+
+export interface CareReminderMetadata {
+  careType: ScheduledCareType | 'TREATMENT';
+  plantIds: string[];
+  overduePlantIds: string[];
+  localDate: string;
+  // Set on treatment reminders of an accepted diagnosis plan
+  diagnosisId?: string;
+  // Filled in once the reminder is completed
+  careLogIds?: string[];
+  skippedPlantIds?: string[];
+}
+
+export interface CompleteReminderResult {
+  notification: Notification;
+  careLogs: CareLogView[];
+  skippedPlantIds: string[];
+  alreadyCompleted: boolean;
+}
+
+export interface NotificationQuery {
+  unreadOnly?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface NotificationPreferences {
+  timezone?: string;
+  reminderHour?: number;
+}
+
+export class NotificationService {
+  // Get delivered notifications for a user, newest first
+  async getUserNotifications(userId: string, query: NotificationQuery = {}): Promise<{
+    notifications: Notification[];
+    total: number;
+    unreadCount: number;
+  }> {
+    try {
+      const where: Prisma.NotificationWhereInput = {
+        userId,
+        sentAt: { not: null }, // Snoozed and future notifications stay hidden
+        ...(query.unreadOnly ? { isRead: false } : {}),
+      };
+
+      const [notifications, total, unreadCount] = await Promise.all([
+        prisma.notification.findMany({
+          where,
+          orderBy: { sentAt: 'desc' },
+          take: query.limit || 20,
+          skip: query.offset || 0,
+        }),
+        prisma.notification.count({ where }),
+        prisma.notification.count({ where: { userId, sentAt: { not: null }, isRead: false } }),
+      ]);
+
+      return { notifications, total, unreadCount };
+    } catch (error) {
+      logger.error('Failed to fetch notifications:', error);
+      throw new Error('Failed to fetch notifications');
+    }
+  }
+
+  // Mark a single notification as read
+  async markAsRead(notificationId: string, userId: string): Promise<Notification> {
+    try {
+      const notification = await prisma.notification.findFirst({
+        where: { id: notificationId, userId },
+      });
+
+      if (!notification) {
+        throw new Error('Notification not found');
+      }
+
+      if (notification.isRead) {
+        return notification;
+      }
+
+      return await prisma.notification.update({
+        where: { id: notificationId },
+        data: { isRead: true, readAt: new Date() },
+      });
+    } catch (error) {
+      logger.error('Failed to mark notification as read:', error);
+      throw error;
+    }
+  }
+
+  // Mark every delivered notification of the user as read
+  async markAllAsRead(userId: string): Promise<number> {
+    try {
+      const result = await prisma.notification.updateMany({
+        where: { userId, isRead: false, sentAt: { not: null } },
+        data: { isRead: true, readAt: new Date() },
+      });
+
+      logger.info(`Marked ${result.count} notifications as read for user ${userId}`);
+      return result.count;
+    } catch (error) {
+      logger.error('Failed to mark all notifications as read:', error);
+      throw new Error('Failed to mark notifications as read');
+    }
+  }
+
+  // Update when and in which time zone care reminders are delivered
+  async updatePreferences(userId: string, preferences: NotificationPreferences): Promise<Required<NotificationPreferences>> {
+    try {
+      const user = await prisma.user.update({
+        where: { id: userId },
+        data: preferences,
+        select: { timezone: true, reminderHour: true },
+      });
+
+      logger.info(`Notification preferences updated for user ${userId}`);
+      return user;
+    } catch (error) {
+      logger.error('Failed to update notification preferences:', error);
+      throw new Error('Failed to update notification preferences');
+    }
+  }
+
+  // Log the reminded care for every plant in the notification. Safe to call twice:
+  // only the request that claims the notification writes care logs.
+  async completeCareReminder(notificationId: string, userId: string, now: Date = new Date()): Promise<CompleteReminderResult> {
+    try {
+      const notification = await prisma.notification.findFirst({
+        where: { id: notificationId, userId },
+      });
+
+      if (!notification) {
+        throw new Error('Notification not found');
+      }
+
+      const metadata = this.parseReminderMetadata(notification);
+      if (!metadata) {
+        throw new Error('Notification cannot be completed');
+      }
+
+      // Atomically claim the notification; a concurrent double tap gets count 0
+      const claim = await prisma.notification.updateMany({
+        where: { id: notificationId, userId, completedAt: null },
+        data: { completedAt: now, isRead: true, readAt: notification.readAt || now },
+      });
+
+      if (claim.count === 0) {
+        return this.getCompletedReminder(notificationId);
+      }
+
+      const careLogs: CareLogView[] = [];
+      const skippedPlantIds: string[] = [];
+
+      for (const plantId of metadata.plantIds) {
+        try {
+          careLogs.push(await careService.logCareAction(userId, {
+            plantId,
+            type: metadata.careType,
+            metadata: metadata.diagnosisId ? { diagnosisId: metadata.diagnosisId } : undefined,
+            performedAt: now,
+          }));
+        } catch (error) {
+          // The plant may have been deleted since the reminder went out
+          logger.warn(`Skipped plant ${plantId} while completing notification ${notificationId}: ${String(error)}`);
+          skippedPlantIds.push(plantId);
+        }
+      }
+
+      const completedMetadata: CareReminderMetadata = {
+        ...metadata,
+        careLogIds: careLogs.map(careLog => careLog.id),
+        skippedPlantIds,
+      };
+
+      const updated = await prisma.notification.update({
+        where: { id: notificationId },
+        data: { metadata: JSON.stringify(completedMetadata) },
+      });
+
+      logger.info(`Notification ${notificationId} completed: ${careLogs.length} care logs created`);
+      return { notification: updated, careLogs, skippedPlantIds, alreadyCompleted: false };
+    } catch (error) {
+      logger.error('Failed to complete notification:', error);
+      throw error;
+    }
+  }
+
+  // Hide a notification until now + minutes. Snoozing an already snoozed
+  // notification is a no-op, so repeated taps don't keep pushing it back.
+  async snoozeNotification(notificationId: string, userId: string, minutes: number, now: Date = new Date()): Promise<Notification> {
+    try {
+      const notification = await prisma.notification.findFirst({
+        where: { id: notificationId, userId },
+      });
+
+      if (!notification) {
+        throw new Error('Notification not found');
+      }
+
+      if (notification.completedAt) {
+        throw new Error('Notification already completed');
+      }
+
+      const isSnoozed = !notification.sentAt && !!notification.snoozedUntil && notification.snoozedUntil > now;
+      if (isSnoozed) {
+        return notification;
+      }
+
+      const snoozed = await prisma.notification.update({
+        where: { id: notificationId },
+        data: {
+          snoozedUntil: new Date(now.getTime() + minutes * 60 * 1000),
+          sentAt: null,
+          isRead: false,
+          readAt: null,
+        },
+      });
+
+      logger.info(`Notification ${notificationId} snoozed for ${minutes} minutes`);
+      return snoozed;
+    } catch (error) {
+      logger.error('Failed to snooze notification:', error);
+      throw error;
+    }
+  }
+
+  // One pass of the background pipeline: create today's reminders, then deliver what is due
+  async runCareReminderCycle(now: Date = new Date()): Promise<{ created: number; dispatched: number }> {
+    const created = await this.scheduleCareReminders(now);
+    const dispatched = await this.dispatchDueNotifications(now);
+
+    logger.info(`Care reminder cycle finished: ${created} created, ${dispatched} dispatched`);
+    return { created, dispatched };
+  }
+
+  // Create grouped care reminders for users whose local reminder time has passed today
+  async scheduleCareReminders(now: Date = new Date()): Promise<number> {
+    const users = await prisma.user.findMany({
+      where: { deletedAt: null, plants: { some: { deletedAt: null } } },
+      select: { id: true, timezone: true, reminderHour: true, language: true },
+    });
+
+    let created = 0;
+
+    for (const user of users) {
+      try {
+        const timeZone = resolveTimezone(user.timezone);
+        const localToday = getZonedParts(now, timeZone);
+        const reminderAt = zonedTimeToUtc(localToday, user.reminderHour, 0, timeZone);
+        const hoursSinceReminder = (now.getTime() - reminderAt.getTime()) / (60 * 60 * 1000);
+
+        if (hoursSinceReminder < 0 || hoursSinceReminder >= REMINDER_CATCH_UP_HOURS) {
+          continue;
+        }
+
+        const alreadyScheduled = await prisma.notification.findFirst({
+          where: { userId: user.id, type: 'care_reminder', scheduledFor: reminderAt },
+          select: { id: true },
+        });
+
+        if (alreadyScheduled) {
+          continue;
+        }
+
+        const due = await careScheduleService.getDueCare(user.id, 0, now);
+        const tasks = [...due.overdue, ...due.today];
+
+        if (tasks.length === 0) {
+          continue;
+        }
+
+        const language: Language = user.language === 'ar' ? 'ar' : 'en';
+        const reminders = this.buildCareReminders(tasks, language, formatLocalDate(localToday));
+
+        await prisma.$transaction(
+          reminders.map(reminder =>
+            prisma.notification.create({
+              data: {
+                ...reminder,
+                userId: user.id,
+                type: 'care_reminder',
+                scheduledFor: reminderAt,
+                sentAt: now,
+              },
+            })
+          )
+        );
+
+        created += reminders.length;
+      } catch (error) {
+        // One broken user must not stop reminders for everyone else
+        logger.error(`Failed to schedule care reminders for user ${user.id}:`, error);
+      }
+    }
+
+    return created;
+  }
+
+  // Deliver notifications whose scheduled time has come
+  async dispatchDueNotifications(now: Date = new Date()): Promise<number> {
+    const result = await prisma.notification.updateMany({
+      where: {
+        sentAt: null,
+        AND: [
+          { OR: [{ scheduledFor: null }, { scheduledFor: { lte: now } }] },
+          { OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }] },
+        ],
+      },
+      data: { sentAt: now },
+    });
+
+    return result.count;
+  }
+
+  // One notification per care type, listing every plant that needs it
+  private buildCareReminders(
+    tasks: CareTask[],
+    language: Language,
+    localDate: string
+  ): Array<Pick<Notification, 'title' | 'message' | 'priority' | 'metadata'>> {
+    const tasksByType = new Map<ScheduledCareType, CareTask[]>();
+    for (const task of tasks) {
+      tasksByType.set(task.type, [...(tasksByType.get(task.type) || []), task]);
+    }
+
+    return Array.from(tasksByType.entries()).map(([careType, typeTasks]) => {
+      const copy = CARE_REMINDER_COPY[careType][language];
+      const overdue = typeTasks.filter(task => task.isOverdue);
+      const names = this.formatPlantNames(typeTasks.map(task => task.plantName), language);
+
+      const metadata: CareReminderMetadata = {
+        careType,
+        plantIds: typeTasks.map(task => task.plantId),
+        overduePlantIds: overdue.map(task => task.plantId),
+        localDate,
+      };
+
+      return {
+        title: copy.title,
+        message: language === 'ar' ? `${names} بحاجة إلى ${copy.action}` : `${names} need ${copy.action}`,
+        priority: overdue.length > 0 ? 'high' : 'normal',
+        metadata: JSON.stringify(metadata),
+      };
+    });
+  }
+
+  private async getCompletedReminder(notificationId: string): Promise<CompleteReminderResult> {
+    const notification = await prisma.notification.findUniqueOrThrow({
+      where: { id: notificationId },
+    });
+    const metadata = this.parseReminderMetadata(notification);
+
+    const careLogs = await prisma.careLog.findMany({
+      where: { id: { in: metadata?.careLogIds || [] } },
+    });
+
+    return {
+      notification,
+      careLogs: careLogs.map(careLog => careService.toView(careLog)),
+      skippedPlantIds: metadata?.skippedPlantIds || [],
+      alreadyCompleted: true,
+    };
+  }
+
+  private parseReminderMetadata(notification: Notification): CareReminderMetadata | null {
+    const completable = notification.type === 'care_reminder' || notification.type === 'treatment_reminder';
+    if (!completable || !notification.metadata) {
+      return null;
+    }
+
+    try {
+      const metadata = JSON.parse(notification.metadata) as CareReminderMetadata;
+      return metadata.careType && Array.isArray(metadata.plantIds) ? metadata : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private formatPlantNames(names: string[], language: Language): string {
+    const shown = names.slice(0, 3).join(language === 'ar' ? '، ' : ', ');
+    const remaining = names.length - 3;
+
+    if (remaining <= 0) {
+      return shown;
+    }
+
+    return language === 'ar' ? `${shown} و${remaining} أخرى` : `${shown} and ${remaining} more`;
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,328 @@
+// backend/src/services/plant-health.service.ts
+import { CareLog, Diagnosis, Plant, Prisma, PrismaClient } from '@prisma/client';
+import { differenceInCalendarDays, max as latestOf, subDays } from 'date-fns';
+import { DEFAULT_CARE_INTERVALS, ScheduledCareType, careScheduleService } from './care-schedule.service';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+export const HEALTH_STATUSES = ['GOOD', 'NEEDS_ATTENTION', 'POOR', 'CRITICAL'] as const;
+export type HealthStatus = typeof HEALTH_STATUSES[number];
+
+export type HealthFactorName = 'overdue_care' | 'care_adherence' | 'open_diagnoses' | 'observations';
+
+export interface HealthFactor {
+  factor: HealthFactorName;
+  impact: number; // Points added to (or, when negative, taken from) the score
+  detail: string;
+}
+
+export interface HealthAssessment {
+  plantId: string;
+  score: number; // 0-100
+  status: HealthStatus;
+  factors: HealthFactor[]; // Only the factors that moved the score
+  assessedAt: Date;
+}
+
+type HealthPlant = Pick<
+  Plant,
+  | 'id'
+  | 'name'
+  | 'wateringFrequency'
+  | 'fertilizingFrequency'
+  | 'lastWateredAt'
+  | 'lastFertilizedAt'
+  | 'lastPrunedAt'
+  | 'lastRepottedAt'
+  | 'acquisitionDate'
+  | 'createdAt'
+  | 'healthScore'
+  | 'healthStatus'
+>;
+
+type HealthCareLog = Pick<CareLog, 'type' | 'notes' | 'performedAt'>;
+type HealthDiagnosis = Pick<Diagnosis, 'diagnosis' | 'severity' | 'status'>;
+
+// A plant with the care logs and diagnoses its score depends on
+type HealthInput = HealthPlant & { careLogs: HealthCareLog[]; diagnoses: HealthDiagnosis[] };
+
+// Most points a single overdue care type can cost; watering matters most
+const OVERDUE_WEIGHTS: Record<ScheduledCareType, number> = {
+  WATERING: 30,
+  FERTILIZING: 10,
+  PRUNING: 5,
+  REPOTTING: 5,
+};
+
+// Share of expected waterings and feedings actually logged in the last 30 days
+const ADHERENCE_WINDOW_DAYS = 30;
+const ADHERENCE_WEIGHT = 20;
+const ADHERENCE_TYPES: ScheduledCareType[] = ['WATERING', 'FERTILIZING'];
+
+// Per open diagnosis; halved while a treatment plan is under way
+const DIAGNOSIS_PENALTIES: Record<string, number> = {
+  mild: 8,
+  moderate: 15,
+  severe: 25,
+};
+const MAX_DIAGNOSIS_PENALTY = 40;
+const OPEN_DIAGNOSIS_STATUSES = ['open', 'treating', 'unresolved'];
+
+// Only the latest telling observation of the last two weeks counts
+const OBSERVATION_WINDOW_DAYS = 14;
+const NEGATIVE_OBSERVATION_PENALTY = 10;
+const POSITIVE_OBSERVATION_BONUS = 5;
+
+const NEGATIVE_OBSERVATION_KEYWORDS = [
+  'yellow', 'brown', 'wilt', 'droop', 'spot', 'pest', 'bug', 'insect', 'mold', 'mould', 'rot',
+  'dying', 'dead', 'crispy', 'falling', 'اصفر', 'صفراء', 'بني', 'ذبول', 'ذابل', 'بقع', 'حشرات',
+  'عفن', 'تساقط', 'متساقط',
+];
+const POSITIVE_OBSERVATION_KEYWORDS = [
+  'new leaf', 'new leaves', 'new growth', 'growing', 'healthy', 'thriving', 'flower', 'bloom', 'bud',
+  'ورقة جديدة', 'أوراق جديدة', 'نمو', 'صحي', 'زهرة', 'أزهار', 'مزهر', 'براعم',
+];
+
+// Lowest score of each status, best first
+const STATUS_THRESHOLDS: Array<[number, HealthStatus]> = [
+  [75, 'GOOD'],
+  [50, 'NEEDS_ATTENTION'],
+  [25, 'POOR'],
+  [0, 'CRITICAL'],
+];
+
+const healthPlantSelect = {
+  id: true,
+  name: true,
+  wateringFrequency: true,
+  fertilizingFrequency: true,
+  lastWateredAt: true,
+  lastFertilizedAt: true,
+  lastPrunedAt: true,
+  lastRepottedAt: true,
+  acquisitionDate: true,
+  createdAt: true,
+  healthScore: true,
+  healthStatus: true,
+} as const;
+
+const RECALCULATE_BATCH_SIZE = 200;
+
+export class PlantHealthService {
+  // Score a plant from 100 down: overdue care, missed care, open problems and what the user observed
+  assess(
+    plant: HealthPlant,
+    careLogs: HealthCareLog[],
+    diagnoses: HealthDiagnosis[],
+    now: Date = new Date()
+  ): HealthAssessment {
+    const factors = [
+      this.overdueCareFactor(plant, now),
+      this.adherenceFactor(plant, careLogs, now),
+      this.diagnosisFactor(diagnoses),
+      this.observationFactor(careLogs, now),
+    ].filter((factor): factor is HealthFactor => factor !== null && factor.impact !== 0);
+
+    const total = factors.reduce((sum, factor) => sum + factor.impact, 100);
+    const score = Math.min(Math.max(Math.round(total), 0), 100);
+    const status = STATUS_THRESHOLDS.find(([minimum]) => score >= minimum)![1];
+
+    return { plantId: plant.id, score, status, factors, assessedAt: now };
+  }
+
+  // Recompute and store a plant's score; never throws, so callers can fire and forget
+  async recalculate(plantId: string, now: Date = new Date()): Promise<HealthAssessment | null> {
+    try {
+      const [plant] = await this.findHealthInputs({ where: { id: plantId } }, now);
+      if (!plant) {
+        return null;
+      }
+
+      return await this.store(plant, this.assess(plant, plant.careLogs, plant.diagnoses, now));
+    } catch (error) {
+      logger.error(`Failed to recalculate health of plant ${plantId}:`, error);
+      return null;
+    }
+  }
+
+  // Current health of one of the user's plants, with the factors behind it
+  async getPlantHealth(plantId: string, userId: string, now: Date = new Date()): Promise<HealthAssessment> {
+    const plant = await prisma.plant.findFirst({
+      where: { id: plantId, userId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!plant) {
+      throw new Error('Plant not found');
+    }
+
+    const assessment = await this.recalculate(plantId, now);
+    if (!assessment) {
+      throw new Error('Failed to assess plant health');
+    }
+    return assessment;
+  }
+
+  // Refresh every plant, so scores drop while care goes overdue without anything being logged
+  async recalculateAll(now: Date = new Date()): Promise<{ checked: number; updated: number }> {
+    let checked = 0;
+    let updated = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const plants = await this.findHealthInputs({ take: RECALCULATE_BATCH_SIZE, cursor }, now);
+
+      for (const plant of plants) {
+        try {
+          const assessment = this.assess(plant, plant.careLogs, plant.diagnoses, now);
+          if (assessment.score !== plant.healthScore || assessment.status !== plant.healthStatus) {
+            await this.store(plant, assessment);
+            updated++;
+          }
+        } catch (error) {
+          logger.error(`Failed to recalculate health of plant ${plant.id}:`, error);
+        }
+      }
+
+      checked += plants.length;
+      if (plants.length < RECALCULATE_BATCH_SIZE) {
+        break;
+      }
+      cursor = plants[plants.length - 1].id;
+    }
+
+    logger.info(`Plant health recalculated: ${checked} checked, ${updated} updated`);
+    return { checked, updated };
+  }
+
+  private async findHealthInputs(
+    query: { where?: Prisma.PlantWhereInput; take?: number; cursor?: string },
+    now: Date
+  ): Promise<HealthInput[]> {
+    return prisma.plant.findMany({
+      where: { ...query.where, deletedAt: null },
+      select: {
+        ...healthPlantSelect,
+        careLogs: {
+          where: { performedAt: { gte: subDays(now, ADHERENCE_WINDOW_DAYS) } },
+          select: { type: true, notes: true, performedAt: true },
+        },
+        diagnoses: {
+          where: { status: { in: OPEN_DIAGNOSIS_STATUSES } },
+          select: { diagnosis: true, severity: true, status: true },
+        },
+      },
+      orderBy: { id: 'asc' },
+      take: query.take,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+  }
+
+  private async store(plant: HealthPlant, assessment: HealthAssessment): Promise<HealthAssessment> {
+    if (assessment.score !== plant.healthScore || assessment.status !== plant.healthStatus) {
+      await prisma.plant.update({
+        where: { id: plant.id },
+        data: { healthScore: assessment.score, healthStatus: assessment.status },
+      });
+    }
+    return assessment;
+  }
+
+  private overdueCareFactor(plant: HealthPlant, now: Date): HealthFactor | null {
+    // Care from before the plant was added to the app is unknown, so it is judged from then on
+    const tasks = careScheduleService.getTasksForPlant({ ...plant, acquisitionDate: null }, now)
+      .filter(task => task.isOverdue);
+    if (tasks.length === 0) {
+      return null;
+    }
+
+    // Losing the full weight once a whole interval has been missed
+    const penalty = tasks.reduce((sum, task) => {
+      return sum + OVERDUE_WEIGHTS[task.type] * Math.min(-task.daysUntilDue / task.intervalDays, 1);
+    }, 0);
+
+    return {
+      factor: 'overdue_care',
+      impact: -Math.round(penalty),
+      detail: tasks.map(task => `${task.type} overdue by ${-task.daysUntilDue} day(s)`).join(', '),
+    };
+  }
+
+  private adherenceFactor(plant: HealthPlant, careLogs: HealthCareLog[], now: Date): HealthFactor | null {
+    const windowStart = latestOf([subDays(now, ADHERENCE_WINDOW_DAYS), plant.createdAt]);
+    const trackedDays = differenceInCalendarDays(now, windowStart);
+    const intervals: Record<string, number | null> = {
+      WATERING: plant.wateringFrequency,
+      FERTILIZING: plant.fertilizingFrequency,
+    };
+
+    let expected = 0;
+    let logged = 0;
+    for (const type of ADHERENCE_TYPES) {
+      const intervalDays = intervals[type] || DEFAULT_CARE_INTERVALS[type];
+      const expectedOfType = Math.floor(trackedDays / intervalDays);
+      if (expectedOfType < 1) {
+        continue;
+      }
+
+      const loggedOfType = careLogs.filter(log => log.type === type && log.performedAt >= windowStart).length;
+      expected += expectedOfType;
+      logged += Math.min(loggedOfType, expectedOfType);
+    }
+
+    // Too new to have missed anything
+    if (expected === 0 || logged >= expected) {
+      return null;
+    }
+
+    return {
+      factor: 'care_adherence',
+      impact: -Math.round(ADHERENCE_WEIGHT * (1 - logged / expected)),
+      detail: `${logged} of ${expected} expected waterings and feedings logged in the last ${trackedDays} days`,
+    };
+  }
+
+  private diagnosisFactor(diagnoses: HealthDiagnosis[]): HealthFactor | null {
+    const open = diagnoses.filter(diagnosis => OPEN_DIAGNOSIS_STATUSES.includes(diagnosis.status));
+    if (open.length === 0) {
+      return null;
+    }
+
+    const penalty = open.reduce((sum, diagnosis) => {
+      const base = DIAGNOSIS_PENALTIES[diagnosis.severity || 'moderate'] ?? DIAGNOSIS_PENALTIES.moderate;
+      return sum + (diagnosis.status === 'treating' ? base / 2 : base);
+    }, 0);
+
+    return {
+      factor: 'open_diagnoses',
+      impact: -Math.round(Math.min(penalty, MAX_DIAGNOSIS_PENALTY)),
+      detail: open
+        .map(diagnosis => `${diagnosis.diagnosis || 'Unknown problem'} (${diagnosis.severity || 'moderate'}, ${diagnosis.status})`)
+        .join(', '),
+    };
+  }
+
+  private observationFactor(careLogs: HealthCareLog[], now: Date): HealthFactor | null {
+    const since = subDays(now, OBSERVATION_WINDOW_DAYS);
+    const observations = careLogs
+      .filter(log => log.type === 'OBSERVATION' && log.notes && log.performedAt >= since)
+      .sort((a, b) => b.performedAt.getTime() - a.performedAt.getTime());
+
+    for (const observation of observations) {
+      const notes = observation.notes!.toLowerCase();
+
+      // A note mentioning both ("new leaf but yellow tips") is read as a problem
+      if (NEGATIVE_OBSERVATION_KEYWORDS.some(keyword => notes.includes(keyword))) {
+        return { factor: 'observations', impact: -NEGATIVE_OBSERVATION_PENALTY, detail: observation.notes! };
+      }
+      if (POSITIVE_OBSERVATION_KEYWORDS.some(keyword => notes.includes(keyword))) {
+        return { factor: 'observations', impact: POSITIVE_OBSERVATION_BONUS, detail: observation.notes! };
+      }
+    }
+
+    return null;
+  }
+}
+
+export const plantHealthService = new PlantHealthService();
@@ -0,0 +1,188 @@
+// backend/src/services/plant-photo.service.test.ts
+import { imageRenditionService } from './image-rendition.service';
+import { plantPhotoService } from './plant-photo.service';
+import { uploadService } from './upload.service';
+import { MAX_PLANT_PHOTOS } from '../schemas/plant-photo.schemas';
+import { prismaMock, resetPrismaMock } from '../test/prisma';
+
+const USER_ID = '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0001';
+const PLANT_ID = '5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001';
+const PHOTO_IDS = [
+  '7f3a2b1c-9d8e-4f6a-b5c4-d3e2f1a00001',
+  '7f3a2b1c-9d8e-4f6a-b5c4-d3e2f1a00002',
+  '7f3a2b1c-9d8e-4f6a-b5c4-d3e2f1a00003',
+];
+const COVER_URL = '/uploads/plants/cover.jpg';
+const OTHER_URL = '/uploads/plants/other.jpg';
+
+const photo = (id: string, url: string, position: number): Record<string, unknown> => ({
+  id,
+  plantId: PLANT_ID,
+  url,
+  caption: null,
+  takenAt: new Date('2024-03-01T08:00:00Z'),
+  position,
+  careLogId: null,
+  diagnosisId: null,
+  createdAt: new Date('2024-03-01T08:00:00Z'),
+});
+
+beforeEach(() => {
+  resetPrismaMock();
+  jest.restoreAllMocks();
+  jest.spyOn(imageRenditionService, 'getRenditionsByUrls').mockResolvedValue(new Map());
+  jest.spyOn(uploadService, 'deleteByUrl').mockResolvedValue(undefined);
+  prismaMock.plant.findFirst.mockResolvedValue({ id: PLANT_ID, primaryImageUrl: COVER_URL });
+});
+
+describe('plantPhotoService.addPhoto', () => {
+  beforeEach(() => {
+    prismaMock.plantPhoto.create.mockImplementation(({ data }: { data: Record<string, unknown> }) =>
+      Promise.resolve({ id: PHOTO_IDS[2], caption: null, ...data }));
+  });
+
+  it('appends the photo after the last one inside one transaction', async () => {
+    prismaMock.plantPhoto.count.mockResolvedValue(2);
+    prismaMock.plantPhoto.findFirst.mockResolvedValue({ position: 4 });
+
+    const view = await plantPhotoService.addPhoto(PLANT_ID, USER_ID, { url: OTHER_URL });
+
+    expect(prismaMock.$transaction).toHaveBeenCalledWith(expect.any(Function));
+    expect(prismaMock.plantPhoto.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ plantId: PLANT_ID, url: OTHER_URL, position: 5 }) as object,
+    });
+    expect(prismaMock.plant.update).not.toHaveBeenCalled();
+    expect(view).toMatchObject({ url: OTHER_URL, isPrimary: false, renditions: null });
+  });
+
+  it('makes the first photo of a plant its cover', async () => {
+    prismaMock.plant.findFirst.mockResolvedValue({ id: PLANT_ID, primaryImageUrl: null });
+
+    const view = await plantPhotoService.addPhoto(PLANT_ID, USER_ID, { url: OTHER_URL });
+
+    expect(prismaMock.plantPhoto.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ position: 0 }) as object,
+    });
+    expect(prismaMock.plant.update).toHaveBeenCalledWith({ where: { id: PLANT_ID }, data: { primaryImageUrl: OTHER_URL } });
+    expect(view.isPrimary).toBe(true);
+  });
+
+  it('refuses a photo past the limit without adding it', async () => {
+    prismaMock.plantPhoto.count.mockResolvedValue(MAX_PLANT_PHOTOS);
+
+    await expect(plantPhotoService.addPhoto(PLANT_ID, USER_ID, { url: OTHER_URL })).rejects.toThrow('Too many photos');
+    expect(prismaMock.plantPhoto.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('plantPhotoService.reorderPhotos', () => {
+  beforeEach(() => {
+    prismaMock.plantPhoto.findMany.mockResolvedValue(PHOTO_IDS.map(id => ({ id })));
+    prismaMock.plantPhoto.update.mockImplementation(({ where, data }: { where: { id: string }; data: { position: number } }) =>
+      Promise.resolve(photo(where.id, OTHER_URL, data.position)));
+  });
+
+  it('numbers the photos in the requested order', async () => {
+    const order = [PHOTO_IDS[2], PHOTO_IDS[0], PHOTO_IDS[1]];
+
+    const views = await plantPhotoService.reorderPhotos(PLANT_ID, USER_ID, order);
+
+    expect(prismaMock.plantPhoto.update.mock.calls.map(([args]) => args as object)).toEqual([
+      { where: { id: PHOTO_IDS[2] }, data: { position: 0 } },
+      { where: { id: PHOTO_IDS[0] }, data: { position: 1 } },
+      { where: { id: PHOTO_IDS[1] }, data: { position: 2 } },
+    ]);
+    expect(views.map(view => view.id)).toEqual(order);
+  });
+
+  it.each([
+    ['a photo is missing', [PHOTO_IDS[0], PHOTO_IDS[1]]],
+    ['a photo is listed twice', [PHOTO_IDS[0], PHOTO_IDS[1], PHOTO_IDS[1]]],
+    ['a photo belongs to another plant', [PHOTO_IDS[0], PHOTO_IDS[1], '7f3a2b1c-9d8e-4f6a-b5c4-d3e2f1a00099']],
+  ])('rejects an order where %s', async (_case, order) => {
+    await expect(plantPhotoService.reorderPhotos(PLANT_ID, USER_ID, order)).rejects.toThrow('Invalid photo order');
+    expect(prismaMock.plantPhoto.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('plantPhotoService.deletePhoto', () => {
+  it('passes the cover to the next photo in the gallery', async () => {
+    prismaMock.plantPhoto.findFirst
+      .mockResolvedValueOnce(photo(PHOTO_IDS[0], COVER_URL, 0))
+      .mockResolvedValueOnce(photo(PHOTO_IDS[1], OTHER_URL, 1));
+
+    await plantPhotoService.deletePhoto(PLANT_ID, PHOTO_IDS[0], USER_ID);
+
+    expect(prismaMock.plantPhoto.delete).toHaveBeenCalledWith({ where: { id: PHOTO_IDS[0] } });
+    expect(prismaMock.plantPhoto.findFirst).toHaveBeenLastCalledWith({
+      where: { plantId: PLANT_ID },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+    expect(prismaMock.plant.update).toHaveBeenCalledWith({ where: { id: PLANT_ID }, data: { primaryImageUrl: OTHER_URL } });
+  });
+
+  it('clears the cover when the last photo is deleted', async () => {
+    prismaMock.plantPhoto.findFirst.mockResolvedValueOnce(photo(PHOTO_IDS[0], COVER_URL, 0));
+
+    await plantPhotoService.deletePhoto(PLANT_ID, PHOTO_IDS[0], USER_ID);
+
+    expect(prismaMock.plant.update).toHaveBeenCalledWith({ where: { id: PLANT_ID }, data: { primaryImageUrl: null } });
+  });
+
+  it('leaves the cover alone when another photo is deleted', async () => {
+    prismaMock.plantPhoto.findFirst.mockResolvedValueOnce(photo(PHOTO_IDS[1], OTHER_URL, 1));
+
+    await plantPhotoService.deletePhoto(PLANT_ID, PHOTO_IDS[1], USER_ID);
+
+    expect(prismaMock.plant.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects a photo of another plant', async () => {
+    await expect(plantPhotoService.deletePhoto(PLANT_ID, PHOTO_IDS[0], USER_ID)).rejects.toThrow('Photo not found');
+    expect(prismaMock.plantPhoto.delete).not.toHaveBeenCalled();
+  });
+});
+
+describe('plantPhotoService.deleteFileIfUnused', () => {
+  beforeEach(() => {
+    prismaMock.imageAsset.findUnique.mockResolvedValue({ userId: USER_ID });
+  });
+
+  it('deletes a file nothing points at', async () => {
+    await plantPhotoService.deleteFileIfUnused(OTHER_URL, USER_ID);
+
+    expect(uploadService.deleteByUrl).toHaveBeenCalledWith(OTHER_URL);
+  });
+
+  it.each([
+    ['another gallery photo', 'plantPhoto'],
+    ['a plant cover', 'plant'],
+    ['an identification', 'identification'],
+    ['a care log', 'careLog'],
+    ['a diagnosis', 'diagnosis'],
+  ])('keeps a file still used by %s', async (_case, model) => {
+    prismaMock[model].count.mockResolvedValue(1);
+
+    await plantPhotoService.deleteFileIfUnused(OTHER_URL, USER_ID);
+
+    expect(uploadService.deleteByUrl).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['is not a tracked upload', null],
+    ['belongs to another user', { userId: '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0002' }],
+  ])('never deletes a file that %s', async (_case, asset) => {
+    prismaMock.imageAsset.findUnique.mockResolvedValue(asset);
+
+    await plantPhotoService.deleteFileIfUnused(OTHER_URL, USER_ID);
+
+    expect(prismaMock.plantPhoto.count).not.toHaveBeenCalled();
+    expect(uploadService.deleteByUrl).not.toHaveBeenCalled();
+  });
+
+  it('does not fail the caller when the file cannot be deleted', async () => {
+    jest.spyOn(uploadService, 'deleteByUrl').mockRejectedValue(new Error('EACCES'));
+
+    await expect(plantPhotoService.deleteFileIfUnused(OTHER_URL, USER_ID)).resolves.toBeUndefined();
+  });
+});
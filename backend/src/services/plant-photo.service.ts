@@ -0,0 +1,328 @@
+// backend/src/services/plant-photo.service.ts
+import { PlantPhoto, PrismaClient } from '@prisma/client';
+import { AddPlantPhotoData, MAX_PLANT_PHOTOS, UpdatePlantPhotoData } from '../schemas/plant-photo.schemas';
+import { logger } from '../utils/logger';
+import { ImageRenditions, imageRenditionService } from './image-rendition.service';
+import { uploadService } from './upload.service';
+
+const prisma = new PrismaClient();
+
+export interface PlantPhotoView extends PlantPhoto {
+  isPrimary: boolean;
+  renditions: ImageRenditions | null;
+}
+
+export interface TimelineEntry extends PlantPhotoView {
+  careLog: { id: string; type: string; notes: string | null; performedAt: Date } | null;
+  diagnosis: { id: string; diagnosis: string | null; severity: string | null; status: string; createdAt: Date } | null;
+}
+
+type TimelinePhoto = PlantPhoto & {
+  careLog: TimelineEntry['careLog'];
+  diagnosis: TimelineEntry['diagnosis'];
+};
+
+export class PlantPhotoService {
+  // Photos of a plant in the order the user arranged them
+  async getPlantPhotos(plantId: string, userId: string): Promise<PlantPhotoView[]> {
+    try {
+      const plant = await this.getOwnedPlant(plantId, userId);
+      const photos = await prisma.plantPhoto.findMany({
+        where: { plantId },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      return this.toViews(photos, plant.primaryImageUrl);
+    } catch (error) {
+      logger.error('Failed to fetch plant photos:', error);
+      throw error;
+    }
+  }
+
+  // Growth journal: photos oldest first, with the care action or diagnosis each one documents
+  async getTimeline(plantId: string, userId: string): Promise<TimelineEntry[]> {
+    try {
+      const plant = await this.getOwnedPlant(plantId, userId);
+      const photos: TimelinePhoto[] = await prisma.plantPhoto.findMany({
+        where: { plantId },
+        orderBy: [{ takenAt: 'asc' }, { createdAt: 'asc' }],
+        include: {
+          careLog: { select: { id: true, type: true, notes: true, performedAt: true } },
+          diagnosis: { select: { id: true, diagnosis: true, severity: true, status: true, createdAt: true } },
+        },
+      });
+
+      return this.toViews(photos, plant.primaryImageUrl);
+    } catch (error) {
+      logger.error('Failed to fetch plant timeline:', error);
+      throw error;
+    }
+  }
+
+  // Add a photo at the end of the gallery; the first photo of a plant becomes its cover
+  async addPhoto(plantId: string, userId: string, data: AddPlantPhotoData): Promise<PlantPhotoView> {
+    try {
+      const plant = await this.getOwnedPlant(plantId, userId);
+      await this.assertLinks(plantId, data);
+
+      const makePrimary = data.setAsPrimary || !plant.primaryImageUrl;
+
+      // Count and position are read in the same transaction as the insert, so two uploads at once
+      // cannot both squeeze past the limit or land on the same position
+      const photo = await prisma.$transaction(async tx => {
+        const [count, last] = await Promise.all([
+          tx.plantPhoto.count({ where: { plantId } }),
+          tx.plantPhoto.findFirst({ where: { plantId }, orderBy: { position: 'desc' }, select: { position: true } }),
+        ]);
+        if (count >= MAX_PLANT_PHOTOS) {
+          throw new Error('Too many photos');
+        }
+
+        const created = await tx.plantPhoto.create({
+          data: {
+            plantId,
+            url: data.url,
+            caption: data.caption,
+            takenAt: data.takenAt ? new Date(data.takenAt) : new Date(),
+            position: last ? last.position + 1 : 0,
+            careLogId: data.careLogId,
+            diagnosisId: data.diagnosisId,
+          },
+        });
+        if (makePrimary) {
+          await tx.plant.update({ where: { id: plantId }, data: { primaryImageUrl: data.url } });
+        }
+        return created;
+      });
+
+      logger.info(`Photo ${photo.id} added to plant ${plantId}`);
+      const [view] = await this.toViews([photo], makePrimary ? data.url : plant.primaryImageUrl);
+      return view;
+    } catch (error) {
+      logger.error('Failed to add plant photo:', error);
+      throw error;
+    }
+  }
+
+  // Change a photo's caption, date or what it documents
+  async updatePhoto(
+    plantId: string,
+    photoId: string,
+    userId: string,
+    data: UpdatePlantPhotoData
+  ): Promise<PlantPhotoView> {
+    try {
+      const plant = await this.getOwnedPlant(plantId, userId);
+      await this.getPhoto(plantId, photoId);
+      await this.assertLinks(plantId, data);
+
+      const photo = await prisma.plantPhoto.update({
+        where: { id: photoId },
+        data: {
+          caption: data.caption,
+          takenAt: data.takenAt ? new Date(data.takenAt) : undefined,
+          careLogId: data.careLogId,
+          diagnosisId: data.diagnosisId,
+        },
+      });
+
+      const [view] = await this.toViews([photo], plant.primaryImageUrl);
+      return view;
+    } catch (error) {
+      logger.error('Failed to update plant photo:', error);
+      throw error;
+    }
+  }
+
+  // Put the gallery in a new order; every photo of the plant must be listed exactly once
+  async reorderPhotos(plantId: string, userId: string, photoIds: string[]): Promise<PlantPhotoView[]> {
+    try {
+      const plant = await this.getOwnedPlant(plantId, userId);
+      const photos = await prisma.plantPhoto.findMany({
+        where: { plantId },
+        select: { id: true },
+      });
+
+      const existing = new Set(photos.map(photo => photo.id));
+      const requested = new Set(photoIds);
+      if (
+        requested.size !== photoIds.length ||
+        requested.size !== existing.size ||
+        photoIds.some(id => !existing.has(id))
+      ) {
+        throw new Error('Invalid photo order');
+      }
+
+      const reordered = await prisma.$transaction(
+        photoIds.map((id, position) => prisma.plantPhoto.update({
+          where: { id },
+          data: { position },
+        }))
+      );
+
+      logger.info(`Photos of plant ${plantId} reordered`);
+      return this.toViews(reordered, plant.primaryImageUrl);
+    } catch (error) {
+      logger.error('Failed to reorder plant photos:', error);
+      throw error;
+    }
+  }
+
+  // Make a photo the plant's cover
+  async setPrimary(plantId: string, photoId: string, userId: string): Promise<PlantPhotoView> {
+    try {
+      await this.getOwnedPlant(plantId, userId);
+      const photo = await this.getPhoto(plantId, photoId);
+
+      await prisma.plant.update({
+        where: { id: plantId },
+        data: { primaryImageUrl: photo.url },
+      });
+
+      logger.info(`Photo ${photoId} set as primary for plant ${plantId}`);
+      const [view] = await this.toViews([photo], photo.url);
+      return view;
+    } catch (error) {
+      logger.error('Failed to set primary photo:', error);
+      throw error;
+    }
+  }
+
+  // Remove a photo; when it was the cover, the next photo in the gallery takes its place
+  async deletePhoto(plantId: string, photoId: string, userId: string): Promise<void> {
+    try {
+      const plant = await this.getOwnedPlant(plantId, userId);
+      const photo = await this.getPhoto(plantId, photoId);
+
+      await prisma.plantPhoto.delete({ where: { id: photoId } });
+
+      if (plant.primaryImageUrl === photo.url) {
+        const next = await prisma.plantPhoto.findFirst({
+          where: { plantId },
+          orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+        });
+        await prisma.plant.update({
+          where: { id: plantId },
+          data: { primaryImageUrl: next ? next.url : null },
+        });
+      }
+
+      await this.deleteFileIfUnused(photo.url, userId);
+
+      logger.info(`Photo ${photoId} deleted from plant ${plantId}`);
+    } catch (error) {
+      logger.error('Failed to delete plant photo:', error);
+      throw error;
+    }
+  }
+
+  // Add a plant's new cover to its gallery unless it is there already
+  async ensurePhoto(plantId: string, url: string): Promise<void> {
+    const existing = await prisma.plantPhoto.findFirst({ where: { plantId, url } });
+    if (existing) {
+      return;
+    }
+
+    const last = await prisma.plantPhoto.findFirst({
+      where: { plantId },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+    await prisma.plantPhoto.create({
+      data: { plantId, url, takenAt: new Date(), position: last ? last.position + 1 : 0 },
+    });
+  }
+
+  // The same file can back several records (an adopted plant shares its identification's photo),
+  // so it is only deleted once nothing points at it; catalogue and other users' files are never touched
+  async deleteFileIfUnused(url: string, userId: string): Promise<void> {
+    try {
+      const asset = await prisma.imageAsset.findUnique({
+        where: { url },
+        select: { userId: true },
+      });
+      if (!asset || asset.userId !== userId) {
+        return;
+      }
+
+      const references = await Promise.all([
+        prisma.plantPhoto.count({ where: { url } }),
+        prisma.plant.count({ where: { primaryImageUrl: url } }),
+        prisma.identification.count({ where: { imageUrl: url } }),
+        prisma.careLog.count({ where: { imageUrl: url } }),
+        prisma.diagnosis.count({ where: { imageUrls: { contains: url } } }),
+      ]);
+
+      if (references.every(count => count === 0)) {
+        await uploadService.deleteByUrl(url);
+      }
+    } catch (error) {
+      // The photo is gone from the journal either way; a leftover file is harmless
+      logger.warn('Failed to delete unused photo file:', error);
+    }
+  }
+
+  private async getOwnedPlant(plantId: string, userId: string): Promise<{ id: string; primaryImageUrl: string | null }> {
+    const plant = await prisma.plant.findFirst({
+      where: { id: plantId, userId, deletedAt: null },
+      select: { id: true, primaryImageUrl: true },
+    });
+
+    if (!plant) {
+      throw new Error('Plant not found');
+    }
+    return plant;
+  }
+
+  private async getPhoto(plantId: string, photoId: string): Promise<PlantPhoto> {
+    const photo = await prisma.plantPhoto.findFirst({
+      where: { id: photoId, plantId },
+    });
+
+    if (!photo) {
+      throw new Error('Photo not found');
+    }
+    return photo;
+  }
+
+  // Linked care logs and diagnoses must belong to the same plant
+  private async assertLinks(
+    plantId: string,
+    links: { careLogId?: string | null; diagnosisId?: string | null }
+  ): Promise<void> {
+    if (links.careLogId) {
+      const careLog = await prisma.careLog.findFirst({
+        where: { id: links.careLogId, plantId },
+        select: { id: true },
+      });
+      if (!careLog) {
+        throw new Error('Care log not found');
+      }
+    }
+
+    if (links.diagnosisId) {
+      const diagnosis = await prisma.diagnosis.findFirst({
+        where: { id: links.diagnosisId, plantId },
+        select: { id: true },
+      });
+      if (!diagnosis) {
+        throw new Error('Diagnosis not found');
+      }
+    }
+  }
+
+  private async toViews<T extends PlantPhoto>(
+    photos: T[],
+    primaryImageUrl: string | null
+  ): Promise<(T & Pick<PlantPhotoView, 'isPrimary' | 'renditions'>)[]> {
+    const renditions = await imageRenditionService.getRenditionsByUrls(photos.map(photo => photo.url));
+
+    return photos.map(photo => ({
+      ...photo,
+      isPrimary: photo.url === primaryImageUrl,
+      renditions: renditions.get(photo.url) || null,
+    }));
+  }
+}
+
+export const plantPhotoService = new PlantPhotoService();
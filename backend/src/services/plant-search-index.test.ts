@@ -0,0 +1,75 @@
+// backend/src/services/plant-search-index.test.ts
+import { PlantSearchIndex, normalizeSearchText } from './plant-search-index';
+
+const index = new PlantSearchIndex([
+  { id: 'monstera', names: ['Monstera', 'Swiss Cheese Plant'], arabicNames: ['مونستيرا'], scientificName: 'Monstera deliciosa' },
+  { id: 'mint', names: ['Mint', 'Spearmint'], arabicNames: ['نعناع'], scientificName: 'Mentha spicata' },
+  { id: 'jasmine', names: ['Jasmine'], arabicNames: ['الياسمين', 'فل'], scientificName: 'Jasminum sambac' },
+  { id: 'hibiscus', names: ['Hibiscus'], arabicNames: ['كركديه'], scientificName: 'Hibiscus sabdariffa' },
+  { id: 'peace-lily', names: ['Peace Lily'], arabicNames: ['زنبقة السلام'], scientificName: 'Spathiphyllum wallisii' },
+  { id: 'basil', names: ['Basil'], arabicNames: ['ريحان', 'حبق'], scientificName: 'Ocimum basilicum' },
+]);
+
+const top = (query: string): { id: string; matchedOn: string[] } | undefined => index.search(query, 1)[0];
+
+describe('normalizeSearchText', () => {
+  it.each([
+    ['  Peace-Lily! ', 'peace lily'],
+    ['الياسمين', 'ياسمين'],
+    ['زَهْرة الـيـاسمين', 'زهره ياسمين'],
+  ])('normalizes %j to %j', (text, normalized) => {
+    expect(normalizeSearchText(text)).toBe(normalized);
+  });
+});
+
+describe('PlantSearchIndex.search', () => {
+  it.each([
+    // query, expected plant, one of the signals it matched on
+    ['monstera', 'monstera', 'exact_name'],
+    ['Monstera Deliciosa', 'monstera', 'exact_name'],
+    ['my peace lily is drooping', 'peace-lily', 'name_in_text'],
+    ['mon', 'monstera', 'partial_name'],
+    ['cheese plant', 'monstera', 'token_overlap'],
+    ['ياسمين', 'jasmine', 'exact_name'],
+    ['يَاسَمِين', 'jasmine', 'exact_name'],
+    ['الفل', 'jasmine', 'exact_name'],
+    ['زنبقه', 'peace-lily', 'arabic_name'],
+    ['jasminum', 'jasmine', 'genus'],
+    ['monstra', 'monstera', 'fuzzy'],
+    ['hibiscis', 'hibiscus', 'fuzzy'],
+    ['na3na3', 'mint', 'phonetic'],
+    ['7abaq', 'basil', 'phonetic'],
+    ['karkade', 'hibiscus', 'phonetic'],
+    ['zanba2et el salam', 'peace-lily', 'phonetic'],
+  ])('finds %j as %s (%s)', (query, id, signal) => {
+    const hit = top(query);
+
+    expect(hit?.id).toBe(id);
+    expect(hit?.matchedOn).toContain(signal);
+  });
+
+  it('gives only exact names a full score', () => {
+    expect(index.search('mint', 1)[0].score).toBe(1);
+    expect(index.search('spearmint leaves', 1)[0].score).toBeLessThan(1);
+    expect(index.search('na3na3', 1)[0].score).toBeLessThanOrEqual(0.97);
+  });
+
+  it('ranks better matches first and keeps to the limit', () => {
+    const hits = index.search('basil mint', 5);
+
+    expect(hits.map(hit => hit.id).sort()).toEqual(['basil', 'mint']);
+    expect(index.search('basil mint', 1)).toHaveLength(1);
+  });
+
+  it.each([
+    ['an empty query', '   '],
+    ['a query that matches nothing', 'cactus'],
+    ['only generic words', 'plant tree'],
+  ])('returns nothing for %s', (_case, query) => {
+    expect(index.search(query, 5)).toEqual([]);
+  });
+
+  it('leaves out hits below the minimum score', () => {
+    expect(index.search('mon', 5, 0.99)).toEqual([]);
+  });
+});
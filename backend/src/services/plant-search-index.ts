@@ -0,0 +1,167 @@
+// backend/src/services/plant-search-index.ts
+import { containsArabic, isFrancoArabic, normalizeArabic, phoneticKey, removeArabicMarks } from '../utils/arabic';
+import { editSimilarity, normalizeText, tokenOverlap } from '../utils/text-similarity';
+
+export type MatchSignal =
+  | 'exact_name'
+  | 'name_in_text'
+  | 'partial_name'
+  | 'token_overlap'
+  | 'arabic_name'
+  | 'genus'
+  | 'fuzzy'
+  | 'phonetic';
+
+export interface SearchableEntry {
+  id: string;
+  names: string[]; // English names, catalogue key and other Latin-script aliases
+  arabicNames: string[];
+  scientificName: string;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number; // 0-1
+  matchedOn: MatchSignal[];
+}
+
+interface IndexedEntry {
+  id: string;
+  latinNames: string[];
+  arabicNames: string[];
+  latinTokens: string[];
+  arabicTokens: string[];
+  arabicKeys: Set<string>; // Phonetic keys of the Arabic name words
+  genus: string;
+}
+
+const DEFAULT_MIN_SCORE = 0.3;
+
+// Words shared by many catalogue names that say nothing about the species
+const GENERIC_TOKENS = new Set(['plant', 'tree', 'نبات', 'شجره']);
+
+// Case, punctuation, diacritics, alef/hamza variants and the Arabic article don't matter
+export const normalizeSearchText = (text: string): string => normalizeArabic(normalizeText(removeArabicMarks(text)));
+
+const specificTokens = (names: string[]): string[] =>
+  names.flatMap(name => name.split(' ')).filter(token => token && !GENERIC_TOKENS.has(token));
+
+// In-memory fuzzy index over plant names in English, Latin and Arabic (incl. Franco-Arabic)
+export class PlantSearchIndex {
+  private readonly entries: IndexedEntry[];
+
+  constructor(entries: SearchableEntry[]) {
+    this.entries = entries.map(entry => {
+      const latinNames = [...entry.names, entry.scientificName].map(normalizeSearchText).filter(Boolean);
+      const arabicNames = entry.arabicNames.map(normalizeSearchText).filter(Boolean);
+      const arabicTokens = specificTokens(arabicNames);
+
+      return {
+        id: entry.id,
+        latinNames,
+        arabicNames,
+        latinTokens: specificTokens(latinNames),
+        arabicTokens,
+        arabicKeys: new Set(arabicTokens.map(phoneticKey).filter(key => key.length >= 2)),
+        genus: normalizeSearchText(entry.scientificName).split(' ')[0],
+      };
+    });
+  }
+
+  // Best matches first; entries scoring below minScore are left out
+  search(query: string, limit: number, minScore: number = DEFAULT_MIN_SCORE): SearchHit[] {
+    const normalizedQuery = normalizeSearchText(query);
+    if (!normalizedQuery) {
+      return [];
+    }
+
+    return this.entries
+      .map(entry => this.score(normalizedQuery, entry))
+      .filter(hit => hit.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Each signal gives a score; the strongest wins and every extra signal adds a little
+  private score(query: string, entry: IndexedEntry): SearchHit {
+    const queryTokens = query.split(' ').filter(token => !GENERIC_TOKENS.has(token));
+    // One Franco-Arabic word means the other Latin words are transliterated Arabic too
+    const francoQuery = queryTokens.some(isFrancoArabic);
+    const signals = new Map<MatchSignal, number>();
+    const addSignal = (signal: MatchSignal, score: number): void => {
+      signals.set(signal, Math.max(signals.get(signal) || 0, score));
+    };
+
+    for (const name of [...entry.latinNames, ...entry.arabicNames]) {
+      if (query === name) {
+        addSignal('exact_name', 1);
+      } else if (` ${query} `.includes(` ${name} `)) {
+        addSignal('name_in_text', 0.9);
+      } else if (name.includes(query)) {
+        // Partial search term, e.g. "mon" for Monstera
+        addSignal('partial_name', 0.5 + 0.4 * (query.length / name.length));
+      }
+    }
+
+    const latinOverlap = tokenOverlap(queryTokens, entry.latinTokens);
+    if (latinOverlap > 0) {
+      addSignal('token_overlap', 0.8 * latinOverlap);
+    }
+
+    const arabicOverlap = tokenOverlap(queryTokens, entry.arabicTokens);
+    if (arabicOverlap > 0) {
+      addSignal('arabic_name', 0.85 * arabicOverlap);
+    }
+
+    if (queryTokens.includes(entry.genus)) {
+      addSignal('genus', 0.7);
+    }
+
+    for (const token of queryTokens) {
+      const isArabic = containsArabic(token);
+
+      // Typos such as "monstra", "hibiscis" or "ياسمبن"
+      const nameTokens = isArabic ? entry.arabicTokens : entry.latinTokens;
+      if (token.length >= (isArabic ? 3 : 4)) {
+        for (const nameToken of nameTokens) {
+          const similarity = editSimilarity(token, nameToken);
+          if (similarity >= 0.75 && similarity < 1) {
+            addSignal('fuzzy', 0.75 * similarity);
+          }
+        }
+      }
+
+      // Franco-Arabic ("na3na3", "zanba2et el salam") or Arabic spelled with a sound-alike letter
+      const key = phoneticKey(token);
+      const trustworthy = isArabic || francoQuery;
+      if (trustworthy ? key.length >= 2 : key.length >= 3) {
+        if (entry.arabicKeys.has(key)) {
+          addSignal('phonetic', trustworthy ? 0.8 : 0.6);
+        } else if (trustworthy && key.length >= 3) {
+          // Vowel endings and Egyptian ق spelled as 2 shift the skeleton by a letter
+          for (const arabicKey of entry.arabicKeys) {
+            const similarity = editSimilarity(key, arabicKey);
+            if (similarity >= 0.75) {
+              addSignal('phonetic', 0.8 * similarity);
+            }
+          }
+        }
+      }
+    }
+
+    if (signals.size === 0) {
+      return { id: entry.id, score: 0, matchedOn: [] };
+    }
+
+    // Only an exact name match may reach 1
+    const ranked = Array.from(signals.entries()).sort((a, b) => b[1] - a[1]);
+    const ceiling = signals.has('exact_name') ? 1 : 0.97;
+    const score = Math.min(ranked[0][1] + 0.03 * (ranked.length - 1), ceiling);
+
+    return {
+      id: entry.id,
+      score: Math.round(score * 100) / 100,
+      matchedOn: ranked.map(([signal]) => signal),
+    };
+  }
+}
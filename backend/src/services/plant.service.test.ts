@@ -0,0 +1,98 @@
+// backend/src/services/plant.service.test.ts
+import { prismaMock, resetPrismaMock } from '../test/prisma';
+import { plantPhotoService } from './plant-photo.service';
+import { plantService } from './plant.service';
+
+const USER_ID = '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0001';
+
+// 00:30 on 16 January in Cairo, while the date is still 15 January in UTC
+const now = new Date('2024-01-15T22:30:00Z');
+
+const dueBefore = (): Date[] => prismaMock.plant.count.mock.calls
+  .map(([args]: [{ where: { nextCareDueAt?: { lt: Date } } }]) => args.where.nextCareDueAt?.lt)
+  .filter((date: Date | undefined): date is Date => date !== undefined);
+
+describe('plantService care due windows', () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    prismaMock.user.findUnique.mockResolvedValue({ timezone: 'Africa/Cairo' });
+  });
+
+  it('counts the stats from midnight in the user\'s time zone', async () => {
+    await plantService.getPlantStats(USER_ID, now);
+
+    // Cairo is UTC+2 in January
+    expect(dueBefore()).toEqual([
+      new Date('2024-01-16T22:00:00Z'),
+      new Date('2024-01-15T22:00:00Z'),
+    ]);
+  });
+
+  it('filters the plant list from midnight in the user\'s time zone', async () => {
+    prismaMock.user.findUnique.mockResolvedValue({ timezone: 'Asia/Tokyo' });
+
+    await plantService.getUserPlants(USER_ID, { careDue: 'week' }, now);
+
+    // 07:30 on 16 January in Tokyo; the week runs until midnight starting 24 January
+    expect(dueBefore()).toEqual([new Date('2024-01-23T15:00:00Z')]);
+  });
+});
+
+describe('plantService.purgeDeletedPlants', () => {
+  const now = new Date('2024-03-01T03:00:00Z');
+
+  const trashedPlant = (id: string, overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+    id,
+    userId: USER_ID,
+    primaryImageUrl: `/uploads/${id}.jpg`,
+    photos: [{ url: `/uploads/${id}.jpg` }, { url: `/uploads/${id}-2.jpg` }],
+    careLogs: [],
+    diagnoses: [],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.restoreAllMocks();
+    jest.spyOn(plantPhotoService, 'deleteFileIfUnused').mockResolvedValue(undefined as never);
+  });
+
+  it('deletes plants that have been in the trash for 30 days and their unused files', async () => {
+    prismaMock.plant.findMany.mockResolvedValue([
+      trashedPlant('5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001', {
+        diagnoses: [{ imageUrls: JSON.stringify(['/uploads/diagnosis.jpg']) }],
+      }),
+    ]);
+
+    const result = await plantService.purgeDeletedPlants(now);
+
+    expect(result).toEqual({ purged: 1, failed: 0 });
+    expect(prismaMock.plant.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { deletedAt: { lt: new Date('2024-01-31T03:00:00Z') }, id: { gt: '' } },
+    }));
+    expect(prismaMock.plant.delete).toHaveBeenCalledWith({ where: { id: '5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001' } });
+    // The primary image is also in the photos and is only checked once
+    expect(jest.mocked(plantPhotoService.deleteFileIfUnused).mock.calls).toEqual([
+      ['/uploads/5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001.jpg', USER_ID],
+      ['/uploads/5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001-2.jpg', USER_ID],
+      ['/uploads/diagnosis.jpg', USER_ID],
+    ]);
+  });
+
+  it('keeps going when one plant fails, and leaves its files', async () => {
+    prismaMock.plant.findMany.mockResolvedValue([
+      trashedPlant('5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0001'),
+      trashedPlant('5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0002', { photos: [] }),
+    ]);
+    prismaMock.plant.delete
+      .mockRejectedValueOnce(new Error('database is locked'))
+      .mockResolvedValueOnce({});
+
+    const result = await plantService.purgeDeletedPlants(now);
+
+    expect(result).toEqual({ purged: 1, failed: 1 });
+    expect(jest.mocked(plantPhotoService.deleteFileIfUnused).mock.calls).toEqual([
+      ['/uploads/5a0d9b1e-3c2f-4e8a-b1d7-6f1e2a3b0002.jpg', USER_ID],
+    ]);
+  });
+});
@@ -1,6 +1,15 @@
 // backend/src/services/plant.service.ts
+import crypto from 'crypto';
 import { PrismaClient, Plant, Prisma } from '@prisma/client';
+import { addDays, subDays } from 'date-fns';
+import { PlantQuery } from '../schemas/plant.schemas';
 import { logger } from '../utils/logger';
+import { addLocalDays, getZonedParts, zonedTimeToUtc } from '../utils/timezone';
+import { careScheduleService } from './care-schedule.service';
+import { ImageRenditions, imageRenditionService } from './image-rendition.service';
+import { HEALTH_STATUSES, HealthStatus, plantHealthService } from './plant-health.service';
+import { plantPhotoService } from './plant-photo.service';
+import { spaceService } from './space.service';
 
 const prisma = new PrismaClient();
 
@@ -17,6 +26,11 @@ export interface CreatePlantDto {
   temperatureMax?: number;
   humidityRequirement?: 'low' | 'moderate' | 'high';
   location?: string; // JSON string for location data
+  spaceId?: string | null;
+  environment?: 'indoor' | 'outdoor'; // Defaults to the space's, then to the species'
+  identificationSource?: 'vision' | 'keyword' | 'mock' | 'manual';
+  identificationConfidence?: number;
+  primaryImageUrl?: string; // Also becomes the first photo of the plant's journal
 }
 
 export interface UpdatePlantDto {
@@ -32,55 +46,139 @@ export interface UpdatePlantDto {
   temperatureMax?: number;
   humidityRequirement?: 'low' | 'moderate' | 'high';
   location?: string;
+  spaceId?: string | null; // Null takes the plant out of its space
+  environment?: 'indoor' | 'outdoor'; // Defaults to the new space's when the plant moves
   primaryImageUrl?: string;
 }
 
+export interface PlantView extends Plant {
+  primaryImageRenditions: ImageRenditions | null; // Null for external URLs and until the resize job has run
+}
+
+export interface PlantPage {
+  plants: PlantView[];
+  total: number; // Plants matching the filters, across all pages
+  limit: number;
+  offset: number;
+  nextCursor: string | null; // Null on the last page
+}
+
+export interface PlantStats {
+  total: number;
+  indoor: number;
+  outdoor: number;
+  byHealthStatus: Record<HealthStatus, number>;
+  bySpace: Array<{ spaceId: string | null; name: string | null; count: number }>; // Null for plants in no space
+  bySpecies: Array<{ scientificName: string; count: number }>; // Most kept species first
+  careDueToday: number; // Plants with care due by the end of today, overdue included
+  careOverdue: number;
+}
+
+export interface TrashedPlantView extends PlantView {
+  purgeAt: Date; // When the purge job will delete the plant for good
+}
+
+export const DEFAULT_PLANT_PAGE_SIZE = 20;
+
+// Days a deleted plant stays in the trash before it is purged
+export const PLANT_TRASH_DAYS = Number(process.env.PLANT_TRASH_DAYS) || 30;
+
+const PURGE_BATCH_SIZE = 100;
+
+const TOP_SPECIES_COUNT = 10;
+
 export class PlantService {
   // Create new plant
-  async create(userId: string, plantData: CreatePlantDto): Promise<Plant> {
+  async create(userId: string, plantData: CreatePlantDto): Promise<PlantView> {
+    const environment = await this.resolveEnvironment(userId, plantData);
+
     try {
       const plant = await prisma.plant.create({
-        data: {
-          ...plantData,
-          userId,
-          // Set default location to Cairo if not provided
-          location: plantData.location || JSON.stringify({
-            city: 'Cairo',
-            governorate: 'Cairo',
-            latitude: 30.0444,
-            longitude: 31.2357,
-          }),
-        },
+        data: this.buildCreateData(userId, plantData, environment),
       });
 
-      logger.info(`Plant created successfully: ${plant.id}`);
-      return plant;
+      return await this.completeCreate(plant);
     } catch (error) {
       logger.error('Failed to create plant:', error);
       throw new Error('Failed to create plant');
     }
   }
 
-  // Get all plants for a user
-  async getUserPlants(userId: string): Promise<Plant[]> {
+  // Create a plant only if `claim` succeeds in the same transaction, before the plant is written;
+  // returns null when it does not. The claim gets the new plant's ID so it can link to it
+  async createIfClaimed(
+    userId: string,
+    plantData: CreatePlantDto,
+    claim: (tx: Prisma.TransactionClient, plantId: string) => Promise<boolean>
+  ): Promise<PlantView | null> {
+    const environment = await this.resolveEnvironment(userId, plantData);
+
     try {
-      const plants = await prisma.plant.findMany({
-        where: { 
-          userId,
-          deletedAt: null // Only get non-deleted plants
-        },
-        orderBy: { createdAt: 'desc' },
+      const plantId = crypto.randomUUID();
+      const plant = await prisma.$transaction(async tx => {
+        if (!(await claim(tx, plantId))) {
+          return null;
+        }
+        return tx.plant.create({
+          data: { ...this.buildCreateData(userId, plantData, environment), id: plantId },
+        });
       });
 
-      return plants;
+      return plant ? await this.completeCreate(plant) : null;
+    } catch (error) {
+      logger.error('Failed to create plant:', error);
+      throw new Error('Failed to create plant');
+    }
+  }
+
+  // Get a page of the user's plants, filtered and sorted; pages by cursor or by offset
+  async getUserPlants(userId: string, query: PlantQuery = {}, now: Date = new Date()): Promise<PlantPage> {
+    const limit = query.limit || DEFAULT_PLANT_PAGE_SIZE;
+    const offset = query.offset || 0;
+    const sort = query.sort || 'createdAt';
+    const order = query.order || (sort === 'createdAt' ? 'desc' : 'asc');
+
+    try {
+      if (query.cursor) {
+        const cursorPlant = await prisma.plant.findFirst({
+          where: { id: query.cursor, userId },
+          select: { id: true },
+        });
+        if (!cursorPlant) {
+          throw new Error('Invalid cursor');
+        }
+      }
+
+      const timeZone = await careScheduleService.getUserTimezone(userId);
+      const where = this.buildListFilter(userId, query, now, timeZone);
+      const [plants, total] = await Promise.all([
+        prisma.plant.findMany({
+          where,
+          // The id breaks ties so pages stay stable when names or dates repeat
+          orderBy: [{ [sort]: order }, { id: order }],
+          // One extra row tells whether another page follows
+          take: limit + 1,
+          ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : { skip: offset }),
+        }),
+        prisma.plant.count({ where }),
+      ]);
+
+      const page = plants.slice(0, limit);
+      return {
+        plants: await this.withRenditions(page),
+        total,
+        limit,
+        offset: query.cursor ? 0 : offset,
+        nextCursor: plants.length > limit ? page[page.length - 1].id : null,
+      };
     } catch (error) {
       logger.error('Failed to fetch user plants:', error);
-      throw new Error('Failed to fetch plants');
+      throw error;
     }
   }
 
   // Get single plant by ID
-  async getPlantById(plantId: string, userId: string): Promise<Plant | null> {
+  async getPlantById(plantId: string, userId: string): Promise<PlantView | null> {
     try {
       const plant = await prisma.plant.findFirst({
         where: { 
@@ -90,7 +188,11 @@ export class PlantService {
         },
       });
 
-      return plant;
+      if (!plant) {
+        return null;
+      }
+      const [view] = await this.withRenditions([plant]);
+      return view;
     } catch (error) {
       logger.error('Failed to fetch plant:', error);
       throw new Error('Failed to fetch plant');
@@ -98,31 +200,51 @@ export class PlantService {
   }
 
   // Update plant
-  async updatePlant(plantId: string, userId: string, updates: UpdatePlantDto): Promise<Plant> {
+  async updatePlant(plantId: string, userId: string, updates: UpdatePlantDto): Promise<PlantView> {
     try {
       // Check if plant exists and belongs to user
       const existingPlant = await this.getPlantById(plantId, userId);
       if (!existingPlant) {
         throw new Error('Plant not found');
       }
+      let environment: string | undefined = updates.environment;
+      if (updates.spaceId) {
+        const space = await spaceService.getOwnedSpace(updates.spaceId, userId);
+        environment = environment || space.environment;
+      }
 
       const updatedPlant = await prisma.plant.update({
         where: { id: plantId },
         data: {
           ...updates,
+          environment,
           updatedAt: new Date(),
         },
       });
 
+      if (updates.primaryImageUrl) {
+        await plantPhotoService.ensurePhoto(plantId, updates.primaryImageUrl);
+      }
+
+      updatedPlant.nextCareDueAt = await careScheduleService.refreshNextCareDue(plantId);
+
+      // Care frequencies decide what counts as overdue
+      const assessment = await plantHealthService.recalculate(plantId);
+      if (assessment) {
+        updatedPlant.healthScore = assessment.score;
+        updatedPlant.healthStatus = assessment.status;
+      }
+
       logger.info(`Plant updated successfully: ${plantId}`);
-      return updatedPlant;
+      const [view] = await this.withRenditions([updatedPlant]);
+      return view;
     } catch (error) {
       logger.error('Failed to update plant:', error);
       throw error;
     }
   }
 
-  // Soft delete plant
+  // Soft delete plant; it stays in the trash until the purge job removes it
   async deletePlant(plantId: string, userId: string): Promise<void> {
     try {
       // Check if plant exists and belongs to user
@@ -145,31 +267,285 @@ export class PlantService {
     }
   }
 
-  // Get plant statistics
-  async getPlantStats(userId: string) {
+  // Get the user's deleted plants, most recently deleted first
+  async getTrash(userId: string): Promise<TrashedPlantView[]> {
     try {
-      const totalPlants = await prisma.plant.count({
-        where: { userId, deletedAt: null }
+      const plants = await prisma.plant.findMany({
+        where: { userId, deletedAt: { not: null } },
+        orderBy: { deletedAt: 'desc' },
+      });
+
+      const views = await this.withRenditions(plants);
+      return views.map(plant => ({
+        ...plant,
+        purgeAt: addDays(plant.deletedAt!, PLANT_TRASH_DAYS),
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch deleted plants:', error);
+      throw new Error('Failed to fetch deleted plants');
+    }
+  }
+
+  // Take a plant back out of the trash
+  async restorePlant(plantId: string, userId: string): Promise<PlantView> {
+    try {
+      const trashed = await prisma.plant.findFirst({
+        where: { id: plantId, userId, deletedAt: { not: null } },
+        select: { id: true },
       });
+      if (!trashed) {
+        throw new Error('Plant not found');
+      }
 
-      const indoorPlants = await prisma.plant.count({
-        where: { userId, environment: 'indoor', deletedAt: null }
+      const plant = await prisma.plant.update({
+        where: { id: plantId },
+        data: { deletedAt: null },
       });
 
-      const outdoorPlants = await prisma.plant.count({
-        where: { userId, environment: 'outdoor', deletedAt: null }
+      // Health is not recalculated while a plant is in the trash
+      const assessment = await plantHealthService.recalculate(plantId);
+      if (assessment) {
+        plant.healthScore = assessment.score;
+        plant.healthStatus = assessment.status;
+      }
+
+      logger.info(`Plant restored successfully: ${plantId}`);
+      const [view] = await this.withRenditions([plant]);
+      return view;
+    } catch (error) {
+      logger.error('Failed to restore plant:', error);
+      throw error;
+    }
+  }
+
+  // Permanently delete plants that have been in the trash longer than PLANT_TRASH_DAYS,
+  // with their care logs, diagnoses, photos and the files nothing else uses
+  async purgeDeletedPlants(now: Date = new Date()): Promise<{ purged: number; failed: number }> {
+    const cutoff = subDays(now, PLANT_TRASH_DAYS);
+    let purged = 0;
+    let failed = 0;
+    let lastId = '';
+
+    for (;;) {
+      const plants = await prisma.plant.findMany({
+        where: { deletedAt: { lt: cutoff }, id: { gt: lastId } },
+        orderBy: { id: 'asc' },
+        take: PURGE_BATCH_SIZE,
+        select: {
+          id: true,
+          userId: true,
+          primaryImageUrl: true,
+          photos: { select: { url: true } },
+          careLogs: { where: { imageUrl: { not: null } }, select: { imageUrl: true } },
+          diagnoses: { where: { imageUrls: { not: null } }, select: { imageUrls: true } },
+        },
       });
 
+      for (const plant of plants) {
+        try {
+          // Care logs, diagnoses and photos go with the plant (cascade)
+          await prisma.plant.delete({ where: { id: plant.id } });
+          purged++;
+        } catch (error) {
+          logger.error(`Failed to purge plant ${plant.id}:`, error);
+          failed++;
+          continue;
+        }
+
+        const urls = new Set([
+          ...(plant.primaryImageUrl ? [plant.primaryImageUrl] : []),
+          ...plant.photos.map(photo => photo.url),
+          ...plant.careLogs.map(careLog => careLog.imageUrl!),
+          ...plant.diagnoses.flatMap(diagnosis => this.parseUrls(diagnosis.imageUrls)),
+        ]);
+        for (const url of urls) {
+          await plantPhotoService.deleteFileIfUnused(url, plant.userId);
+        }
+      }
+
+      if (plants.length < PURGE_BATCH_SIZE) {
+        break;
+      }
+      lastId = plants[plants.length - 1].id;
+    }
+
+    logger.info(`Deleted plants purged: ${purged} purged, ${failed} failed`);
+    return { purged, failed };
+  }
+
+  // Get plant statistics
+  async getPlantStats(userId: string, now: Date = new Date()): Promise<PlantStats> {
+    try {
+      const where: Prisma.PlantWhereInput = { userId, deletedAt: null };
+      const timeZone = await careScheduleService.getUserTimezone(userId);
+      const [total, byEnvironment, byHealth, bySpace, bySpecies, spaces, dueToday, overdue] = await Promise.all([
+        prisma.plant.count({ where }),
+        prisma.plant.groupBy({ by: ['environment'], where, _count: { _all: true } }),
+        prisma.plant.groupBy({ by: ['healthStatus'], where, _count: { _all: true } }),
+        prisma.plant.groupBy({ by: ['spaceId'], where, _count: { _all: true } }),
+        prisma.plant.groupBy({
+          by: ['scientificName'],
+          where: { ...where, scientificName: { not: null } },
+          _count: { _all: true },
+          orderBy: { _count: { scientificName: 'desc' } },
+          take: TOP_SPECIES_COUNT,
+        }),
+        prisma.space.findMany({ where: { userId }, select: { id: true, name: true } }),
+        prisma.plant.count({ where: { ...where, nextCareDueAt: { lt: this.localDayStart(now, 1, timeZone) } } }),
+        prisma.plant.count({ where: { ...where, nextCareDueAt: { lt: this.localDayStart(now, 0, timeZone) } } }),
+      ]);
+
+      const countOf = <T>(groups: Array<T & { _count: { _all: number } }>, match: (group: T) => boolean): number =>
+        groups.find(match)?._count._all || 0;
+      const spaceNames = new Map(spaces.map(space => [space.id, space.name]));
+
       return {
-        total: totalPlants,
-        indoor: indoorPlants,
-        outdoor: outdoorPlants,
+        total,
+        indoor: countOf(byEnvironment, group => group.environment === 'indoor'),
+        outdoor: countOf(byEnvironment, group => group.environment === 'outdoor'),
+        byHealthStatus: Object.fromEntries(
+          HEALTH_STATUSES.map(status => [status, countOf(byHealth, group => group.healthStatus === status)])
+        ) as Record<HealthStatus, number>,
+        bySpace: bySpace
+          .map(group => ({
+            spaceId: group.spaceId,
+            name: group.spaceId ? spaceNames.get(group.spaceId) || null : null,
+            count: group._count._all,
+          }))
+          .sort((a, b) => b.count - a.count),
+        bySpecies: bySpecies.map(group => ({
+          scientificName: group.scientificName!,
+          count: group._count._all,
+        })),
+        careDueToday: dueToday,
+        careOverdue: overdue,
       };
     } catch (error) {
       logger.error('Failed to fetch plant stats:', error);
       throw new Error('Failed to fetch plant statistics');
     }
   }
+
+  // An explicit choice wins, then the space the plant is in, then where the species usually grows
+  private async resolveEnvironment(userId: string, plantData: CreatePlantDto): Promise<string> {
+    if (plantData.spaceId) {
+      const space = await spaceService.getOwnedSpace(plantData.spaceId, userId);
+      return plantData.environment || space.environment;
+    }
+    if (plantData.environment) {
+      return plantData.environment;
+    }
+
+    if (plantData.scientificName) {
+      const species = await prisma.species.findUnique({
+        where: { scientificName: plantData.scientificName },
+        select: { environment: true },
+      });
+      if (species && species.environment !== 'both') {
+        return species.environment;
+      }
+    }
+    return 'indoor';
+  }
+
+  private parseUrls(value: string | null): string[] {
+    if (!value) {
+      return [];
+    }
+
+    try {
+      const urls: unknown = JSON.parse(value);
+      return Array.isArray(urls) ? urls.filter((url): url is string => typeof url === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  // Midnight in the user's time zone, a number of days after the local date of now
+  private localDayStart(now: Date, days: number, timeZone: string): Date {
+    return zonedTimeToUtc(addLocalDays(getZonedParts(now, timeZone), days), 0, 0, timeZone);
+  }
+
+  // Care due windows count calendar days in the user's time zone, like the care schedule
+  private buildListFilter(userId: string, query: PlantQuery, now: Date, timeZone: string): Prisma.PlantWhereInput {
+    const where: Prisma.PlantWhereInput = { userId, deletedAt: null };
+
+    if (query.search) {
+      where.OR = [
+        { name: { contains: query.search } },
+        { scientificName: { contains: query.search } },
+        { variety: { contains: query.search } },
+      ];
+    }
+    if (query.healthStatus) {
+      where.healthStatus = query.healthStatus;
+    }
+    if (query.sunlight) {
+      where.sunlightRequirement = query.sunlight;
+    }
+    if (query.location) {
+      where.location = { contains: query.location };
+    }
+    if (query.spaceId) {
+      where.spaceId = query.spaceId;
+    }
+    if (query.environment) {
+      where.environment = query.environment;
+    }
+    if (query.careDue) {
+      const daysAhead = { overdue: 0, today: 1, week: 8 }[query.careDue];
+      where.nextCareDueAt = { lt: this.localDayStart(now, daysAhead, timeZone) };
+    }
+
+    return where;
+  }
+
+  // Row of a new plant; its first photo is the primary image, if it has one
+  private buildCreateData(userId: string, plantData: CreatePlantDto, environment: string): Prisma.PlantUncheckedCreateInput {
+    return {
+      ...plantData,
+      environment,
+      userId,
+      // Set default location to Cairo if not provided
+      location: plantData.location || JSON.stringify({
+        city: 'Cairo',
+        governorate: 'Cairo',
+        latitude: 30.0444,
+        longitude: 31.2357,
+      }),
+      ...(plantData.primaryImageUrl && {
+        photos: {
+          create: { url: plantData.primaryImageUrl, takenAt: new Date(), position: 0 },
+        },
+      }),
+    };
+  }
+
+  // Care schedule and health of a new plant are derived once it is stored
+  private async completeCreate(plant: Plant): Promise<PlantView> {
+    plant.nextCareDueAt = await careScheduleService.refreshNextCareDue(plant.id);
+
+    const assessment = await plantHealthService.recalculate(plant.id);
+    if (assessment) {
+      plant.healthScore = assessment.score;
+      plant.healthStatus = assessment.status;
+    }
+
+    logger.info(`Plant created successfully: ${plant.id}`);
+    const [view] = await this.withRenditions([plant]);
+    return view;
+  }
+
+  // Attach the resized versions of each plant's primary photo
+  private async withRenditions(plants: Plant[]): Promise<PlantView[]> {
+    const urls = plants.map(plant => plant.primaryImageUrl).filter((url): url is string => !!url);
+    const renditions = await imageRenditionService.getRenditionsByUrls(urls);
+
+    return plants.map(plant => ({
+      ...plant,
+      primaryImageRenditions: plant.primaryImageUrl ? renditions.get(plant.primaryImageUrl) || null : null,
+    }));
+  }
 }
 
 export const plantService = new PlantService();
\ No newline at end of file
@@ -0,0 +1,127 @@
+// backend/src/services/space.service.test.ts
+import { careService } from './care.service';
+import { spaceService } from './space.service';
+import { MAX_SPACES } from '../schemas/space.schemas';
+import { prismaMock, resetPrismaMock } from '../test/prisma';
+
+const USER_ID = '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0001';
+const SPACE_ID = '9e8d7c6b-5a49-4382-9170-6f5e4d3c0001';
+const OTHER_SPACE_ID = '9e8d7c6b-5a49-4382-9170-6f5e4d3c0002';
+
+const storedSpace = (data: Record<string, unknown>): Record<string, unknown> => ({
+  id: SPACE_ID,
+  userId: USER_ID,
+  name: 'Balcony',
+  environment: 'outdoor',
+  lightExposure: null,
+  orientation: null,
+  _count: { plants: 3 },
+  ...data,
+});
+
+beforeEach(() => {
+  resetPrismaMock();
+  jest.restoreAllMocks();
+  prismaMock.space.create.mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve(storedSpace(data)));
+  prismaMock.space.update.mockImplementation(({ data }: { data: Record<string, unknown> }) => Promise.resolve(storedSpace(data)));
+});
+
+describe('spaceService.createSpace', () => {
+  it('creates the space and reports its plant count', async () => {
+    const space = await spaceService.createSpace(USER_ID, { name: 'Kitchen', environment: 'indoor' });
+
+    expect(prismaMock.space.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: { name: 'Kitchen', environment: 'indoor', userId: USER_ID },
+    }));
+    expect(space).toMatchObject({ name: 'Kitchen', plantCount: 3 });
+    expect(space).not.toHaveProperty('_count');
+  });
+
+  it('rejects a name the user already has', async () => {
+    prismaMock.space.findUnique.mockResolvedValue({ id: OTHER_SPACE_ID });
+
+    await expect(spaceService.createSpace(USER_ID, { name: 'Balcony' })).rejects.toThrow('Space already exists');
+    expect(prismaMock.space.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId_name: { userId: USER_ID, name: 'Balcony' } },
+    }));
+    expect(prismaMock.space.create).not.toHaveBeenCalled();
+  });
+
+  it(`allows ${MAX_SPACES} spaces and no more`, async () => {
+    prismaMock.space.count.mockResolvedValue(MAX_SPACES - 1);
+    await expect(spaceService.createSpace(USER_ID, { name: 'Roof' })).resolves.toMatchObject({ name: 'Roof' });
+
+    prismaMock.space.count.mockResolvedValue(MAX_SPACES);
+    await expect(spaceService.createSpace(USER_ID, { name: 'Garage' })).rejects.toThrow('Too many spaces');
+    expect(prismaMock.space.create).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('spaceService.updateSpace', () => {
+  beforeEach(() => {
+    prismaMock.space.findFirst.mockResolvedValue({ id: SPACE_ID, environment: 'outdoor' });
+  });
+
+  it('moves every plant in the space to its new environment', async () => {
+    const space = await spaceService.updateSpace(SPACE_ID, USER_ID, { environment: 'indoor' });
+
+    expect(prismaMock.plant.updateMany).toHaveBeenCalledWith({ where: { spaceId: SPACE_ID }, data: { environment: 'indoor' } });
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(1);
+    expect(space.environment).toBe('indoor');
+  });
+
+  it('leaves plants alone when the environment does not change', async () => {
+    await spaceService.updateSpace(SPACE_ID, USER_ID, { lightExposure: 'bright' });
+
+    expect(prismaMock.space.update).toHaveBeenCalledWith(expect.objectContaining({ data: { lightExposure: 'bright' } }));
+    expect(prismaMock.plant.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('keeps the space\'s own name available to it', async () => {
+    prismaMock.space.findUnique.mockResolvedValue({ id: SPACE_ID });
+
+    await expect(spaceService.updateSpace(SPACE_ID, USER_ID, { name: 'Balcony' })).resolves.toMatchObject({ name: 'Balcony' });
+  });
+
+  it('rejects a name used by another of the user\'s spaces', async () => {
+    prismaMock.space.findUnique.mockResolvedValue({ id: OTHER_SPACE_ID });
+
+    await expect(spaceService.updateSpace(SPACE_ID, USER_ID, { name: 'Kitchen', environment: 'indoor' }))
+      .rejects.toThrow('Space already exists');
+    expect(prismaMock.space.update).not.toHaveBeenCalled();
+    expect(prismaMock.plant.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects another user\'s space', async () => {
+    prismaMock.space.findFirst.mockResolvedValue(null);
+
+    await expect(spaceService.updateSpace(SPACE_ID, USER_ID, { environment: 'indoor' })).rejects.toThrow('Space not found');
+    expect(prismaMock.plant.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('spaceService.logSpaceCare', () => {
+  it('returns the care logs that were created', async () => {
+    const careLog = { id: 'care-log-1', type: 'WATERING', plantId: 'plant-1' };
+    jest.spyOn(careService, 'logBulkCareAction').mockResolvedValue({
+      results: [
+        { plantId: 'plant-1', success: true, careLog },
+        { plantId: 'plant-2', success: false, error: { code: 'PLANT_NOT_FOUND', message: 'Plant not found' } },
+      ],
+      logged: 1,
+      failed: 1,
+    } as unknown as Awaited<ReturnType<typeof careService.logBulkCareAction>>);
+
+    const careLogs = await spaceService.logSpaceCare(SPACE_ID, USER_ID, { type: 'WATERING' });
+
+    expect(careService.logBulkCareAction).toHaveBeenCalledWith(USER_ID, expect.objectContaining({ spaceId: SPACE_ID, type: 'WATERING' }));
+    expect(careLogs).toEqual([careLog]);
+  });
+
+  it('logs nothing for a space without plants', async () => {
+    prismaMock.space.findFirst.mockResolvedValue({ id: SPACE_ID });
+
+    await expect(spaceService.logSpaceCare(SPACE_ID, USER_ID, { type: 'WATERING' })).resolves.toEqual([]);
+    expect(prismaMock.careLog.create).not.toHaveBeenCalled();
+  });
+});
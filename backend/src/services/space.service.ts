@@ -0,0 +1,165 @@
+// backend/src/services/space.service.ts
+import { PrismaClient, Space } from '@prisma/client';
+import { CreateSpaceData, MAX_SPACES, SpaceCareData, UpdateSpaceData } from '../schemas/space.schemas';
+import { logger } from '../utils/logger';
+import { CareLogView, careService } from './care.service';
+
+const prisma = new PrismaClient();
+
+export interface SpaceView extends Space {
+  plantCount: number;
+}
+
+const WITH_PLANT_COUNT = {
+  _count: { select: { plants: { where: { deletedAt: null } } } },
+} as const;
+
+type SpaceWithCount = Space & { _count: { plants: number } };
+
+export class SpaceService {
+  // Get the user's spaces with how many plants each holds
+  async getUserSpaces(userId: string): Promise<SpaceView[]> {
+    try {
+      const spaces = await prisma.space.findMany({
+        where: { userId },
+        orderBy: { name: 'asc' },
+        include: WITH_PLANT_COUNT,
+      });
+
+      return spaces.map(space => this.toView(space));
+    } catch (error) {
+      logger.error('Failed to fetch spaces:', error);
+      throw new Error('Failed to fetch spaces');
+    }
+  }
+
+  // Get one of the user's spaces
+  async getSpace(spaceId: string, userId: string): Promise<SpaceView> {
+    try {
+      const space = await prisma.space.findFirst({
+        where: { id: spaceId, userId },
+        include: WITH_PLANT_COUNT,
+      });
+
+      if (!space) {
+        throw new Error('Space not found');
+      }
+      return this.toView(space);
+    } catch (error) {
+      logger.error('Failed to fetch space:', error);
+      throw error;
+    }
+  }
+
+  // Create a space; names are unique per user
+  async createSpace(userId: string, data: CreateSpaceData): Promise<SpaceView> {
+    try {
+      const count = await prisma.space.count({ where: { userId } });
+      if (count >= MAX_SPACES) {
+        throw new Error('Too many spaces');
+      }
+      await this.assertNameAvailable(userId, data.name);
+
+      const space = await prisma.space.create({
+        data: { ...data, userId },
+        include: WITH_PLANT_COUNT,
+      });
+
+      logger.info(`Space created: ${space.id}`);
+      return this.toView(space);
+    } catch (error) {
+      logger.error('Failed to create space:', error);
+      throw error;
+    }
+  }
+
+  // Rename a space or change its conditions
+  async updateSpace(spaceId: string, userId: string, data: UpdateSpaceData): Promise<SpaceView> {
+    try {
+      await this.getOwnedSpace(spaceId, userId);
+      if (data.name) {
+        await this.assertNameAvailable(userId, data.name, spaceId);
+      }
+
+      // Plants follow the environment of the space they are in
+      const [space] = await prisma.$transaction([
+        prisma.space.update({
+          where: { id: spaceId },
+          data,
+          include: WITH_PLANT_COUNT,
+        }),
+        ...(data.environment
+          ? [prisma.plant.updateMany({ where: { spaceId }, data: { environment: data.environment } })]
+          : []),
+      ]);
+
+      logger.info(`Space updated: ${spaceId}`);
+      return this.toView(space);
+    } catch (error) {
+      logger.error('Failed to update space:', error);
+      throw error;
+    }
+  }
+
+  // Delete a space; its plants stay, without a space
+  async deleteSpace(spaceId: string, userId: string): Promise<void> {
+    try {
+      await this.getOwnedSpace(spaceId, userId);
+      await prisma.space.delete({ where: { id: spaceId } });
+
+      logger.info(`Space deleted: ${spaceId}`);
+    } catch (error) {
+      logger.error('Failed to delete space:', error);
+      throw error;
+    }
+  }
+
+  // Log the same care action for every plant in the space ("water everything on the balcony");
+  // an empty space logs nothing
+  async logSpaceCare(spaceId: string, userId: string, data: SpaceCareData): Promise<CareLogView[]> {
+    try {
+      const { results } = await careService.logBulkCareAction(userId, {
+        spaceId,
+        type: data.type,
+        notes: data.notes,
+        performedAt: data.performedAt ? new Date(data.performedAt) : undefined,
+      });
+
+      return results.flatMap(result => (result.success ? [result.careLog] : []));
+    } catch (error) {
+      logger.error('Failed to log space care:', error);
+      throw error;
+    }
+  }
+
+  // Plants can only be put in the owner's own spaces
+  async getOwnedSpace(spaceId: string, userId: string): Promise<Pick<Space, 'id' | 'environment'>> {
+    const space = await prisma.space.findFirst({
+      where: { id: spaceId, userId },
+      select: { id: true, environment: true },
+    });
+
+    if (!space) {
+      throw new Error('Space not found');
+    }
+    return space;
+  }
+
+  private async assertNameAvailable(userId: string, name: string, exceptId?: string): Promise<void> {
+    const existing = await prisma.space.findUnique({
+      where: { userId_name: { userId, name } },
+      select: { id: true },
+    });
+
+    if (existing && existing.id !== exceptId) {
+      throw new Error('Space already exists');
+    }
+  }
+
+  private toView(space: SpaceWithCount): SpaceView {
+    const { _count, ...rest } = space;
+    return { ...rest, plantCount: _count.plants };
+  }
+}
+
+export const spaceService = new SpaceService();
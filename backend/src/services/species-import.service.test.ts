@@ -0,0 +1,263 @@
+// backend/src/services/species-import.service.test.ts
+import { auditService } from './audit.service';
+import { SpeciesImportFileError, speciesImportService } from './species-import.service';
+import { speciesService } from './species.service';
+import { prismaMock, resetPrismaMock } from '../test/prisma';
+import { parseCsv, toCsv } from '../utils/csv';
+
+const ACTOR = { userId: '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0001' };
+const MINT_ID = '3c1e5f2a-8b4d-4e6f-a1c3-7d9e0f1a0001';
+
+const HEADER = [
+  'key', 'scientificName', 'nameEnglish', 'nameArabic',
+  'wateringIntervalMinDays', 'wateringIntervalMaxDays', 'lightMin', 'lightMax', 'directSun', 'environment',
+  'temperatureMinC', 'temperatureMaxC', 'humidityMinPercent', 'humidityMaxPercent', 'regions', 'aliases',
+];
+
+const mintRecord = {
+  key: 'mint',
+  scientificName: 'Mentha spicata',
+  nameEnglish: 'Mint',
+  nameArabic: 'نعناع',
+  wateringIntervalMinDays: 2,
+  wateringIntervalMaxDays: 4,
+  lightMin: 'medium',
+  lightMax: 'bright',
+  directSun: true,
+  environment: 'both',
+  temperatureMinC: 10,
+  temperatureMaxC: 32,
+  humidityMinPercent: 40,
+  humidityMaxPercent: 70,
+  regions: ['delta'],
+  aliases: ['na3na3'],
+};
+
+const basilRecord = {
+  ...mintRecord,
+  key: 'basil',
+  scientificName: 'Ocimum basilicum',
+  nameEnglish: 'Basil',
+  nameArabic: 'ريحان',
+  aliases: [],
+};
+
+// A stored row as Prisma returns it, with lists as JSON
+const storedMint = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  ...mintRecord,
+  id: MINT_ID,
+  regions: JSON.stringify(mintRecord.regions),
+  aliases: JSON.stringify(mintRecord.aliases),
+  careGuide: null,
+  referencePhotos: null,
+  status: 'active',
+  deprecatedAt: null,
+  mergedIntoId: null,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+const json = (...records: unknown[]): string => JSON.stringify(records);
+
+describe('speciesImportService.importCatalogue', () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.restoreAllMocks();
+    jest.spyOn(auditService, 'record').mockResolvedValue(undefined);
+    jest.spyOn(speciesService, 'invalidateCache').mockImplementation(() => undefined);
+    prismaMock.species.findMany.mockResolvedValue([storedMint()]);
+    prismaMock.species.create.mockImplementation(({ data }: { data: object }) => Promise.resolve({ id: 'new-id', ...data }));
+    prismaMock.species.update.mockImplementation(({ data }: { data: object }) => Promise.resolve(storedMint(data as Record<string, unknown>)));
+  });
+
+  it('reports creates, updates and unchanged rows without writing on a dry run', async () => {
+    const report = await speciesImportService.importCatalogue(
+      json(mintRecord, { ...mintRecord, scientificName: 'Mentha x piperita', key: 'peppermint' }, basilRecord),
+      'json',
+      { dryRun: true },
+      ACTOR
+    );
+
+    expect(report).toMatchObject({
+      dryRun: true,
+      applied: false,
+      summary: { total: 3, created: 2, updated: 0, unchanged: 1, invalid: 0 },
+    });
+    expect(report.rows.map(row => [row.row, row.action, row.key])).toEqual([
+      [1, 'unchanged', 'mint'],
+      [2, 'create', 'peppermint'],
+      [3, 'create', 'basil'],
+    ]);
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+    expect(prismaMock.species.create).not.toHaveBeenCalled();
+  });
+
+  it('lists the fields an update changes', async () => {
+    const report = await speciesImportService.importCatalogue(
+      json({ ...mintRecord, wateringIntervalMaxDays: 5, aliases: ['na3na3', 'spearmint'] }),
+      'json',
+      { dryRun: true },
+      ACTOR
+    );
+
+    expect(report.rows[0]).toMatchObject({ action: 'update', key: 'mint', changes: ['wateringIntervalMaxDays', 'aliases'] });
+  });
+
+  it('matches existing species by scientific name, ignoring case', async () => {
+    const report = await speciesImportService.importCatalogue(
+      json({ ...mintRecord, key: undefined, scientificName: 'MENTHA SPICATA' }),
+      'json',
+      { dryRun: true },
+      ACTOR
+    );
+
+    expect(report.rows[0]).toMatchObject({ key: 'mint', action: 'update', changes: ['scientificName'] });
+  });
+
+  it('treats unset regions and aliases as empty lists', async () => {
+    prismaMock.species.findMany.mockResolvedValue([storedMint({ regions: null, aliases: null })]);
+
+    const report = await speciesImportService.importCatalogue(
+      json({ ...mintRecord, regions: [], aliases: [] }),
+      'json',
+      { dryRun: true },
+      ACTOR
+    );
+
+    expect(report.rows[0].action).toBe('unchanged');
+  });
+
+  it('writes every row and audits it when applied', async () => {
+    const report = await speciesImportService.importCatalogue(
+      json({ ...mintRecord, humidityMaxPercent: 80 }, basilRecord),
+      'json',
+      { dryRun: false },
+      ACTOR
+    );
+
+    expect(report).toMatchObject({ applied: true, summary: { created: 1, updated: 1 } });
+    expect(prismaMock.species.update).toHaveBeenCalledWith({
+      where: { id: MINT_ID },
+      data: expect.objectContaining({ humidityMaxPercent: 80, regions: '["delta"]', aliases: '["na3na3"]' }) as object,
+    });
+    expect(prismaMock.species.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ key: 'basil', scientificName: 'Ocimum basilicum', aliases: '[]' }) as object,
+    });
+    expect(auditService.record).toHaveBeenCalledWith(ACTOR, expect.objectContaining({
+      action: 'IMPORT',
+      resourceId: MINT_ID,
+      oldValues: { humidityMaxPercent: 70 },
+      newValues: { humidityMaxPercent: 80 },
+    }), expect.anything());
+    expect(auditService.record).toHaveBeenCalledTimes(2);
+    expect(speciesService.invalidateCache).toHaveBeenCalled();
+  });
+
+  it('writes nothing when any row is invalid', async () => {
+    const report = await speciesImportService.importCatalogue(
+      json(basilRecord, { ...mintRecord, wateringIntervalMinDays: 9, wateringIntervalMaxDays: 3 }),
+      'json',
+      { dryRun: false },
+      ACTOR
+    );
+
+    expect(report).toMatchObject({ applied: false, summary: { created: 1, invalid: 1 } });
+    expect(report.rows[1]).toMatchObject({
+      action: 'invalid',
+      key: 'mint',
+      errors: [{ field: 'wateringIntervalMaxDays', message: 'wateringIntervalMaxDays must be at least wateringIntervalMinDays' }],
+    });
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+    expect(speciesService.invalidateCache).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [
+      'a repeated scientific name',
+      [basilRecord, { ...basilRecord, key: 'sweet-basil' }],
+      { field: 'scientificName', message: 'Duplicate of row 1' },
+    ],
+    [
+      'a new key on an existing species',
+      [{ ...mintRecord, key: 'spearmint' }],
+      { field: 'key', message: 'Species already has the key "mint"' },
+    ],
+    [
+      'a new species with a key already in use',
+      [{ ...basilRecord, key: 'mint' }],
+      { field: 'key', message: 'Key "mint" is already used by Mentha spicata' },
+    ],
+    [
+      'two new species with the same key',
+      [basilRecord, { ...basilRecord, scientificName: 'Ocimum tenuiflorum' }],
+      { field: 'key', message: 'Key "basil" is already used by Ocimum basilicum' },
+    ],
+  ])('rejects %s', async (_case, records, error) => {
+    const report = await speciesImportService.importCatalogue(json(...records), 'json', { dryRun: true }, ACTOR);
+
+    expect(report.rows[report.rows.length - 1]).toMatchObject({ action: 'invalid', errors: [error] });
+  });
+
+  it('rejects rows for species that are no longer active', async () => {
+    prismaMock.species.findMany.mockResolvedValue([storedMint({ status: 'deprecated' })]);
+
+    const report = await speciesImportService.importCatalogue(json(mintRecord), 'json', { dryRun: true }, ACTOR);
+
+    expect(report.rows[0]).toMatchObject({ action: 'invalid', errors: [{ field: 'scientificName', message: 'Species is deprecated' }] });
+  });
+
+  it.each([
+    ['JSON that cannot be parsed', '[{', 'json', /^JSON could not be read/],
+    ['JSON that is not an array', '{}', 'json', 'JSON must be an array of species'],
+    ['an empty array', '[]', 'json', 'The file has no species'],
+    ['CSV with an unclosed quote', 'key,"scientificName\n', 'csv', 'CSV could not be read: Unterminated quoted field'],
+    ['CSV without required columns', 'key,scientificName\nmint,Mentha spicata\n', 'csv', /^Missing columns: nameEnglish, nameArabic/],
+  ] as const)('refuses %s', async (_case, contents, format, message) => {
+    const result = speciesImportService.importCatalogue(contents, format, { dryRun: true }, ACTOR);
+
+    await expect(result).rejects.toBeInstanceOf(SpeciesImportFileError);
+    await expect(result).rejects.toThrow(message);
+  });
+});
+
+describe('speciesImportService CSV round trip', () => {
+  beforeEach(() => {
+    resetPrismaMock();
+    jest.restoreAllMocks();
+  });
+
+  it('exports text that looks like a formula as text and imports it unchanged', async () => {
+    prismaMock.species.findMany.mockResolvedValue([
+      storedMint({ nameEnglish: '=HYPERLINK("x")', aliases: JSON.stringify(['-Mint-', 'na3na3']) }),
+    ]);
+
+    const csv = await speciesImportService.exportCatalogue('csv');
+    const [, row] = parseCsv(csv);
+    expect(row[HEADER.indexOf('nameEnglish')]).toBe('\'=HYPERLINK("x")');
+    expect(row[HEADER.indexOf('aliases')]).toBe('\'-Mint-|na3na3');
+
+    const report = await speciesImportService.importCatalogue(csv, 'csv', { dryRun: true }, ACTOR);
+    expect(report.rows[0]).toMatchObject({ row: 2, action: 'unchanged', key: 'mint' });
+  });
+
+  it('reads CSV cells as typed values and counts blank rows in row numbers', async () => {
+    prismaMock.species.findMany.mockResolvedValue([]);
+    const cells = HEADER.map(column => {
+      const value = (basilRecord as Record<string, unknown>)[column];
+      return Array.isArray(value) ? value.join('|') : String(value);
+    });
+    cells[HEADER.indexOf('directSun')] = 'yes';
+    cells[HEADER.indexOf('aliases')] = '';
+
+    const report = await speciesImportService.importCatalogue(
+      toCsv(HEADER, [HEADER.map(() => ''), cells]),
+      'csv',
+      { dryRun: true },
+      ACTOR
+    );
+
+    expect(report.summary.total).toBe(1);
+    expect(report.rows[0]).toMatchObject({ row: 3, action: 'create', key: 'basil' });
+  });
+});
@@ -0,0 +1,378 @@
+// backend/src/services/species-import.service.ts
+import { PrismaClient, Species } from '@prisma/client';
+import { LightLevel, SpeciesEnvironment } from '../data/egyptian-plants';
+import { SpeciesFields, createSpeciesSchema } from '../schemas/species.schemas';
+import { AuditActor, auditService } from './audit.service';
+import { speciesService, toSpeciesKey } from './species.service';
+import { parseCsv, protectFormula, toCsv, unprotectFormula } from '../utils/csv';
+import { EgyptRegion } from '../utils/egypt-geo';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+const MAX_IMPORT_ROWS = 1000;
+const IMPORT_TRANSACTION_TIMEOUT_MS = 30 * 1000;
+
+// Columns of the CSV file, in export order
+const CSV_COLUMNS = [
+  'key',
+  'scientificName',
+  'nameEnglish',
+  'nameArabic',
+  'wateringIntervalMinDays',
+  'wateringIntervalMaxDays',
+  'lightMin',
+  'lightMax',
+  'directSun',
+  'environment',
+  'temperatureMinC',
+  'temperatureMaxC',
+  'humidityMinPercent',
+  'humidityMaxPercent',
+  'regions',
+  'aliases',
+] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+const OPTIONAL_COLUMNS = new Set<CsvColumn>(['key', 'directSun', 'regions', 'aliases']);
+
+const NUMBER_COLUMNS = new Set<CsvColumn>([
+  'wateringIntervalMinDays',
+  'wateringIntervalMaxDays',
+  'temperatureMinC',
+  'temperatureMaxC',
+  'humidityMinPercent',
+  'humidityMaxPercent',
+]);
+
+// Regions and aliases share one cell, e.g. "delta|canal"
+const LIST_SEPARATOR = '|';
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  '1': true,
+  false: false,
+  no: false,
+  '0': false,
+};
+
+export type SpeciesFileFormat = 'csv' | 'json';
+
+// One species as exported, and as accepted by the import
+export type SpeciesRecord = SpeciesFields & { key: string };
+
+export interface SpeciesImportRow {
+  row: number; // Spreadsheet row (the header is row 1) or 1-based position in a JSON array
+  action: 'create' | 'update' | 'unchanged' | 'invalid';
+  key: string | null;
+  scientificName: string | null;
+  changes?: string[]; // Fields an update changes
+  errors?: Array<{ field: string; message: string }>;
+}
+
+export interface SpeciesImportReport {
+  dryRun: boolean;
+  applied: boolean; // False on a dry run, or when any row is invalid
+  summary: {
+    total: number;
+    created: number;
+    updated: number;
+    unchanged: number;
+    invalid: number;
+  };
+  rows: SpeciesImportRow[];
+}
+
+// The file cannot be read at all (bad JSON, missing columns, too many rows)
+export class SpeciesImportFileError extends Error {
+  statusCode = 422;
+  code = 'INVALID_IMPORT_FILE';
+
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+// Database columns of the imported fields; lists are stored as JSON
+type SpeciesColumns = Omit<SpeciesFields, 'regions' | 'aliases'> & { regions: string; aliases: string };
+
+interface PlannedRow {
+  result: SpeciesImportRow;
+  columns?: SpeciesColumns;
+  existing?: Species;
+}
+
+const toColumns = (record: SpeciesFields): SpeciesColumns => {
+  const { regions, aliases, ...fields } = record;
+  return {
+    ...fields,
+    regions: JSON.stringify(regions),
+    aliases: JSON.stringify(aliases),
+  };
+};
+
+const parseList = <T>(json: string | null): T[] => (json ? JSON.parse(json) as T[] : []);
+
+const toRecord = (species: Species): SpeciesRecord => ({
+  key: species.key,
+  scientificName: species.scientificName,
+  nameEnglish: species.nameEnglish,
+  nameArabic: species.nameArabic,
+  wateringIntervalMinDays: species.wateringIntervalMinDays,
+  wateringIntervalMaxDays: species.wateringIntervalMaxDays,
+  lightMin: species.lightMin as LightLevel,
+  lightMax: species.lightMax as LightLevel,
+  directSun: species.directSun,
+  environment: species.environment as SpeciesEnvironment,
+  temperatureMinC: species.temperatureMinC,
+  temperatureMaxC: species.temperatureMaxC,
+  humidityMinPercent: species.humidityMinPercent,
+  humidityMaxPercent: species.humidityMaxPercent,
+  regions: parseList<EgyptRegion>(species.regions),
+  aliases: parseList<string>(species.aliases),
+});
+
+// Text cells are edited by admins and may start like a formula, e.g. an alias "-Mint-"
+const toCsvFields = (record: SpeciesRecord): string[] => {
+  return CSV_COLUMNS.map(column => {
+    const value = record[column];
+    if (NUMBER_COLUMNS.has(column)) {
+      return String(value);
+    }
+    return protectFormula(Array.isArray(value) ? value.join(LIST_SEPARATOR) : String(value));
+  });
+};
+
+// Typed values for one CSV row; empty cells are left out so schema defaults apply
+const fromCsvFields = (header: string[], fields: string[]): Record<string, unknown> => {
+  const record: Record<string, unknown> = {};
+
+  header.forEach((column, index) => {
+    const value = (fields[index] ?? '').trim();
+    if (value === '') {
+      return;
+    }
+
+    if (NUMBER_COLUMNS.has(column as CsvColumn)) {
+      record[column] = Number(value);
+    } else if (column === 'directSun') {
+      record[column] = BOOLEAN_VALUES[value.toLowerCase()] ?? value;
+    } else if (column === 'regions' || column === 'aliases') {
+      record[column] = unprotectFormula(value).split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+    } else {
+      record[column] = unprotectFormula(value);
+    }
+  });
+
+  return record;
+};
+
+export class SpeciesImportService {
+  // Export the active catalogue as CSV or JSON
+  async exportCatalogue(format: SpeciesFileFormat): Promise<string> {
+    try {
+      const species = await prisma.species.findMany({
+        where: { status: 'active' },
+        orderBy: { nameEnglish: 'asc' },
+      });
+      const records = species.map(toRecord);
+
+      logger.info(`Exported ${records.length} species as ${format}`);
+      return format === 'json'
+        ? `${JSON.stringify(records, null, 2)}\n`
+        : toCsv([...CSV_COLUMNS], records.map(toCsvFields));
+    } catch (error) {
+      logger.error('Failed to export species:', error);
+      throw new Error('Failed to export species');
+    }
+  }
+
+  // Validate every row and upsert by scientific name; nothing is written on a dry run or when any row is invalid
+  async importCatalogue(
+    contents: string,
+    format: SpeciesFileFormat,
+    options: { dryRun: boolean },
+    actor: AuditActor
+  ): Promise<SpeciesImportReport> {
+    const records = format === 'json' ? this.readJson(contents) : this.readCsv(contents);
+
+    try {
+      const existing = await prisma.species.findMany();
+      const plan = this.planImport(records, existing);
+      const rows = plan.map(planned => planned.result);
+      const count = (action: SpeciesImportRow['action']): number => rows.filter(row => row.action === action).length;
+
+      const report: SpeciesImportReport = {
+        dryRun: options.dryRun,
+        applied: false,
+        summary: {
+          total: rows.length,
+          created: count('create'),
+          updated: count('update'),
+          unchanged: count('unchanged'),
+          invalid: count('invalid'),
+        },
+        rows,
+      };
+
+      if (options.dryRun || report.summary.invalid > 0) {
+        return report;
+      }
+
+      await prisma.$transaction(async tx => {
+        for (const { result, columns, existing: current } of plan) {
+          if (result.action === 'create') {
+            const created = await tx.species.create({ data: { key: result.key!, ...columns! } });
+            await auditService.record(actor, {
+              action: 'IMPORT',
+              resource: 'species',
+              resourceId: created.id,
+              newValues: { ...created },
+            }, tx);
+          } else if (result.action === 'update') {
+            const updated = await tx.species.update({ where: { id: current!.id }, data: columns! });
+            await auditService.record(actor, {
+              action: 'IMPORT',
+              resource: 'species',
+              resourceId: updated.id,
+              ...auditService.diff({ ...current! }, { ...updated }),
+            }, tx);
+          }
+        }
+      }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+
+      speciesService.invalidateCache();
+      logger.info(`Species import applied: ${report.summary.created} created, ${report.summary.updated} updated`);
+      return { ...report, applied: true };
+    } catch (error) {
+      logger.error('Failed to import species:', error);
+      throw error;
+    }
+  }
+
+  // Match each valid row to an existing species by scientific name and check keys are unique
+  private planImport(records: Array<{ row: number; data: unknown }>, existing: Species[]): PlannedRow[] {
+    const byScientificName = new Map(existing.map(species => [species.scientificName.toLowerCase(), species]));
+    const keysInUse = new Map(existing.map(species => [species.key, species.scientificName]));
+    const seenScientificNames = new Map<string, number>();
+
+    return records.map(({ row, data }): PlannedRow => {
+      const invalid = (errors: SpeciesImportRow['errors'], key: string | null = null, scientificName: string | null = null): PlannedRow => ({
+        result: { row, action: 'invalid', key, scientificName, errors },
+      });
+
+      const parsed = createSpeciesSchema.safeParse(data);
+      if (!parsed.success) {
+        const fields = data as Record<string, unknown> | null;
+        return invalid(
+          parsed.error.issues.map(issue => ({ field: issue.path.join('.') || 'row', message: issue.message })),
+          typeof fields?.key === 'string' ? fields.key : null,
+          typeof fields?.scientificName === 'string' ? fields.scientificName : null
+        );
+      }
+
+      const { key: requestedKey, ...fields } = parsed.data;
+      const scientificName = fields.scientificName;
+      const duplicateOf = seenScientificNames.get(scientificName.toLowerCase());
+      if (duplicateOf !== undefined) {
+        return invalid([{ field: 'scientificName', message: `Duplicate of row ${duplicateOf}` }], requestedKey || null, scientificName);
+      }
+      seenScientificNames.set(scientificName.toLowerCase(), row);
+
+      const columns = toColumns(fields);
+      const match = byScientificName.get(scientificName.toLowerCase());
+
+      if (match) {
+        if (match.status !== 'active') {
+          return invalid([{ field: 'scientificName', message: `Species is ${match.status}` }], match.key, scientificName);
+        }
+        if (requestedKey && requestedKey !== match.key) {
+          return invalid([{ field: 'key', message: `Species already has the key "${match.key}"` }], requestedKey, scientificName);
+        }
+
+        // Lists that were never set are stored as null but exported as empty
+        const current: Record<string, unknown> = { ...match, regions: match.regions ?? '[]', aliases: match.aliases ?? '[]' };
+        const changes = (Object.keys(columns) as Array<keyof typeof columns>).filter(field => columns[field] !== current[field]);
+        return {
+          result: {
+            row,
+            action: changes.length > 0 ? 'update' : 'unchanged',
+            key: match.key,
+            scientificName,
+            ...(changes.length > 0 && { changes }),
+          },
+          columns,
+          existing: match,
+        };
+      }
+
+      const key = requestedKey || toSpeciesKey(fields.nameEnglish);
+      if (!key) {
+        return invalid([{ field: 'key', message: 'A key is required when the English name has no Latin letters' }], null, scientificName);
+      }
+      const keyOwner = keysInUse.get(key);
+      if (keyOwner) {
+        return invalid([{ field: 'key', message: `Key "${key}" is already used by ${keyOwner}` }], key, scientificName);
+      }
+      keysInUse.set(key, scientificName);
+
+      return {
+        result: { row, action: 'create', key, scientificName },
+        columns,
+      };
+    });
+  }
+
+  private readCsv(contents: string): Array<{ row: number; data: unknown }> {
+    let rows: string[][];
+    try {
+      rows = parseCsv(contents);
+    } catch (error) {
+      throw new SpeciesImportFileError(`CSV could not be read: ${(error as Error).message}`);
+    }
+
+    const [header = [], ...dataRows] = rows;
+    const columns = header.map(column => column.trim());
+    const missing = CSV_COLUMNS.filter(column => !OPTIONAL_COLUMNS.has(column) && !columns.includes(column));
+    if (missing.length > 0) {
+      throw new SpeciesImportFileError(`Missing columns: ${missing.join(', ')}`);
+    }
+
+    // Row numbers match the spreadsheet, so blank rows are skipped but still counted
+    const records = dataRows
+      .map((fields, index) => ({ row: index + 2, fields }))
+      .filter(({ fields }) => fields.some(value => value.trim() !== ''))
+      .map(({ row, fields }) => ({ row, data: fromCsvFields(columns, fields) as unknown }));
+
+    return this.checkRowCount(records);
+  }
+
+  private readJson(contents: string): Array<{ row: number; data: unknown }> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(contents);
+    } catch (error) {
+      throw new SpeciesImportFileError(`JSON could not be read: ${(error as Error).message}`);
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new SpeciesImportFileError('JSON must be an array of species');
+    }
+
+    return this.checkRowCount(parsed.map((data: unknown, index) => ({ row: index + 1, data })));
+  }
+
+  private checkRowCount<T>(records: T[]): T[] {
+    if (records.length === 0) {
+      throw new SpeciesImportFileError('The file has no species');
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new SpeciesImportFileError(`Up to ${MAX_IMPORT_ROWS} species can be imported at once`);
+    }
+    return records;
+  }
+}
+
+export const speciesImportService = new SpeciesImportService();
@@ -0,0 +1,504 @@
+// backend/src/services/species.service.ts
+import crypto from 'crypto';
+import { Prisma, PrismaClient, Species } from '@prisma/client';
+import { LightLevel, SPECIES_ENVIRONMENTS, SpeciesEnvironment } from '../data/egyptian-plants';
+import { CareGuideData, CreateSpeciesData, UpdateSpeciesData, findSpeciesRangeErrors } from '../schemas/species.schemas';
+import { AuditActor, auditService } from './audit.service';
+import { uploadService } from './upload.service';
+import { BilingualText } from './symptom-knowledge-base';
+import { EgyptRegion } from '../utils/egypt-geo';
+import { logger } from '../utils/logger';
+
+const prisma = new PrismaClient();
+
+// The catalogue changes rarely, so it is kept in memory between requests
+const CATALOGUE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const MAX_REFERENCE_PHOTOS = 10;
+
+export type SpeciesStatus = 'active' | 'deprecated' | 'merged';
+
+// Human-readable care text, as shown in the app
+export interface SpeciesCare {
+  water: string;
+  light: string;
+  environment: string;
+  temperature: string;
+  humidity: string;
+}
+
+export interface SpeciesRequirements {
+  wateringIntervalDays: { min: number; max: number };
+  light: { min: LightLevel; max: LightLevel; directSun: boolean };
+  environment: SpeciesEnvironment;
+  temperatureC: { min: number; max: number };
+  humidityPercent: { min: number; max: number };
+}
+
+export interface ReferencePhoto {
+  id: string;
+  url: string;
+  uploadedAt: string;
+}
+
+export interface CatalogueSpecies {
+  id: string; // Catalogue key
+  scientific: string;
+  names: {
+    arabic: string;
+    english: string;
+  };
+  aliases: string[];
+  care: SpeciesCare;
+  requirements: SpeciesRequirements;
+  careGuide: BilingualText | null;
+  referencePhotos: ReferencePhoto[];
+  regions: EgyptRegion[];
+}
+
+// Catalogue entry with its lifecycle, as seen by admins
+export interface SpeciesAdminView extends CatalogueSpecies {
+  status: SpeciesStatus;
+  deprecatedAt: Date | null;
+  mergedInto: string | null; // Key of the species it was merged into
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type SpeciesWithMerge = Species & { mergedInto: { key: string } | null };
+
+const WITH_MERGED_INTO = { mergedInto: { select: { key: true } } } as const;
+
+const LIGHT_TEXT: Record<LightLevel, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  bright: 'Bright',
+};
+
+const formatWatering = (min: number, max: number): string => {
+  if (min % 7 === 0 && max % 7 === 0) {
+    return min === max ? `Every ${min / 7} weeks` : `Every ${min / 7}-${max / 7} weeks`;
+  }
+  return min === max ? `Every ${min} days` : `Every ${min}-${max} days`;
+};
+
+const formatLight = (min: LightLevel, max: LightLevel, directSun: boolean): string => {
+  if (directSun) {
+    return min === 'bright' ? 'Full sun' : 'Full sun to partial shade';
+  }
+  if (min === max) {
+    return `${LIGHT_TEXT[min]} light`;
+  }
+  return `${LIGHT_TEXT[min]} to ${max} indirect light`;
+};
+
+const parseList = <T>(json: string | null): T[] => (json ? JSON.parse(json) as T[] : []);
+
+// "Bird of Paradise" -> "bird-of-paradise"
+export const toSpeciesKey = (name: string): string => {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+export class SpeciesService {
+  private cache: { species: CatalogueSpecies[]; loadedAt: number } | null = null;
+
+  // Get every active catalogue species, cached for a few minutes
+  async listSpecies(): Promise<CatalogueSpecies[]> {
+    if (this.cache && Date.now() - this.cache.loadedAt < CATALOGUE_CACHE_TTL_MS) {
+      return this.cache.species;
+    }
+
+    try {
+      const rows = await prisma.species.findMany({
+        where: { status: 'active' },
+        orderBy: { nameEnglish: 'asc' },
+      });
+      if (rows.length === 0) {
+        logger.warn('Species catalogue is empty, run "npm run db:seed"');
+      }
+
+      const species = rows.map(row => this.toCatalogueSpecies(row));
+      this.cache = { species, loadedAt: Date.now() };
+      return species;
+    } catch (error) {
+      logger.error('Failed to load species catalogue:', error);
+      throw new Error('Failed to load species catalogue');
+    }
+  }
+
+  // Get an active species by catalogue key
+  async getSpecies(key: string): Promise<CatalogueSpecies | null> {
+    const species = await this.listSpecies();
+    return species.find(entry => entry.id === key) || null;
+  }
+
+  // Count active species per growing environment
+  async countByEnvironment(): Promise<Record<SpeciesEnvironment, number>> {
+    try {
+      const groups = await prisma.species.groupBy({
+        by: ['environment'],
+        where: { status: 'active' },
+        _count: { _all: true },
+      });
+
+      const counts = Object.fromEntries(SPECIES_ENVIRONMENTS.map(environment => [environment, 0])) as
+        Record<SpeciesEnvironment, number>;
+      for (const group of groups) {
+        if (group.environment in counts) {
+          counts[group.environment as SpeciesEnvironment] = group._count._all;
+        }
+      }
+
+      return counts;
+    } catch (error) {
+      logger.error('Failed to count species:', error);
+      throw new Error('Failed to count species');
+    }
+  }
+
+  // Get every species, including deprecated and merged ones
+  async listAllSpecies(): Promise<SpeciesAdminView[]> {
+    try {
+      const rows = await prisma.species.findMany({
+        include: WITH_MERGED_INTO,
+        orderBy: { nameEnglish: 'asc' },
+      });
+
+      return rows.map(row => this.toAdminView(row));
+    } catch (error) {
+      logger.error('Failed to fetch species:', error);
+      throw new Error('Failed to fetch species');
+    }
+  }
+
+  // Add a species to the catalogue
+  async createSpecies(data: CreateSpeciesData, actor: AuditActor): Promise<SpeciesAdminView> {
+    try {
+      const { key: requestedKey, regions, aliases, ...fields } = data;
+      const key = requestedKey || toSpeciesKey(fields.nameEnglish);
+      if (!key) {
+        throw new Error('Species key required');
+      }
+
+      const species = await prisma.$transaction(async tx => {
+        await this.assertUnique(tx, key, fields.scientificName);
+
+        const created = await tx.species.create({
+          data: {
+            ...fields,
+            key,
+            regions: JSON.stringify(regions),
+            aliases: JSON.stringify(aliases),
+          },
+          include: WITH_MERGED_INTO,
+        });
+
+        await auditService.record(actor, {
+          action: 'CREATE',
+          resource: 'species',
+          resourceId: created.id,
+          newValues: this.auditValues(created),
+        }, tx);
+
+        return created;
+      });
+
+      this.invalidateCache();
+      logger.info(`Species created: ${key}`);
+      return this.toAdminView(species);
+    } catch (error) {
+      logger.error('Failed to create species:', error);
+      throw error;
+    }
+  }
+
+  // Edit a species' names, care requirements, regions or aliases
+  async updateSpecies(key: string, data: UpdateSpeciesData, actor: AuditActor): Promise<SpeciesAdminView> {
+    return this.applyChange(key, actor, 'UPDATE', async (species, tx) => {
+      if (findSpeciesRangeErrors({ ...this.rangeFields(species), ...data }).length > 0) {
+        throw new Error('Invalid care ranges');
+      }
+      if (data.scientificName && data.scientificName !== species.scientificName) {
+        await this.assertUnique(tx, null, data.scientificName);
+      }
+
+      const { regions, aliases, ...fields } = data;
+      return {
+        ...fields,
+        ...(regions && { regions: JSON.stringify(regions) }),
+        ...(aliases && { aliases: JSON.stringify(aliases) }),
+      };
+    });
+  }
+
+  // Hide a species from identification and search while keeping its history
+  async deprecateSpecies(key: string, reason: string | undefined, actor: AuditActor): Promise<SpeciesAdminView> {
+    return this.applyChange(key, actor, 'DEPRECATE', species => {
+      if (species.status !== 'active') {
+        throw new Error('Species is not active');
+      }
+      return { status: 'deprecated', deprecatedAt: new Date() };
+    }, reason ? { reason } : undefined);
+  }
+
+  // Replace the bilingual care guide
+  async updateCareGuide(key: string, guide: CareGuideData, actor: AuditActor): Promise<SpeciesAdminView> {
+    return this.applyChange(key, actor, 'UPDATE', () => ({
+      careGuide: JSON.stringify({ en: guide.en, ar: guide.ar }),
+    }));
+  }
+
+  // Store a reference photo and attach it to the species
+  async addReferencePhoto(
+    key: string,
+    image: Buffer,
+    actor: AuditActor
+  ): Promise<SpeciesAdminView> {
+    const photoId = crypto.randomUUID();
+    const { url } = await uploadService.saveImage(`species/${key}`, image, { id: photoId });
+
+    try {
+      return await this.applyChange(key, actor, 'ADD_PHOTO', species => {
+        const photos = parseList<ReferencePhoto>(species.referencePhotos);
+        if (photos.length >= MAX_REFERENCE_PHOTOS) {
+          throw new Error('Too many reference photos');
+        }
+
+        photos.push({ id: photoId, url, uploadedAt: new Date().toISOString() });
+        return { referencePhotos: JSON.stringify(photos) };
+      });
+    } catch (error) {
+      await uploadService.deleteByUrl(url);
+      throw error;
+    }
+  }
+
+  // Detach a reference photo and delete its file
+  async removeReferencePhoto(key: string, photoId: string, actor: AuditActor): Promise<SpeciesAdminView> {
+    let removed: ReferencePhoto | undefined;
+
+    const species = await this.applyChange(key, actor, 'REMOVE_PHOTO', current => {
+      const photos = parseList<ReferencePhoto>(current.referencePhotos);
+      removed = photos.find(photo => photo.id === photoId);
+      if (!removed) {
+        throw new Error('Photo not found');
+      }
+
+      return { referencePhotos: JSON.stringify(photos.filter(photo => photo.id !== photoId)) };
+    });
+
+    try {
+      await uploadService.deleteByUrl(removed!.url);
+    } catch (error) {
+      // The photo is already detached; a stray file is harmless
+      logger.warn(`Failed to delete reference photo file ${removed!.url}:`, error);
+    }
+
+    return species;
+  }
+
+  // Fold a duplicate species into another: the target inherits its names and photos
+  async mergeSpecies(key: string, targetKey: string, actor: AuditActor): Promise<SpeciesAdminView> {
+    try {
+      if (key === targetKey) {
+        throw new Error('Cannot merge a species into itself');
+      }
+
+      const target = await prisma.$transaction(async tx => {
+        const source = await tx.species.findUnique({ where: { key } });
+        const target = await tx.species.findUnique({ where: { key: targetKey } });
+        if (!source || !target) {
+          throw new Error('Species not found');
+        }
+        if (source.status === 'merged' || target.status !== 'active') {
+          throw new Error('Species is not active');
+        }
+
+        // The source's names become aliases so searches for them still find the target
+        const ownNames = new Set([target.nameEnglish, target.nameArabic, target.scientificName]);
+        const aliases = Array.from(new Set([
+          ...parseList<string>(target.aliases),
+          source.nameEnglish,
+          source.nameArabic,
+          source.scientificName,
+          ...parseList<string>(source.aliases),
+        ])).filter(alias => !ownNames.has(alias));
+        const photos = [
+          ...parseList<ReferencePhoto>(target.referencePhotos),
+          ...parseList<ReferencePhoto>(source.referencePhotos),
+        ];
+
+        const updatedTarget = await tx.species.update({
+          where: { id: target.id },
+          data: { aliases: JSON.stringify(aliases), referencePhotos: JSON.stringify(photos) },
+          include: WITH_MERGED_INTO,
+        });
+        const updatedSource = await tx.species.update({
+          where: { id: source.id },
+          data: { status: 'merged', mergedIntoId: target.id },
+        });
+        // Species merged into the source earlier now point at the target
+        await tx.species.updateMany({
+          where: { mergedIntoId: source.id },
+          data: { mergedIntoId: target.id },
+        });
+
+        await auditService.record(actor, {
+          action: 'MERGE',
+          resource: 'species',
+          resourceId: source.id,
+          ...auditService.diff(this.auditValues(source), this.auditValues(updatedSource)),
+        }, tx);
+        await auditService.record(actor, {
+          action: 'UPDATE',
+          resource: 'species',
+          resourceId: target.id,
+          ...auditService.diff(this.auditValues(target), this.auditValues(updatedTarget)),
+        }, tx);
+
+        return updatedTarget;
+      });
+
+      this.invalidateCache();
+      logger.info(`Species ${key} merged into ${targetKey}`);
+      return this.toAdminView(target);
+    } catch (error) {
+      logger.error('Failed to merge species:', error);
+      throw error;
+    }
+  }
+
+  // Forget the cached catalogue, e.g. after it was edited
+  invalidateCache(): void {
+    this.cache = null;
+  }
+
+  // Update one species and audit the changed fields in the same transaction
+  private async applyChange(
+    key: string,
+    actor: AuditActor,
+    action: string,
+    buildChange: (
+      species: Species,
+      tx: Prisma.TransactionClient
+    ) => Prisma.SpeciesUpdateInput | Promise<Prisma.SpeciesUpdateInput>,
+    note?: Record<string, unknown>
+  ): Promise<SpeciesAdminView> {
+    try {
+      const species = await prisma.$transaction(async tx => {
+        const existing = await tx.species.findUnique({ where: { key } });
+        if (!existing) {
+          throw new Error('Species not found');
+        }
+
+        const updated = await tx.species.update({
+          where: { id: existing.id },
+          data: await buildChange(existing, tx),
+          include: WITH_MERGED_INTO,
+        });
+
+        const { oldValues, newValues } = auditService.diff(this.auditValues(existing), this.auditValues(updated));
+        await auditService.record(actor, {
+          action,
+          resource: 'species',
+          resourceId: existing.id,
+          oldValues,
+          newValues: { ...newValues, ...note },
+        }, tx);
+
+        return updated;
+      });
+
+      this.invalidateCache();
+      logger.info(`Species ${key} changed: ${action}`);
+      return this.toAdminView(species);
+    } catch (error) {
+      logger.error(`Failed to change species ${key}:`, error);
+      throw error;
+    }
+  }
+
+  private async assertUnique(tx: Prisma.TransactionClient, key: string | null, scientificName: string): Promise<void> {
+    const existing = await tx.species.findFirst({
+      where: {
+        OR: [
+          ...(key ? [{ key }] : []),
+          { scientificName },
+        ],
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new Error('Species already exists');
+    }
+  }
+
+  private rangeFields(species: Species): Parameters<typeof findSpeciesRangeErrors>[0] {
+    return {
+      wateringIntervalMinDays: species.wateringIntervalMinDays,
+      wateringIntervalMaxDays: species.wateringIntervalMaxDays,
+      lightMin: species.lightMin as LightLevel,
+      lightMax: species.lightMax as LightLevel,
+      temperatureMinC: species.temperatureMinC,
+      temperatureMaxC: species.temperatureMaxC,
+      humidityMinPercent: species.humidityMinPercent,
+      humidityMaxPercent: species.humidityMaxPercent,
+    };
+  }
+
+  // Column values as stored, without relations
+  private auditValues(species: Species | SpeciesWithMerge): Record<string, unknown> {
+    const values: Record<string, unknown> = { ...species };
+    delete values.mergedInto;
+    return values;
+  }
+
+  private toCatalogueSpecies(row: Species): CatalogueSpecies {
+    const lightMin = row.lightMin as LightLevel;
+    const lightMax = row.lightMax as LightLevel;
+
+    return {
+      id: row.key,
+      scientific: row.scientificName,
+      names: {
+        arabic: row.nameArabic,
+        english: row.nameEnglish,
+      },
+      aliases: parseList<string>(row.aliases),
+      care: {
+        water: formatWatering(row.wateringIntervalMinDays, row.wateringIntervalMaxDays),
+        light: formatLight(lightMin, lightMax, row.directSun),
+        environment: row.environment,
+        temperature: `${row.temperatureMinC}-${row.temperatureMaxC}°C`,
+        humidity: `${row.humidityMinPercent}-${row.humidityMaxPercent}%`,
+      },
+      requirements: {
+        wateringIntervalDays: { min: row.wateringIntervalMinDays, max: row.wateringIntervalMaxDays },
+        light: { min: lightMin, max: lightMax, directSun: row.directSun },
+        environment: row.environment as SpeciesEnvironment,
+        temperatureC: { min: row.temperatureMinC, max: row.temperatureMaxC },
+        humidityPercent: { min: row.humidityMinPercent, max: row.humidityMaxPercent },
+      },
+      careGuide: row.careGuide ? JSON.parse(row.careGuide) as BilingualText : null,
+      referencePhotos: parseList<ReferencePhoto>(row.referencePhotos),
+      regions: parseList<EgyptRegion>(row.regions),
+    };
+  }
+
+  private toAdminView(row: SpeciesWithMerge): SpeciesAdminView {
+    return {
+      ...this.toCatalogueSpecies(row),
+      status: row.status as SpeciesStatus,
+      deprecatedAt: row.deprecatedAt,
+      mergedInto: row.mergedInto?.key || null,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
+
+export const speciesService = new SpeciesService();
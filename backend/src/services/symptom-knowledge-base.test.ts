@@ -0,0 +1,210 @@
+// backend/src/services/symptom-knowledge-base.test.ts
+import { subDays } from 'date-fns';
+import { EGYPTIAN_PLANTS } from '../data/egyptian-plants';
+import { SYMPTOM_CODES, SymptomInput } from '../schemas/diagnosis.schemas';
+import {
+  CareHistorySummary,
+  PLANT_PROBLEMS,
+  PlantProblem,
+  RankedProblem,
+  SymptomScoringEngine,
+  symptomScoringEngine,
+} from './symptom-knowledge-base';
+
+const ARABIC_LETTERS = /[\u0600-\u06FF]/;
+const LATIN_LETTERS = /[A-Za-z]/;
+
+const symptoms = (...codes: SymptomInput['code'][]): SymptomInput[] => codes.map(code => ({ code }));
+
+// A summary for a plant watered on schedule, fed recently and not repotted
+const steadyCare = (overrides: Partial<CareHistorySummary> = {}): CareHistorySummary => ({
+  wateringIntervalDays: 7,
+  wateringsLast14Days: 2,
+  daysSinceLastWatering: 3,
+  fertilizingsLast30Days: 1,
+  daysSinceLastFertilizing: 20,
+  daysSinceRepotting: null,
+  ...overrides,
+});
+
+const find = (ranked: RankedProblem[], problem: string): RankedProblem | undefined =>
+  ranked.find(candidate => candidate.problem === problem);
+
+describe('PLANT_PROBLEMS', () => {
+  const problems = Object.entries(PLANT_PROBLEMS);
+
+  it.each(problems)('%s has English and Arabic text throughout', (_key, problem: PlantProblem) => {
+    const texts = [problem.names, problem.description, problem.plan.action, ...problem.treatments];
+
+    texts.forEach(text => {
+      expect(text.en).toMatch(LATIN_LETTERS);
+      expect(text.ar).toMatch(ARABIC_LETTERS);
+      expect(text.ar).not.toMatch(LATIN_LETTERS);
+    });
+  });
+
+  it.each(problems)('%s only uses known symptoms, catalogue species and a workable plan', (_key, problem: PlantProblem) => {
+    Object.entries(problem.symptoms).forEach(([code, weight]) => {
+      expect(SYMPTOM_CODES).toContain(code);
+      expect([1, 2, 3]).toContain(weight);
+    });
+    Object.keys(problem.susceptibility).forEach(species => expect(Object.keys(EGYPTIAN_PLANTS)).toContain(species));
+    expect(problem.treatments.length).toBeGreaterThan(0);
+    expect(problem.plan.intervalDays).toBeGreaterThan(0);
+    expect(problem.plan.durationDays).toBeGreaterThanOrEqual(problem.plan.intervalDays);
+  });
+
+  it('covers every symptom the app offers', () => {
+    const covered = new Set(problems.flatMap(([, problem]) => Object.keys(problem.symptoms)));
+
+    expect(SYMPTOM_CODES.filter(code => !covered.has(code))).toEqual([]);
+  });
+});
+
+describe('SymptomScoringEngine.rank', () => {
+  const engine = new SymptomScoringEngine({
+    'spider-mites': PLANT_PROBLEMS['spider-mites'],
+    'pattern': { ...PLANT_PROBLEMS['spider-mites'], symptoms: { wilting: 3, leaf_drop: 1 }, susceptibility: {} },
+    'other': { ...PLANT_PROBLEMS['spider-mites'], symptoms: { leaf_drop: 1, mushy_stem: 3 }, susceptibility: {} },
+  });
+
+  it('scores how much of the report is explained and how much of the pattern is present', () => {
+    const ranked = engine.rank({ symptoms: symptoms('wilting'), speciesKey: null, history: null });
+
+    // 0.6 x all of the report + 0.4 x 3 of 4 pattern weight
+    expect(ranked).toEqual([expect.objectContaining({ problem: 'pattern', confidence: 0.9, matchedSymptoms: ['wilting'] })]);
+  });
+
+  it('ranks the better match first and leaves out problems with no matching symptom', () => {
+    const ranked = engine.rank({ symptoms: symptoms('wilting', 'leaf_drop'), speciesKey: null, history: null });
+
+    expect(ranked.map(candidate => [candidate.problem, candidate.confidence])).toEqual([
+      ['pattern', 0.95], // 0.6 + 0.4, capped
+      ['other', 0.4], // 0.6 x 1/2 + 0.4 x 1/4
+      ['spider-mites', 0.34], // 0.6 x 1/2 + 0.4 x 1/10
+    ]);
+  });
+
+  it('keeps to the requested number of candidates and solutions', () => {
+    const ranked = symptomScoringEngine.rank({ symptoms: symptoms('yellow_leaves'), speciesKey: null, history: null }, 2, 1);
+
+    expect(ranked).toHaveLength(2);
+    ranked.forEach(candidate => expect(candidate.solutions).toHaveLength(1));
+  });
+
+  it('returns the problems in both languages', () => {
+    const [top] = symptomScoringEngine.rank({ symptoms: symptoms('webbing', 'speckled_leaves'), speciesKey: null, history: null });
+
+    expect(top).toMatchObject({
+      problem: 'spider-mites',
+      names: PLANT_PROBLEMS['spider-mites'].names,
+      description: PLANT_PROBLEMS['spider-mites'].description,
+      plan: PLANT_PROBLEMS['spider-mites'].plan,
+    });
+    expect(top.solutions[0]).toEqual({ en: expect.stringMatching(LATIN_LETTERS) as string, ar: expect.stringMatching(ARABIC_LETTERS) as string });
+  });
+
+  it('finds nothing for no symptoms', () => {
+    expect(symptomScoringEngine.rank({ symptoms: [], speciesKey: null, history: null })).toEqual([]);
+  });
+});
+
+describe('SymptomScoringEngine species and care history', () => {
+  const rank = (speciesKey: string | null, history: CareHistorySummary | null, ...codes: SymptomInput['code'][]): RankedProblem[] =>
+    symptomScoringEngine.rank({ symptoms: symptoms(...codes), speciesKey, history }, 20);
+
+  it.each([
+    ['cactus', 'overwatering', 'species_prone:cactus', 'above'],
+    ['mint', 'overwatering', 'species_resistant:mint', 'below'],
+  ] as const)('weighs %s plants for %s (%s)', (species, problem, factor, direction) => {
+    const plain = find(rank(null, null, 'yellow_leaves', 'wilting'), problem)!;
+    const weighed = find(rank(species, null, 'yellow_leaves', 'wilting'), problem)!;
+
+    expect(weighed.factors).toEqual([factor]);
+    if (direction === 'above') {
+      expect(weighed.confidence).toBeGreaterThan(plain.confidence);
+    } else {
+      expect(weighed.confidence).toBeLessThan(plain.confidence);
+    }
+  });
+
+  it('ignores species that are not in the catalogue', () => {
+    expect(rank('unknown-plant', null, 'wilting')).toEqual(rank(null, null, 'wilting'));
+  });
+
+  it('makes rot more likely, and thirst less likely, after frequent watering', () => {
+    const steady = rank(null, steadyCare(), 'wilting', 'yellow_leaves');
+    // Watered daily against a weekly interval
+    const soaked = rank(null, steadyCare({ wateringsLast14Days: 14, daysSinceLastWatering: 0 }), 'wilting', 'yellow_leaves');
+
+    for (const problem of ['overwatering', 'root-rot']) {
+      expect(find(soaked, problem)!.confidence).toBeGreaterThan(find(steady, problem)!.confidence);
+      expect(find(soaked, problem)!.factors).toContain('frequent_watering');
+    }
+    expect(find(soaked, 'underwatering')!.confidence).toBeLessThan(find(steady, 'underwatering')!.confidence);
+  });
+
+  it('makes thirst more likely, and rot less likely, after a long dry spell', () => {
+    const steady = rank(null, steadyCare(), 'wilting', 'yellow_leaves');
+    const dry = rank(null, steadyCare({ wateringsLast14Days: 0, daysSinceLastWatering: 20 }), 'wilting', 'yellow_leaves');
+
+    expect(find(dry, 'underwatering')!.factors).toEqual(['long_since_watering']);
+    expect(find(dry, 'underwatering')!.confidence).toBeGreaterThan(find(steady, 'underwatering')!.confidence);
+    expect(find(dry, 'root-rot')!.confidence).toBeLessThan(find(steady, 'root-rot')!.confidence);
+  });
+
+  it('reads heavy feeding as fertilizer burn rather than a deficiency', () => {
+    const fed = rank(null, steadyCare({ fertilizingsLast30Days: 4, daysSinceLastFertilizing: 2 }), 'brown_leaf_tips', 'stunted_growth', 'yellow_leaves');
+    const unfed = rank(null, steadyCare({ fertilizingsLast30Days: 0, daysSinceLastFertilizing: null }), 'brown_leaf_tips', 'stunted_growth', 'yellow_leaves');
+
+    expect(find(fed, 'fertilizer-burn')!.factors).toEqual(['frequent_fertilizing']);
+    expect(find(fed, 'nutrient-deficiency')!.factors).toEqual(['frequent_fertilizing']);
+    expect(find(unfed, 'nutrient-deficiency')!.factors).toEqual(['not_fertilized_recently']);
+    expect(find(unfed, 'nutrient-deficiency')!.confidence).toBeGreaterThan(find(fed, 'nutrient-deficiency')!.confidence);
+  });
+
+  it('puts transplant shock first right after repotting', () => {
+    const ranked = rank(null, steadyCare({ daysSinceRepotting: 5 }), 'wilting', 'leaf_drop');
+
+    expect(ranked[0]).toMatchObject({ problem: 'transplant-shock', factors: ['recently_repotted'] });
+  });
+
+  it('never goes above 95% confidence', () => {
+    const ranked = rank('cactus', steadyCare({ wateringsLast14Days: 14 }), 'yellow_leaves', 'wilting', 'mold_on_soil', 'mushy_stem');
+
+    ranked.forEach(candidate => expect(candidate.confidence).toBeLessThanOrEqual(0.95));
+  });
+});
+
+describe('SymptomScoringEngine.summarizeCareHistory', () => {
+  const now = new Date('2024-06-30T12:00:00Z');
+
+  it('counts recent care and the days since each kind', () => {
+    const careLogs = [
+      { type: 'WATERING', performedAt: subDays(now, 1) },
+      { type: 'WATERING', performedAt: subDays(now, 5) },
+      { type: 'WATERING', performedAt: subDays(now, 20) },
+      { type: 'FERTILIZING', performedAt: subDays(now, 10) },
+      { type: 'FERTILIZING', performedAt: subDays(now, 45) },
+      { type: 'REPOTTING', performedAt: subDays(now, 60) },
+    ];
+
+    expect(symptomScoringEngine.summarizeCareHistory(careLogs, 3, now)).toEqual({
+      wateringIntervalDays: 3,
+      wateringsLast14Days: 2,
+      daysSinceLastWatering: 1,
+      fertilizingsLast30Days: 1,
+      daysSinceLastFertilizing: 10,
+      daysSinceRepotting: 60,
+    });
+  });
+
+  it('leaves the days since unknown when there is no such care', () => {
+    expect(symptomScoringEngine.summarizeCareHistory([], 7, now)).toMatchObject({
+      wateringsLast14Days: 0,
+      daysSinceLastWatering: null,
+      daysSinceLastFertilizing: null,
+      daysSinceRepotting: null,
+    });
+  });
+});
@@ -0,0 +1,548 @@
+// backend/src/services/symptom-knowledge-base.ts
+import { CareLog } from '@prisma/client';
+import { differenceInCalendarDays, subDays } from 'date-fns';
+import { EgyptianPlantKey } from '../data/egyptian-plants';
+import { SymptomCode, SymptomInput } from '../schemas/diagnosis.schemas';
+
+export interface BilingualText {
+  en: string;
+  ar: string;
+}
+
+export type ProblemCategory = 'watering' | 'pest' | 'disease' | 'environment' | 'nutrition';
+
+export type TreatmentCareType = 'WATERING' | 'FERTILIZING' | 'PRUNING' | 'REPOTTING' | 'TREATMENT';
+
+// Repeat `action` every `intervalDays` until `durationDays` have passed, then check back
+export interface TreatmentPlanTemplate {
+  careType: TreatmentCareType;
+  action: BilingualText;
+  intervalDays: number;
+  durationDays: number;
+}
+
+export interface PlantProblem {
+  names: BilingualText;
+  description: BilingualText;
+  category: ProblemCategory;
+  // Weight 1-3: how characteristic the symptom is for this problem
+  symptoms: Partial<Record<SymptomCode, number>>;
+  // Multiplier per species: >1 prone to the problem, <1 rarely affected
+  susceptibility: Partial<Record<EgyptianPlantKey, number>>;
+  treatments: BilingualText[];
+  plan: TreatmentPlanTemplate;
+}
+
+// Curated offline catalogue of common problems in Egyptian homes and gardens
+export const PLANT_PROBLEMS: Record<string, PlantProblem> = {
+  'overwatering': {
+    names: { en: 'Overwatering', ar: 'الإفراط في الري' },
+    description: {
+      en: 'Soil stays wet for too long, roots cannot breathe',
+      ar: 'التربة تبقى مبللة لفترة طويلة فلا تتنفس الجذور',
+    },
+    category: 'watering',
+    symptoms: { yellow_leaves: 3, wilting: 2, mold_on_soil: 2, leaf_drop: 1, mushy_stem: 2, brown_spots: 1 },
+    susceptibility: {
+      'snake-plant': 1.5, 'zz-plant': 1.5, 'aloe-vera': 1.6, 'cactus': 1.6,
+      'rosemary': 1.3, 'lavender': 1.4, 'thyme': 1.3, 'fiddle-leaf-fig': 1.2,
+      'mint': 0.6, 'peace-lily': 0.8,
+    },
+    treatments: [
+      { en: 'Let the top 3-5 cm of soil dry out before watering again', ar: 'اترك الطبقة العليا من التربة (٣-٥ سم) تجف قبل الري مرة أخرى' },
+      { en: 'Make sure the pot has drainage holes and empty the saucer', ar: 'تأكد من وجود فتحات تصريف في الأصيص وأفرغ الطبق' },
+      { en: 'Water less often during winter', ar: 'قلل عدد مرات الري في الشتاء' },
+    ],
+    plan: {
+      careType: 'TREATMENT',
+      action: { en: 'Check the soil is dry 3-5 cm deep before watering', ar: 'تأكد أن التربة جافة على عمق ٣-٥ سم قبل الري' },
+      intervalDays: 4,
+      durationDays: 14,
+    },
+  },
+  'underwatering': {
+    names: { en: 'Underwatering', ar: 'نقص الري' },
+    description: {
+      en: 'The plant loses more water than it gets, common in Egyptian summers',
+      ar: 'يفقد النبات ماءً أكثر مما يحصل عليه، وهذا شائع في صيف مصر',
+    },
+    category: 'watering',
+    symptoms: { wilting: 3, dry_crispy_leaves: 3, brown_leaf_tips: 2, curling_leaves: 2, leaf_drop: 1, yellow_leaves: 1 },
+    susceptibility: {
+      'peace-lily': 1.5, 'mint': 1.4, 'basil': 1.4, 'hibiscus': 1.3, 'jasmine': 1.2,
+      'petunias': 1.2, 'marigold': 1.2, 'spider-plant': 1.1,
+      'cactus': 0.3, 'aloe-vera': 0.4, 'snake-plant': 0.4, 'zz-plant': 0.4,
+    },
+    treatments: [
+      { en: 'Water thoroughly until water drains from the bottom', ar: 'اسقِ النبات جيداً حتى يخرج الماء من أسفل الأصيص' },
+      { en: 'Check the soil with your finger every 2-3 days in summer', ar: 'افحص التربة بإصبعك كل ٢-٣ أيام في الصيف' },
+      { en: 'Add mulch on top of the soil to slow evaporation', ar: 'أضف غطاءً عضوياً فوق التربة لتقليل التبخر' },
+    ],
+    plan: {
+      careType: 'WATERING',
+      action: { en: 'Water deeply until water drains from the bottom', ar: 'اسقِ النبات جيداً حتى يخرج الماء من أسفل الأصيص' },
+      intervalDays: 3,
+      durationDays: 14,
+    },
+  },
+  'root-rot': {
+    names: { en: 'Root Rot', ar: 'تعفن الجذور' },
+    description: {
+      en: 'Fungal rot of roots sitting in waterlogged soil',
+      ar: 'تعفن فطري للجذور في التربة المشبعة بالماء',
+    },
+    category: 'disease',
+    symptoms: { black_roots: 3, root_rot_smell: 3, mushy_stem: 3, wilting: 2, yellow_leaves: 1, leaf_drop: 1 },
+    susceptibility: {
+      'snake-plant': 1.5, 'zz-plant': 1.5, 'aloe-vera': 1.5, 'cactus': 1.5,
+      'fiddle-leaf-fig': 1.3, 'monstera': 1.1, 'lavender': 1.3,
+      'mint': 0.7,
+    },
+    treatments: [
+      { en: 'Remove the plant and cut away black, mushy roots', ar: 'أخرج النبات وقص الجذور السوداء الطرية' },
+      { en: 'Repot in fresh, well-draining soil', ar: 'أعد الزراعة في تربة جديدة جيدة التصريف' },
+      { en: 'Water sparingly until new growth appears', ar: 'اسقِ بكميات قليلة حتى يظهر نمو جديد' },
+    ],
+    plan: {
+      careType: 'REPOTTING',
+      action: { en: 'Trim the rotten roots and repot in fresh, well-draining soil', ar: 'قص الجذور المتعفنة وأعد الزراعة في تربة جديدة جيدة التصريف' },
+      intervalDays: 21,
+      durationDays: 21,
+    },
+  },
+  'fungus-gnats': {
+    names: { en: 'Fungus Gnats', ar: 'ذباب الفطر' },
+    description: {
+      en: 'Tiny flies breeding in constantly moist potting soil',
+      ar: 'ذباب صغير يتكاثر في تربة الأصص الرطبة باستمرار',
+    },
+    category: 'pest',
+    symptoms: { tiny_insects: 2, mold_on_soil: 2, yellow_leaves: 1, stunted_growth: 1 },
+    susceptibility: { 'peace-lily': 1.3, 'pothos': 1.2, 'spider-plant': 1.1, 'cactus': 0.6 },
+    treatments: [
+      { en: 'Let the soil surface dry completely between waterings', ar: 'اترك سطح التربة يجف تماماً بين مرات الري' },
+      { en: 'Place yellow sticky traps next to the pot', ar: 'ضع مصائد لاصقة صفراء بجانب الأصيص' },
+      { en: 'Cover the soil with a thin layer of sand', ar: 'غطِّ التربة بطبقة رقيقة من الرمل' },
+    ],
+    plan: {
+      careType: 'TREATMENT',
+      action: { en: 'Replace the sticky traps and let the soil surface dry', ar: 'غيّر المصائد اللاصقة واترك سطح التربة يجف' },
+      intervalDays: 7,
+      durationDays: 21,
+    },
+  },
+  'spider-mites': {
+    names: { en: 'Spider Mites', ar: 'العنكبوت الأحمر' },
+    description: {
+      en: 'Tiny mites thriving in hot, dry air and dusty leaves',
+      ar: 'حلم صغير جداً ينتشر في الجو الحار الجاف وعلى الأوراق المتربة',
+    },
+    category: 'pest',
+    symptoms: { webbing: 3, speckled_leaves: 3, yellow_leaves: 1, leaf_drop: 1, tiny_insects: 1, dry_crispy_leaves: 1 },
+    susceptibility: {
+      'rose': 1.5, 'hibiscus': 1.4, 'palm-tree': 1.4, 'ficus': 1.2,
+      'monstera': 1.1, 'fiddle-leaf-fig': 1.1, 'aloe-vera': 0.5, 'snake-plant': 0.6,
+    },
+    treatments: [
+      { en: 'Rinse the leaves, especially the undersides, with water', ar: 'اغسل الأوراق بالماء وخاصة السطح السفلي' },
+      { en: 'Spray neem oil every 7 days for 3 weeks', ar: 'رش زيت النيم كل ٧ أيام لمدة ٣ أسابيع' },
+      { en: 'Raise humidity around the plant', ar: 'زد الرطوبة حول النبات' },
+    ],
+    plan: {
+      careType: 'TREATMENT',
+      action: { en: 'Spray neem oil on both sides of the leaves', ar: 'رش زيت النيم على سطحي الأوراق' },
+      intervalDays: 7,
+      durationDays: 21,
+    },
+  },
+  'sap-sucking-pests': {
+    names: { en: 'Aphids or Mealybugs', ar: 'المن أو البق الدقيقي' },
+    description: {
+      en: 'Soft insects sucking sap from new growth, leaving sticky honeydew',
+      ar: 'حشرات رخوة تمتص العصارة من النموات الجديدة وتترك إفرازات لزجة',
+    },
+    category: 'pest',
+    symptoms: { tiny_insects: 2, sticky_residue: 3, white_cotton_masses: 3, curling_leaves: 2, stunted_growth: 1 },
+    susceptibility: {
+      'hibiscus': 1.6, 'rose': 1.5, 'jasmine': 1.3, 'cactus': 1.3, 'aloe-vera': 1.2,
+      'oleander': 1.2, 'snake-plant': 0.7,
+    },
+    treatments: [
+      { en: 'Wipe pests off with a cotton swab dipped in alcohol', ar: 'امسح الحشرات بقطنة مبللة بالكحول' },
+      { en: 'Spray insecticidal soap or neem oil weekly', ar: 'رش صابون مبيد للحشرات أو زيت النيم أسبوعياً' },
+      { en: 'Isolate the plant from your other plants', ar: 'اعزل النبات عن باقي نباتاتك' },
+    ],
+    plan: {
+      careType: 'TREATMENT',
+      action: { en: 'Spray insecticidal soap or neem oil', ar: 'رش صابون مبيد للحشرات أو زيت النيم' },
+      intervalDays: 7,
+      durationDays: 21,
+    },
+  },
+  'sunburn': {
+    names: { en: 'Sunburn', ar: 'لفحة الشمس' },
+    description: {
+      en: 'Leaves scorched by strong direct sun, especially after moving a plant outside',
+      ar: 'احتراق الأوراق من الشمس المباشرة القوية، خاصة بعد نقل النبات للخارج',
+    },
+    category: 'environment',
+    symptoms: { scorched_leaves: 3, brown_spots: 2, dry_crispy_leaves: 1, pale_leaves: 1 },
+    susceptibility: {
+      'peace-lily': 1.6, 'monstera': 1.3, 'pothos': 1.3, 'fiddle-leaf-fig': 1.3,
+      'spider-plant': 1.2, 'zz-plant': 1.2,
+      'cactus': 0.4, 'bougainvillea': 0.3, 'oleander': 0.3, 'rosemary': 0.6, 'palm-tree': 0.7,
+    },
+    treatments: [
+      { en: 'Move the plant out of direct afternoon sun', ar: 'انقل النبات بعيداً عن شمس الظهيرة المباشرة' },
+      { en: 'Use a sheer curtain or shade cloth in summer', ar: 'استخدم ستارة خفيفة أو شبكة تظليل في الصيف' },
+      { en: 'Trim badly burned leaves', ar: 'قص الأوراق المحترقة بشدة' },
+    ],
+    plan: {
+      careType: 'TREATMENT',
+      action: { en: 'Move the plant out of direct afternoon sun', ar: 'انقل النبات بعيداً عن شمس الظهيرة المباشرة' },
+      intervalDays: 14,
+      durationDays: 14,
+    },
+  },
+  'heat-stress': {
+    names: { en: 'Heat Stress', ar: 'الإجهاد الحراري' },
+    description: {
+      en: 'Summer heat waves above 38°C overwhelm the plant',
+      ar: 'موجات الحر فوق ٣٨ درجة في الصيف ترهق النبات',
+    },
+    category: 'environment',
+    symptoms: { wilting: 2, curling_leaves: 2, brown_leaf_tips: 1, scorched_leaves: 1, leaf_drop: 1 },
+    susceptibility: { 'peace-lily': 1.4, 'mint': 1.3, 'petunias': 1.2, 'fiddle-leaf-fig': 1.2, 'oleander': 0.4, 'bougainvillea': 0.4 },
+    treatments: [
+      { en: 'Water early in the morning, not at midday', ar: 'اسقِ في الصباح الباكر وليس وقت الظهيرة' },
+      { en: 'Move pots off hot balcony tiles and rooftops', ar: 'ارفع الأصص عن بلاط البلكونة والسطح الساخن' },
+      { en: 'Group plants together to share humidity', ar: 'اجمع النباتات معاً لتتشارك الرطوبة' },
+    ],
+    plan: {
+      careType: 'WATERING',
+      action: { en: 'Water early in the morning', ar: 'اسقِ في الصباح الباكر' },
+      intervalDays: 2,
+      durationDays: 10,
+    },
+  },
+  'salt-burn': {
+    names: { en: 'Salt Burn from Hard Water', ar: 'احتراق الأملاح من الماء العسر' },
+    description: {
+      en: 'Salts from tap water build up in the soil and burn leaf edges',
+      ar: 'تتراكم أملاح ماء الصنبور في التربة وتحرق حواف الأوراق',
+    },
+    category: 'environment',
+    symptoms: { white_crust_on_soil: 3, brown_leaf_tips: 3, yellow_leaves: 1, stunted_growth: 1 },
+    susceptibility: { 'spider-plant': 1.6, 'peace-lily': 1.4, 'palm-tree': 1.3, 'pothos': 1.1, 'cactus': 0.7 },
+    treatments: [
+      { en: 'Flush the soil with plenty of water once a month', ar: 'اغسل التربة بكمية كبيرة من الماء مرة شهرياً' },
+      { en: 'Use filtered water or tap water left out overnight', ar: 'استخدم ماءً مفلتراً أو ماء صنبور مترك ليلة كاملة' },
+      { en: 'Scrape off the white crust and top up with fresh soil', ar: 'أزل القشرة البيضاء وأضف تربة جديدة' },
+    ],
+    plan: {
+      careType: 'TREATMENT',
+      action: { en: 'Flush the soil with plenty of filtered water', ar: 'اغسل التربة بكمية كبيرة من الماء المفلتر' },
+      intervalDays: 30,
+      durationDays: 30,
+    },
+  },
+  'fertilizer-burn': {
+    names: { en: 'Fertilizer Burn', ar: 'احتراق السماد' },
+    description: {
+      en: 'Too much or too strong fertilizer damages the roots',
+      ar: 'السماد الزائد أو المركز يتلف الجذور',
+    },
+    category: 'nutrition',
+    symptoms: { brown_leaf_tips: 2, scorched_leaves: 2, white_crust_on_soil: 2, wilting: 1, leaf_drop: 1 },
+    susceptibility: { 'peace-lily': 1.2, 'spider-plant': 1.2, 'cactus': 1.2, 'aloe-vera': 1.2 },
+    treatments: [
+      { en: 'Flush the soil thoroughly with water', ar: 'اغسل التربة جيداً بالماء' },
+      { en: 'Stop fertilizing for at least 4 weeks', ar: 'أوقف التسميد لمدة ٤ أسابيع على الأقل' },
+      { en: 'Dilute fertilizer to half the label strength', ar: 'خفف السماد إلى نصف التركيز المكتوب على العبوة' },
+    ],
+    plan: {
+      careType: 'TREATMENT',
+      action: { en: 'Flush the soil thoroughly with water', ar: 'اغسل التربة جيداً بالماء' },
+      intervalDays: 28,
+      durationDays: 28,
+    },
+  },
+  'nutrient-deficiency': {
+    names: { en: 'Nutrient Deficiency', ar: 'نقص العناصر الغذائية' },
+    description: {
+      en: 'The soil has run out of nitrogen, iron or other nutrients',
+      ar: 'نفدت من التربة عناصر مثل النيتروجين أو الحديد',
+    },
+    category: 'nutrition',
+    symptoms: { pale_leaves: 3, yellow_leaves: 2, stunted_growth: 2, no_flowers: 2 },
+    susceptibility: { 'basil': 1.3, 'rose': 1.3, 'hibiscus': 1.3, 'petunias': 1.3, 'bougainvillea': 1.1, 'cactus': 0.6 },
+    treatments: [
+      { en: 'Feed with a balanced liquid fertilizer at half strength', ar: 'سمّد بسماد سائل متوازن بنصف التركيز' },
+      { en: 'Fertilize every 2-4 weeks during the growing season', ar: 'سمّد كل ٢-٤ أسابيع في موسم النمو' },
+      { en: 'Repot plants that have been in the same soil for over a year', ar: 'أعد زراعة النباتات الموجودة في نفس التربة منذ أكثر من سنة' },
+    ],
+    plan: {
+      careType: 'FERTILIZING',
+      action: { en: 'Feed with a balanced fertilizer at half strength', ar: 'سمّد بسماد متوازن بنصف التركيز' },
+      intervalDays: 14,
+      durationDays: 42,
+    },
+  },
+  'low-light': {
+    names: { en: 'Not Enough Light', ar: 'نقص الإضاءة' },
+    description: {
+      en: 'The plant stretches towards the light and stops flowering',
+      ar: 'يستطيل النبات باتجاه الضوء ويتوقف عن الإزهار',
+    },
+    category: 'environment',
+    symptoms: { leggy_growth: 3, pale_leaves: 2, no_flowers: 2, leaf_drop: 1 },
+    susceptibility: {
+      'basil': 1.4, 'lavender': 1.4, 'rosemary': 1.3, 'geranium': 1.3, 'cactus': 1.4,
+      'aloe-vera': 1.3, 'bougainvillea': 1.3, 'hibiscus': 1.2,
+      'snake-plant': 0.4, 'zz-plant': 0.4, 'pothos': 0.6, 'peace-lily': 0.6,
+    },
+    treatments: [
+      { en: 'Move the plant closer to a bright window', ar: 'قرّب النبات من نافذة مضيئة' },
+      { en: 'Rotate the pot a quarter turn every week', ar: 'أدر الأصيص ربع دورة كل أسبوع' },
+      { en: 'Pinch back leggy stems to encourage bushy growth', ar: 'قص أطراف السيقان الطويلة لتشجيع النمو الكثيف' },
+    ],
+    plan: {
+      careType: 'TREATMENT',
+      action: { en: 'Rotate the pot a quarter turn towards the light', ar: 'أدر الأصيص ربع دورة باتجاه الضوء' },
+      intervalDays: 7,
+      durationDays: 28,
+    },
+  },
+  'fungal-leaf-spot': {
+    names: { en: 'Fungal Leaf Spot', ar: 'تبقع الأوراق الفطري' },
+    description: {
+      en: 'Fungal spots spreading on leaves kept wet',
+      ar: 'بقع فطرية تنتشر على الأوراق التي تبقى مبللة',
+    },
+    category: 'disease',
+    symptoms: { brown_spots: 3, yellow_leaves: 1, leaf_drop: 1 },
+    susceptibility: { 'rose': 1.5, 'geranium': 1.3, 'hibiscus': 1.1, 'ficus': 1.1 },
+    treatments: [
+      { en: 'Remove and discard affected leaves', ar: 'أزل الأوراق المصابة وتخلص منها' },
+      { en: 'Water the soil, not the leaves', ar: 'اسقِ التربة وليس الأوراق' },
+      { en: 'Improve air circulation around the plant', ar: 'حسّن التهوية حول النبات' },
+    ],
+    plan: {
+      careType: 'TREATMENT',
+      action: { en: 'Remove spotted leaves and spray a copper fungicide', ar: 'أزل الأوراق المبقعة ورش مبيد فطري نحاسي' },
+      intervalDays: 7,
+      durationDays: 21,
+    },
+  },
+  'powdery-mildew': {
+    names: { en: 'Powdery Mildew', ar: 'البياض الدقيقي' },
+    description: {
+      en: 'White fungal powder on leaves, common in humid Delta and coastal areas',
+      ar: 'مسحوق فطري أبيض على الأوراق، شائع في الدلتا والمناطق الساحلية الرطبة',
+    },
+    category: 'disease',
+    symptoms: { white_powder: 3, curling_leaves: 1, yellow_leaves: 1, stunted_growth: 1 },
+    susceptibility: { 'rose': 1.6, 'mint': 1.3, 'marigold': 1.3, 'basil': 1.2, 'petunias': 1.2 },
+    treatments: [
+      { en: 'Remove the worst affected leaves', ar: 'أزل الأوراق الأكثر إصابة' },
+      { en: 'Spray a baking soda solution (1 tsp per litre) weekly', ar: 'رش محلول بيكربونات الصوديوم (ملعقة صغيرة لكل لتر) أسبوعياً' },
+      { en: 'Avoid crowding plants together', ar: 'تجنب تكديس النباتات بجانب بعضها' },
+    ],
+    plan: {
+      careType: 'TREATMENT',
+      action: { en: 'Spray a baking soda solution on the leaves', ar: 'رش محلول بيكربونات الصوديوم على الأوراق' },
+      intervalDays: 7,
+      durationDays: 21,
+    },
+  },
+  'transplant-shock': {
+    names: { en: 'Transplant Shock', ar: 'صدمة النقل' },
+    description: {
+      en: 'Temporary stress after repotting or moving the plant',
+      ar: 'إجهاد مؤقت بعد إعادة الزراعة أو نقل النبات',
+    },
+    category: 'environment',
+    symptoms: { wilting: 2, leaf_drop: 2, yellow_leaves: 1, curling_leaves: 1 },
+    susceptibility: { 'fiddle-leaf-fig': 1.5, 'ficus': 1.5, 'rubber-plant': 1.2 },
+    treatments: [
+      { en: 'Keep the plant in indirect light for two weeks', ar: 'أبقِ النبات في ضوء غير مباشر لمدة أسبوعين' },
+      { en: 'Water moderately and do not fertilize for a month', ar: 'اسقِ باعتدال ولا تسمّد لمدة شهر' },
+      { en: 'Avoid moving the plant again', ar: 'تجنب نقل النبات مرة أخرى' },
+    ],
+    plan: {
+      careType: 'TREATMENT',
+      action: { en: 'Keep the plant in indirect light and check the soil moisture', ar: 'أبقِ النبات في ضوء غير مباشر وافحص رطوبة التربة' },
+      intervalDays: 7,
+      durationDays: 14,
+    },
+  },
+};
+
+export interface CareHistorySummary {
+  wateringIntervalDays: number;
+  wateringsLast14Days: number;
+  daysSinceLastWatering: number | null;
+  fertilizingsLast30Days: number;
+  daysSinceLastFertilizing: number | null;
+  daysSinceRepotting: number | null;
+}
+
+export interface RankedProblem {
+  problem: string;
+  names: BilingualText;
+  description: BilingualText;
+  category: ProblemCategory;
+  confidence: number; // 0-1
+  matchedSymptoms: SymptomCode[];
+  factors: string[]; // Why the score was raised or lowered
+  solutions: BilingualText[];
+  plan: TreatmentPlanTemplate;
+}
+
+export interface RankingInput {
+  symptoms: SymptomInput[];
+  speciesKey: string | null; // Catalogue key of the plant's species
+  history: CareHistorySummary | null;
+}
+
+const MAX_CONFIDENCE = 0.95;
+
+// Ranks catalogue problems by reported symptoms, species and recent care
+export class SymptomScoringEngine {
+  constructor(private readonly problems: Record<string, PlantProblem> = PLANT_PROBLEMS) {}
+
+  rank(input: RankingInput, limit: number = 3, maxSolutions: number = 3): RankedProblem[] {
+    const reported = new Set(input.symptoms.map(symptom => symptom.code));
+
+    return Object.entries(this.problems)
+      .map(([key, problem]) => this.scoreProblem(key, problem, reported, input, maxSolutions))
+      .filter((ranked): ranked is RankedProblem => ranked !== null)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, limit);
+  }
+
+  // Reduce raw care logs to the signals the rules look at
+  summarizeCareHistory(careLogs: Pick<CareLog, 'type' | 'performedAt'>[], wateringIntervalDays: number, now: Date = new Date()): CareHistorySummary {
+    const daysSinceLast = (type: string): number | null => {
+      const latest = careLogs
+        .filter(log => log.type === type)
+        .reduce<Date | null>((max, log) => (!max || log.performedAt > max ? log.performedAt : max), null);
+      return latest ? differenceInCalendarDays(now, latest) : null;
+    };
+    const countSince = (type: string, days: number): number =>
+      careLogs.filter(log => log.type === type && log.performedAt >= subDays(now, days)).length;
+
+    return {
+      wateringIntervalDays,
+      wateringsLast14Days: countSince('WATERING', 14),
+      daysSinceLastWatering: daysSinceLast('WATERING'),
+      fertilizingsLast30Days: countSince('FERTILIZING', 30),
+      daysSinceLastFertilizing: daysSinceLast('FERTILIZING'),
+      daysSinceRepotting: daysSinceLast('REPOTTING'),
+    };
+  }
+
+  private scoreProblem(
+    key: string,
+    problem: PlantProblem,
+    reported: Set<SymptomCode>,
+    input: RankingInput,
+    maxSolutions: number
+  ): RankedProblem | null {
+    const pattern = Object.entries(problem.symptoms) as Array<[SymptomCode, number]>;
+    const matched = pattern.filter(([code]) => reported.has(code));
+
+    if (matched.length === 0) {
+      return null;
+    }
+
+    // How much of the report is explained, and how much of the weighted pattern is present
+    const coverage = matched.length / reported.size;
+    const totalWeight = pattern.reduce((sum, [, weight]) => sum + weight, 0);
+    const patternMatch = matched.reduce((sum, [, weight]) => sum + weight, 0) / totalWeight;
+
+    const factors: string[] = [];
+    let multiplier = 1;
+
+    const susceptibility = input.speciesKey && problem.susceptibility[input.speciesKey as EgyptianPlantKey];
+    if (susceptibility) {
+      multiplier *= susceptibility;
+      factors.push(susceptibility > 1 ? `species_prone:${input.speciesKey}` : `species_resistant:${input.speciesKey}`);
+    }
+
+    if (input.history) {
+      multiplier *= this.historyMultiplier(key, input.history, factors);
+    }
+
+    const confidence = Math.min((0.6 * coverage + 0.4 * patternMatch) * multiplier, MAX_CONFIDENCE);
+
+    return {
+      problem: key,
+      names: problem.names,
+      description: problem.description,
+      category: problem.category,
+      confidence: Math.round(confidence * 100) / 100,
+      matchedSymptoms: matched.map(([code]) => code),
+      factors,
+      solutions: problem.treatments.slice(0, maxSolutions),
+      plan: problem.plan,
+    };
+  }
+
+  // Recent care shifts the odds, e.g. frequent watering makes rot more likely
+  private historyMultiplier(problem: string, history: CareHistorySummary, factors: string[]): number {
+    let multiplier = 1;
+
+    const expectedWaterings = 14 / history.wateringIntervalDays;
+    const wateringRatio = history.wateringsLast14Days / Math.max(expectedWaterings, 1);
+
+    if (wateringRatio >= 1.5) {
+      if (['overwatering', 'root-rot', 'fungus-gnats'].includes(problem)) {
+        multiplier *= 1 + 0.4 * Math.min(wateringRatio - 1, 1.5);
+        factors.push('frequent_watering');
+      } else if (problem === 'underwatering') {
+        multiplier *= 0.5;
+        factors.push('frequent_watering');
+      }
+    }
+
+    const longDry =
+      history.daysSinceLastWatering !== null &&
+      history.daysSinceLastWatering > history.wateringIntervalDays * 2;
+
+    if (longDry) {
+      if (problem === 'underwatering' || problem === 'heat-stress') {
+        multiplier *= 1.4;
+        factors.push('long_since_watering');
+      } else if (problem === 'overwatering' || problem === 'root-rot') {
+        multiplier *= 0.6;
+        factors.push('long_since_watering');
+      }
+    }
+
+    if (history.fertilizingsLast30Days >= 3) {
+      if (problem === 'fertilizer-burn' || problem === 'salt-burn') {
+        multiplier *= problem === 'fertilizer-burn' ? 1.5 : 1.2;
+        factors.push('frequent_fertilizing');
+      } else if (problem === 'nutrient-deficiency') {
+        multiplier *= 0.5;
+        factors.push('frequent_fertilizing');
+      }
+    }
+
+    const unfed = history.daysSinceLastFertilizing === null || history.daysSinceLastFertilizing > 90;
+    if (unfed && problem === 'nutrient-deficiency') {
+      multiplier *= 1.3;
+      factors.push('not_fertilized_recently');
+    }
+
+    if (history.daysSinceRepotting !== null && history.daysSinceRepotting <= 21 && problem === 'transplant-shock') {
+      multiplier *= 1.8;
+      factors.push('recently_repotted');
+    }
+
+    return multiplier;
+  }
+}
+
+export const symptomScoringEngine = new SymptomScoringEngine();
@@ -0,0 +1,128 @@
+// backend/src/services/upload.service.test.ts
+import sharp from 'sharp';
+import { imageRenditionService } from './image-rendition.service';
+import { uploadService } from './upload.service';
+import * as imageRenditionJob from '../jobs/image-rendition.job';
+import * as storageProvider from '../providers/storage';
+import { prismaMock, resetPrismaMock } from '../test/prisma';
+
+const USER_ID = '0b6f6c4e-7d1f-4c57-9d43-2f4f0c1a0001';
+const ASSET_ID = '6e5d4c3b-2a19-4f8e-9d7c-6b5a4f3e0001';
+const URL_PREFIX = 'https://api.example.com/uploads/';
+
+// In-memory stand-in for the storage adapter
+const files = new Map<string, Buffer>();
+const storage = {
+  driver: 'local' as const,
+  put: jest.fn((key: string, body: Buffer) => {
+    files.set(key, body);
+    return Promise.resolve(`${URL_PREFIX}${key}`);
+  }),
+  get: jest.fn((key: string) => Promise.resolve(files.get(key)!)),
+  delete: jest.fn((key: string) => {
+    files.delete(key);
+    return Promise.resolve();
+  }),
+  keyFromUrl: jest.fn((url: string) => (url.startsWith(URL_PREFIX) ? url.slice(URL_PREFIX.length) : null)),
+};
+
+// A 40x20 photo taken with the phone on its side, carrying camera and GPS metadata
+const phonePhoto = (): Promise<Buffer> =>
+  sharp({ create: { width: 40, height: 20, channels: 3, background: '#2e7d32' } })
+    .jpeg()
+    .withMetadata({ orientation: 6 })
+    .withExif({ IFD0: { Make: 'PhoneMaker', Copyright: 'Owner' }, IFD3: { GPSLatitudeRef: 'N', GPSLongitudeRef: 'E' } })
+    .toBuffer();
+
+beforeEach(() => {
+  resetPrismaMock();
+  jest.restoreAllMocks();
+  files.clear();
+  [storage.put, storage.get, storage.delete, storage.keyFromUrl].forEach(mock => mock.mockClear());
+  jest.spyOn(storageProvider, 'getStorage').mockReturnValue(storage);
+  jest.spyOn(imageRenditionJob, 'enqueueImageRenditions').mockResolvedValue(undefined);
+  prismaMock.imageAsset.create.mockImplementation(({ data }: { data: Record<string, unknown> }) =>
+    Promise.resolve({ status: 'PENDING', renditions: null, createdAt: new Date(), ...data }));
+});
+
+describe('uploadService.saveImage', () => {
+  it('strips the metadata, applies the orientation and stores the photo', async () => {
+    const view = await uploadService.saveImage(`uploads/${USER_ID}`, await phonePhoto(), { id: ASSET_ID, userId: USER_ID });
+
+    const key = `uploads/${USER_ID}/${ASSET_ID}.jpg`;
+    const stored = await sharp(files.get(key)!).metadata();
+    expect(stored).toMatchObject({ format: 'jpeg', width: 20, height: 40 });
+    expect(stored.exif).toBeUndefined();
+    expect(stored.orientation).toBeUndefined();
+
+    expect(view).toMatchObject({
+      id: ASSET_ID,
+      key,
+      url: `${URL_PREFIX}${key}`,
+      userId: USER_ID,
+      contentType: 'image/jpeg',
+      width: 20,
+      height: 40,
+      status: 'PENDING',
+      renditions: null,
+    });
+    expect(view.size).toBe(files.get(key)!.length);
+    expect(imageRenditionJob.enqueueImageRenditions).toHaveBeenCalledWith(ASSET_ID);
+  });
+
+  it('keeps the format the photo was sent in', async () => {
+    const png = await sharp({ create: { width: 8, height: 8, channels: 4, background: '#00000000' } }).png().toBuffer();
+
+    const view = await uploadService.saveImage('plants', png);
+
+    expect(view.contentType).toBe('image/png');
+    expect(view.key).toMatch(/^plants\/[0-9a-f-]{36}\.png$/);
+  });
+
+  it('goes by the content rather than the file name or the client\'s type', async () => {
+    await expect(uploadService.saveImage('plants', Buffer.from('GIF89a...'))).rejects.toThrow('Unsupported image type');
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it('rejects a file that only looks like an image', async () => {
+    const fake = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.from('not really a jpeg')]);
+
+    await expect(uploadService.saveImage('plants', fake)).rejects.toThrow('Invalid image');
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it('removes the stored file when the record cannot be saved', async () => {
+    prismaMock.imageAsset.create.mockRejectedValue(new Error('database is locked'));
+
+    await expect(uploadService.saveImage('plants', await phonePhoto(), { id: ASSET_ID })).rejects.toThrow('Failed to store image');
+    expect(storage.delete).toHaveBeenCalledWith(`plants/${ASSET_ID}.jpg`);
+    expect(files.size).toBe(0);
+    expect(imageRenditionJob.enqueueImageRenditions).not.toHaveBeenCalled();
+  });
+});
+
+describe('uploadService.deleteByUrl', () => {
+  it('deletes the record, the renditions and the original', async () => {
+    const url = `${URL_PREFIX}plants/${ASSET_ID}.jpg`;
+    const renditions = { thumb: { width: 160, height: 160, webp: `${URL_PREFIX}plants/${ASSET_ID}_thumb.webp`, jpeg: `${URL_PREFIX}plants/${ASSET_ID}_thumb.jpg` } };
+    prismaMock.imageAsset.findUnique.mockResolvedValue({ id: ASSET_ID, url, renditions: JSON.stringify(renditions), status: 'READY' });
+    jest.spyOn(imageRenditionService, 'deleteFiles');
+
+    await uploadService.deleteByUrl(url);
+
+    expect(prismaMock.imageAsset.delete).toHaveBeenCalledWith({ where: { id: ASSET_ID } });
+    expect(imageRenditionService.deleteFiles).toHaveBeenCalledWith(renditions);
+    expect(storage.delete.mock.calls.map(([key]) => key).sort()).toEqual([
+      `plants/${ASSET_ID}.jpg`,
+      `plants/${ASSET_ID}_thumb.jpg`,
+      `plants/${ASSET_ID}_thumb.webp`,
+    ]);
+  });
+
+  it('ignores URLs the storage did not hand out', async () => {
+    await uploadService.deleteByUrl('https://images.example.org/monstera.jpg');
+
+    expect(prismaMock.imageAsset.findUnique).not.toHaveBeenCalled();
+    expect(storage.delete).not.toHaveBeenCalled();
+  });
+});
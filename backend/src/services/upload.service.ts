@@ -0,0 +1,124 @@
+// backend/src/services/upload.service.ts
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { enqueueImageRenditions } from '../jobs/image-rendition.job';
+import { getStorage } from '../providers/storage';
+import { IMAGE_EXTENSIONS, ImageMimeType, sniffImageType } from '../utils/image';
+import { logger } from '../utils/logger';
+import { ImageAssetView, imageRenditionService } from './image-rendition.service';
+
+const prisma = new PrismaClient();
+
+// Guards against decompression bombs; a 50MP phone photo still fits
+const MAX_INPUT_PIXELS = 100 * 1000 * 1000;
+
+const JPEG_QUALITY = 90;
+const WEBP_QUALITY = 90;
+
+export interface SaveImageOptions {
+  id?: string; // File name without extension; a new UUID by default
+  userId?: string; // Uploader, who can look the image up later
+}
+
+export class UploadService {
+  // Check an image by its content, strip its metadata and store it as "<folder>/<id>.<ext>";
+  // the renditions are made by a background job
+  async saveImage(folder: string, buffer: Buffer, options: SaveImageOptions = {}): Promise<ImageAssetView> {
+    const id = options.id || crypto.randomUUID();
+    const contentType = sniffImageType(buffer);
+    if (!contentType) {
+      throw new Error('Unsupported image type');
+    }
+
+    let output: { data: Buffer; info: sharp.OutputInfo };
+    try {
+      output = await this.stripMetadata(buffer, contentType);
+    } catch (error) {
+      logger.warn('Failed to decode uploaded image:', error);
+      throw new Error('Invalid image');
+    }
+
+    const key = `${folder}/${id}.${IMAGE_EXTENSIONS[contentType]}`;
+    const storage = getStorage();
+    let url: string | null = null;
+
+    try {
+      url = await storage.put(key, output.data, contentType);
+
+      const asset = await prisma.imageAsset.create({
+        data: {
+          id,
+          key,
+          url,
+          userId: options.userId,
+          contentType,
+          size: output.info.size,
+          width: output.info.width,
+          height: output.info.height,
+        },
+      });
+
+      await enqueueImageRenditions(asset.id);
+
+      logger.info(`Image stored: ${key} (${output.info.size} bytes)`);
+      return imageRenditionService.toView(asset);
+    } catch (error) {
+      logger.error('Failed to store image:', error);
+      if (url) {
+        await storage.delete(key).catch(() => undefined);
+      }
+      throw new Error('Failed to store image');
+    }
+  }
+
+  // Get an image uploaded by the user, with its renditions once they are ready
+  async getUpload(id: string, userId: string): Promise<ImageAssetView | null> {
+    try {
+      const asset = await prisma.imageAsset.findFirst({
+        where: { id, userId },
+      });
+
+      return asset ? imageRenditionService.toView(asset) : null;
+    } catch (error) {
+      logger.error('Failed to fetch upload:', error);
+      throw new Error('Failed to fetch upload');
+    }
+  }
+
+  // Delete a file stored by saveImage and its renditions; URLs from anywhere else are ignored
+  async deleteByUrl(url: string): Promise<void> {
+    const storage = getStorage();
+    const key = storage.keyFromUrl(url);
+    if (!key) {
+      return;
+    }
+
+    const asset = await prisma.imageAsset.findUnique({ where: { url } });
+    if (asset) {
+      await prisma.imageAsset.delete({ where: { id: asset.id } });
+      await imageRenditionService.deleteFiles(imageRenditionService.toView(asset).renditions);
+    }
+    await storage.delete(key);
+  }
+
+  // Re-encode in the same format: sharp drops EXIF (GPS position, camera serial) and other metadata
+  private async stripMetadata(
+    buffer: Buffer,
+    contentType: ImageMimeType
+  ): Promise<{ data: Buffer; info: sharp.OutputInfo }> {
+    // Apply the EXIF orientation first, or portrait photos would end up sideways
+    const image = sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+
+    switch (contentType) {
+      case 'image/png':
+        return image.png().toBuffer({ resolveWithObject: true });
+      case 'image/webp':
+        return image.webp({ quality: WEBP_QUALITY }).toBuffer({ resolveWithObject: true });
+      default:
+        return image.jpeg({ quality: JPEG_QUALITY }).toBuffer({ resolveWithObject: true });
+    }
+  }
+}
+
+export const uploadService = new UploadService();
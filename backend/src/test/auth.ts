@@ -0,0 +1,22 @@
+// backend/src/test/auth.ts
+import jwt from 'jsonwebtoken';
+import { prismaMock } from './prisma';
+
+// Authorization header for a signed-in user, with the lookups authMiddleware makes programmed
+export const signIn = (userId: string): string => {
+  prismaMock.user.findUnique.mockResolvedValue({
+    id: userId,
+    email: `${userId}@example.com`,
+    role: 'user',
+    isEmailVerified: true,
+    lastLoginAt: null,
+  });
+  prismaMock.refreshToken.findFirst.mockResolvedValue({ id: 'refresh-token' });
+
+  const token = jwt.sign(
+    { userId, deviceId: 'test-device', tokenId: 'test-token', type: 'access', version: 1 },
+    process.env.JWT_SECRET!,
+    { expiresIn: '5m', issuer: 'lotus-app', audience: 'lotus-api' }
+  );
+  return `Bearer ${token}`;
+};
@@ -0,0 +1,60 @@
+// backend/src/test/prisma.ts
+
+// Stand-in for the PrismaClient every service creates: each model method is a jest.fn that
+// tests program per case. Unprogrammed reads return nothing found
+export type ModelMock = Record<string, jest.Mock>;
+
+const DEFAULT_RESULTS: Record<string, () => unknown> = {
+  findMany: () => [],
+  findFirst: () => null,
+  findUnique: () => null,
+  count: () => 0,
+  groupBy: () => [],
+  updateMany: () => ({ count: 0 }),
+  deleteMany: () => ({ count: 0 }),
+};
+
+let models = new Map<string, ModelMock>();
+
+const modelMock = (name: string): ModelMock => {
+  let model = models.get(name);
+  if (!model) {
+    const methods: ModelMock = {};
+    model = new Proxy(methods, {
+      get: (target, method: string): jest.Mock => {
+        if (!target[method]) {
+          const result = DEFAULT_RESULTS[method];
+          target[method] = jest.fn(() => Promise.resolve(result ? result() : undefined));
+        }
+        return target[method];
+      },
+    });
+    models.set(name, model);
+  }
+  return model;
+};
+
+// Arrays of queries resolve together; interactive transactions get the same client
+const $transaction = jest.fn((queries: unknown): Promise<unknown> =>
+  typeof queries === 'function'
+    ? Promise.resolve((queries as (tx: unknown) => unknown)(prismaMock))
+    : Promise.all(queries as unknown[])
+);
+
+export const prismaMock = new Proxy({} as Record<string, ModelMock> & { $transaction: typeof $transaction }, {
+  get: (_target, name: string): unknown => {
+    if (name === '$transaction') {
+      return $transaction;
+    }
+    if (name.startsWith('$')) {
+      return jest.fn(() => Promise.resolve());
+    }
+    return modelMock(name);
+  },
+});
+
+// Forget every programmed result and recorded call
+export const resetPrismaMock = (): void => {
+  models = new Map();
+  $transaction.mockClear();
+};
@@ -0,0 +1,9 @@
+// backend/src/test/setup.ts
+import { logger } from '../utils/logger';
+
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = 'test-access-secret';
+process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+
+// Expected failures are logged by the services; keep the test output readable
+logger.silent = true;
@@ -0,0 +1,89 @@
+// backend/src/utils/arabic.test.ts
+import { containsArabic, isFrancoArabic, normalizeArabic, normalizeArabicWord, phoneticKey } from './arabic';
+
+describe('normalizeArabicWord', () => {
+  it.each([
+    // Alef and hamza variants
+    ['أزهار', 'ازهار'],
+    ['إبريق', 'ابريق'],
+    ['آس', 'اس'],
+    ['مؤمن', 'مومن'],
+    ['شاطئ', 'شاطي'],
+    // Alef maqsura and taa marbuta
+    ['مستشفى', 'مستشفي'],
+    ['زهرة', 'زهره'],
+    // Diacritics, tatweel and Arabic-Indic digits
+    ['وَرْدَة', 'ورده'],
+    ['نعـــناع', 'نعناع'],
+    ['١٢٣', '123'],
+    // The definite article, also after و/ف/ب/ك
+    ['الياسمين', 'ياسمين'],
+    ['بالنعناع', 'نعناع'],
+    ['والورد', 'ورد'],
+    ['الفل', 'فل'],
+    // Too short to carry an article
+    ['ال', 'ال'],
+    ['ياسمين', 'ياسمين'],
+  ])('normalizes %s to %s', (word, normalized) => {
+    expect(normalizeArabicWord(word)).toBe(normalized);
+  });
+});
+
+describe('normalizeArabic', () => {
+  it('normalizes each Arabic word and leaves Latin words and extra spaces out of it', () => {
+    expect(normalizeArabic('زهرة  الياسمين mint')).toBe('زهره ياسمين mint');
+  });
+});
+
+describe('phoneticKey', () => {
+  it.each([
+    // Franco-Arabic and Arabic spellings of the same word share a key
+    ['na3na3', 'نعناع', 'n3n3'],
+    ['7abaq', 'حبق', '7bq'],
+    ['yasmeen', 'الياسمين', 'smn'],
+    ['zahrah', 'زهرة', 'zhr'],
+    ['karkade', 'كركديه', 'krkd'],
+  ])('gives %s and %s the key %s', (franco, arabic, key) => {
+    expect(phoneticKey(franco)).toBe(key);
+    expect(phoneticKey(arabic)).toBe(key);
+  });
+
+  it.each([
+    ['shay', '$'],
+    ['chay', '$'],
+    ['khass', '5s'],
+    ['ghazal', '8zl'],
+    ['thawm', 'sm'],
+    ['dhahab', 'zhb'],
+    ['zanba2et', 'znbt'],
+  ])('reads the digraphs in %s as %s', (word, key) => {
+    expect(phoneticKey(word)).toBe(key);
+  });
+
+  it.each([
+    ['س', 'ص'],
+    ['ت', 'ط'],
+    ['ز', 'ظ'],
+    ['د', 'ض'],
+  ])('does not tell %s from %s', (letter, soundAlike) => {
+    expect(phoneticKey(`${letter}ور`)).toBe(phoneticKey(`${soundAlike}ور`));
+  });
+
+  it('drops doubled letters', () => {
+    expect(phoneticKey('فلّ')).toBe('fl');
+    expect(phoneticKey('foll')).toBe('fl');
+  });
+});
+
+describe('containsArabic / isFrancoArabic', () => {
+  it.each([
+    ['نعناع', true, false],
+    ['na3na3', false, true],
+    ['7abaq', false, true],
+    ['mint', false, false],
+    ['2024', false, false],
+  ])('%s: Arabic %s, Franco-Arabic %s', (word, arabic, franco) => {
+    expect(containsArabic(word)).toBe(arabic);
+    expect(isFrancoArabic(word)).toBe(franco);
+  });
+});
@@ -0,0 +1,90 @@
+// backend/src/utils/arabic.ts
+
+const ARABIC_LETTERS = /[\u0621-\u064A]/;
+const DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED]/g;
+const TATWEEL = /\u0640/g;
+const ARABIC_INDIC_DIGITS = /[\u0660-\u0669]/g;
+
+// Definite article, alone or after the conjunctions و/ف and prepositions ب/ك
+const DEFINITE_ARTICLE = /^(?:[وفبك])?ال(?=\S{2,})/;
+
+const LETTER_VARIANTS: Array<[RegExp, string]> = [
+  [/[أإآٱ]/g, 'ا'],
+  [/ى/g, 'ي'],
+  [/ة/g, 'ه'],
+  [/ؤ/g, 'و'],
+  [/ئ/g, 'ي'],
+];
+
+export const containsArabic = (text: string): boolean => ARABIC_LETTERS.test(text);
+
+// Harakat and tatweel; they are marks, not letters, so text cleanup would otherwise split words on them
+export const removeArabicMarks = (text: string): string => text.replace(DIACRITICS, '').replace(TATWEEL, '');
+
+// Spelling-insensitive form of an Arabic word: "الياسمين" and "ياسمين" both become "ياسمين"
+export const normalizeArabicWord = (word: string): string => {
+  let normalized = removeArabicMarks(word)
+    .replace(ARABIC_INDIC_DIGITS, digit => String(digit.charCodeAt(0) - 0x0660));
+
+  for (const [pattern, replacement] of LETTER_VARIANTS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+
+  return normalized.replace(DEFINITE_ARTICLE, '');
+};
+
+export const normalizeArabic = (text: string): string => {
+  return text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => (containsArabic(word) ? normalizeArabicWord(word) : word))
+    .join(' ');
+};
+
+// Sound classes shared by Arabic letters and Franco-Arabic ("3arabizi") spelling.
+// Letters Egyptians don't tell apart in Latin script share a class (e.g. س/ص/ث).
+const ARABIC_SOUND_CLASSES: Record<string, string> = {
+  'ب': 'b', 'ت': 't', 'ط': 't', 'ث': 's', 'س': 's', 'ص': 's', 'ج': 'g',
+  'ح': '7', 'خ': '5', 'د': 'd', 'ض': 'd', 'ذ': 'z', 'ز': 'z', 'ظ': 'z',
+  'ر': 'r', 'ش': '$', 'ع': '3', 'غ': '8', 'ف': 'f', 'ق': 'q', 'ك': 'k',
+  'ل': 'l', 'م': 'm', 'ن': 'n', 'ه': 'h',
+};
+
+const FRANCO_DIGRAPHS: Array<[RegExp, string]> = [
+  [/sh|ch/g, '$'],
+  [/kh/g, '5'],
+  [/gh/g, '8'],
+  [/th/g, 's'],
+  [/dh/g, 'z'],
+];
+
+const FRANCO_SOUND_CLASSES: Record<string, string> = {
+  b: 'b', p: 'b', t: 't', '6': 't', s: 's', g: 'g', j: 'g', '7': '7', '5': '5',
+  d: 'd', z: 'z', r: 'r', '3': '3', '8': '8', f: 'f', v: 'f', q: 'q', '9': 's',
+  k: 'k', c: 'k', l: 'l', m: 'm', n: 'n', h: 'h', x: 'ks', '$': '$',
+};
+
+// Consonant skeleton of a word in Arabic or Franco-Arabic script, so that
+// "na3na3" and "نعناع" both become "n3n3". Vowels and hamza are dropped.
+export const phoneticKey = (word: string): string => {
+  let classes: string[];
+
+  if (containsArabic(word)) {
+    classes = Array.from(normalizeArabicWord(word)).map(letter => ARABIC_SOUND_CLASSES[letter] || '');
+  } else {
+    let latin = word.toLowerCase();
+    for (const [pattern, replacement] of FRANCO_DIGRAPHS) {
+      latin = latin.replace(pattern, replacement);
+    }
+    classes = Array.from(latin).map(letter => FRANCO_SOUND_CLASSES[letter] || '');
+  }
+
+  // Doubled letters (shadda) and a final h (taa marbuta, "zahrah") carry no meaning here
+  return classes
+    .join('')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/(?<=.)h$/, '');
+};
+
+// Franco-Arabic words are Latin words containing the digits used for Arabic sounds
+export const isFrancoArabic = (word: string): boolean => /[a-z]/i.test(word) && /[235679]/.test(word);
@@ -0,0 +1,74 @@
+// backend/src/utils/csv.test.ts
+import { parseCsv, protectFormula, toCsv, unprotectFormula } from './csv';
+
+describe('parseCsv', () => {
+  it.each([
+    ['LF line endings', 'a,b\n1,2\n', [['a', 'b'], ['1', '2']]],
+    ['CRLF line endings', 'a,b\r\n1,2\r\n', [['a', 'b'], ['1', '2']]],
+    ['CR line endings', 'a,b\r1,2', [['a', 'b'], ['1', '2']]],
+    ['no trailing newline', 'a,b\n1,2', [['a', 'b'], ['1', '2']]],
+    ['a leading BOM', '\uFEFFkey,name\nmint,نعناع\n', [['key', 'name'], ['mint', 'نعناع']]],
+    ['empty fields', 'a,,c\n,,\n', [['a', '', 'c'], ['', '', '']]],
+    ['commas inside quotes', '"Mentha, spicata",mint\n', [['Mentha, spicata', 'mint']]],
+    ['escaped quotes', '"the ""mint"" plant",x\n', [['the "mint" plant', 'x']]],
+    ['newlines inside quotes', '"line 1\r\nline 2",x\n', [['line 1\r\nline 2', 'x']]],
+    ['an empty quoted field', '"",x\n', [['', 'x']]],
+  ])('reads %s', (_case, text, expected) => {
+    expect(parseCsv(text)).toEqual(expected);
+  });
+
+  it('keeps blank lines as single empty fields', () => {
+    expect(parseCsv('a\n\nb\n')).toEqual([['a'], [''], ['b']]);
+  });
+
+  it('returns no rows for an empty file', () => {
+    expect(parseCsv('')).toEqual([]);
+    expect(parseCsv('\uFEFF')).toEqual([]);
+  });
+
+  it('rejects a quoted field that is never closed', () => {
+    expect(() => parseCsv('a,"b\n1,2\n')).toThrow('Unterminated quoted field');
+  });
+});
+
+describe('toCsv', () => {
+  it('writes a BOM and CRLF line endings', () => {
+    expect(toCsv(['a', 'b'], [['1', '2']])).toBe('\uFEFFa,b\r\n1,2\r\n');
+  });
+
+  it('quotes fields with commas, quotes or newlines', () => {
+    expect(toCsv(['name'], [['Mentha, spicata'], ['the "mint"'], ['two\nlines']]))
+      .toBe('\uFEFFname\r\n"Mentha, spicata"\r\n"the ""mint"""\r\n"two\nlines"\r\n');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const header = ['key', 'nameArabic', 'aliases'];
+    const rows = [
+      ['mint', 'نعناع', 'na3na3|"spearmint"'],
+      ['basil', 'ريحان', 'rayhan, habaq'],
+      ['aloe', 'صبار', 'line\r\nbreak'],
+    ];
+
+    expect(parseCsv(toCsv(header, rows))).toEqual([header, ...rows]);
+  });
+});
+
+describe('protectFormula / unprotectFormula', () => {
+  it.each([
+    ['=SUM(A1:A2)', '\'=SUM(A1:A2)'],
+    ['+20 1234', '\'+20 1234'],
+    ['-Mint-', '\'-Mint-'],
+    ['@mint', '\'@mint'],
+    ['\tmint', '\'\tmint'],
+    ['mint', 'mint'],
+    ['نعناع', 'نعناع'],
+    ['', ''],
+  ])('stores %j as %j and reads it back', (value, stored) => {
+    expect(protectFormula(value)).toBe(stored);
+    expect(unprotectFormula(stored)).toBe(value);
+  });
+
+  it('keeps an apostrophe that does not guard a formula', () => {
+    expect(unprotectFormula('\'s mint')).toBe('\'s mint');
+  });
+});
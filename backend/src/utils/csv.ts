@@ -0,0 +1,76 @@
+// backend/src/utils/csv.ts
+
+// Spreadsheet apps (Excel in particular) need the BOM to read Arabic text as UTF-8
+const UTF8_BOM = '\uFEFF';
+
+// Parse RFC 4180 CSV into rows of fields; quoted fields may contain commas, quotes and newlines
+export const parseCsv = (text: string): string[][] => {
+  const input = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Spreadsheet apps run a cell that starts with one of these as a formula
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+// Prefix text a spreadsheet would run as a formula with an apostrophe, so it stays text
+export const protectFormula = (value: string): string => {
+  return FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+};
+
+// Undo protectFormula on a cell read back from a file
+export const unprotectFormula = (value: string): string => {
+  return value.startsWith("'") && FORMULA_TRIGGER.test(value.slice(1)) ? value.slice(1) : value;
+};
+
+const escapeField = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Build a CSV document (with BOM and CRLF line endings) from a header and rows
+export const toCsv = (header: string[], rows: string[][]): string => {
+  const lines = [header, ...rows].map(fields => fields.map(escapeField).join(','));
+  return `${UTF8_BOM}${lines.join('\r\n')}\r\n`;
+};
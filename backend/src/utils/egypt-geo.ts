@@ -0,0 +1,83 @@
+// backend/src/utils/egypt-geo.ts
+
+// Climate regions used to tell which plants are common where
+export const EGYPT_REGIONS = [
+  'greater-cairo',
+  'delta',
+  'mediterranean-coast',
+  'canal',
+  'upper-egypt',
+  'red-sea-sinai',
+  'western-desert',
+] as const;
+
+export type EgyptRegion = typeof EGYPT_REGIONS[number];
+
+export interface Governorate {
+  name: string;
+  nameAr: string;
+  region: EgyptRegion;
+  latitude: number; // Capital city
+  longitude: number;
+}
+
+export const GOVERNORATES: Governorate[] = [
+  { name: 'Cairo', nameAr: 'القاهرة', region: 'greater-cairo', latitude: 30.0444, longitude: 31.2357 },
+  { name: 'Giza', nameAr: 'الجيزة', region: 'greater-cairo', latitude: 30.0131, longitude: 31.2089 },
+  { name: 'Qalyubia', nameAr: 'القليوبية', region: 'delta', latitude: 30.4660, longitude: 31.1858 },
+  { name: 'Alexandria', nameAr: 'الإسكندرية', region: 'mediterranean-coast', latitude: 31.2001, longitude: 29.9187 },
+  { name: 'Beheira', nameAr: 'البحيرة', region: 'delta', latitude: 31.0341, longitude: 30.4682 },
+  { name: 'Kafr El Sheikh', nameAr: 'كفر الشيخ', region: 'delta', latitude: 31.1107, longitude: 30.9388 },
+  { name: 'Dakahlia', nameAr: 'الدقهلية', region: 'delta', latitude: 31.0409, longitude: 31.3785 },
+  { name: 'Gharbia', nameAr: 'الغربية', region: 'delta', latitude: 30.7865, longitude: 31.0004 },
+  { name: 'Monufia', nameAr: 'المنوفية', region: 'delta', latitude: 30.5972, longitude: 30.9876 },
+  { name: 'Sharqia', nameAr: 'الشرقية', region: 'delta', latitude: 30.5877, longitude: 31.5020 },
+  { name: 'Damietta', nameAr: 'دمياط', region: 'mediterranean-coast', latitude: 31.4175, longitude: 31.8144 },
+  { name: 'Port Said', nameAr: 'بورسعيد', region: 'canal', latitude: 31.2653, longitude: 32.3019 },
+  { name: 'Ismailia', nameAr: 'الإسماعيلية', region: 'canal', latitude: 30.5965, longitude: 32.2715 },
+  { name: 'Suez', nameAr: 'السويس', region: 'canal', latitude: 29.9668, longitude: 32.5498 },
+  { name: 'Faiyum', nameAr: 'الفيوم', region: 'upper-egypt', latitude: 29.3084, longitude: 30.8428 },
+  { name: 'Beni Suef', nameAr: 'بني سويف', region: 'upper-egypt', latitude: 29.0661, longitude: 31.0994 },
+  { name: 'Minya', nameAr: 'المنيا', region: 'upper-egypt', latitude: 28.0871, longitude: 30.7618 },
+  { name: 'Asyut', nameAr: 'أسيوط', region: 'upper-egypt', latitude: 27.1783, longitude: 31.1859 },
+  { name: 'Sohag', nameAr: 'سوهاج', region: 'upper-egypt', latitude: 26.5591, longitude: 31.6957 },
+  { name: 'Qena', nameAr: 'قنا', region: 'upper-egypt', latitude: 26.1551, longitude: 32.7160 },
+  { name: 'Luxor', nameAr: 'الأقصر', region: 'upper-egypt', latitude: 25.6872, longitude: 32.6396 },
+  { name: 'Aswan', nameAr: 'أسوان', region: 'upper-egypt', latitude: 24.0889, longitude: 32.8998 },
+  { name: 'Red Sea', nameAr: 'البحر الأحمر', region: 'red-sea-sinai', latitude: 27.2579, longitude: 33.8116 },
+  { name: 'South Sinai', nameAr: 'جنوب سيناء', region: 'red-sea-sinai', latitude: 28.2415, longitude: 33.6222 },
+  { name: 'North Sinai', nameAr: 'شمال سيناء', region: 'red-sea-sinai', latitude: 31.1316, longitude: 33.7984 },
+  { name: 'Matrouh', nameAr: 'مطروح', region: 'mediterranean-coast', latitude: 31.3543, longitude: 27.2373 },
+  { name: 'New Valley', nameAr: 'الوادي الجديد', region: 'western-desert', latitude: 25.4390, longitude: 30.5586 },
+];
+
+// Points further than this from every capital are treated as outside Egypt
+const MAX_DISTANCE_KM = 250;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+// Great-circle distance in kilometres
+export const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Governorate whose capital is nearest to the coordinates
+export const findGovernorate = (latitude: number, longitude: number): Governorate | null => {
+  let nearest: Governorate | null = null;
+  let nearestDistance = Infinity;
+
+  for (const governorate of GOVERNORATES) {
+    const distance = distanceKm(latitude, longitude, governorate.latitude, governorate.longitude);
+    if (distance < nearestDistance) {
+      nearest = governorate;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearestDistance <= MAX_DISTANCE_KM ? nearest : null;
+};
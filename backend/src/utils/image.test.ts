@@ -0,0 +1,26 @@
+// backend/src/utils/image.test.ts
+import { sniffImageType } from './image';
+
+const bytes = (...values: number[]): Buffer => Buffer.from(values);
+
+describe('sniffImageType', () => {
+  it.each([
+    ['JPEG', bytes(0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10), 'image/jpeg'],
+    ['PNG', bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00), 'image/png'],
+    ['WebP', Buffer.concat([Buffer.from('RIFF'), bytes(0x24, 0, 0, 0), Buffer.from('WEBPVP8 ')]), 'image/webp'],
+  ])('recognizes %s by its magic bytes', (_format, buffer, type) => {
+    expect(sniffImageType(buffer)).toBe(type);
+  });
+
+  it.each([
+    ['an empty file', Buffer.alloc(0)],
+    ['a truncated JPEG header', bytes(0xff, 0xd8)],
+    ['a truncated PNG header', bytes(0x89, 0x50, 0x4e, 0x47)],
+    ['GIF', Buffer.from('GIF89a')],
+    ['a RIFF file that is not WebP', Buffer.concat([Buffer.from('RIFF'), bytes(0x24, 0, 0, 0), Buffer.from('WAVEfmt ')])],
+    ['HTML sent as image/jpeg', Buffer.from('<html><script>alert(1)</script></html>')],
+    ['SVG', Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"></svg>')],
+  ])('rejects %s', (_case, buffer) => {
+    expect(sniffImageType(buffer)).toBeNull();
+  });
+});
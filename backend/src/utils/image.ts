@@ -0,0 +1,24 @@
+// backend/src/utils/image.ts
+
+export type ImageMimeType = 'image/jpeg' | 'image/png' | 'image/webp';
+
+// File extension for each accepted image type
+export const IMAGE_EXTENSIONS: Record<ImageMimeType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+// Image type from the file's magic bytes; the client's Content-Type is not trusted
+export const sniffImageType = (buffer: Buffer): ImageMimeType | null => {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+};
@@ -0,0 +1,49 @@
+// backend/src/utils/text-similarity.ts
+
+// Lowercase, drop punctuation and collapse whitespace; keeps Arabic letters
+export const normalizeText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Number of single-character edits turning one string into the other
+export const levenshteinDistance = (a: string, b: string): number => {
+  if (a === b) {
+    return 0;
+  }
+  if (!a.length || !b.length) {
+    return Math.max(a.length, b.length);
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// 1 for identical strings, 0 for completely different ones
+export const editSimilarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshteinDistance(a, b) / longest;
+};
+
+// Share of the target's tokens that appear in the source
+export const tokenOverlap = (sourceTokens: string[], targetTokens: string[]): number => {
+  if (targetTokens.length === 0) {
+    return 0;
+  }
+
+  const source = new Set(sourceTokens);
+  return targetTokens.filter(token => source.has(token)).length / targetTokens.length;
+};
@@ -0,0 +1,107 @@
+// backend/src/utils/timezone.ts
+
+// Most of our users are in Egypt, so Cairo is the fallback for unknown zones
+export const DEFAULT_TIMEZONE = 'Africa/Cairo';
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export const isValidTimezone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const resolveTimezone = (timeZone: string | null | undefined): string => {
+  return timeZone && isValidTimezone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+};
+
+// Wall-clock date and time of an instant in the given IANA time zone
+export const getZonedParts = (date: Date, timeZone: string): ZonedDateParts => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find(part => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+// Offset of the time zone from UTC at the given instant, in minutes
+const getOffsetMinutes = (date: Date, timeZone: string): number => {
+  const p = getZonedParts(date, timeZone);
+  const wallClockAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((wallClockAsUtc - instant) / 60000);
+};
+
+// UTC instant of a wall-clock time in the given time zone
+export const zonedTimeToUtc = (
+  parts: Pick<ZonedDateParts, 'year' | 'month' | 'day'>,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date => {
+  const guess = Date.UTC(parts.year, parts.month - 1, parts.day, hour, minute);
+  const firstOffset = getOffsetMinutes(new Date(guess), timeZone);
+  // Re-check with the corrected instant in case a DST switch lies in between
+  const offset = getOffsetMinutes(new Date(guess - firstOffset * 60000), timeZone);
+  return new Date(guess - offset * 60000);
+};
+
+// YYYY-MM-DD of the local date
+export const formatLocalDate = (parts: Pick<ZonedDateParts, 'year' | 'month' | 'day'>): string => {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+};
+
+// Number of local calendar days from one instant to a later one; negative when it lies before
+export const differenceInLocalDays = (later: Date, earlier: Date, timeZone: string): number => {
+  const toDayNumber = (date: Date): number => {
+    const p = getZonedParts(date, timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day) / 86400000;
+  };
+  return toDayNumber(later) - toDayNumber(earlier);
+};
+
+// First day of the local month, a number of months earlier
+export const startOfLocalMonth = (
+  parts: Pick<ZonedDateParts, 'year' | 'month'>,
+  monthsBefore: number = 0
+): Pick<ZonedDateParts, 'year' | 'month' | 'day'> => {
+  const date = new Date(Date.UTC(parts.year, parts.month - 1 - monthsBefore, 1));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: 1 };
+};
+
+// Local calendar date a number of days later
+export const addLocalDays = (
+  parts: Pick<ZonedDateParts, 'year' | 'month' | 'day'>,
+  days: number
+): Pick<ZonedDateParts, 'year' | 'month' | 'day'> => {
+  const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
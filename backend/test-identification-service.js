@@ -7,7 +7,7 @@ async function testIdentificationService() {
   try {
     // Test 1: Identify a known plant
     console.log('\n1. Testing plant identification...');
-    const result1 = identificationService.identifyPlant('pothos');
+    const result1 = await identificationService.identifyPlant('pothos');
     console.log('✅ Pothos identification:', result1.success);
     if (result1.success && result1.data) {
       console.log('  - Scientific:', result1.data.scientific);
@@ -18,7 +18,7 @@ async function testIdentificationService() {
 
     // Test 2: Identify another plant by scientific name
     console.log('\n2. Testing identification by scientific name...');
-    const result2 = identificationService.identifyPlant('Sansevieria');
+    const result2 = await identificationService.identifyPlant('Sansevieria');
     console.log('✅ Snake plant identification:', result2.success);
     if (result2.success && result2.data) {
       console.log('  - English:', result2.data.names.english);
@@ -27,7 +27,7 @@ async function testIdentificationService() {
 
     // Test 3: Unknown plant
     console.log('\n3. Testing unknown plant...');
-    const result3 = identificationService.identifyPlant('unknown mysterious plant');
+    const result3 = await identificationService.identifyPlant('unknown mysterious plant');
     console.log('✅ Unknown plant handling:', result3.success);
     if (result3.success && result3.data) {
       console.log('  - Result:', result3.data.names.english);
@@ -36,14 +36,14 @@ async function testIdentificationService() {
 
     // Test 4: Get all available plants
     console.log('\n4. Testing get all plants...');
-    const allPlants = identificationService.getAvailablePlants();
+    const allPlants = await identificationService.getAvailablePlants();
     console.log('✅ Available plants retrieved:', allPlants.length, 'plants');
     console.log('  - First plant:', allPlants[0]?.names.english);
     console.log('  - Last plant:', allPlants[allPlants.length - 1]?.names.english);
 
     // Test 5: Get specific plant care
     console.log('\n5. Testing specific plant care...');
-    const careInfo = identificationService.getPlantCare('aloe-vera');
+    const careInfo = await identificationService.getPlantCare('aloe-vera');
     console.log('✅ Aloe vera care info retrieved');
     console.log('  - English name:', careInfo.names.english);
     console.log('  - Watering:', careInfo.care.water);
@@ -51,7 +51,7 @@ async function testIdentificationService() {
 
     // Test 6: Search plants
     console.log('\n6. Testing plant search...');
-    const searchResults = identificationService.searchPlants('mint');
+    const searchResults = await identificationService.searchPlants('mint');
     console.log('✅ Search results for "mint":', searchResults.length, 'results');
     if (searchResults.length > 0) {
       console.log('  - Found:', searchResults[0].names.english);
@@ -59,7 +59,7 @@ async function testIdentificationService() {
 
     // Test 7: Database stats
     console.log('\n7. Testing database stats...');
-    const stats = identificationService.getDatabaseStats();
+    const stats = await identificationService.getDatabaseStats();
     console.log('✅ Database stats:');
     console.log('  - Total plants:', stats.total);
     console.log('  - Indoor plants:', stats.byEnvironment.indoor);
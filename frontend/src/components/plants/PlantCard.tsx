@@ -1,12 +1,13 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import type { Plant } from '@types/api';
+import type { CareTask, Plant } from '@types/api';
 
 interface PlantCardProps {
   plant: Plant;
+  careTasks?: CareTask[]; // Due and overdue tasks for this plant from /care/due
 }
 
-const PlantCard: React.FC<PlantCardProps> = ({ plant }) => {
+const PlantCard: React.FC<PlantCardProps> = ({ plant, careTasks = [] }) => {
   // Calculate days since last watering
   const getDaysSinceWatering = () => {
     if (!plant.lastWateredAt) return null;
@@ -16,21 +17,25 @@ const PlantCard: React.FC<PlantCardProps> = ({ plant }) => {
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   };
 
-  // Determine health status
+  // Health is scored by the server; the watering schedule only refines the label
   const getHealthStatus = () => {
-    const daysSinceWatering = getDaysSinceWatering();
-    const wateringFreq = plant.wateringFrequency || 7;
-    
-    if (!daysSinceWatering) {
+    if (plant.healthScore === null || plant.healthScore === undefined) {
       return { status: 'unknown', color: 'bg-gray-400', text: 'Unknown' };
     }
-    
-    if (daysSinceWatering <= wateringFreq) {
-      return { status: 'healthy', color: 'bg-plant-healthy', text: 'Healthy' };
-    } else if (daysSinceWatering <= wateringFreq + 2) {
-      return { status: 'warning', color: 'bg-needs-attention', text: 'Needs Water' };
-    } else {
-      return { status: 'critical', color: 'bg-critical-care', text: 'Urgent Care' };
+
+    const needsWater = careTasks.some((task) => task.type === 'WATERING' && task.daysUntilDue <= 0);
+
+    switch (plant.healthStatus) {
+      case 'GOOD':
+        return needsWater
+          ? { status: 'warning', color: 'bg-needs-attention', text: 'Needs Water' }
+          : { status: 'healthy', color: 'bg-plant-healthy', text: 'Healthy' };
+      case 'NEEDS_ATTENTION':
+        return { status: 'warning', color: 'bg-needs-attention', text: needsWater ? 'Needs Water' : 'Needs Attention' };
+      case 'POOR':
+        return { status: 'critical', color: 'bg-critical-care', text: 'Poor Health' };
+      default:
+        return { status: 'critical', color: 'bg-critical-care', text: 'Urgent Care' };
     }
   };
 
@@ -54,7 +59,17 @@ const PlantCard: React.FC<PlantCardProps> = ({ plant }) => {
     >
       {/* Plant Image */}
       <div className="relative h-32 bg-gradient-to-br from-lotus-green/10 to-nile-blue/10 flex items-center justify-center">
-        {plant.primaryImageUrl ? (
+        {plant.primaryImageRenditions ? (
+          <picture className="w-full h-full">
+            <source srcSet={plant.primaryImageRenditions.card.webp} type="image/webp" />
+            <img 
+              src={plant.primaryImageRenditions.card.jpeg} 
+              alt={plant.name}
+              className="w-full h-full object-cover"
+              loading="lazy"
+            />
+          </picture>
+        ) : plant.primaryImageUrl ? (
           <img 
             src={plant.primaryImageUrl} 
             alt={plant.name}
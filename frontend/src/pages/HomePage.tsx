@@ -22,6 +22,12 @@ const HomePage: React.FC = () => {
     queryFn: () => apiClient.getPlantStats(),
   });
 
+  // Fetch care that is due today or overdue
+  const { data: dueCareResponse } = useQuery({
+    queryKey: ['due-care'],
+    queryFn: () => apiClient.getDueCare(),
+  });
+
   // Fetch recent care actions
   const { data: recentCareResponse } = useQuery({
     queryKey: ['recent-care'],
@@ -31,6 +37,10 @@ const HomePage: React.FC = () => {
   const plants = plantsResponse?.data?.plants || [];
   const stats = statsResponse?.data?.stats;
   const recentCare = recentCareResponse?.data?.recentActions || [];
+  const dueTasks = [
+    ...(dueCareResponse?.data?.overdue || []),
+    ...(dueCareResponse?.data?.today || []),
+  ];
 
   const getTimeGreeting = () => {
     const hour = new Date().getHours();
@@ -122,7 +132,11 @@ const HomePage: React.FC = () => {
         ) : (
           <div className="grid grid-cols-2 gap-4">
             {plants.slice(0, 4).map((plant) => (
-              <PlantCard key={plant.id} plant={plant} />
+              <PlantCard
+                key={plant.id}
+                plant={plant}
+                careTasks={dueTasks.filter((task) => task.plantId === plant.id)}
+              />
             ))}
           </div>
         )}
@@ -155,6 +169,7 @@ const HomePage: React.FC = () => {
                     {care.type === 'PRUNING' && '✂️'}
                     {care.type === 'REPOTTING' && '🪴'}
                     {care.type === 'OBSERVATION' && '👁️'}
+                    {care.type === 'TREATMENT' && '🧴'}
                   </div>
                   <div className="flex-1">
                     <p className="text-body font-medium">{care.plantName}</p>
@@ -11,11 +11,35 @@ import type {
   PlantStats,
   CareLog,
   CreateCareLogRequest,
+  UpdateCareLogRequest,
+  BulkCareLogRequest,
+  BulkCareResponse,
   CareStats,
+  FertilizerStats,
+  DueCareResponse,
+  AdoptIdentificationRequest,
+  AdoptIdentificationResponse,
+  IdentificationContext,
+  IdentificationFeedbackRequest,
+  IdentificationRecord,
   IdentifyPlantRequest,
   IdentifyPlantResponse,
+  IdentifyPlantImageResponse,
   DatabasePlant,
   PaginatedResponse,
+  PlantListResponse,
+  PlantQuery,
+  TrashedPlant,
+  Space,
+  CreateSpaceRequest,
+  UpdateSpaceRequest,
+  SpaceCareRequest,
+  UploadedFile,
+  HealthAssessment,
+  PlantPhoto,
+  PlantTimelineEntry,
+  AddPlantPhotoRequest,
+  UpdatePlantPhotoRequest,
 } from '@types/api';
 
 // API Base Configuration
@@ -119,6 +143,7 @@ class ApiClient {
   // Authentication API
   async register(data: Omit<RegisterRequest, 'deviceId'>): Promise<ApiResponse<{ user: User }>> {
     const response = await this.client.post('/auth/register', {
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       ...data,
       deviceId: this.getDeviceId(),
     });
@@ -154,8 +179,8 @@ class ApiClient {
   }
 
   // Plant Management API
-  async getPlants(): Promise<ApiResponse<PaginatedResponse<Plant>>> {
-    const response = await this.client.get('/plants');
+  async getPlants(query: PlantQuery = {}): Promise<ApiResponse<PlantListResponse>> {
+    const response = await this.client.get('/plants', { params: query });
     return response.data;
   }
 
@@ -179,17 +204,108 @@ class ApiClient {
     return response.data;
   }
 
+  async getPlantTrash(): Promise<ApiResponse<{ plants: TrashedPlant[]; count: number }>> {
+    const response = await this.client.get('/plants/trash');
+    return response.data;
+  }
+
+  async restorePlant(id: string): Promise<ApiResponse<{ plant: Plant }>> {
+    const response = await this.client.post(`/plants/${id}/restore`);
+    return response.data;
+  }
+
+  async getPlantHealth(id: string): Promise<ApiResponse<{ health: HealthAssessment }>> {
+    const response = await this.client.get(`/plants/${id}/health`);
+    return response.data;
+  }
+
+  // Plant Photo Journal API
+  async getPlantPhotos(plantId: string): Promise<ApiResponse<{ photos: PlantPhoto[]; count: number }>> {
+    const response = await this.client.get(`/plants/${plantId}/photos`);
+    return response.data;
+  }
+
+  async getPlantTimeline(plantId: string): Promise<ApiResponse<{ timeline: PlantTimelineEntry[]; count: number }>> {
+    const response = await this.client.get(`/plants/${plantId}/photos/timeline`);
+    return response.data;
+  }
+
+  async addPlantPhoto(plantId: string, data: AddPlantPhotoRequest): Promise<ApiResponse<{ photo: PlantPhoto }>> {
+    const response = await this.client.post(`/plants/${plantId}/photos`, data);
+    return response.data;
+  }
+
+  async updatePlantPhoto(
+    plantId: string,
+    photoId: string,
+    data: UpdatePlantPhotoRequest
+  ): Promise<ApiResponse<{ photo: PlantPhoto }>> {
+    const response = await this.client.patch(`/plants/${plantId}/photos/${photoId}`, data);
+    return response.data;
+  }
+
+  async reorderPlantPhotos(plantId: string, photoIds: string[]): Promise<ApiResponse<{ photos: PlantPhoto[] }>> {
+    const response = await this.client.put(`/plants/${plantId}/photos/order`, { photoIds });
+    return response.data;
+  }
+
+  async setPrimaryPlantPhoto(plantId: string, photoId: string): Promise<ApiResponse<{ photo: PlantPhoto }>> {
+    const response = await this.client.post(`/plants/${plantId}/photos/${photoId}/primary`);
+    return response.data;
+  }
+
+  async deletePlantPhoto(plantId: string, photoId: string): Promise<ApiResponse<void>> {
+    const response = await this.client.delete(`/plants/${plantId}/photos/${photoId}`);
+    return response.data;
+  }
+
   async getPlantStats(): Promise<ApiResponse<{ stats: PlantStats }>> {
     const response = await this.client.get('/plants/stats');
     return response.data;
   }
 
+  // Spaces API
+  async getSpaces(): Promise<ApiResponse<{ spaces: Space[]; count: number }>> {
+    const response = await this.client.get('/spaces');
+    return response.data;
+  }
+
+  async getSpace(id: string): Promise<ApiResponse<{ space: Space }>> {
+    const response = await this.client.get(`/spaces/${id}`);
+    return response.data;
+  }
+
+  async createSpace(data: CreateSpaceRequest): Promise<ApiResponse<{ space: Space }>> {
+    const response = await this.client.post('/spaces', data);
+    return response.data;
+  }
+
+  async updateSpace(id: string, data: UpdateSpaceRequest): Promise<ApiResponse<{ space: Space }>> {
+    const response = await this.client.patch(`/spaces/${id}`, data);
+    return response.data;
+  }
+
+  async deleteSpace(id: string): Promise<ApiResponse<void>> {
+    const response = await this.client.delete(`/spaces/${id}`);
+    return response.data;
+  }
+
+  async logSpaceCare(id: string, data: SpaceCareRequest): Promise<ApiResponse<{ careLogs: CareLog[]; count: number }>> {
+    const response = await this.client.post(`/spaces/${id}/care`, data);
+    return response.data;
+  }
+
   // Care Logging API
   async logCareAction(data: CreateCareLogRequest): Promise<ApiResponse<{ careLog: CareLog }>> {
     const response = await this.client.post('/care', data);
     return response.data;
   }
 
+  async logBulkCareAction(data: BulkCareLogRequest): Promise<ApiResponse<BulkCareResponse>> {
+    const response = await this.client.post('/care/bulk', data);
+    return response.data;
+  }
+
   async getPlantCareHistory(plantId: string, limit = 20): Promise<ApiResponse<PaginatedResponse<CareLog>>> {
     const response = await this.client.get(`/care/plant/${plantId}?limit=${limit}`);
     return response.data;
@@ -205,7 +321,17 @@ class ApiClient {
     return response.data;
   }
 
-  async updateCareLog(id: string, data: Partial<CreateCareLogRequest>): Promise<ApiResponse<{ careLog: CareLog }>> {
+  async getFertilizerStats(months = 6, plantId?: string): Promise<ApiResponse<{ stats: FertilizerStats }>> {
+    const response = await this.client.get('/care/stats/fertilizer', { params: { months, plantId } });
+    return response.data;
+  }
+
+  async getDueCare(days = 7): Promise<ApiResponse<DueCareResponse>> {
+    const response = await this.client.get(`/care/due?days=${days}`);
+    return response.data;
+  }
+
+  async updateCareLog(id: string, data: UpdateCareLogRequest): Promise<ApiResponse<{ careLog: CareLog }>> {
     const response = await this.client.put(`/care/${id}`, data);
     return response.data;
   }
@@ -221,6 +347,72 @@ class ApiClient {
     return response.data;
   }
 
+  async identifyPlantImage(
+    image: File,
+    description?: string,
+    context: IdentificationContext = {}
+  ): Promise<ApiResponse<IdentifyPlantImageResponse>> {
+    const formData = new FormData();
+    formData.append('image', image);
+    if (description) {
+      formData.append('description', description);
+    }
+    if (context.environment) {
+      formData.append('environment', context.environment);
+    }
+    if (context.lightCondition) {
+      formData.append('lightCondition', context.lightCondition);
+    }
+    if (context.location) {
+      formData.append('latitude', String(context.location.latitude));
+      formData.append('longitude', String(context.location.longitude));
+    }
+
+    const response = await this.client.post('/identify/image', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  }
+
+  async adoptIdentification(
+    identificationId: string,
+    data: AdoptIdentificationRequest = {}
+  ): Promise<ApiResponse<AdoptIdentificationResponse>> {
+    const response = await this.client.post(`/identify/${identificationId}/adopt`, data);
+    return response.data;
+  }
+
+  async sendIdentificationFeedback(
+    identificationId: string,
+    data: IdentificationFeedbackRequest
+  ): Promise<ApiResponse<{ identification: IdentificationRecord }>> {
+    const response = await this.client.post(`/identify/${identificationId}/feedback`, data);
+    return response.data;
+  }
+
+  async getIdentificationHistory(
+    limit = 20,
+    offset = 0
+  ): Promise<ApiResponse<{ identifications: IdentificationRecord[]; count: number; total: number }>> {
+    const response = await this.client.get(`/identify/history?limit=${limit}&offset=${offset}`);
+    return response.data;
+  }
+
+  async uploadFile(file: File): Promise<ApiResponse<{ file: UploadedFile }>> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await this.client.post('/uploads', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  }
+
+  async getUpload(uploadId: string): Promise<ApiResponse<{ file: UploadedFile }>> {
+    const response = await this.client.get(`/uploads/${uploadId}`);
+    return response.data;
+  }
+
   async getPlantDatabase(): Promise<ApiResponse<PaginatedResponse<DatabasePlant>>> {
     const response = await this.client.get('/identify/database');
     return response.data;
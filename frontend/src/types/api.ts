@@ -45,6 +45,7 @@ export interface RegisterRequest {
   firstName: string;
   lastName: string;
   deviceId: string;
+  timezone?: string; // IANA zone care reminders follow
 }
 
 export interface LoginRequest {
@@ -54,6 +55,20 @@ export interface LoginRequest {
 }
 
 // Plant Types
+export type HealthStatus = 'GOOD' | 'NEEDS_ATTENTION' | 'POOR' | 'CRITICAL';
+
+export interface HealthAssessment {
+  plantId: string;
+  score: number;
+  status: HealthStatus;
+  factors: Array<{
+    factor: 'overdue_care' | 'care_adherence' | 'open_diagnoses' | 'observations';
+    impact: number;
+    detail: string;
+  }>;
+  assessedAt: string;
+}
+
 export interface Plant {
   id: string;
   name: string;
@@ -66,13 +81,17 @@ export interface Plant {
   temperatureMax?: number;
   humidityRequirement?: 'low' | 'moderate' | 'high';
   primaryImageUrl?: string;
+  primaryImageRenditions: ImageRenditions | null; // Resized copies of primaryImageUrl, once ready
   location?: string; // JSON string
-  healthStatus: string;
-  healthScore?: number;
+  spaceId?: string | null;
+  environment: 'indoor' | 'outdoor';
+  healthStatus: HealthStatus;
+  healthScore?: number | null; // 0-100, computed by the server
   lastWateredAt?: string;
   lastFertilizedAt?: string;
   lastPrunedAt?: string;
   lastRepottedAt?: string;
+  nextCareDueAt?: string | null; // Earliest due care task
   acquisitionDate?: string;
   source?: string;
   age?: number;
@@ -81,6 +100,67 @@ export interface Plant {
   userId: string;
 }
 
+export interface TrashedPlant extends Plant {
+  deletedAt: string;
+  purgeAt: string; // When the plant will be deleted for good
+}
+
+export interface PlantQuery {
+  limit?: number; // 1-100, default 20
+  offset?: number;
+  cursor?: string; // nextCursor of the previous page; not with offset
+  search?: string; // Name, scientific name or variety
+  healthStatus?: HealthStatus;
+  sunlight?: 'full' | 'partial' | 'shade';
+  location?: string; // Room, city...
+  spaceId?: string;
+  environment?: 'indoor' | 'outdoor';
+  careDue?: 'overdue' | 'today' | 'week';
+  sort?: 'name' | 'createdAt' | 'nextCareDueAt';
+  order?: 'asc' | 'desc';
+}
+
+export interface PlantListResponse {
+  plants: Plant[];
+  count: number;
+  pagination: Pagination;
+}
+
+export interface PlantPhoto {
+  id: string;
+  plantId: string;
+  url: string;
+  caption: string | null;
+  takenAt: string;
+  position: number;
+  careLogId: string | null;
+  diagnosisId: string | null;
+  createdAt: string;
+  isPrimary: boolean;
+  renditions: ImageRenditions | null;
+}
+
+export interface PlantTimelineEntry extends PlantPhoto {
+  careLog: { id: string; type: string; notes: string | null; performedAt: string } | null;
+  diagnosis: { id: string; diagnosis: string | null; severity: string | null; status: string; createdAt: string } | null;
+}
+
+export interface AddPlantPhotoRequest {
+  url: string; // URL returned by uploadFile
+  caption?: string;
+  takenAt?: string;
+  careLogId?: string;
+  diagnosisId?: string;
+  setAsPrimary?: boolean;
+}
+
+export interface UpdatePlantPhotoRequest {
+  caption?: string | null;
+  takenAt?: string;
+  careLogId?: string | null;
+  diagnosisId?: string | null;
+}
+
 export interface CreatePlantRequest {
   name: string;
   scientificName?: string;
@@ -92,20 +172,111 @@ export interface CreatePlantRequest {
   temperatureMax?: number;
   humidityRequirement?: 'low' | 'moderate' | 'high';
   location?: string;
+  spaceId?: string | null; // null takes the plant out of its space
+  environment?: 'indoor' | 'outdoor'; // Defaults to the space's, then the species'
   acquisitionDate?: string;
   source?: string;
+  primaryImageUrl?: string; // URL returned by uploadFile
 }
 
 export interface UpdatePlantRequest extends Partial<CreatePlantRequest> {}
 
+export type SpaceEnvironment = 'indoor' | 'outdoor';
+export type LightExposure = 'low' | 'medium' | 'bright';
+export type Orientation = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+
+export interface Space {
+  id: string;
+  name: string;
+  userId: string;
+  environment: SpaceEnvironment;
+  lightExposure: LightExposure | null;
+  orientation: Orientation | null;
+  createdAt: string;
+  updatedAt: string;
+  plantCount: number;
+}
+
+export interface CreateSpaceRequest {
+  name: string;
+  environment?: SpaceEnvironment;
+  lightExposure?: LightExposure;
+  orientation?: Orientation;
+}
+
+export interface UpdateSpaceRequest {
+  name?: string;
+  environment?: SpaceEnvironment;
+  lightExposure?: LightExposure | null;
+  orientation?: Orientation | null;
+}
+
+export interface SpaceCareRequest {
+  type: 'WATERING' | 'FERTILIZING' | 'PRUNING' | 'REPOTTING';
+  notes?: string;
+  performedAt?: string;
+}
+
 export interface PlantStats {
   total: number;
   indoor: number;
   outdoor: number;
+  byHealthStatus: Record<HealthStatus, number>;
+  bySpace: Array<{ spaceId: string | null; name: string | null; count: number }>;
+  bySpecies: Array<{ scientificName: string; count: number }>;
+  careDueToday: number; // Overdue included
+  careOverdue: number;
 }
 
 // Care Logging Types
-export type CareType = 'WATERING' | 'FERTILIZING' | 'PRUNING' | 'REPOTTING' | 'OBSERVATION';
+export type CareType = 'WATERING' | 'FERTILIZING' | 'PRUNING' | 'REPOTTING' | 'OBSERVATION' | 'TREATMENT';
+
+// Care metadata, by care type; every field is optional and any type can link a diagnosis
+export interface WateringMetadata {
+  diagnosisId?: string;
+  volumeMl?: number;
+  method?: 'top' | 'bottom' | 'soak';
+}
+
+export interface FertilizingMetadata {
+  diagnosisId?: string;
+  product?: string;
+  npk?: string; // e.g. "10-10-10"
+  dilutionMlPerLiter?: number;
+  amountMl?: number; // Product used, before dilution
+}
+
+export interface PruningMetadata {
+  diagnosisId?: string;
+  amountRemoved?: 'light' | 'moderate' | 'heavy';
+}
+
+export interface RepottingMetadata {
+  diagnosisId?: string;
+  potSizeCm?: number;
+  soilMix?: string;
+}
+
+export interface ObservationMetadata {
+  diagnosisId?: string;
+  outcome?: 'improved' | 'same' | 'worse';
+}
+
+export interface TreatmentMetadata {
+  diagnosisId?: string;
+  product?: string;
+}
+
+export interface CareMetadataByType {
+  WATERING: WateringMetadata;
+  FERTILIZING: FertilizingMetadata;
+  PRUNING: PruningMetadata;
+  REPOTTING: RepottingMetadata;
+  OBSERVATION: ObservationMetadata;
+  TREATMENT: TreatmentMetadata;
+}
+
+export type CareMetadata = CareMetadataByType[CareType];
 
 export interface CareLog {
   id: string;
@@ -113,21 +284,51 @@ export interface CareLog {
   plantId: string;
   type: CareType;
   notes?: string;
-  metadata?: string; // JSON string
+  metadata: CareMetadata | null;
   imageUrl?: string;
   performedAt: string;
   createdAt: string;
 }
 
-export interface CreateCareLogRequest {
-  plantId: string;
-  type: CareType;
+// The care type picks the metadata fields
+export type CreateCareLogRequest = {
+  [T in CareType]: {
+    plantId: string;
+    type: T;
+    notes?: string;
+    metadata?: CareMetadataByType[T];
+    imageUrl?: string;
+    performedAt?: string;
+  };
+}[CareType];
+
+export interface UpdateCareLogRequest {
+  type?: CareType;
   notes?: string;
-  metadata?: string;
+  metadata?: CareMetadata | null; // Checked against the new or stored type; null clears it
   imageUrl?: string;
   performedAt?: string;
 }
 
+// Send either plantIds or spaceId
+export interface BulkCareLogRequest {
+  plantIds?: string[]; // Up to 100
+  spaceId?: string;
+  type: CareType;
+  notes?: string;
+  performedAt?: string;
+}
+
+export type BulkCareResult =
+  | { plantId: string; success: true; careLog: CareLog }
+  | { plantId: string; success: false; error: { code: string; message: string } };
+
+export interface BulkCareResponse {
+  results: BulkCareResult[];
+  logged: number;
+  failed: number;
+}
+
 export interface CareStats {
   totalActions: number;
   wateringActions: number;
@@ -139,6 +340,47 @@ export interface CareStats {
   mostActiveDay: string;
 }
 
+export interface FertilizerMonth {
+  month: string; // yyyy-MM
+  applications: number;
+  amountMl: number;
+  byProduct: Record<string, number>; // ml per product
+}
+
+export interface FertilizerStats {
+  months: FertilizerMonth[]; // Oldest first
+  totalApplications: number;
+  totalAmountMl: number;
+  startDate: string;
+}
+
+// Care Schedule Types
+export type ScheduledCareType = Exclude<CareType, 'OBSERVATION' | 'TREATMENT'>;
+
+export interface CareTask {
+  plantId: string;
+  plantName: string;
+  type: ScheduledCareType;
+  intervalDays: number;
+  lastPerformedAt: string | null;
+  nextDueAt: string;
+  daysUntilDue: number; // Negative when overdue
+  isOverdue: boolean;
+}
+
+export interface DueCareResponse {
+  today: CareTask[];
+  overdue: CareTask[];
+  upcoming: CareTask[];
+  upcomingDays: number;
+  generatedAt: string;
+  counts: {
+    today: number;
+    overdue: number;
+    upcoming: number;
+  };
+}
+
 // Plant Identification Types
 export interface PlantIdentification {
   names: {
@@ -154,33 +396,136 @@ export interface PlantIdentification {
   };
 }
 
+export interface IdentificationContext {
+  location?: {
+    latitude: number;
+    longitude: number;
+  };
+  environment?: 'indoor' | 'outdoor';
+  lightCondition?: 'low' | 'medium' | 'bright';
+}
+
 export interface IdentifyPlantRequest {
   description: string;
-  metadata?: {
+  metadata?: IdentificationContext;
+}
+
+export type IdentificationProviderName = 'vision' | 'keyword' | 'mock';
+
+export interface IdentificationGovernorate {
+  name: string;
+  nameAr: string;
+  region: string;
+}
+
+export interface IdentifyPlantResponse {
+  identificationId: string | null; // Pass to adoptIdentification ("Add to Garden")
+  identification: PlantIdentification;
+  provider: IdentificationProviderName | null;
+  candidates: DatabasePlant[];
+  metadata: {
+    searchTerm: string;
+    timestamp: string;
+    userId: string;
     location?: {
       latitude: number;
       longitude: number;
     };
     environment?: 'indoor' | 'outdoor';
     lightCondition?: 'low' | 'medium' | 'bright';
+    governorate: IdentificationGovernorate | null;
   };
 }
 
-export interface IdentifyPlantResponse {
+export interface IdentifyPlantImageResponse {
+  identificationId: string | null;
   identification: PlantIdentification;
+  provider: IdentificationProviderName | null;
+  candidates: DatabasePlant[];
+  attempts: Array<{
+    provider: IdentificationProviderName;
+    status: 'matched' | 'no_match' | 'failed';
+  }>;
   metadata: {
-    searchTerm: string;
+    filename: string;
+    size: number;
     timestamp: string;
     userId: string;
-    location?: {
-      latitude: number;
-      longitude: number;
-    };
     environment?: 'indoor' | 'outdoor';
     lightCondition?: 'low' | 'medium' | 'bright';
+    governorate: IdentificationGovernorate | null;
   };
 }
 
+export interface AdoptIdentificationRequest {
+  scientificName?: string; // Another candidate instead of the best match
+  name?: string;
+  location?: string;
+  acquisitionDate?: string;
+}
+
+export interface AdoptIdentificationResponse {
+  plant: Plant;
+  identificationId: string;
+  alreadyAdopted: boolean; // The identification had been adopted before; this is that plant
+}
+
+export type IdentificationFeedbackRequest =
+  | { verdict: 'correct' }
+  | { verdict: 'wrong'; actual?: string }; // What the plant really was, in any language
+
+export interface IdentificationRecord {
+  id: string;
+  description: string | null;
+  imageUrl: string | null;
+  provider: IdentificationProviderName | null;
+  speciesKey: string | null;
+  scientificName: string;
+  confidence: number;
+  candidates: DatabasePlant[];
+  plantId: string | null;
+  adoptedAt: string | null;
+  feedback: 'correct' | 'wrong' | null;
+  actualSpeciesKey: string | null;
+  actualName: string | null;
+  feedbackAt: string | null;
+  createdAt: string;
+}
+
+export interface ImageRendition {
+  width: number;
+  height: number;
+  webp: string;
+  jpeg: string;
+}
+
+export interface ImageRenditions {
+  thumb: ImageRendition; // 160x160, cropped
+  card: ImageRendition; // Up to 480px
+  full: ImageRendition; // Up to 1600px
+}
+
+export interface UploadedFile {
+  id: string;
+  key: string;
+  url: string;
+  contentType: 'image/jpeg' | 'image/png' | 'image/webp';
+  size: number;
+  width: number;
+  height: number;
+  status: 'PENDING' | 'READY' | 'FAILED';
+  renditions: ImageRenditions | null;
+  createdAt: string;
+}
+
+export interface SpeciesRequirements {
+  wateringIntervalDays: { min: number; max: number };
+  light: { min: 'low' | 'medium' | 'bright'; max: 'low' | 'medium' | 'bright'; directSun: boolean };
+  environment: 'indoor' | 'outdoor' | 'both';
+  temperatureC: { min: number; max: number };
+  humidityPercent: { min: number; max: number };
+}
+
 export interface DatabasePlant {
   id: string;
   names: {
@@ -195,20 +540,30 @@ export interface DatabasePlant {
     temperature?: string;
     humidity?: string;
   };
+  requirements?: SpeciesRequirements;
+  regions?: string[];
+  aliases?: string[];
+  careGuide?: { en: string; ar: string } | null;
+  referencePhotos?: Array<{ id: string; url: string; uploadedAt: string }>;
   matchScore?: number;
+  adjustments?: Array<'indoor_only' | 'outdoor_only' | 'needs_more_light' | 'common_in_region'>;
 }
 
 // Pagination Types
+export interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+  offset?: number;
+  nextCursor?: string | null; // Null on the last page
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
-  pagination?: {
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-    hasNextPage: boolean;
-    hasPrevPage: boolean;
-  };
+  pagination?: Pagination;
   count: number;
 }
 